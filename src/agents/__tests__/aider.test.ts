@@ -0,0 +1,134 @@
+/**
+ * Aider Agent Tests
+ *
+ * Tests output parsing and a full run against a fake aider script on PATH.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { AiderAgent, AiderOutputParser, parseTokenCount, parseUsageLine } from '../aider';
+import { AgentEvent } from '../types';
+
+const FAKE_OUTPUT = `Aider v0.86.1
+Main model: anthropic/claude-sonnet-4 with diff edit format
+Weak model: anthropic/claude-haiku
+Git repo: none
+Repo-map: disabled
+
+Add src/math.js to the chat? (Y)es/(N)o/(D)on't ask again [Yes]: y
+I'll fix the off-by-one error in \`sum\`.
+
+src/math.js
+Applied edit to src/math.js
+Tokens: 2.3k sent, 1.2k cache hit, 150 received. Cost: $0.0093 message, $0.0093 session.
+Running npm test
+Tokens: 3.1k sent, 90 received. Cost: $0.0050 message, $0.0143 session.
+`;
+
+const FAKE_AIDER = `#!/bin/sh
+if [ "$1" = "--version" ]; then
+  echo "aider 0.86.1"
+  exit 0
+fi
+echo "$@" > args.txt
+cat <<'EOF'
+${FAKE_OUTPUT}EOF
+`;
+
+describe('parseUsageLine', () => {
+  it('should parse token counts with k suffixes and cache fields', () => {
+    const usage = parseUsageLine(
+      'Tokens: 12k sent, 3.1k cache write, 1.2k cache hit, 250 received. Cost: $0.01 message, $0.02 session.'
+    );
+
+    expect(usage?.tokens).toEqual({
+      inputTokens: 12000,
+      outputTokens: 250,
+      cacheReadTokens: 1200,
+      cacheWriteTokens: 3100,
+      totalTokens: 12250,
+    });
+    expect(usage?.messageCostUsd).toBe(0.01);
+    expect(usage?.sessionCostUsd).toBe(0.02);
+  });
+
+  it('should ignore other lines', () => {
+    expect(parseUsageLine('Applied edit to a.js')).toBeNull();
+    expect(parseTokenCount('1.5M')).toBe(1500000);
+  });
+});
+
+describe('AiderOutputParser', () => {
+  it('should separate the answer from edits, commands and usage', () => {
+    const events: AgentEvent[] = [];
+    const parser = new AiderOutputParser((e) => events.push(e));
+    FAKE_OUTPUT.split('\n').forEach((line) => parser.push(line));
+
+    expect(parser.model).toBe('anthropic/claude-sonnet-4');
+    expect(parser.answer).toBe("I'll fix the off-by-one error in `sum`.\n\nsrc/math.js");
+    expect(parser.toolCalls.map((t) => t.name)).toEqual(['Read', 'Edit', 'Bash']);
+    expect(parser.toolCalls[1].input).toEqual({ file_path: 'src/math.js' });
+    expect(parser.tokens.inputTokens).toBe(5400);
+    expect(parser.tokens.outputTokens).toBe(240);
+    expect(parser.costUsd).toBe(0.0143);
+    expect(parser.numTurns).toBe(2);
+    expect(events[0].type).toBe('start');
+    expect(events.filter((e) => e.type === 'tool_start')).toHaveLength(3);
+  });
+});
+
+describe('AiderAgent', () => {
+  let binDir: string;
+  let workDir: string;
+  const originalPath = process.env.PATH;
+
+  beforeEach(() => {
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-aider-bin-'));
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-aider-work-'));
+    const script = path.join(binDir, 'aider');
+    fs.writeFileSync(script, FAKE_AIDER);
+    fs.chmodSync(script, 0o755);
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(binDir, { recursive: true, force: true });
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should report availability and version', async () => {
+    const agent = new AiderAgent();
+    expect(await agent.isAvailable()).toBe(true);
+    expect(await agent.getVersion()).toBe('0.86.1');
+  });
+
+  it('should not be available when the CLI is missing', async () => {
+    const agent = new AiderAgent(path.join(binDir, 'missing-aider'));
+    expect(await agent.isAvailable()).toBe(false);
+  });
+
+  it('should run non-interactively and build a result', async () => {
+    const events: AgentEvent[] = [];
+    const agent = new AiderAgent();
+
+    const result = await agent.run('Fix sum', {
+      cwd: workDir,
+      model: 'sonnet',
+      onEvent: (e) => events.push(e),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.model).toBe('anthropic/claude-sonnet-4');
+    expect(result.toolsUsed).toEqual(['Read', 'Edit', 'Bash']);
+    expect(result.costUsd).toBe(0.0143);
+    expect(events[events.length - 1].type).toBe('complete');
+
+    const args = fs.readFileSync(path.join(workDir, 'args.txt'), 'utf-8');
+    expect(args).toContain('--message Fix sum');
+    expect(args).toContain('--yes-always');
+    expect(args).toContain('--model sonnet');
+    expect(args).toContain('--no-git');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Command Agent Tests
+ *
+ * Tests YAML config loading, prompt passing modes and the JSON-lines event protocol.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  CommandAgent,
+  CommandAgentConfigError,
+  parseCommandAgentConfig,
+  loadCommandAgents,
+} from '../command';
+import { getAgentRegistry } from '../registry';
+
+const EVENTS_SCRIPT = `#!/bin/sh
+echo '{"type": "model", "model": "internal-1"}'
+echo '{"type": "tool_start", "id": "t1", "name": "Read", "input": {"file_path": "a.js"}}'
+echo '{"type": "tool_end", "id": "t1", "success": true, "durationMs": 5}'
+echo '{"type": "usage", "inputTokens": 100, "outputTokens": 20, "costUsd": 0.01}'
+echo '{"type": "usage", "inputTokens": 50, "outputTokens": 10, "costUsd": 0.005}'
+echo "The answer is 42"
+`;
+
+describe('CommandAgent', () => {
+  let projectRoot: string;
+  let workDir: string;
+
+  function writeScript(name: string, content: string): string {
+    const script = path.join(projectRoot, 'bin', name);
+    fs.mkdirSync(path.dirname(script), { recursive: true });
+    fs.writeFileSync(script, content);
+    fs.chmodSync(script, 0o755);
+    return `./bin/${name}`;
+  }
+
+  function createAgent(config: Record<string, unknown>): CommandAgent {
+    return new CommandAgent(
+      parseCommandAgentConfig({ name: 'test-agent', ...config }, projectRoot)
+    );
+  }
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-command-agent-'));
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-command-work-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should reject invalid configs', () => {
+    expect(() => parseCommandAgentConfig({ command: 'x' }, projectRoot)).toThrow(
+      CommandAgentConfigError
+    );
+    expect(() => parseCommandAgentConfig({ name: 'a', command: [] }, projectRoot)).toThrow(
+      /command/
+    );
+    expect(() =>
+      parseCommandAgentConfig({ name: 'a', command: 'x', promptMode: 'pipe' }, projectRoot)
+    ).toThrow(/promptMode/);
+  });
+
+  it('should pass the prompt via argv and substitute placeholders', async () => {
+    const command = writeScript('echo-agent', '#!/bin/sh\necho "model=$1 prompt=$2"\n');
+    const agent = createAgent({ command: [command, '{model}', '{prompt}'] });
+
+    const result = await agent.run('What does it do?', { cwd: workDir, model: 'm1' });
+
+    expect(result.success).toBe(true);
+    expect(result.answer).toBe('model=m1 prompt=What does it do?');
+  });
+
+  it('should append the prompt when the template has no placeholder', async () => {
+    const command = writeScript('echo-agent', '#!/bin/sh\necho "$@"\n');
+    const agent = createAgent({ command: `${command} --quiet` });
+
+    const result = await agent.run('hello', { cwd: workDir });
+    expect(result.answer).toBe('--quiet hello');
+  });
+
+  it('should pass the prompt via stdin', async () => {
+    const agent = createAgent({ command: 'cat', promptMode: 'stdin' });
+
+    const result = await agent.run('from stdin', { cwd: workDir });
+    expect(result.answer).toBe('from stdin');
+  });
+
+  it('should pass the prompt via a temp file', async () => {
+    const command = writeScript('file-agent', '#!/bin/sh\ncat "$1"\n');
+    const agent = createAgent({ command: [command, '{promptFile}'], promptMode: 'file' });
+
+    const result = await agent.run('from file', { cwd: workDir });
+    expect(result.answer).toBe('from file');
+  });
+
+  it('should parse JSON-lines events into tool calls and token usage', async () => {
+    const command = writeScript('events-agent', EVENTS_SCRIPT);
+    const agent = createAgent({ command, events: 'jsonl' });
+
+    const result = await agent.run('q', { cwd: workDir });
+
+    expect(result.answer).toBe('The answer is 42');
+    expect(result.model).toBe('internal-1');
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls[0]).toMatchObject({ name: 'Read', durationMs: 5, success: true });
+    expect(result.tokens.inputTokens).toBe(150);
+    expect(result.tokens.totalTokens).toBe(180);
+    expect(result.costUsd).toBeCloseTo(0.015);
+    expect(result.numTurns).toBe(2);
+  });
+
+  it('should report failures with stderr', async () => {
+    const command = writeScript('failing-agent', '#!/bin/sh\necho "boom" >&2\nexit 3\n');
+    const agent = createAgent({ command });
+
+    const result = await agent.run('q', { cwd: workDir });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('boom');
+  });
+
+  it('should check availability via the version command or executable', async () => {
+    const command = writeScript('versioned-agent', '#!/bin/sh\necho "2.1.0"\n');
+
+    expect(
+      await createAgent({ command, versionCommand: [command, '--version'] }).getVersion()
+    ).toBe('2.1.0');
+    expect(await createAgent({ command }).isAvailable()).toBe(true);
+    expect(await createAgent({ command: './bin/missing' }).isAvailable()).toBe(false);
+  });
+
+  it('should register agents from .sniffbench/agents', () => {
+    const agentsDir = path.join(projectRoot, '.sniffbench', 'agents');
+    fs.mkdirSync(agentsDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(agentsDir, 'internal.yaml'),
+      'name: internal-cli\ndisplayName: Internal CLI\ncommand: ./bin/internal {prompt}\n'
+    );
+    fs.writeFileSync(path.join(agentsDir, 'broken.yaml'), 'displayName: Missing name\n');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const loaded = loadCommandAgents(projectRoot);
+
+    expect(loaded.map((a) => a.name)).toEqual(['internal-cli']);
+    expect(getAgentRegistry().get('internal-cli')?.displayName).toBe('Internal CLI');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('broken.yaml'));
+    warn.mockRestore();
+  });
+});
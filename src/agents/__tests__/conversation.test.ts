@@ -0,0 +1,105 @@
+/**
+ * Conversation Tests
+ *
+ * Follow-up questions with session-resuming and single-shot agents.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { buildContinuationPrompt, runFollowUps } from '../conversation';
+import { MockAgent } from '../mock';
+import { AgentResult, AgentWrapper, emptyAgentResult } from '../types';
+
+const SCRIPT = `case: comp-001
+answer: It is a benchmark CLI.
+followUps:
+  - steps:
+      - tool: { name: Grep, input: { pattern: retry }, result: "src/retry.ts" }
+    answer: src/retry.ts handles retries.
+  - answer: Three attempts by default.
+`;
+
+function answered(answer: string): AgentResult {
+  return { ...emptyAgentResult(), success: true, answer };
+}
+
+describe('runFollowUps', () => {
+  let scriptsDir: string;
+
+  beforeEach(() => {
+    scriptsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-conversation-'));
+    fs.writeFileSync(path.join(scriptsDir, 'comp-001.yaml'), SCRIPT);
+  });
+
+  afterEach(() => {
+    fs.rmSync(scriptsDir, { recursive: true, force: true });
+  });
+
+  it('should continue the session for agents that support it', async () => {
+    const agent = new MockAgent(scriptsDir);
+    const options = { cwd: scriptsDir, caseId: 'comp-001' };
+    const first = await agent.run('What is this project?', options);
+    const resumed: Array<string | undefined> = [];
+
+    const turns = await runFollowUps(
+      agent,
+      { prompt: 'What is this project?', result: first },
+      ['Which file handles retries?', 'How many attempts?'],
+      (prompt, resumeSessionId) => {
+        resumed.push(resumeSessionId);
+        return agent.run(prompt, { ...options, resumeSessionId });
+      }
+    );
+
+    expect(resumed).toEqual(['mock-comp-001-1', 'mock-comp-001-2']);
+    expect(turns.map((t) => t.result.answer)).toEqual([
+      'src/retry.ts handles retries.',
+      'Three attempts by default.',
+    ]);
+    expect(turns[0].prompt).toBe('Which file handles retries?');
+    expect(turns[0].result.toolsUsed).toEqual(['Grep']);
+  });
+
+  it('should repeat the conversation for agents without sessions', async () => {
+    const agent: AgentWrapper = {
+      name: 'single-shot',
+      displayName: 'Single Shot',
+      isAvailable: async () => true,
+      getVersion: async () => null,
+      run: async () => answered('unused'),
+    };
+    const prompts: string[] = [];
+
+    await runFollowUps(
+      agent,
+      { prompt: 'Q1', result: answered('A1') },
+      ['Q2', 'Q3'],
+      async (prompt, resumeSessionId) => {
+        expect(resumeSessionId).toBeUndefined();
+        prompts.push(prompt);
+        return answered(`A${prompts.length + 1}`);
+      }
+    );
+
+    expect(prompts[0]).toBe(buildContinuationPrompt([{ prompt: 'Q1', answer: 'A1' }], 'Q2'));
+    expect(prompts[1]).toContain('Your answer:\nA2');
+    expect(prompts[1]).toMatch(/Follow-up question:\nQ3$/);
+  });
+
+  it('should stop after a failed turn', async () => {
+    const agent = new MockAgent(scriptsDir);
+    const runTurn = jest.fn().mockResolvedValue(emptyAgentResult('boom'));
+
+    const turns = await runFollowUps(
+      agent,
+      { prompt: 'Q1', result: answered('A1') },
+      ['Q2', 'Q3'],
+      runTurn
+    );
+
+    expect(runTurn).toHaveBeenCalledTimes(1);
+    expect(turns).toHaveLength(1);
+    expect(turns[0].result.error).toBe('boom');
+  });
+});
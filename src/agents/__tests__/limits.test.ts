@@ -0,0 +1,98 @@
+/**
+ * Run Limit Tests
+ *
+ * Parsing command-line settings, merging them with case expectations, and
+ * checking agent results against them.
+ */
+
+import {
+  RunSettingsError,
+  checkRunLimits,
+  parseModelList,
+  parsePositiveInteger,
+  parseRunSettings,
+  resolveRunSettings,
+} from '../limits';
+import { AgentResult, emptyAgentResult } from '../types';
+
+function usage(overrides: Partial<AgentResult>): AgentResult {
+  return { ...emptyAgentResult(), success: true, answer: 'done', ...overrides };
+}
+
+describe('run limits', () => {
+  it('should parse command-line settings', () => {
+    expect(
+      parseRunSettings({
+        model: 'claude-sonnet-4-5',
+        maxBudget: '0.25',
+        maxTurns: '12',
+        maxTokens: '50000',
+        permissionMode: 'plan',
+        allowedTools: 'Read, Grep,',
+      })
+    ).toEqual({
+      model: 'claude-sonnet-4-5',
+      maxBudgetUsd: 0.25,
+      maxTurns: 12,
+      maxTokens: 50000,
+      permissionMode: 'plan',
+      allowedTools: ['Read', 'Grep'],
+    });
+    expect(parseRunSettings({})).toEqual({});
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => parseRunSettings({ maxTurns: '2.5' })).toThrow(RunSettingsError);
+    expect(() => parseRunSettings({ maxBudget: '-1' })).toThrow(/--max-budget/);
+    expect(() => parseRunSettings({ permissionMode: 'yolo' })).toThrow(/--permission-mode/);
+  });
+
+  it('should parse positive integer flags', () => {
+    expect(parsePositiveInteger('4', '--concurrency')).toBe(4);
+    expect(parsePositiveInteger(undefined, '--concurrency')).toBeUndefined();
+    expect(() => parsePositiveInteger('abc', '--concurrency')).toThrow(
+      "--concurrency must be a positive integer, got 'abc'"
+    );
+    expect(() => parsePositiveInteger('0', '--concurrency')).toThrow(RunSettingsError);
+  });
+
+  it('should parse a sweep model list', () => {
+    expect(parseModelList('haiku, sonnet,haiku')).toEqual(['haiku', 'sonnet']);
+    expect(() => parseModelList(' , ')).toThrow(RunSettingsError);
+  });
+
+  it('should take the stricter limit and the case tool lists', () => {
+    expect(
+      resolveRunSettings(
+        { model: 'm', maxTurns: 10, maxTokens: 1000, allowedTools: ['Read', 'Bash'] },
+        { maxIterations: 5, maxTokens: 2000, allowedTools: ['Read'] }
+      )
+    ).toEqual({ model: 'm', maxTurns: 5, maxTokens: 1000, allowedTools: ['Read'] });
+    expect(resolveRunSettings(undefined, { disallowedTools: ['Bash'] })).toEqual({
+      disallowedTools: ['Bash'],
+    });
+  });
+
+  it('should flag results over a limit', () => {
+    const overTokens = checkRunLimits(
+      usage({ tokens: { ...emptyAgentResult().tokens, totalTokens: 1500 } }),
+      { maxTokens: 1000 }
+    );
+    expect(overTokens.success).toBe(false);
+    expect(overTokens.budgetExceeded).toBe('tokens');
+    expect(overTokens.error).toBe('Budget exceeded: used 1500 tokens (limit 1000)');
+
+    expect(checkRunLimits(usage({ costUsd: 0.3 }), { maxBudgetUsd: 0.2 }).budgetExceeded).toBe(
+      'cost'
+    );
+    expect(checkRunLimits(usage({ numTurns: 3 }), { maxTurns: 3 }).success).toBe(true);
+  });
+
+  it('should describe limits the agent enforced itself', () => {
+    const stopped = checkRunLimits(
+      usage({ success: false, budgetExceeded: 'turns', numTurns: 8, error: 'error_max_turns' }),
+      { maxTurns: 8 }
+    );
+    expect(stopped.error).toBe('Budget exceeded: took 8 turns (limit 8)');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Mock Agent Tests
+ *
+ * Runs scripted agents against the bootstrap cases in a temp workspace.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+import {
+  MockAgent,
+  MockScriptError,
+  createMockAgent,
+  isMockAgentEnabled,
+  parseMockScript,
+} from '../mock';
+import { loadCases } from '../../cases';
+import { Case } from '../../cases/types';
+
+const BOOTSTRAP_DIR = path.join(__dirname, '..', '..', '..', 'cases', 'bootstrap');
+
+const FAIL_001_SCRIPT = `case: fail-001
+model: mock-model
+steps:
+  - read: broken.js
+  - text: "brokenAdd subtracts; switching to addition."
+  - edit: { path: broken.js, find: "a - b", replace: "a + b" }
+  - shell: node broken.test.js
+answer: brokenAdd now adds its arguments.
+`;
+
+const SIMPLE_001_SCRIPT = `match: A simple test case
+steps:
+  - shell: node math.test.js
+  - tool: { name: TodoWrite, input: { todos: [] }, result: ok }
+answer: All tests pass.
+`;
+
+describe('MockAgent', () => {
+  let scriptsDir: string;
+  let workDir: string;
+  let cases: Case[];
+
+  function materialize(caseId: string): void {
+    const caseData = cases.find((c) => c.id === caseId)!;
+    for (const file of caseData.files || []) {
+      fs.writeFileSync(path.join(workDir, file.path), file.content || '');
+    }
+  }
+
+  function runCaseTest(file: string): number {
+    try {
+      execSync(`node ${file}`, { cwd: workDir, stdio: 'ignore' });
+      return 0;
+    } catch (err) {
+      return (err as { status: number }).status;
+    }
+  }
+
+  beforeAll(async () => {
+    cases = await loadCases(BOOTSTRAP_DIR);
+  });
+
+  beforeEach(() => {
+    scriptsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-mock-scripts-'));
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-mock-work-'));
+    fs.writeFileSync(path.join(scriptsDir, 'fail-001.yaml'), FAIL_001_SCRIPT);
+    fs.writeFileSync(path.join(scriptsDir, 'simple.yaml'), SIMPLE_001_SCRIPT);
+  });
+
+  afterEach(() => {
+    fs.rmSync(scriptsDir, { recursive: true, force: true });
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should reject invalid scripts', () => {
+    expect(() => parseMockScript('nope', 'x', 'x.yaml')).toThrow(MockScriptError);
+    expect(() => parseMockScript({ steps: [{ fly: 'away' }] }, 'x', 'x.yaml')).toThrow(/step 1/);
+  });
+
+  it('should fix fail-001 by following its script', async () => {
+    materialize('fail-001');
+    expect(runCaseTest('broken.test.js')).toBe(1);
+
+    const agent = new MockAgent(scriptsDir);
+    const prompt = cases.find((c) => c.id === 'fail-001')!.prompt;
+    const result = await agent.run(prompt, { cwd: workDir, caseId: 'fail-001' });
+
+    expect(result.success).toBe(true);
+    expect(result.answer).toBe('brokenAdd now adds its arguments.');
+    expect(result.model).toBe('mock-model');
+    expect(result.toolCalls.map((t) => t.name)).toEqual(['Read', 'Edit', 'Bash']);
+    expect(result.toolCalls.every((t) => t.success)).toBe(true);
+    expect(result.toolCalls[2].result).toContain('Test passed');
+    expect(result.numTurns).toBe(5);
+    expect(result.tokens.inputTokens).toBeGreaterThan(0);
+    expect(result.tokens.totalTokens).toBe(result.tokens.inputTokens + result.tokens.outputTokens);
+    expect(runCaseTest('broken.test.js')).toBe(0);
+  });
+
+  it('should report failing steps without stopping the script', async () => {
+    materialize('fail-001');
+    fs.writeFileSync(
+      path.join(scriptsDir, 'fail-001.yaml'),
+      'steps:\n  - shell: node broken.test.js\n  - edit: { path: broken.js, find: nope, replace: x }\nanswer: gave up\n'
+    );
+
+    const result = await new MockAgent(scriptsDir).run('q', { cwd: workDir, caseId: 'fail-001' });
+
+    expect(result.success).toBe(true);
+    expect(result.toolCalls.map((t) => t.success)).toEqual([false, false]);
+    expect(result.toolCalls[0].result).toContain('Exit code: 1');
+    expect(result.toolCalls[1].result).toContain('String not found');
+  });
+
+  it('should match simple-001 by prompt and use the sandbox exec hook', async () => {
+    materialize('simple-001');
+    const exec = jest.fn().mockResolvedValue({
+      exitCode: 0,
+      stdout: '4 passed, 0 failed',
+      stderr: '',
+      timedOut: false,
+    });
+
+    const prompt = cases.find((c) => c.id === 'simple-001')!.prompt;
+    const result = await new MockAgent(scriptsDir).run(prompt, { cwd: workDir, exec });
+
+    expect(exec).toHaveBeenCalledWith('node math.test.js', expect.any(Number));
+    expect(result.toolsUsed).toEqual(['Bash', 'TodoWrite']);
+    expect(result.answer).toBe('All tests pass.');
+  });
+
+  it('should fail when no script matches', async () => {
+    const result = await new MockAgent(scriptsDir).run('unrelated', { cwd: workDir });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No mock script');
+  });
+
+  it('should only be enabled when SNIFF_MOCK_AGENT is set', () => {
+    const original = process.env.SNIFF_MOCK_AGENT;
+    try {
+      delete process.env.SNIFF_MOCK_AGENT;
+      expect(isMockAgentEnabled()).toBe(false);
+
+      process.env.SNIFF_MOCK_AGENT = scriptsDir;
+      expect(isMockAgentEnabled()).toBe(true);
+      expect(createMockAgent().findScript('q', 'fail-001')?.model).toBe('mock-model');
+    } finally {
+      if (original === undefined) {
+        delete process.env.SNIFF_MOCK_AGENT;
+      } else {
+        process.env.SNIFF_MOCK_AGENT = original;
+      }
+    }
+  });
+});
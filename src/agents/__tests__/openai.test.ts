@@ -0,0 +1,232 @@
+/**
+ * OpenAI-compatible Agent Tests
+ *
+ * Runs the tool loop against a local mock chat completions server.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import * as os from 'os';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleAgent } from '../openai';
+
+interface RecordedRequest {
+  model: string;
+  messages: Array<{ role: string; content: string | null; tool_call_id?: string }>;
+  tools?: Array<{ function: { name: string } }>;
+}
+
+function toolCallResponse(id: string, name: string, args: Record<string, unknown>) {
+  return {
+    model: 'mock-model-1',
+    choices: [
+      {
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            { id, type: 'function', function: { name, arguments: JSON.stringify(args) } },
+          ],
+        },
+      },
+    ],
+    usage: {
+      prompt_tokens: 100,
+      completion_tokens: 10,
+      prompt_tokens_details: { cached_tokens: 40 },
+    },
+  };
+}
+
+function answerResponse(content: string) {
+  return {
+    model: 'mock-model-1',
+    choices: [{ message: { role: 'assistant', content } }],
+    usage: { prompt_tokens: 200, completion_tokens: 20 },
+  };
+}
+
+describe('OpenAICompatibleAgent', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let responses: unknown[];
+  let requests: RecordedRequest[];
+  let workDir: string;
+
+  beforeEach(async () => {
+    responses = [];
+    requests = [];
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-openai-agent-'));
+
+    server = http.createServer((req, res) => {
+      if (req.method === 'GET' && req.url === '/v1/models') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ data: [] }));
+        return;
+      }
+
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push(JSON.parse(body));
+        const next = responses.shift();
+        res.writeHead(next ? 200 : 500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(next || { error: 'no scripted response' }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should be available when the endpoint lists models', async () => {
+    const agent = new OpenAICompatibleAgent({ baseUrl, model: 'm' });
+    expect(await agent.isAvailable()).toBe(true);
+    expect(
+      await new OpenAICompatibleAgent({ baseUrl: 'http://127.0.0.1:1/v1' }).isAvailable()
+    ).toBe(false);
+  });
+
+  it('should run the tool loop and record metrics', async () => {
+    fs.writeFileSync(path.join(workDir, 'math.js'), 'function sum(a, b) {\n  return a - b;\n}\n');
+    responses.push(
+      toolCallResponse('c1', 'grep', { pattern: 'return a - b' }),
+      toolCallResponse('c2', 'write_file', {
+        path: 'math.js',
+        content: 'function sum(a, b) {\n  return a + b;\n}\n',
+      }),
+      toolCallResponse('c3', 'run_shell', { command: 'cat math.js' }),
+      answerResponse('Fixed sum to add.')
+    );
+
+    const agent = new OpenAICompatibleAgent({ baseUrl, model: 'local-model' });
+    const result = await agent.run('Fix sum', { cwd: workDir });
+
+    expect(result.success).toBe(true);
+    expect(result.answer).toBe('Fixed sum to add.');
+    expect(result.model).toBe('mock-model-1');
+    expect(result.numTurns).toBe(4);
+    expect(result.toolCalls.map((t) => t.name)).toEqual(['Grep', 'Write', 'Bash']);
+    expect(result.toolCalls.every((t) => t.success && t.durationMs !== undefined)).toBe(true);
+    expect(result.tokens).toEqual({
+      inputTokens: 3 * 60 + 200,
+      outputTokens: 3 * 10 + 20,
+      cacheReadTokens: 3 * 40,
+      cacheWriteTokens: 0,
+      totalTokens: 3 * 60 + 200 + 3 * 10 + 20,
+    });
+    expect(fs.readFileSync(path.join(workDir, 'math.js'), 'utf-8')).toContain('a + b');
+
+    expect(requests[0].model).toBe('local-model');
+    expect(requests[1].messages[requests[1].messages.length - 1]).toMatchObject({
+      role: 'tool',
+      tool_call_id: 'c1',
+      content: 'math.js:2: return a - b;',
+    });
+    expect(requests[3].messages[requests[3].messages.length - 1].content).toContain('a + b');
+  });
+
+  it('should capture the full trajectory when asked', async () => {
+    const big = 'x'.repeat(30000);
+    fs.writeFileSync(path.join(workDir, 'big.txt'), big);
+    responses.push(
+      toolCallResponse('c1', 'read_file', { path: 'big.txt' }),
+      answerResponse('It is all x.')
+    );
+
+    const agent = new OpenAICompatibleAgent({ baseUrl, model: 'm' });
+    const result = await agent.run('What is in big.txt?', {
+      cwd: workDir,
+      captureTrajectory: true,
+    });
+    const messages = result.trajectory!.messages;
+
+    expect(messages.map((m) => m.role)).toEqual([
+      'system',
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+    ]);
+    expect(messages[2].content).toEqual([
+      { type: 'tool_use', id: 'c1', name: 'read_file', input: { path: 'big.txt' } },
+    ]);
+    expect(messages[2].usage).toMatchObject({
+      inputTokens: 60,
+      cacheReadTokens: 40,
+      outputTokens: 10,
+    });
+    const toolResult = messages[3].content[0];
+    expect(toolResult.type === 'tool_result' && toolResult.content.length).toBeGreaterThan(30000);
+    expect(requests[1].messages[3].content!.length).toBeLessThan(30000);
+    expect(messages[4].content).toEqual([{ type: 'text', text: 'It is all x.' }]);
+  });
+
+  it('should not capture a trajectory by default', async () => {
+    responses.push(answerResponse('done'));
+
+    const agent = new OpenAICompatibleAgent({ baseUrl, model: 'm' });
+    const result = await agent.run('q', { cwd: workDir });
+
+    expect(result.trajectory).toBeUndefined();
+  });
+
+  it('should use the provided exec hook for shell commands', async () => {
+    responses.push(
+      toolCallResponse('c1', 'run_shell', { command: 'npm test' }),
+      answerResponse('done')
+    );
+    const exec = jest.fn().mockResolvedValue({
+      exitCode: 0,
+      stdout: 'ok',
+      stderr: '',
+      timedOut: false,
+    });
+
+    const agent = new OpenAICompatibleAgent({ baseUrl, model: 'm' });
+    await agent.run('q', { cwd: workDir, exec });
+
+    expect(exec).toHaveBeenCalledWith('npm test', expect.any(Number));
+  });
+
+  it('should report tool errors to the model and keep going', async () => {
+    responses.push(
+      toolCallResponse('c1', 'read_file', { path: '../outside.txt' }),
+      answerResponse('gave up')
+    );
+
+    const agent = new OpenAICompatibleAgent({ baseUrl, model: 'm' });
+    const result = await agent.run('q', { cwd: workDir });
+
+    expect(result.success).toBe(true);
+    expect(result.toolCalls[0].success).toBe(false);
+    expect(requests[1].messages[requests[1].messages.length - 1].content).toContain(
+      'outside the repository'
+    );
+  });
+
+  it('should only offer allowed tools and stop at the turn limit', async () => {
+    responses.push(
+      toolCallResponse('c1', 'list_files', {}),
+      toolCallResponse('c2', 'list_files', {})
+    );
+
+    const agent = new OpenAICompatibleAgent({ baseUrl, model: 'm' });
+    const result = await agent.run('q', {
+      cwd: workDir,
+      allowedTools: ['glob', 'read'],
+      maxTurns: 2,
+    });
+
+    expect(requests[0].tools?.map((t) => t.function.name)).toEqual(['read_file', 'list_files']);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('turn limit');
+    expect(result.budgetExceeded).toBe('turns');
+    expect(result.numTurns).toBe(2);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Agent Plugin Tests
+ *
+ * Loads plugin modules listed in a temp project's .sniffbench/config.yaml.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  AgentPluginError,
+  getAgentStatuses,
+  isAgentWrapper,
+  loadAgentPlugins,
+  parsePluginSpecs,
+} from '../plugins';
+import { getAgentRegistry } from '../registry';
+
+function agentSource(name: string, version: string): string {
+  return `{
+    name: ${JSON.stringify(name)},
+    displayName: ${JSON.stringify(name)} + ' (plugin)',
+    isAvailable: async () => true,
+    getVersion: async () => ${JSON.stringify(version)},
+    run: async () => ({ answer: 'ok', success: true }),
+  }`;
+}
+
+describe('agent plugins', () => {
+  let projectRoot: string;
+
+  function writeFile(relativePath: string, content: string): void {
+    const filePath = path.join(projectRoot, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-plugins-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should validate plugin specs', () => {
+    expect(parsePluginSpecs(undefined)).toEqual([]);
+    expect(parsePluginSpecs(['./a.js', { module: 'pkg', options: { x: 1 } }])).toEqual([
+      { module: './a.js' },
+      { module: 'pkg', options: { x: 1 } },
+    ]);
+    expect(() => parsePluginSpecs('./a.js')).toThrow(AgentPluginError);
+    expect(() => parsePluginSpecs([{ options: {} }])).toThrow(/plugins\[0\]/);
+  });
+
+  it('should check the agent interface shape', () => {
+    expect(isAgentWrapper({ name: 'a', displayName: 'A', run: () => null })).toBe(false);
+    expect(
+      isAgentWrapper({
+        name: 'a',
+        displayName: 'A',
+        run: () => null,
+        isAvailable: () => null,
+        getVersion: () => null,
+      })
+    ).toBe(true);
+  });
+
+  it('should register agents from local modules and packages', async () => {
+    writeFile(
+      'tools/single.js',
+      `module.exports = (options) => (${agentSource('plugin-single', '1.0.0')});`
+    );
+    writeFile(
+      'node_modules/sniff-agents-multi/index.js',
+      `exports.agents = [() => (${agentSource('plugin-a', '2.0.0')}), () => (${agentSource('plugin-b', '2.1.0')})];`
+    );
+    writeFile(
+      'tools/options.js',
+      `exports.createAgent = (options) =>
+        Object.assign(${agentSource('plugin-opts', '0.1.0')}, { displayName: options.label });`
+    );
+    writeFile(
+      '.sniffbench/config.yaml',
+      [
+        'plugins:',
+        '  - ./tools/single.js',
+        '  - sniff-agents-multi',
+        '  - module: ./tools/options.js',
+        '    options: { label: Configured }',
+      ].join('\n')
+    );
+
+    const records = await loadAgentPlugins(projectRoot);
+
+    expect(records.map((r) => r.agents)).toEqual([
+      ['plugin-single'],
+      ['plugin-a', 'plugin-b'],
+      ['plugin-opts'],
+    ]);
+    expect(getAgentRegistry().get('plugin-opts')?.displayName).toBe('Configured');
+
+    const registry = getAgentRegistry();
+    const statuses = await getAgentStatuses(
+      records.flatMap((r) => r.agents).map((name) => registry.get(name)!)
+    );
+    expect(statuses.find((s) => s.name === 'plugin-b')).toEqual({
+      name: 'plugin-b',
+      displayName: 'plugin-b (plugin)',
+      available: true,
+      version: '2.1.0',
+      plugin: 'sniff-agents-multi',
+    });
+  });
+
+  it('should register agents from ES modules', async () => {
+    writeFile(
+      'tools/esm-agent.mjs',
+      `export default () => (${agentSource('plugin-esm', '3.0.0')});`
+    );
+    writeFile(
+      'node_modules/sniff-agents-esm/package.json',
+      JSON.stringify({ name: 'sniff-agents-esm', type: 'module', main: 'index.js' })
+    );
+    writeFile(
+      'node_modules/sniff-agents-esm/index.js',
+      `export function createAgent() { return ${agentSource('plugin-esm-pkg', '3.1.0')}; }`
+    );
+    writeFile(
+      '.sniffbench/config.yaml',
+      'plugins:\n  - ./tools/esm-agent.mjs\n  - sniff-agents-esm\n'
+    );
+
+    const records = await loadAgentPlugins(projectRoot);
+
+    expect(records.map((r) => r.error)).toEqual([undefined, undefined]);
+    expect(records.map((r) => r.agents)).toEqual([['plugin-esm'], ['plugin-esm-pkg']]);
+    expect(await getAgentRegistry().get('plugin-esm')!.getVersion()).toBe('3.0.0');
+  });
+
+  it('should skip invalid plugins with a warning', async () => {
+    writeFile('tools/empty.js', 'module.exports = {};');
+    writeFile('tools/bad-shape.js', 'module.exports = () => ({ name: "half" });');
+    writeFile(
+      '.sniffbench/config.yaml',
+      'plugins:\n  - ./tools/empty.js\n  - ./tools/bad-shape.js\n  - ./tools/missing.js\n'
+    );
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const records = await loadAgentPlugins(projectRoot);
+
+    expect(records.map((r) => r.agents)).toEqual([[], [], []]);
+    expect(records[0].error).toContain('must export an agent factory');
+    expect(records[1].error).toContain('did not return an agent');
+    expect(records[2].error).toContain("cannot find module './tools/missing.js'");
+    expect(getAgentRegistry().get('half')).toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Agent Process Runner Tests
+ *
+ * Runs small shell scripts to check output streaming, stdin, timeouts and
+ * failure messages.
+ */
+
+import { describeProcessFailure, readCommandOutput, runAgentProcess } from '../process';
+
+describe('runAgentProcess', () => {
+  it('should stream stdout lines, including an unterminated last line', async () => {
+    const lines: string[] = [];
+
+    const result = await runAgentProcess(
+      'sh',
+      ['-c', 'printf "one\\ntwo\\nthree"; echo oops >&2'],
+      {
+        env: process.env,
+        timeoutMs: 10000,
+        onLine: (line) => lines.push(line),
+      }
+    );
+
+    expect(lines).toEqual(['one', 'two', 'three']);
+    expect(result).toEqual({
+      stdout: 'one\ntwo\nthree',
+      stderr: 'oops\n',
+      exitCode: 0,
+      timedOut: false,
+      spawnError: undefined,
+    });
+    expect(describeProcessFailure(result, 'sh')).toBeUndefined();
+  });
+
+  it('should write the input to stdin', async () => {
+    const result = await runAgentProcess('cat', [], {
+      env: process.env,
+      input: 'prompt text',
+      timeoutMs: 10000,
+    });
+
+    expect(result.stdout).toBe('prompt text');
+  });
+
+  it('should kill a process that ignores SIGTERM after the grace period', async () => {
+    const startTime = Date.now();
+
+    const result = await runAgentProcess('sh', ['-c', 'trap "" TERM; sleep 3'], {
+      env: process.env,
+      timeoutMs: 100,
+      killGraceMs: 100,
+    });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBeNull();
+    expect(Date.now() - startTime).toBeLessThan(10000);
+    expect(describeProcessFailure(result, 'sh')).toBe('Timed out');
+  });
+
+  it('should describe spawn failures and non-zero exits', async () => {
+    const missing = await runAgentProcess('/nonexistent/agent', [], {
+      env: process.env,
+      timeoutMs: 10000,
+    });
+    const failing = await runAgentProcess('sh', ['-c', 'echo first >&2; echo last >&2; exit 3'], {
+      env: process.env,
+      timeoutMs: 10000,
+    });
+    const silent = await runAgentProcess('sh', ['-c', 'exit 2'], {
+      env: process.env,
+      timeoutMs: 10000,
+    });
+
+    expect(describeProcessFailure(missing, 'agent')).toContain('ENOENT');
+    expect(describeProcessFailure(failing, 'agent')).toBe('last');
+    expect(describeProcessFailure(silent, 'agent')).toBe('agent exited with code 2');
+  });
+});
+
+describe('readCommandOutput', () => {
+  it('should return trimmed stdout, or null when the command fails', async () => {
+    expect(await readCommandOutput('sh', ['-c', 'echo " 1.2.3 "'], { env: process.env })).toBe(
+      '1.2.3'
+    );
+    expect(await readCommandOutput('sh', ['-c', 'echo 1.2.3; exit 1'], { env: process.env })).toBe(
+      null
+    );
+    expect(await readCommandOutput('/nonexistent/agent', [], { env: process.env })).toBeNull();
+  });
+});
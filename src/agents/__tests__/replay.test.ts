@@ -0,0 +1,189 @@
+/**
+ * Record and Replay Agent Tests
+ *
+ * Records a scripted agent to transcripts and plays them back.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  RecordingAgent,
+  ReplayAgent,
+  loadTranscript,
+  resolveRecordDir,
+  transcriptFileName,
+} from '../replay';
+import { AgentEvent, AgentResult, AgentRunOptions, AgentWrapper, emptyAgentResult } from '../types';
+
+function scriptedAgent(answer: string): AgentWrapper {
+  return {
+    name: 'scripted',
+    displayName: 'Scripted',
+    isAvailable: async () => true,
+    getVersion: async () => '1.0.0',
+    run: async (prompt: string, options: AgentRunOptions): Promise<AgentResult> => {
+      const result: AgentResult = { ...emptyAgentResult(), success: true, answer, model: 'm1' };
+      options.onEvent?.({ type: 'start', timestamp: Date.now(), model: 'm1' });
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      options.onEvent?.({
+        type: 'tool_start',
+        tool: { id: 't1', name: 'Read', input: { file_path: 'a.js' }, timestamp: Date.now() },
+      });
+      options.onEvent?.({ type: 'text_delta', text: answer });
+      options.onEvent?.({ type: 'complete', result });
+      return result;
+    },
+  };
+}
+
+describe('RecordingAgent and ReplayAgent', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-replay-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record events and the final result while passing events through', async () => {
+    const seen: AgentEvent[] = [];
+    const agent = new RecordingAgent(scriptedAgent('42'), dir);
+
+    const result = await agent.run('What is the answer?', {
+      cwd: dir,
+      onEvent: (e) => seen.push(e),
+    });
+
+    expect(result.answer).toBe('42');
+    expect(seen.map((e) => e.type)).toEqual(['start', 'tool_start', 'text_delta', 'complete']);
+
+    const transcript = loadTranscript(
+      path.join(dir, transcriptFileName('scripted', { prompt: 'What is the answer?' }))
+    );
+    expect(transcript.agent).toBe('scripted');
+    expect(transcript.prompt).toBe('What is the answer?');
+    expect(transcript.events.map((e) => e.event.type)).toEqual([
+      'start',
+      'tool_start',
+      'text_delta',
+    ]);
+    expect(transcript.events[1].offsetMs).toBeGreaterThanOrEqual(50);
+    expect(transcript.result.answer).toBe('42');
+  });
+
+  it('should replay a recorded run by prompt', async () => {
+    await new RecordingAgent(scriptedAgent('first'), dir).run('q1', { cwd: dir });
+    await new RecordingAgent(scriptedAgent('second'), dir).run('q2', { cwd: dir });
+
+    const replay = new ReplayAgent({ source: dir });
+    const seen: AgentEvent[] = [];
+    const result = await replay.run('q2', { cwd: dir, onEvent: (e) => seen.push(e) });
+
+    expect(result.answer).toBe('second');
+    expect(result.success).toBe(true);
+    expect(seen.map((e) => e.type)).toEqual(['start', 'tool_start', 'text_delta', 'complete']);
+    expect(await replay.isAvailable()).toBe(true);
+  });
+
+  it('should keep runs with other models, trials or agents apart', async () => {
+    await new RecordingAgent(scriptedAgent('trial 1'), dir).run('q', { cwd: dir, trial: 1 });
+    await new RecordingAgent(scriptedAgent('trial 2'), dir).run('q', { cwd: dir, trial: 2 });
+    await new RecordingAgent(scriptedAgent('opus'), dir).run('q', { cwd: dir, model: 'opus' });
+
+    const replay = new ReplayAgent({ source: dir });
+    expect((await replay.run('q', { cwd: dir })).answer).toBe('trial 1');
+    expect((await replay.run('q', { cwd: dir, trial: 2 })).answer).toBe('trial 2');
+    expect((await replay.run('q', { cwd: dir, model: 'opus' })).answer).toBe('opus');
+
+    const other = { ...scriptedAgent('other agent'), name: 'other' };
+    await new RecordingAgent(other, dir).run('q', { cwd: dir, trial: 2 });
+    const ambiguous = await replay.run('q', { cwd: dir, trial: 2 });
+    expect(ambiguous.success).toBe(false);
+    expect(ambiguous.error).toContain('Several agents recorded this run (');
+
+    const picked = new ReplayAgent({ source: dir, agent: 'other' });
+    expect((await picked.run('q', { cwd: dir, trial: 2 })).answer).toBe('other agent');
+  });
+
+  it('should record the files a run changed and apply them on replay', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-replay-workspace-'));
+    const replayWorkspace = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-replay-workspace-'));
+    try {
+      for (const root of [workspace, replayWorkspace]) {
+        fs.writeFileSync(path.join(root, 'index.js'), 'module.exports = 1;\n');
+      }
+      const editing = scriptedAgent('fixed');
+      const run = editing.run;
+      editing.run = async (prompt, options) => {
+        fs.writeFileSync(path.join(options.cwd, 'index.js'), 'module.exports = 2;\n');
+        fs.writeFileSync(path.join(options.cwd, 'NOTES.md'), 'Done\n');
+        return run(prompt, options);
+      };
+      await new RecordingAgent(editing, dir).run('fix it', { cwd: workspace });
+
+      const result = await new ReplayAgent({ source: dir }).run('fix it', {
+        cwd: replayWorkspace,
+      });
+
+      expect(result.answer).toBe('fixed');
+      expect(fs.readFileSync(path.join(replayWorkspace, 'index.js'), 'utf-8')).toBe(
+        'module.exports = 2;\n'
+      );
+      expect(fs.readFileSync(path.join(replayWorkspace, 'NOTES.md'), 'utf-8')).toBe('Done\n');
+
+      // The recorded changes no longer apply once the files have moved on
+      const stale = await new ReplayAgent({ source: dir }).run('fix it', {
+        cwd: replayWorkspace,
+      });
+      expect(stale.success).toBe(false);
+      expect(stale.error).toContain('Could not apply the recorded changes');
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+      fs.rmSync(replayWorkspace, { recursive: true, force: true });
+    }
+  });
+
+  it('should replay a single transcript file for any prompt', async () => {
+    await new RecordingAgent(scriptedAgent('fixed'), dir).run('original', { cwd: dir });
+
+    const replay = new ReplayAgent({
+      source: path.join(dir, transcriptFileName('scripted', { prompt: 'original' })),
+    });
+    const result = await replay.run('a different prompt', { cwd: dir });
+
+    expect(result.answer).toBe('fixed');
+  });
+
+  it('should keep original timing or compress gaps', async () => {
+    await new RecordingAgent(scriptedAgent('x'), dir).run('q', { cwd: dir });
+
+    let start = Date.now();
+    await new ReplayAgent({ source: dir, timing: 'original' }).run('q', { cwd: dir });
+    expect(Date.now() - start).toBeGreaterThanOrEqual(50);
+
+    start = Date.now();
+    await new ReplayAgent({ source: dir, timing: 'compressed' }).run('q', { cwd: dir });
+    expect(Date.now() - start).toBeLessThan(50);
+  });
+
+  it('should fail when no transcript matches the prompt', async () => {
+    const seen: AgentEvent[] = [];
+    const result = await new ReplayAgent({ source: dir }).run('unknown', {
+      cwd: dir,
+      onEvent: (e) => seen.push(e),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No transcript recorded');
+    expect(seen.map((e) => e.type)).toEqual(['error', 'complete']);
+  });
+
+  it('should resolve the --record option', () => {
+    expect(resolveRecordDir(undefined, dir)).toBeUndefined();
+    expect(resolveRecordDir(true, dir)).toBe(path.join(dir, '.sniffbench', 'transcripts'));
+    expect(resolveRecordDir('out', dir)).toBe(path.join(dir, 'out'));
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Trajectory Capture Tests
+ *
+ * Builds trajectories and saves them per case with a scripted agent.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  TrajectoryBuilder,
+  TrajectoryCaptureAgent,
+  getRunTrajectoriesDir,
+  loadCaseTrajectories,
+  withTrajectoryCapture,
+} from '../trajectory';
+import { MockAgent } from '../mock';
+import { AgentWrapper, emptyAgentResult, emptyTokenUsage } from '../types';
+
+const SCRIPT = `case: comp-001
+model: mock-model
+steps:
+  - read: notes.md
+  - text: "The notes describe retries."
+answer: Retries are described in notes.md.
+followUps:
+  - answer: Three attempts.
+`;
+
+describe('TrajectoryBuilder', () => {
+  it('should merge parts of the same message and keep the latest usage', () => {
+    const builder = new TrajectoryBuilder('claude-code', 'Q');
+    builder.add('user', [{ type: 'text', text: 'Q' }]);
+    builder.add('assistant', [{ type: 'thinking', thinking: 'Let me look.' }], undefined, 'msg-1');
+    builder.add(
+      'assistant',
+      [{ type: 'tool_use', id: 't1', name: 'Read', input: { file_path: 'a.ts' } }],
+      { ...emptyTokenUsage(), inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+      'msg-1'
+    );
+    builder.add('user', [{ type: 'tool_result', toolUseId: 't1', content: 'full output' }]);
+
+    const trajectory = builder.build('claude-haiku');
+
+    expect(trajectory.model).toBe('claude-haiku');
+    expect(trajectory.messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(trajectory.messages[1].content.map((b) => b.type)).toEqual(['thinking', 'tool_use']);
+    expect(trajectory.messages[1].usage?.totalTokens).toBe(15);
+  });
+});
+
+describe('TrajectoryCaptureAgent', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-trajectory-'));
+    fs.writeFileSync(path.join(dir, 'comp-001.yaml'), SCRIPT);
+    fs.writeFileSync(path.join(dir, 'notes.md'), 'Retries: 3 attempts with backoff.');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save every run of a case in order, with full tool output', async () => {
+    const agent = withTrajectoryCapture(new MockAgent(dir), 'run-1', dir);
+    const options = { cwd: dir, caseId: 'comp-001' };
+
+    const first = await agent.run('How are retries handled?', options);
+    await agent.run('How many attempts?', { ...options, resumeSessionId: first.raw?.sessionId });
+
+    const saved = loadCaseTrajectories(
+      path.join(getRunTrajectoriesDir('run-1', dir), 'comp-001.json')
+    );
+    expect(saved.runId).toBe('run-1');
+    expect(saved.trajectories.map((t) => t.prompt)).toEqual([
+      'How are retries handled?',
+      'How many attempts?',
+    ]);
+    expect(saved.trajectories[1].resumeSessionId).toBe('mock-comp-001-1');
+
+    const messages = saved.trajectories[0].messages;
+    expect(messages.map((m) => m.role)).toEqual([
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+      'assistant',
+    ]);
+    expect(messages[2].content).toEqual([
+      { type: 'tool_result', toolUseId: 'mock-1', content: 'Retries: 3 attempts with backoff.' },
+    ]);
+    expect(messages.every((m) => m.role === 'user' || m.usage !== undefined)).toBe(true);
+  });
+
+  it('should not write files for agents that ignore captureTrajectory', async () => {
+    const inner: AgentWrapper = {
+      name: 'plain',
+      displayName: 'Plain',
+      isAvailable: async () => true,
+      getVersion: async () => null,
+      run: jest.fn().mockResolvedValue({ ...emptyAgentResult(), success: true }),
+    };
+    const runDir = path.join(dir, 'trajectories');
+    const agent = new TrajectoryCaptureAgent(inner, 'run-2', runDir);
+
+    await agent.run('Q', { cwd: dir, caseId: 'comp-001' });
+
+    expect(inner.run).toHaveBeenCalledWith(
+      'Q',
+      expect.objectContaining({ captureTrajectory: true })
+    );
+    expect(fs.existsSync(runDir)).toBe(false);
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Aider agent wrapper
+ *
+ * Drives the aider CLI non-interactively (`--message`) and parses its
+ * plain-text output into an AgentResult. Aider has no structured output
+ * mode, so edits, file additions and shell commands are recognized from
+ * the lines aider prints, and token/cost usage from its "Tokens:" lines.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  AgentWrapper,
+  AgentResult,
+  AgentRunOptions,
+  AgentEvent,
+  ToolCall,
+  TokenUsage,
+  emptyTokenUsage,
+} from './types';
+import { describeProcessFailure, readCommandOutput, runAgentProcess } from './process';
+
+/** Lines printed by aider before the model starts answering */
+const HEADER_PATTERNS = [
+  /^Aider v/,
+  /^Main model:/,
+  /^Weak model:/,
+  /^Editor model:/,
+  /^Git repo:/,
+  /^Repo-map:/,
+  /^Use \/help/,
+  /^Added .* to the chat\.?$/,
+  /^Model:/,
+  /^Warning:/,
+];
+
+/** Lines that are aider bookkeeping rather than part of the answer */
+const NOISE_PATTERNS = [
+  /^Commit [0-9a-f]{7,}/,
+  /^Added .* to the chat\.?$/,
+  /^You can use \/undo/,
+  /^Dirty files have been committed/,
+  /^Add command output to the chat\?/,
+  /^Create new file\?/,
+  /^Allow edits to file/,
+  /^Edit the files\?/,
+  /^─+$/,
+];
+
+/**
+ * Parse an aider token count ("850", "2.3k", "1.2M")
+ */
+export function parseTokenCount(value: string): number {
+  const match = value.trim().match(/^([\d.]+)\s*([kKmM]?)$/);
+  if (!match) return 0;
+
+  const num = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  if (unit === 'k') return Math.round(num * 1000);
+  if (unit === 'm') return Math.round(num * 1000000);
+  return Math.round(num);
+}
+
+/**
+ * Parse an aider usage line, e.g.
+ * "Tokens: 12k sent, 3.1k cache write, 1.2k cache hit, 250 received. Cost: $0.01 message, $0.02 session."
+ */
+export function parseUsageLine(
+  line: string
+): { tokens: TokenUsage; messageCostUsd: number; sessionCostUsd?: number } | null {
+  if (!line.startsWith('Tokens:')) return null;
+
+  const tokens = emptyTokenUsage();
+  const tokenPart = line.substring('Tokens:'.length).split(/\.\s+Cost:/)[0];
+
+  for (const part of tokenPart.split(',')) {
+    const match = part.trim().match(/^([\d.]+\s*[kKmM]?)\s+(.+?)\.?$/);
+    if (!match) continue;
+
+    const count = parseTokenCount(match[1]);
+    const kind = match[2].toLowerCase();
+    if (kind === 'sent') tokens.inputTokens = count;
+    else if (kind === 'received') tokens.outputTokens = count;
+    else if (kind === 'cache hit') tokens.cacheReadTokens = count;
+    else if (kind === 'cache write') tokens.cacheWriteTokens = count;
+  }
+  tokens.totalTokens = tokens.inputTokens + tokens.outputTokens;
+
+  const messageCost = line.match(/\$([\d.]+)\s+message/);
+  const sessionCost = line.match(/\$([\d.]+)\s+session/);
+
+  return {
+    tokens,
+    messageCostUsd: messageCost ? parseFloat(messageCost[1]) : 0,
+    sessionCostUsd: sessionCost ? parseFloat(sessionCost[1]) : undefined,
+  };
+}
+
+/**
+ * Incremental parser for aider's plain-text output
+ *
+ * Lines are fed as they arrive so events can be emitted while aider runs.
+ */
+export class AiderOutputParser {
+  model = 'unknown';
+  tokens: TokenUsage = emptyTokenUsage();
+  costUsd = 0;
+  numTurns = 0;
+  toolCalls: ToolCall[] = [];
+
+  private answerLines: string[] = [];
+  private inHeader = true;
+  private nextToolId = 1;
+
+  constructor(private onEvent?: (event: AgentEvent) => void) {}
+
+  /**
+   * Process one line of aider output
+   */
+  push(rawLine: string): void {
+    const line = rawLine.replace(/\r$/, '');
+    const trimmed = line.trim();
+
+    const mainModel = trimmed.match(/^(?:Main )?[Mm]odel:\s+(\S+)/);
+    if (mainModel && this.model === 'unknown') {
+      this.model = mainModel[1];
+      this.onEvent?.({ type: 'start', timestamp: Date.now(), model: this.model });
+    }
+
+    if (this.inHeader) {
+      if (trimmed === '' || HEADER_PATTERNS.some((p) => p.test(trimmed))) {
+        return;
+      }
+      this.inHeader = false;
+    }
+
+    const usage = parseUsageLine(trimmed);
+    if (usage) {
+      this.numTurns++;
+      this.tokens.inputTokens += usage.tokens.inputTokens;
+      this.tokens.outputTokens += usage.tokens.outputTokens;
+      this.tokens.cacheReadTokens += usage.tokens.cacheReadTokens;
+      this.tokens.cacheWriteTokens += usage.tokens.cacheWriteTokens;
+      this.tokens.totalTokens += usage.tokens.totalTokens;
+      this.costUsd = usage.sessionCostUsd ?? this.costUsd + usage.messageCostUsd;
+      return;
+    }
+
+    const edit = trimmed.match(/^Applied edit to (.+)$/);
+    if (edit) {
+      this.recordTool('Edit', { file_path: edit[1] });
+      return;
+    }
+
+    const added = trimmed.match(/^Add (.+?) to the chat\?/);
+    if (added) {
+      this.recordTool('Read', { file_path: added[1] });
+      return;
+    }
+
+    const command = trimmed.match(/^Running (.+)$/);
+    if (command) {
+      this.recordTool('Bash', { command: command[1] });
+      return;
+    }
+
+    if (NOISE_PATTERNS.some((p) => p.test(trimmed))) {
+      return;
+    }
+
+    this.answerLines.push(line);
+    this.onEvent?.({ type: 'text_delta', text: line + '\n' });
+  }
+
+  /**
+   * The model's answer with aider bookkeeping removed
+   */
+  get answer(): string {
+    return this.answerLines.join('\n').trim();
+  }
+
+  /**
+   * Record an action aider took as a completed tool call
+   */
+  private recordTool(name: string, input: Record<string, unknown>): void {
+    const toolCall: ToolCall = {
+      id: `aider-${this.nextToolId++}`,
+      name,
+      input,
+      timestamp: Date.now(),
+      durationMs: 0,
+      success: true,
+    };
+    this.toolCalls.push(toolCall);
+
+    this.onEvent?.({ type: 'tool_start', tool: toolCall });
+    this.onEvent?.({ type: 'tool_end', toolId: toolCall.id, success: true, durationMs: 0 });
+  }
+}
+
+/**
+ * Aider agent wrapper
+ */
+export class AiderAgent implements AgentWrapper {
+  name = 'aider';
+  displayName = 'Aider';
+
+  /** Path to aider CLI */
+  private cliPath: string;
+
+  constructor(cliPath: string = 'aider') {
+    this.cliPath = cliPath;
+  }
+
+  /**
+   * Check if aider is available
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const version = await this.getVersion();
+      return version !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get aider version ("aider 0.86.1" -> "0.86.1")
+   */
+  async getVersion(): Promise<string | null> {
+    const output = await readCommandOutput(this.cliPath, ['--version'], { env: process.env });
+    return output ? output.replace(/^aider\s+/i, '') : null;
+  }
+
+  /**
+   * Build aider CLI arguments for a one-shot run
+   */
+  private buildArgs(prompt: string, options: AgentRunOptions): string[] {
+    const args = [
+      '--message',
+      prompt,
+      '--yes-always',
+      '--no-pretty',
+      '--no-stream',
+      '--no-auto-commits',
+      '--no-check-update',
+      '--no-show-model-warnings',
+    ];
+
+    if (options.model) {
+      args.push('--model', options.model);
+    }
+
+    // Aider offers to create a repo when there isn't one; don't touch the workspace's VCS state
+    if (!fs.existsSync(path.join(options.cwd, '.git'))) {
+      args.push('--no-git');
+    }
+
+    return args;
+  }
+
+  /**
+   * Run a prompt through aider
+   */
+  async run(prompt: string, options: AgentRunOptions): Promise<AgentResult> {
+    const startTime = Date.now();
+    const parser = new AiderOutputParser(options.onEvent);
+
+    const proc = await runAgentProcess(this.cliPath, this.buildArgs(prompt, options), {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      timeoutMs: options.timeoutMs || 300000, // 5 min default
+      onLine: (line) => parser.push(line),
+    });
+
+    const error = describeProcessFailure(proc, 'aider');
+    if (error) {
+      options.onEvent?.({
+        type: 'error',
+        message: error,
+        code: proc.timedOut ? 'TIMEOUT' : 'ERROR',
+      });
+    }
+
+    const result: AgentResult = {
+      answer: parser.answer,
+      success: !error,
+      error,
+      timedOut: proc.timedOut,
+      durationMs: Date.now() - startTime,
+      tokens: parser.tokens,
+      costUsd: parser.costUsd,
+      numTurns: parser.numTurns,
+      toolCalls: parser.toolCalls,
+      toolsUsed: [...new Set(parser.toolCalls.map((t) => t.name))],
+      model: parser.model,
+      raw: {
+        stdout: proc.stdout,
+        stderr: proc.stderr,
+        exitCode: proc.exitCode,
+      },
+    };
+
+    options.onEvent?.({ type: 'complete', result });
+    return result;
+  }
+}
+
+/**
+ * Create an aider agent instance
+ */
+export function createAiderAgent(cliPath?: string): AiderAgent {
+  return new AiderAgent(cliPath);
+}
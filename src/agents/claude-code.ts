@@ -11,9 +11,12 @@ import {
   AgentResult,
   AgentRunOptions,
   AgentEvent,
+  BudgetLimit,
+  TokenUsage,
   ToolCall,
   emptyAgentResult,
 } from './types.js';
+import { TrajectoryBlock, TrajectoryBuilder, startTrajectory } from './trajectory.js';
 
 // SDK type imports
 type SDKMessage = import('@anthropic-ai/claude-agent-sdk').SDKMessage;
@@ -24,6 +27,17 @@ type SDKUserMessage = import('@anthropic-ai/claude-agent-sdk').SDKUserMessage;
 type SDKPartialAssistantMessage = import('@anthropic-ai/claude-agent-sdk').SDKPartialAssistantMessage;
 type Options = import('@anthropic-ai/claude-agent-sdk').Options;
 
+/** Default model when none is given with --model */
+const DEFAULT_MODEL = 'claude-haiku-4-5-20251001';
+
+/**
+ * Result subtypes the SDK returns when a run limit stops the agent
+ */
+const BUDGET_SUBTYPES: Record<string, BudgetLimit> = {
+  error_max_budget_usd: 'cost',
+  error_max_turns: 'turns',
+};
+
 /**
  * Type guard for tool_use_result shape (SDK types this as `unknown`)
  */
@@ -41,12 +55,118 @@ function isToolUseResult(value: unknown): value is ToolUseResult {
   );
 }
 
+/**
+ * Token usage as reported by the Messages API
+ */
+interface ApiUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+}
+
+function toTokenUsage(usage: ApiUsage): TokenUsage {
+  return {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+    totalTokens: usage.input_tokens + usage.output_tokens,
+  };
+}
+
+/**
+ * Text of a tool result, which is either a string or a list of content parts
+ */
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map((part: { type?: string; text?: string }) =>
+      part?.type === 'text' ? part.text ?? '' : `[${part?.type ?? 'content'}]`
+    )
+    .join('\n');
+}
+
+/**
+ * Convert Messages API content to trajectory blocks, keeping full text and tool output
+ */
+function toTrajectoryBlocks(content: unknown): TrajectoryBlock[] {
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: content }];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  const blocks: TrajectoryBlock[] = [];
+  for (const block of content as Array<Record<string, unknown>>) {
+    switch (block.type) {
+      case 'text':
+        blocks.push({ type: 'text', text: String(block.text ?? '') });
+        break;
+      case 'thinking':
+        blocks.push({ type: 'thinking', thinking: String(block.thinking ?? '') });
+        break;
+      case 'redacted_thinking':
+        blocks.push({ type: 'thinking', thinking: '[redacted]' });
+        break;
+      case 'tool_use':
+        blocks.push({
+          type: 'tool_use',
+          id: String(block.id),
+          name: String(block.name),
+          input: (block.input ?? {}) as Record<string, unknown>,
+        });
+        break;
+      case 'tool_result':
+        blocks.push({
+          type: 'tool_result',
+          toolUseId: String(block.tool_use_id),
+          content: toolResultText(block.content),
+          ...(block.is_error === true ? { isError: true } : {}),
+        });
+        break;
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Canonical Claude Code tool names, keyed by lowercase name.
+ * Case files list tools loosely (e.g. "read", "grep"), the SDK expects exact names.
+ */
+const CANONICAL_TOOL_NAMES: Record<string, string> = {
+  read: 'Read',
+  write: 'Write',
+  edit: 'Edit',
+  multiedit: 'MultiEdit',
+  bash: 'Bash',
+  grep: 'Grep',
+  glob: 'Glob',
+  ls: 'LS',
+  task: 'Task',
+  todowrite: 'TodoWrite',
+  notebookedit: 'NotebookEdit',
+  webfetch: 'WebFetch',
+  websearch: 'WebSearch',
+};
+
+/**
+ * Map loosely-cased tool names to the names the SDK expects.
+ * Unknown names and patterns like "Bash(git:*)" pass through unchanged.
+ */
+function normalizeToolNames(tools?: string[]): string[] | undefined {
+  return tools?.map((tool) => CANONICAL_TOOL_NAMES[tool.toLowerCase()] ?? tool);
+}
+
 /**
  * Claude Code agent wrapper using the official SDK
  */
 export class ClaudeCodeAgent implements AgentWrapper {
   name = 'claude-code';
   displayName = 'Claude Code';
+  supportsResume = true;
 
   /** Path to claude CLI (for version check) */
   private cliPath: string;
@@ -108,6 +228,9 @@ export class ClaudeCodeAgent implements AgentWrapper {
     let model = 'unknown';
     let sessionId = '';
 
+    const trajectory = startTrajectory(this.name, prompt, options);
+    trajectory?.add('user', [{ type: 'text', text: prompt }]);
+
     try {
       // Dynamic import of ESM SDK
       const sdk = await import('@anthropic-ai/claude-agent-sdk');
@@ -119,13 +242,14 @@ export class ClaudeCodeAgent implements AgentWrapper {
       const sdkOptions: Options = {
         cwd: options.cwd,
         permissionMode: options.permissionMode || 'acceptEdits',
-        allowedTools: options.allowedTools,
-        disallowedTools: options.disallowedTools,
+        allowedTools: normalizeToolNames(options.allowedTools),
+        disallowedTools: normalizeToolNames(options.disallowedTools),
         maxBudgetUsd: options.maxBudgetUsd,
         maxTurns: options.maxTurns,
-        model: options.model || 'claude-haiku-4-5-20251001',
+        model: options.model || DEFAULT_MODEL,
         includePartialMessages: options.includePartialMessages ?? true,
         env: options.env,
+        resume: options.resumeSessionId,
         // Don't load user/project settings - isolation mode
         settingSources: [],
       };
@@ -148,7 +272,7 @@ export class ClaudeCodeAgent implements AgentWrapper {
 
       try {
         for await (const message of query) {
-          this.processMessage(message, options, toolCalls, toolStartTimes, includePartial, startTime, (m) => {
+          this.processMessage(message, options, toolCalls, toolStartTimes, includePartial, startTime, trajectory, (m) => {
             model = m;
           }, (s) => {
             sessionId = s;
@@ -166,6 +290,7 @@ export class ClaudeCodeAgent implements AgentWrapper {
       // Build result from SDK response
       if (finalResult) {
         const result = this.buildResult(finalResult, toolCalls, model, sessionId);
+        result.trajectory = trajectory?.build(model);
         options.onEvent?.({ type: 'complete', result });
         return result;
       }
@@ -175,6 +300,7 @@ export class ClaudeCodeAgent implements AgentWrapper {
       errorResult.durationMs = Date.now() - startTime;
       errorResult.toolCalls = toolCalls;
       errorResult.toolsUsed = [...new Set(toolCalls.map((t) => t.name))];
+      errorResult.trajectory = trajectory?.build(model);
       options.onEvent?.({ type: 'complete', result: errorResult });
       return errorResult;
 
@@ -202,6 +328,7 @@ export class ClaudeCodeAgent implements AgentWrapper {
       errorResult.toolCalls = toolCalls;
       errorResult.toolsUsed = [...new Set(toolCalls.map((t) => t.name))];
       errorResult.model = model;
+      errorResult.trajectory = trajectory?.build(model);
 
       options.onEvent?.({ type: 'complete', result: errorResult });
       return errorResult;
@@ -218,6 +345,7 @@ export class ClaudeCodeAgent implements AgentWrapper {
     toolStartTimes: Map<string, number>,
     includePartialMessages: boolean,
     startTime: number,
+    trajectory: TrajectoryBuilder | undefined,
     setModel: (m: string) => void,
     setSessionId: (s: string) => void,
   ): void {
@@ -241,6 +369,12 @@ export class ClaudeCodeAgent implements AgentWrapper {
         const assistantMsg = message as SDKAssistantMessage;
         // Process content blocks for tool usage
         const content = assistantMsg.message?.content;
+        trajectory?.add(
+          'assistant',
+          toTrajectoryBlocks(content),
+          assistantMsg.message?.usage ? toTokenUsage(assistantMsg.message.usage) : undefined,
+          assistantMsg.message?.id
+        );
         if (Array.isArray(content)) {
           for (const block of content) {
             if (block.type === 'tool_use') {
@@ -283,6 +417,7 @@ export class ClaudeCodeAgent implements AgentWrapper {
       case 'user': {
         // Tool results come back as user messages
         const userMsg = message as SDKUserMessage;
+        trajectory?.add('user', toTrajectoryBlocks(userMsg.message?.content));
         const toolResult = userMsg.tool_use_result;
 
         if (isToolUseResult(toolResult) && toolResult.tool_use_id) {
@@ -374,6 +509,7 @@ export class ClaudeCodeAgent implements AgentWrapper {
       success: isSuccess && !resultMsg.is_error,
       error: !isSuccess ? (resultMsg as { errors?: string[] }).errors?.join(', ') : undefined,
       timedOut: false,
+      budgetExceeded: BUDGET_SUBTYPES[resultMsg.subtype],
       durationMs: resultMsg.duration_ms,
       tokens,
       costUsd: resultMsg.total_cost_usd,
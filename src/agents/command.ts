@@ -0,0 +1,480 @@
+/**
+ * Generic command agent wrapper
+ *
+ * Wraps any CLI agent described by a YAML file in `.sniffbench/agents/`:
+ *
+ * ```yaml
+ * name: my-agent
+ * displayName: My Agent
+ * command: ["./bin/agent", "--model", "{model}", "{prompt}"]
+ * promptMode: argv        # argv | stdin | file
+ * versionCommand: ["./bin/agent", "--version"]
+ * events: jsonl           # optional JSON-lines event protocol on stdout
+ * env:
+ *   AGENT_MODE: benchmark
+ * ```
+ *
+ * Stdout becomes the answer. With `events: jsonl`, stdout lines that are JSON
+ * objects are read as events instead of answer text:
+ *
+ * - `{"type": "model", "model": "..."}`
+ * - `{"type": "tool_start", "id": "1", "name": "Read", "input": {...}}`
+ * - `{"type": "tool_end", "id": "1", "success": true, "durationMs": 12, "result": "..."}`
+ * - `{"type": "usage", "inputTokens": 100, "outputTokens": 20, "costUsd": 0.01}`
+ * - `{"type": "text", "text": "..."}`
+ * - `{"type": "answer", "text": "..."}` (replaces the answer built from stdout)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import YAML from 'yaml';
+import {
+  AgentWrapper,
+  AgentResult,
+  AgentRunOptions,
+  AgentEvent,
+  ToolCall,
+  TokenUsage,
+  emptyTokenUsage,
+} from './types';
+import { getAgentRegistry } from './registry';
+import { describeProcessFailure, readCommandOutput, runAgentProcess } from './process';
+
+/** How the prompt is handed to the command */
+export type PromptMode = 'argv' | 'stdin' | 'file';
+
+/**
+ * Command agent configuration (one YAML file)
+ */
+export interface CommandAgentConfig {
+  /** Name used with `--agent` */
+  name: string;
+  /** Human-readable display name (defaults to name) */
+  displayName?: string;
+  /** Command template; `{prompt}`, `{promptFile}`, `{model}` and `{cwd}` are substituted */
+  command: string[];
+  /** How the prompt is passed (default: argv) */
+  promptMode?: PromptMode;
+  /** Command printing the agent version; availability falls back to finding the executable */
+  versionCommand?: string[];
+  /** Parse JSON-lines events from stdout */
+  events?: 'jsonl';
+  /** Extra environment variables */
+  env?: Record<string, string>;
+  /** Directory relative command paths are resolved against */
+  baseDir: string;
+}
+
+/**
+ * Invalid command agent configuration
+ */
+export class CommandAgentConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandAgentConfigError';
+  }
+}
+
+/**
+ * Split a command string on whitespace, honoring single and double quotes
+ */
+function splitCommand(command: string): string[] {
+  const parts: string[] = [];
+  const regex = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(command)) !== null) {
+    parts.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return parts;
+}
+
+/**
+ * Normalize a command given as a string or an argv list
+ */
+function parseCommandField(value: unknown, field: string, source: string): string[] {
+  const argv = typeof value === 'string' ? splitCommand(value) : value;
+  if (!Array.isArray(argv) || argv.length === 0 || !argv.every((a) => typeof a === 'string')) {
+    throw new CommandAgentConfigError(
+      `${source}: '${field}' must be a non-empty string or list of strings`
+    );
+  }
+  return argv;
+}
+
+/**
+ * Validate raw YAML data as a command agent config
+ */
+export function parseCommandAgentConfig(
+  data: unknown,
+  baseDir: string,
+  source: string = 'agent config'
+): CommandAgentConfig {
+  if (!data || typeof data !== 'object') {
+    throw new CommandAgentConfigError(`${source}: expected a mapping`);
+  }
+  const raw = data as Record<string, unknown>;
+
+  if (typeof raw.name !== 'string' || !/^[a-zA-Z0-9_.-]+$/.test(raw.name)) {
+    throw new CommandAgentConfigError(
+      `${source}: 'name' is required and may only contain letters, digits, '.', '_' and '-'`
+    );
+  }
+
+  const promptMode = raw.promptMode ?? 'argv';
+  if (promptMode !== 'argv' && promptMode !== 'stdin' && promptMode !== 'file') {
+    throw new CommandAgentConfigError(
+      `${source}: 'promptMode' must be one of argv, stdin, file (got ${String(promptMode)})`
+    );
+  }
+
+  if (raw.events !== undefined && raw.events !== 'jsonl') {
+    throw new CommandAgentConfigError(`${source}: 'events' must be 'jsonl' if set`);
+  }
+
+  if (
+    raw.env !== undefined &&
+    (typeof raw.env !== 'object' ||
+      raw.env === null ||
+      !Object.values(raw.env).every((v) => typeof v === 'string'))
+  ) {
+    throw new CommandAgentConfigError(`${source}: 'env' must map names to string values`);
+  }
+
+  return {
+    name: raw.name,
+    displayName: typeof raw.displayName === 'string' ? raw.displayName : undefined,
+    command: parseCommandField(raw.command, 'command', source),
+    promptMode,
+    versionCommand:
+      raw.versionCommand !== undefined
+        ? parseCommandField(raw.versionCommand, 'versionCommand', source)
+        : undefined,
+    events: raw.events as 'jsonl' | undefined,
+    env: raw.env as Record<string, string> | undefined,
+    baseDir,
+  };
+}
+
+/**
+ * Substitute `{placeholder}` values in a command template
+ */
+function substitute(arg: string, values: Record<string, string>): string {
+  return arg.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Check whether an executable exists, searching PATH for bare names
+ */
+function findExecutable(command: string, baseDir: string): boolean {
+  const candidates = command.includes('/')
+    ? [path.resolve(baseDir, command)]
+    : (process.env.PATH || '').split(path.delimiter).map((dir) => path.join(dir, command));
+
+  return candidates.some((candidate) => {
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      return fs.statSync(candidate).isFile();
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Parser for the optional JSON-lines event protocol
+ */
+class CommandOutputParser {
+  model = 'unknown';
+  tokens: TokenUsage = emptyTokenUsage();
+  costUsd = 0;
+  numTurns = 0;
+  toolCalls: ToolCall[] = [];
+  answerOverride?: string;
+
+  private textLines: string[] = [];
+
+  constructor(
+    private parseEvents: boolean,
+    private onEvent?: (event: AgentEvent) => void
+  ) {}
+
+  push(line: string): void {
+    const event = this.parseEvents ? this.parseEvent(line) : null;
+    if (!event) {
+      this.textLines.push(line);
+      this.onEvent?.({ type: 'text_delta', text: line + '\n' });
+      return;
+    }
+
+    switch (event.type) {
+      case 'model':
+        if (typeof event.model === 'string') {
+          this.model = event.model;
+          this.onEvent?.({ type: 'start', timestamp: Date.now(), model: this.model });
+        }
+        break;
+
+      case 'tool_start': {
+        const toolCall: ToolCall = {
+          id: typeof event.id === 'string' ? event.id : `tool-${this.toolCalls.length + 1}`,
+          name: typeof event.name === 'string' ? event.name : 'unknown',
+          input: (event.input as Record<string, unknown>) || {},
+          timestamp: Date.now(),
+        };
+        this.toolCalls.push(toolCall);
+        this.onEvent?.({ type: 'tool_start', tool: toolCall });
+        break;
+      }
+
+      case 'tool_end': {
+        const toolCall = this.toolCalls.find((t) => t.id === event.id);
+        const durationMs = typeof event.durationMs === 'number' ? event.durationMs : 0;
+        const success = event.success !== false;
+        const result = typeof event.result === 'string' ? event.result : undefined;
+        if (toolCall) {
+          toolCall.durationMs = durationMs;
+          toolCall.success = success;
+          toolCall.result = result?.substring(0, 500);
+        }
+        this.onEvent?.({
+          type: 'tool_end',
+          toolId: String(event.id),
+          success,
+          durationMs,
+          result: result?.substring(0, 200),
+        });
+        break;
+      }
+
+      case 'usage': {
+        const count = (key: string) =>
+          typeof event[key] === 'number' ? (event[key] as number) : 0;
+        this.numTurns++;
+        this.tokens.inputTokens += count('inputTokens');
+        this.tokens.outputTokens += count('outputTokens');
+        this.tokens.cacheReadTokens += count('cacheReadTokens');
+        this.tokens.cacheWriteTokens += count('cacheWriteTokens');
+        this.tokens.totalTokens += count('inputTokens') + count('outputTokens');
+        this.costUsd += count('costUsd');
+        break;
+      }
+
+      case 'text':
+        if (typeof event.text === 'string') {
+          this.onEvent?.({ type: 'text_delta', text: event.text });
+        }
+        break;
+
+      case 'answer':
+        if (typeof event.text === 'string') {
+          this.answerOverride = event.text;
+        }
+        break;
+    }
+  }
+
+  get answer(): string {
+    return this.answerOverride ?? this.textLines.join('\n').trim();
+  }
+
+  private parseEvent(line: string): Record<string, unknown> | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) return null;
+    try {
+      const parsed = JSON.parse(trimmed);
+      return parsed && typeof parsed === 'object' && typeof parsed.type === 'string'
+        ? parsed
+        : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Agent wrapper that runs a configured command
+ */
+export class CommandAgent implements AgentWrapper {
+  name: string;
+  displayName: string;
+
+  constructor(private config: CommandAgentConfig) {
+    this.name = config.name;
+    this.displayName = config.displayName || config.name;
+  }
+
+  /**
+   * Check if the agent command is available
+   */
+  async isAvailable(): Promise<boolean> {
+    if (this.config.versionCommand) {
+      return (await this.getVersion()) !== null;
+    }
+    return findExecutable(this.config.command[0], this.config.baseDir);
+  }
+
+  /**
+   * Get the agent version from `versionCommand`, if configured
+   */
+  async getVersion(): Promise<string | null> {
+    const versionCommand = this.config.versionCommand;
+    if (!versionCommand) {
+      return null;
+    }
+
+    return readCommandOutput(this.resolveExecutable(versionCommand[0]), versionCommand.slice(1), {
+      cwd: this.config.baseDir,
+      env: { ...process.env, ...this.config.env },
+    });
+  }
+
+  /**
+   * Run a prompt through the command
+   */
+  async run(prompt: string, options: AgentRunOptions): Promise<AgentResult> {
+    const startTime = Date.now();
+    const promptMode = this.config.promptMode || 'argv';
+    const parser = new CommandOutputParser(this.config.events === 'jsonl', options.onEvent);
+
+    // File mode: write the prompt to a temp file the command can read
+    let promptDir: string | undefined;
+    let promptFile = '';
+    if (promptMode === 'file') {
+      promptDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-prompt-'));
+      promptFile = path.join(promptDir, 'prompt.md');
+      fs.writeFileSync(promptFile, prompt);
+    }
+
+    const argv = this.buildArgv(prompt, promptFile, options);
+
+    const proc = await runAgentProcess(this.resolveExecutable(argv[0]), argv.slice(1), {
+      cwd: options.cwd,
+      env: { ...process.env, ...this.config.env, ...options.env },
+      input: promptMode === 'stdin' ? prompt : undefined,
+      timeoutMs: options.timeoutMs || 300000, // 5 min default
+      onLine: (line) => parser.push(line),
+    });
+    if (promptDir) {
+      fs.rmSync(promptDir, { recursive: true, force: true });
+    }
+
+    const error = describeProcessFailure(proc, this.name);
+    if (error) {
+      options.onEvent?.({
+        type: 'error',
+        message: error,
+        code: proc.timedOut ? 'TIMEOUT' : 'ERROR',
+      });
+    }
+
+    const result: AgentResult = {
+      answer: parser.answer,
+      success: !error,
+      error,
+      timedOut: proc.timedOut,
+      durationMs: Date.now() - startTime,
+      tokens: parser.tokens,
+      costUsd: parser.costUsd,
+      numTurns: parser.numTurns,
+      toolCalls: parser.toolCalls,
+      toolsUsed: [...new Set(parser.toolCalls.map((t) => t.name))],
+      model: parser.model !== 'unknown' ? parser.model : options.model || 'unknown',
+      raw: {
+        stdout: proc.stdout,
+        stderr: proc.stderr,
+        exitCode: proc.exitCode,
+      },
+    };
+
+    options.onEvent?.({ type: 'complete', result });
+    return result;
+  }
+
+  /**
+   * Fill in the command template for one run
+   */
+  private buildArgv(prompt: string, promptFile: string, options: AgentRunOptions): string[] {
+    const values: Record<string, string> = {
+      prompt,
+      promptFile,
+      model: options.model || '',
+      cwd: options.cwd,
+    };
+    const template = this.config.command;
+    const argv = template.map((arg) => substitute(arg, values));
+
+    // Append the prompt (or its file) when the template doesn't place it
+    const mode = this.config.promptMode || 'argv';
+    if (mode === 'argv' && !template.some((arg) => arg.includes('{prompt}'))) {
+      argv.push(prompt);
+    } else if (mode === 'file' && !template.some((arg) => arg.includes('{promptFile}'))) {
+      argv.push(promptFile);
+    }
+
+    return argv;
+  }
+
+  /**
+   * Resolve relative command paths against the config's base directory
+   */
+  private resolveExecutable(command: string): string {
+    return command.includes('/') ? path.resolve(this.config.baseDir, command) : command;
+  }
+}
+
+/**
+ * Get the directory holding command agent configs
+ */
+export function getCommandAgentsDir(projectRoot: string = process.cwd()): string {
+  return path.join(projectRoot, '.sniffbench', 'agents');
+}
+
+/**
+ * Load a command agent from a YAML file
+ *
+ * Relative command paths are resolved against the project root.
+ */
+export function loadCommandAgentFile(filePath: string, projectRoot: string): CommandAgent {
+  const data = YAML.parse(fs.readFileSync(filePath, 'utf-8'));
+  return new CommandAgent(parseCommandAgentConfig(data, projectRoot, filePath));
+}
+
+/**
+ * Load command agents from `.sniffbench/agents/` and register them
+ *
+ * Invalid files and names that clash with already registered agents are
+ * skipped with a warning.
+ */
+export function loadCommandAgents(projectRoot: string = process.cwd()): CommandAgent[] {
+  const dir = getCommandAgentsDir(projectRoot);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const registry = getAgentRegistry();
+  const loaded: CommandAgent[] = [];
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isFile() || !(entry.name.endsWith('.yaml') || entry.name.endsWith('.yml'))) {
+      continue;
+    }
+
+    const filePath = path.join(dir, entry.name);
+    try {
+      const agent = loadCommandAgentFile(filePath, projectRoot);
+      if (registry.get(agent.name)) {
+        console.warn(
+          `Warning: Agent '${agent.name}' from ${filePath} is already registered, skipping`
+        );
+        continue;
+      }
+      registry.register(agent);
+      loaded.push(agent);
+    } catch (err) {
+      console.warn(`Warning: Failed to load agent from ${filePath}: ${(err as Error).message}`);
+    }
+  }
+
+  return loaded;
+}
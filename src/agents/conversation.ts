@@ -0,0 +1,83 @@
+/**
+ * Multi-turn conversations
+ *
+ * Asks follow-up questions after an agent's first answer. Agents that
+ * support sessions continue the same session; for the rest, each follow-up
+ * prompt repeats the conversation so far.
+ */
+
+import { AgentResult, AgentWrapper } from './types';
+
+/**
+ * One answered follow-up question
+ */
+export interface ConversationTurn {
+  /** The follow-up question as written in the case */
+  prompt: string;
+  /** The agent's result for this turn */
+  result: AgentResult;
+}
+
+/**
+ * Runs one turn: the prompt to send and the session to continue, if any
+ */
+export type TurnRunner = (prompt: string, resumeSessionId?: string) => Promise<AgentResult>;
+
+/**
+ * Build a self-contained prompt for agents that can't continue a session
+ */
+export function buildContinuationPrompt(
+  history: Array<{ prompt: string; answer: string }>,
+  followUp: string
+): string {
+  const transcript = history
+    .map((turn) => `Question:\n${turn.prompt}\n\nYour answer:\n${turn.answer}`)
+    .join('\n\n---\n\n');
+
+  return `This is a follow-up to an earlier conversation about this codebase.
+
+${transcript}
+
+---
+
+Follow-up question:
+${followUp}`;
+}
+
+/**
+ * Ask follow-up questions after a successful first turn
+ *
+ * Stops at the first failed turn, since later questions build on its answer.
+ */
+export async function runFollowUps(
+  agent: AgentWrapper,
+  first: { prompt: string; result: AgentResult },
+  followUps: string[],
+  runTurn: TurnRunner,
+  onTurnStart?: (prompt: string, index: number) => void
+): Promise<ConversationTurn[]> {
+  const turns: ConversationTurn[] = [];
+  const history = [{ prompt: first.prompt, answer: first.result.answer }];
+  let previous = first.result;
+
+  for (let i = 0; i < followUps.length; i++) {
+    if (!previous.success) {
+      break;
+    }
+
+    const followUp = followUps[i];
+    onTurnStart?.(followUp, i);
+
+    const sessionId = previous.raw?.sessionId;
+    const result =
+      agent.supportsResume && sessionId
+        ? await runTurn(followUp, sessionId)
+        : await runTurn(buildContinuationPrompt(history, followUp));
+
+    turns.push({ prompt: followUp, result });
+    history.push({ prompt: followUp, answer: result.answer });
+    previous = result;
+  }
+
+  return turns;
+}
@@ -6,4 +6,14 @@
 
 export * from './types';
 export * from './claude-code';
+export * from './aider';
+export * from './command';
+export * from './process';
+export * from './openai';
+export * from './replay';
+export * from './trajectory';
+export * from './mock';
+export * from './plugins';
+export * from './conversation';
+export * from './limits';
 export * from './registry';
@@ -0,0 +1,206 @@
+/**
+ * Run limits
+ *
+ * Model, budget, turn and tool settings chosen for one invocation of
+ * `sniff run` or `sniff interview`. They are merged with each case's
+ * expectations before the agent runs and checked against its result after:
+ * a run that goes over a limit is reported as "budget exceeded", not as a failure.
+ */
+
+import type { CaseExpectations } from '../cases/types';
+import { AgentResult, AgentRunOptions, BudgetLimit } from './types';
+
+/**
+ * Agent settings that apply to every case of a run
+ */
+export type AgentRunSettings = Pick<
+  AgentRunOptions,
+  | 'model'
+  | 'maxBudgetUsd'
+  | 'maxTurns'
+  | 'maxTokens'
+  | 'permissionMode'
+  | 'allowedTools'
+  | 'disallowedTools'
+>;
+
+/**
+ * Run settings as given on the command line
+ */
+export interface RunSettingsFlags {
+  model?: string;
+  maxBudget?: string;
+  maxTurns?: string;
+  maxTokens?: string;
+  permissionMode?: string;
+  allowedTools?: string;
+  disallowedTools?: string;
+}
+
+/** Permission modes accepted by `--permission-mode` */
+export const PERMISSION_MODES = ['default', 'acceptEdits', 'bypassPermissions', 'plan'] as const;
+
+/**
+ * Invalid run settings
+ */
+export class RunSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunSettingsError';
+  }
+}
+
+function parsePositive(
+  value: string | undefined,
+  flag: string,
+  integer: boolean
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0 || (integer && !Number.isInteger(parsed))) {
+    throw new RunSettingsError(
+      `${flag} must be a positive ${integer ? 'integer' : 'number'}, got '${value}'`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Parse a flag that must be a positive integer (e.g. `--concurrency`)
+ */
+export function parsePositiveInteger(value: string | undefined, flag: string): number | undefined {
+  return parsePositive(value, flag, true);
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  const tools = value
+    ?.split(',')
+    .map((t) => t.trim())
+    .filter(Boolean);
+  return tools && tools.length > 0 ? tools : undefined;
+}
+
+/**
+ * Validate run settings given on the command line
+ */
+export function parseRunSettings(flags: RunSettingsFlags): AgentRunSettings {
+  const permissionMode = flags.permissionMode;
+  if (
+    permissionMode !== undefined &&
+    !(PERMISSION_MODES as readonly string[]).includes(permissionMode)
+  ) {
+    throw new RunSettingsError(
+      `--permission-mode must be one of ${PERMISSION_MODES.join(', ')}, got '${permissionMode}'`
+    );
+  }
+
+  const settings: AgentRunSettings = {
+    model: flags.model || undefined,
+    maxBudgetUsd: parsePositive(flags.maxBudget, '--max-budget', false),
+    maxTurns: parsePositive(flags.maxTurns, '--max-turns', true),
+    maxTokens: parsePositive(flags.maxTokens, '--max-tokens', true),
+    permissionMode: permissionMode as AgentRunSettings['permissionMode'],
+    allowedTools: parseList(flags.allowedTools),
+    disallowedTools: parseList(flags.disallowedTools),
+  };
+
+  // Drop unset keys so the settings can be spread over other options
+  return Object.fromEntries(
+    Object.entries(settings).filter(([, value]) => value !== undefined)
+  ) as AgentRunSettings;
+}
+
+/**
+ * Parse the comma-separated `--models` list of a model sweep
+ */
+export function parseModelList(value: string): string[] {
+  const models = [...new Set(parseList(value) ?? [])];
+  if (models.length === 0) {
+    throw new RunSettingsError('--models must list at least one model');
+  }
+  return models;
+}
+
+function stricter(a?: number, b?: number): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.min(a, b);
+}
+
+/**
+ * Settings for one case: the stricter of each numeric limit, and the case's
+ * own tool lists in place of the run's when it has them
+ */
+export function resolveRunSettings(
+  settings: AgentRunSettings = {},
+  expectations: CaseExpectations = {}
+): AgentRunSettings {
+  const resolved: AgentRunSettings = {
+    ...settings,
+    maxTurns: stricter(settings.maxTurns, expectations.maxIterations),
+    maxTokens: stricter(settings.maxTokens, expectations.maxTokens),
+    allowedTools: expectations.allowedTools ?? settings.allowedTools,
+    disallowedTools: expectations.disallowedTools ?? settings.disallowedTools,
+  };
+
+  return Object.fromEntries(
+    Object.entries(resolved).filter(([, value]) => value !== undefined)
+  ) as AgentRunSettings;
+}
+
+/**
+ * Describe what an agent used against the limit it went over
+ */
+export function describeBudgetExceeded(
+  limit: BudgetLimit,
+  result: AgentResult,
+  settings: AgentRunSettings = {}
+): string {
+  switch (limit) {
+    case 'cost':
+      return settings.maxBudgetUsd !== undefined
+        ? `Budget exceeded: spent $${result.costUsd.toFixed(4)} (limit $${settings.maxBudgetUsd})`
+        : 'Budget exceeded: reached the cost limit';
+    case 'tokens':
+      return settings.maxTokens !== undefined
+        ? `Budget exceeded: used ${result.tokens.totalTokens} tokens (limit ${settings.maxTokens})`
+        : 'Budget exceeded: reached the token limit';
+    case 'turns':
+      return settings.maxTurns !== undefined
+        ? `Budget exceeded: took ${result.numTurns} turns (limit ${settings.maxTurns})`
+        : 'Budget exceeded: reached the turn limit';
+  }
+}
+
+/**
+ * Check an agent result against the run limits
+ *
+ * Agents that enforce a limit themselves set `budgetExceeded`; anything the
+ * agent didn't enforce is checked here from the reported usage.
+ */
+export function checkRunLimits(result: AgentResult, settings: AgentRunSettings = {}): AgentResult {
+  let limit = result.budgetExceeded;
+
+  if (!limit && !result.timedOut) {
+    if (settings.maxBudgetUsd !== undefined && result.costUsd > settings.maxBudgetUsd) {
+      limit = 'cost';
+    } else if (settings.maxTokens !== undefined && result.tokens.totalTokens > settings.maxTokens) {
+      limit = 'tokens';
+    } else if (settings.maxTurns !== undefined && result.numTurns > settings.maxTurns) {
+      limit = 'turns';
+    }
+  }
+
+  if (!limit) {
+    return result;
+  }
+
+  return {
+    ...result,
+    success: false,
+    budgetExceeded: limit,
+    error: describeBudgetExceeded(limit, result, settings),
+  };
+}
@@ -0,0 +1,474 @@
+/**
+ * Scripted mock agent
+ *
+ * Follows a per-case YAML script instead of calling a model, so the runner,
+ * evaluators and interview flow can be exercised end-to-end in tests. Only
+ * registered when SNIFF_MOCK_AGENT is set (to `1`, or to a scripts directory;
+ * the default directory is `.sniffbench/mock-scripts/`).
+ *
+ * ```yaml
+ * # .sniffbench/mock-scripts/fail-001.yaml
+ * case: fail-001          # defaults to the file name
+ * match: brokenAdd        # optional prompt substring, for runs without a case ID
+ * model: mock-model
+ * steps:
+ *   - read: broken.js
+ *   - edit: { path: broken.js, find: "a - b", replace: "a + b" }
+ *   - write: { path: notes.md, content: "..." }
+ *   - shell: node broken.test.js
+ *   - tool: { name: WebSearch, input: { query: "..." }, result: "..." }
+ *   - text: "Fixed the operator, running the tests again."
+ * answer: brokenAdd now adds.
+ * followUps:              # answers to follow-up questions in the same session
+ *   - answer: The bug was in broken.js.
+ * ```
+ *
+ * Each step becomes a tool call (or streamed text) and a turn. Edits are
+ * applied in the workspace and shell commands run in the case sandbox when
+ * one is provided. Token counts are estimated from text length.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import {
+  AgentWrapper,
+  AgentResult,
+  AgentRunOptions,
+  TokenUsage,
+  ToolCall,
+  emptyTokenUsage,
+} from './types';
+import { startTrajectory } from './trajectory';
+import { resolveWorkspacePath, runHostShell } from './openai';
+
+/** Default per-command timeout for shell steps */
+const DEFAULT_SHELL_TIMEOUT_MS = 60_000;
+
+/**
+ * One scripted step
+ */
+export type MockStep =
+  | { read: string }
+  | { edit: { path: string; find: string; replace: string } }
+  | { write: { path: string; content: string } }
+  | { shell: string }
+  | { tool: { name: string; input?: Record<string, unknown>; result?: string; success?: boolean } }
+  | { text: string };
+
+/**
+ * Steps and answer for one prompt
+ */
+export interface MockTurn {
+  /** Steps performed in order */
+  steps: MockStep[];
+  /** Final answer */
+  answer: string;
+  /** Whether the run reports success (default: true) */
+  success?: boolean;
+}
+
+/**
+ * A mock agent script (one YAML file)
+ */
+export interface MockScript extends MockTurn {
+  /** Case ID the script answers */
+  case: string;
+  /** Prompt substring the script answers when no case ID is given */
+  match?: string;
+  /** Model name reported in results (default: mock) */
+  model?: string;
+  /** Turns answering follow-up questions, in order, when the session is resumed */
+  followUps?: MockTurn[];
+}
+
+/**
+ * Invalid mock agent script
+ */
+export class MockScriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MockScriptError';
+  }
+}
+
+const STEP_KINDS = ['read', 'edit', 'write', 'shell', 'tool', 'text'];
+
+/**
+ * Default directory for mock agent scripts
+ */
+export function getMockScriptsDir(projectRoot: string = process.cwd()): string {
+  return path.join(projectRoot, '.sniffbench', 'mock-scripts');
+}
+
+/**
+ * Validate the steps and answer of one turn
+ */
+function parseMockTurn(raw: Record<string, unknown>, source: string): MockTurn {
+  const steps = raw.steps ?? [];
+  if (!Array.isArray(steps)) {
+    throw new MockScriptError(`${source}: 'steps' must be a list`);
+  }
+  steps.forEach((step, i) => {
+    const kinds = step && typeof step === 'object' ? Object.keys(step) : [];
+    if (kinds.length !== 1 || !STEP_KINDS.includes(kinds[0])) {
+      throw new MockScriptError(
+        `${source}: step ${i + 1} must have exactly one of ${STEP_KINDS.join(', ')}`
+      );
+    }
+  });
+
+  if (raw.answer !== undefined && typeof raw.answer !== 'string') {
+    throw new MockScriptError(`${source}: 'answer' must be a string`);
+  }
+
+  return {
+    steps: steps as MockStep[],
+    answer: (raw.answer as string | undefined) ?? '',
+    success: raw.success === false ? false : undefined,
+  };
+}
+
+/**
+ * Validate raw YAML data as a mock script
+ */
+export function parseMockScript(data: unknown, defaultCase: string, source: string): MockScript {
+  if (!data || typeof data !== 'object') {
+    throw new MockScriptError(`${source}: expected a mapping`);
+  }
+  const raw = data as Record<string, unknown>;
+
+  let followUps: MockTurn[] | undefined;
+  if (raw.followUps !== undefined) {
+    if (!Array.isArray(raw.followUps)) {
+      throw new MockScriptError(`${source}: 'followUps' must be a list`);
+    }
+    followUps = raw.followUps.map((turn, i) => {
+      if (!turn || typeof turn !== 'object') {
+        throw new MockScriptError(`${source}: followUps[${i}] must be a mapping`);
+      }
+      return parseMockTurn(turn as Record<string, unknown>, `${source} followUps[${i}]`);
+    });
+  }
+
+  return {
+    ...parseMockTurn(raw, source),
+    case: typeof raw.case === 'string' ? raw.case : defaultCase,
+    match: typeof raw.match === 'string' ? raw.match : undefined,
+    model: typeof raw.model === 'string' ? raw.model : undefined,
+    followUps,
+  };
+}
+
+/**
+ * Load all scripts in a directory
+ */
+export function loadMockScripts(dir: string): MockScript[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith('.yaml') || f.endsWith('.yml'))
+    .sort()
+    .map((f) => {
+      const filePath = path.join(dir, f);
+      const data = YAML.parse(fs.readFileSync(filePath, 'utf-8'));
+      return parseMockScript(data, path.basename(f, path.extname(f)), filePath);
+    });
+}
+
+/**
+ * Rough token estimate for generated or consumed text
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function turnUsage(inputTokens: number, outputTokens: number): TokenUsage {
+  return {
+    ...emptyTokenUsage(),
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+  };
+}
+
+/**
+ * Agent that follows scripts instead of calling a model
+ */
+export class MockAgent implements AgentWrapper {
+  name = 'mock';
+  displayName = 'Mock Agent';
+  supportsResume = true;
+
+  constructor(private scriptsDir: string) {}
+
+  async isAvailable(): Promise<boolean> {
+    return fs.existsSync(this.scriptsDir);
+  }
+
+  async getVersion(): Promise<string | null> {
+    return 'scripted';
+  }
+
+  /**
+   * Find the script for a case ID or prompt
+   */
+  findScript(prompt: string, caseId?: string): MockScript | null {
+    const scripts = loadMockScripts(this.scriptsDir);
+    return (
+      (caseId && scripts.find((s) => s.case === caseId)) ||
+      scripts.find((s) => s.match !== undefined && prompt.includes(s.match)) ||
+      null
+    );
+  }
+
+  async run(prompt: string, options: AgentRunOptions): Promise<AgentResult> {
+    const startTime = Date.now();
+    const result: AgentResult = {
+      answer: '',
+      success: false,
+      timedOut: false,
+      durationMs: 0,
+      tokens: emptyTokenUsage(),
+      costUsd: 0,
+      numTurns: 0,
+      toolCalls: [],
+      toolsUsed: [],
+      model: 'mock',
+    };
+
+    const trajectory = startTrajectory(this.name, prompt, options);
+    trajectory?.add('user', [{ type: 'text', text: prompt }]);
+
+    const finish = (): AgentResult => {
+      result.durationMs = Date.now() - startTime;
+      result.trajectory = trajectory?.build(result.model);
+      result.toolsUsed = [...new Set(result.toolCalls.map((t) => t.name))];
+      result.tokens.totalTokens = result.tokens.inputTokens + result.tokens.outputTokens;
+      options.onEvent?.({ type: 'complete', result });
+      return result;
+    };
+
+    // Session IDs are `mock-<case>-<turns answered>`; resuming answers the next follow-up
+    const resumed = options.resumeSessionId?.match(/^mock-(.+)-(\d+)$/);
+    const turnIndex = resumed ? Number(resumed[2]) : 0;
+
+    let script: MockScript | null;
+    try {
+      script = this.findScript(prompt, resumed ? resumed[1] : options.caseId);
+    } catch (err) {
+      result.error = (err as Error).message;
+      options.onEvent?.({ type: 'error', message: result.error });
+      return finish();
+    }
+
+    if (!script) {
+      result.error = `No mock script for ${options.caseId ? `case ${options.caseId}` : 'this prompt'} in ${this.scriptsDir}`;
+      options.onEvent?.({ type: 'error', message: result.error });
+      return finish();
+    }
+
+    const turn = turnIndex === 0 ? script : script.followUps?.[turnIndex - 1];
+    if (!turn) {
+      result.error = `No scripted follow-up ${turnIndex} for case ${script.case}`;
+      options.onEvent?.({ type: 'error', message: result.error });
+      return finish();
+    }
+
+    result.model = script.model || 'mock';
+    result.raw = { sessionId: `mock-${script.case}-${turnIndex + 1}` };
+    options.onEvent?.({ type: 'start', timestamp: startTime, model: result.model });
+
+    // Each turn re-reads the conversation so far, like a real agent loop
+    let context = prompt;
+
+    for (let i = 0; i < turn.steps.length; i++) {
+      if (options.maxTurns && result.numTurns >= options.maxTurns) {
+        result.error = `Reached the turn limit (${options.maxTurns})`;
+        return finish();
+      }
+      result.numTurns++;
+      const inputTokens = estimateTokens(context);
+      result.tokens.inputTokens += inputTokens;
+
+      const step = turn.steps[i];
+      if ('text' in step) {
+        const outputTokens = estimateTokens(step.text);
+        result.tokens.outputTokens += outputTokens;
+        context += step.text;
+        trajectory?.add(
+          'assistant',
+          [{ type: 'text', text: step.text }],
+          turnUsage(inputTokens, outputTokens)
+        );
+        options.onEvent?.({ type: 'text_delta', text: step.text });
+        continue;
+      }
+
+      const toolCall = await this.runStep(step, `mock-${i + 1}`, options);
+      result.toolCalls.push(toolCall);
+      const toolInput = JSON.stringify(toolCall.input);
+      const outputTokens = estimateTokens(toolInput);
+      result.tokens.outputTokens += outputTokens;
+      context += toolInput + (toolCall.result || '');
+
+      trajectory?.add(
+        'assistant',
+        [{ type: 'tool_use', id: toolCall.id, name: toolCall.name, input: toolCall.input }],
+        turnUsage(inputTokens, outputTokens)
+      );
+      trajectory?.add('user', [
+        {
+          type: 'tool_result',
+          toolUseId: toolCall.id,
+          content: toolCall.result || '',
+          ...(toolCall.success ? {} : { isError: true }),
+        },
+      ]);
+    }
+
+    result.numTurns++;
+    const inputTokens = estimateTokens(context);
+    const outputTokens = estimateTokens(turn.answer);
+    result.tokens.inputTokens += inputTokens;
+    result.tokens.outputTokens += outputTokens;
+    trajectory?.add(
+      'assistant',
+      [{ type: 'text', text: turn.answer }],
+      turnUsage(inputTokens, outputTokens)
+    );
+    result.answer = turn.answer;
+    result.success = turn.success !== false;
+    if (!result.success) {
+      result.error = 'Scripted failure';
+    }
+    if (turn.answer) {
+      options.onEvent?.({ type: 'text_delta', text: turn.answer });
+    }
+
+    return finish();
+  }
+
+  /**
+   * Perform one tool step, emitting start/end events
+   */
+  private async runStep(
+    step: Exclude<MockStep, { text: string }>,
+    id: string,
+    options: AgentRunOptions
+  ): Promise<ToolCall> {
+    let name: string;
+    let input: Record<string, unknown>;
+    if ('read' in step) {
+      name = 'Read';
+      input = { file_path: step.read };
+    } else if ('edit' in step) {
+      name = 'Edit';
+      input = {
+        file_path: step.edit.path,
+        old_string: step.edit.find,
+        new_string: step.edit.replace,
+      };
+    } else if ('write' in step) {
+      name = 'Write';
+      input = { file_path: step.write.path, content: step.write.content };
+    } else if ('shell' in step) {
+      name = 'Bash';
+      input = { command: step.shell };
+    } else {
+      name = step.tool.name;
+      input = step.tool.input || {};
+    }
+
+    const toolCall: ToolCall = { id, name, input, timestamp: Date.now() };
+    options.onEvent?.({ type: 'tool_start', tool: toolCall });
+
+    try {
+      toolCall.result = await this.performStep(step, options);
+      toolCall.success = 'tool' in step ? step.tool.success !== false : true;
+    } catch (err) {
+      toolCall.result = (err as Error).message;
+      toolCall.success = false;
+    }
+
+    toolCall.durationMs = Date.now() - toolCall.timestamp;
+    options.onEvent?.({
+      type: 'tool_end',
+      toolId: id,
+      success: toolCall.success,
+      durationMs: toolCall.durationMs,
+      result: toolCall.result,
+    });
+    return toolCall;
+  }
+
+  /**
+   * Apply a step to the workspace, returning its output (throws on failure)
+   */
+  private async performStep(
+    step: Exclude<MockStep, { text: string }>,
+    options: AgentRunOptions
+  ): Promise<string> {
+    const cwd = options.cwd;
+
+    if ('read' in step) {
+      return fs.readFileSync(resolveWorkspacePath(cwd, step.read), 'utf-8');
+    }
+
+    if ('edit' in step) {
+      const filePath = resolveWorkspacePath(cwd, step.edit.path);
+      const content = fs.readFileSync(filePath, 'utf-8');
+      if (!content.includes(step.edit.find)) {
+        throw new Error(`String not found in ${step.edit.path}: ${step.edit.find}`);
+      }
+      fs.writeFileSync(filePath, content.replace(step.edit.find, step.edit.replace));
+      return `Edited ${step.edit.path}`;
+    }
+
+    if ('write' in step) {
+      const filePath = resolveWorkspacePath(cwd, step.write.path);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, step.write.content);
+      return `Wrote ${step.write.path}`;
+    }
+
+    if ('shell' in step) {
+      const timeoutMs = Math.min(
+        options.timeoutMs ?? DEFAULT_SHELL_TIMEOUT_MS,
+        DEFAULT_SHELL_TIMEOUT_MS
+      );
+      const shell = options.exec
+        ? await options.exec(step.shell, timeoutMs)
+        : await runHostShell(step.shell, cwd, timeoutMs, options.env);
+      const output = `${shell.stdout}${shell.stderr}`;
+      if (shell.exitCode !== 0 || shell.timedOut) {
+        throw new Error(
+          `Exit code: ${shell.exitCode}${shell.timedOut ? ' (timed out)' : ''}\n${output}`
+        );
+      }
+      return output;
+    }
+
+    return step.tool.result ?? '';
+  }
+}
+
+/**
+ * Create a mock agent reading scripts from SNIFF_MOCK_AGENT (or the default directory)
+ */
+export function createMockAgent(scriptsDir?: string): MockAgent {
+  const env = process.env.SNIFF_MOCK_AGENT;
+  const fromEnv = env && env !== '1' && env !== 'true' ? path.resolve(env) : undefined;
+  return new MockAgent(scriptsDir || fromEnv || getMockScriptsDir());
+}
+
+/**
+ * Whether the mock agent is enabled
+ */
+export function isMockAgentEnabled(): boolean {
+  const env = process.env.SNIFF_MOCK_AGENT;
+  return !!env && env !== '0' && env !== 'false';
+}
@@ -0,0 +1,637 @@
+/**
+ * OpenAI-compatible agent wrapper
+ *
+ * Benchmarks a raw model behind any OpenAI chat completions endpoint
+ * (hosted providers, llama.cpp, vLLM, mock servers) by running a minimal
+ * tool loop of its own: read file, list files, grep, write file and shell.
+ * Tool calls are recorded under the Claude Code tool names (Read, Glob,
+ * Grep, Write, Bash) so behavior metrics compare across agents.
+ *
+ * Configuration comes from constructor options, falling back to
+ * SNIFF_OPENAI_BASE_URL, SNIFF_OPENAI_API_KEY (or OPENAI_API_KEY) and
+ * SNIFF_OPENAI_MODEL.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import {
+  AgentWrapper,
+  AgentResult,
+  AgentRunOptions,
+  AgentShellResult,
+  BudgetLimit,
+  TokenUsage,
+  ToolCall,
+  emptyAgentResult,
+  emptyTokenUsage,
+} from './types';
+import { TrajectoryBlock, startTrajectory } from './trajectory';
+import { expandGlob } from '../utils/glob';
+import { readTextFile } from '../utils/files';
+
+/** Default base URL when none is configured */
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/** Default model when none is configured */
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/** Default turn limit for the tool loop */
+const DEFAULT_MAX_TURNS = 30;
+
+/** Maximum characters of tool output returned to the model */
+const MAX_TOOL_OUTPUT_CHARS = 20000;
+
+/** Maximum grep matches returned to the model */
+const MAX_GREP_MATCHES = 100;
+
+/** Maximum time for one shell command */
+const MAX_SHELL_TIMEOUT_MS = 120000;
+
+const SYSTEM_PROMPT = `You are a coding agent working in a repository.
+Use the tools to explore and change files, and run shell commands to build or test.
+All paths are relative to the repository root.
+When you are done, reply with your final answer and no tool calls.`;
+
+/**
+ * Options for an OpenAI-compatible agent
+ */
+export interface OpenAICompatibleAgentOptions {
+  /** Base URL including the API version path (e.g., "http://localhost:8080/v1") */
+  baseUrl?: string;
+
+  /** API key sent as a bearer token (optional for local servers) */
+  apiKey?: string;
+
+  /** Default model name */
+  model?: string;
+
+  /** Registry name (default: "openai") */
+  name?: string;
+}
+
+/**
+ * Chat message in the OpenAI format
+ */
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: ChatMessage; finish_reason?: string }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+/**
+ * A tool offered to the model
+ */
+interface LoopTool {
+  /** Name the model calls */
+  name: string;
+  /** Claude Code tool name used in ToolCall records */
+  recordAs: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+const TOOLS: LoopTool[] = [
+  {
+    name: 'read_file',
+    recordAs: 'Read',
+    description: 'Read a text file. Returns the content with line numbers.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'File path relative to the repository root' },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'list_files',
+    recordAs: 'Glob',
+    description: 'List files matching a glob pattern (e.g. "src/**/*.ts"). Defaults to all files.',
+    parameters: {
+      type: 'object',
+      properties: {
+        pattern: { type: 'string', description: 'Glob pattern' },
+      },
+    },
+  },
+  {
+    name: 'grep',
+    recordAs: 'Grep',
+    description: 'Search file contents with a regular expression. Returns file:line: text matches.',
+    parameters: {
+      type: 'object',
+      properties: {
+        pattern: { type: 'string', description: 'Regular expression' },
+        glob: { type: 'string', description: 'Only search files matching this glob' },
+      },
+      required: ['pattern'],
+    },
+  },
+  {
+    name: 'write_file',
+    recordAs: 'Write',
+    description: 'Create or overwrite a file with the given content.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'File path relative to the repository root' },
+        content: { type: 'string', description: 'Full file content' },
+      },
+      required: ['path', 'content'],
+    },
+  },
+  {
+    name: 'run_shell',
+    recordAs: 'Bash',
+    description: 'Run a shell command in the repository root. Returns exit code and output.',
+    parameters: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'Shell command' },
+      },
+      required: ['command'],
+    },
+  },
+];
+
+/**
+ * Select the tools allowed by the run options (matched on Claude Code names)
+ */
+function selectTools(options: AgentRunOptions): LoopTool[] {
+  const allowed = options.allowedTools?.map((t) => t.toLowerCase());
+  const disallowed = options.disallowedTools?.map((t) => t.toLowerCase()) || [];
+
+  return TOOLS.filter((tool) => {
+    const name = tool.recordAs.toLowerCase();
+    if (allowed && allowed.length > 0 && !allowed.includes(name)) return false;
+    return !disallowed.includes(name);
+  });
+}
+
+/**
+ * Parse a tool call's JSON arguments (empty on invalid JSON, reported as a tool error)
+ */
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    return JSON.parse(args || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Truncate tool output to what we send back to the model
+ */
+function truncate(text: string, max: number = MAX_TOOL_OUTPUT_CHARS): string {
+  return text.length > max ? `${text.substring(0, max)}\n... (truncated)` : text;
+}
+
+/**
+ * Resolve a model-supplied path, refusing paths outside the workspace
+ */
+export function resolveWorkspacePath(cwd: string, filePath: unknown): string {
+  if (typeof filePath !== 'string' || filePath === '') {
+    throw new Error('path is required');
+  }
+  const root = path.resolve(cwd);
+  const resolved = path.resolve(root, filePath);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`path is outside the repository: ${filePath}`);
+  }
+  return resolved;
+}
+
+/**
+ * Run a shell command on the host (used when no sandbox exec is provided)
+ */
+export function runHostShell(
+  command: string,
+  cwd: string,
+  timeoutMs: number,
+  env?: Record<string, string>
+): Promise<AgentShellResult> {
+  return new Promise((resolve) => {
+    const proc = spawn('sh', ['-c', command], {
+      cwd,
+      env: { ...process.env, ...env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      proc.kill('SIGKILL');
+    }, timeoutMs);
+
+    proc.stdout?.on('data', (data) => {
+      stdout += data.toString();
+    });
+    proc.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    proc.on('close', (code) => {
+      clearTimeout(timeoutId);
+      resolve({ exitCode: code ?? -1, stdout, stderr, timedOut });
+    });
+    proc.on('error', (err) => {
+      clearTimeout(timeoutId);
+      resolve({ exitCode: -1, stdout, stderr: err.message, timedOut });
+    });
+  });
+}
+
+/**
+ * Agent wrapper for OpenAI-compatible chat completion APIs
+ */
+export class OpenAICompatibleAgent implements AgentWrapper {
+  name: string;
+  displayName = 'OpenAI-compatible';
+
+  constructor(private options: OpenAICompatibleAgentOptions = {}) {
+    this.name = options.name || 'openai';
+  }
+
+  private get baseUrl(): string {
+    return (this.options.baseUrl || process.env.SNIFF_OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(
+      /\/+$/,
+      ''
+    );
+  }
+
+  private get apiKey(): string | undefined {
+    return this.options.apiKey || process.env.SNIFF_OPENAI_API_KEY || process.env.OPENAI_API_KEY;
+  }
+
+  private get defaultModel(): string {
+    return this.options.model || process.env.SNIFF_OPENAI_MODEL || DEFAULT_MODEL;
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Available when the endpoint answers GET /models
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.headers(),
+        signal: AbortSignal.timeout(5000),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Report the configured model as the version
+   */
+  async getVersion(): Promise<string | null> {
+    return this.defaultModel;
+  }
+
+  /**
+   * Run a prompt through the model's tool loop
+   */
+  async run(prompt: string, options: AgentRunOptions): Promise<AgentResult> {
+    const startTime = Date.now();
+    const deadline = startTime + (options.timeoutMs || 300000); // 5 min default
+    const maxTurns = options.maxTurns || DEFAULT_MAX_TURNS;
+    const tools = selectTools(options);
+
+    const tokens = emptyTokenUsage();
+    const toolCalls: ToolCall[] = [];
+    let model = options.model || this.defaultModel;
+    let numTurns = 0;
+    let answer = '';
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: prompt },
+    ];
+
+    const trajectory = startTrajectory(this.name, prompt, options);
+    trajectory?.add('system', [{ type: 'text', text: SYSTEM_PROMPT }]);
+    trajectory?.add('user', [{ type: 'text', text: prompt }]);
+
+    const buildResult = (
+      error?: string,
+      timedOut = false,
+      budgetExceeded?: BudgetLimit
+    ): AgentResult => {
+      if (budgetExceeded) {
+        error = `Budget exceeded: reached the ${budgetExceeded === 'turns' ? 'turn' : 'token'} limit`;
+      }
+      const result: AgentResult = {
+        ...emptyAgentResult(error),
+        answer,
+        success: !error,
+        timedOut,
+        budgetExceeded,
+        durationMs: Date.now() - startTime,
+        tokens,
+        numTurns,
+        toolCalls,
+        toolsUsed: [...new Set(toolCalls.map((t) => t.name))],
+        model,
+        trajectory: trajectory?.build(model),
+      };
+      if (error) {
+        options.onEvent?.({ type: 'error', message: error, code: timedOut ? 'TIMEOUT' : 'ERROR' });
+      }
+      options.onEvent?.({ type: 'complete', result });
+      return result;
+    };
+
+    options.onEvent?.({ type: 'start', timestamp: startTime, model });
+
+    try {
+      while (numTurns < maxTurns) {
+        if (Date.now() >= deadline) {
+          return buildResult('Timed out', true);
+        }
+
+        const response = await this.complete(model, messages, tools, deadline - Date.now());
+        numTurns++;
+
+        if (response.model) {
+          model = response.model;
+        }
+        const usage = response.usage;
+        let turnUsage: TokenUsage | undefined;
+        if (usage) {
+          const cached = usage.prompt_tokens_details?.cached_tokens || 0;
+          turnUsage = {
+            ...emptyTokenUsage(),
+            inputTokens: (usage.prompt_tokens || 0) - cached,
+            cacheReadTokens: cached,
+            outputTokens: usage.completion_tokens || 0,
+          };
+          turnUsage.totalTokens = turnUsage.inputTokens + turnUsage.outputTokens;
+          tokens.inputTokens += turnUsage.inputTokens;
+          tokens.cacheReadTokens += cached;
+          tokens.outputTokens += turnUsage.outputTokens;
+          tokens.totalTokens = tokens.inputTokens + tokens.outputTokens;
+        }
+
+        if (options.maxTokens !== undefined && tokens.totalTokens > options.maxTokens) {
+          return buildResult(undefined, false, 'tokens');
+        }
+
+        const message = response.choices?.[0]?.message;
+        if (!message) {
+          return buildResult('Response did not contain a message');
+        }
+
+        if (trajectory) {
+          const blocks: TrajectoryBlock[] = message.content
+            ? [{ type: 'text', text: message.content }]
+            : [];
+          for (const call of message.tool_calls || []) {
+            blocks.push({
+              type: 'tool_use',
+              id: call.id,
+              name: call.function.name,
+              input: parseArguments(call.function.arguments),
+            });
+          }
+          trajectory.add('assistant', blocks, turnUsage);
+        }
+
+        if (message.content) {
+          answer = message.content;
+          options.onEvent?.({ type: 'text_delta', text: message.content });
+        }
+
+        if (!message.tool_calls || message.tool_calls.length === 0) {
+          return buildResult();
+        }
+
+        messages.push({
+          role: 'assistant',
+          content: message.content ?? null,
+          tool_calls: message.tool_calls,
+        });
+
+        for (const call of message.tool_calls) {
+          const { output, success } = await this.runTool(call, tools, options, toolCalls, deadline);
+          messages.push({ role: 'tool', tool_call_id: call.id, content: truncate(output) });
+          trajectory?.add('user', [
+            {
+              type: 'tool_result',
+              toolUseId: call.id,
+              content: output,
+              ...(success ? {} : { isError: true }),
+            },
+          ]);
+        }
+      }
+
+      return options.maxTurns
+        ? buildResult(undefined, false, 'turns')
+        : buildResult(`Reached the turn limit (${maxTurns})`);
+    } catch (err) {
+      const timedOut = (err as Error).name === 'TimeoutError' || Date.now() >= deadline;
+      return buildResult(timedOut ? 'Timed out' : (err as Error).message, timedOut);
+    }
+  }
+
+  /**
+   * Request one chat completion
+   */
+  private async complete(
+    model: string,
+    messages: ChatMessage[],
+    tools: LoopTool[],
+    timeoutMs: number
+  ): Promise<ChatCompletionResponse> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model,
+        messages,
+        tools:
+          tools.length > 0
+            ? tools.map((t) => ({
+                type: 'function',
+                function: { name: t.name, description: t.description, parameters: t.parameters },
+              }))
+            : undefined,
+      }),
+      signal: AbortSignal.timeout(Math.max(timeoutMs, 1)),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Chat completion failed (${response.status}): ${body.substring(0, 200)}`);
+    }
+
+    return (await response.json()) as ChatCompletionResponse;
+  }
+
+  /**
+   * Execute one tool call, record it, and return its full output
+   */
+  private async runTool(
+    call: ChatToolCall,
+    tools: LoopTool[],
+    options: AgentRunOptions,
+    toolCalls: ToolCall[],
+    deadline: number
+  ): Promise<{ output: string; success: boolean }> {
+    const tool = tools.find((t) => t.name === call.function.name);
+    const input = parseArguments(call.function.arguments);
+
+    const toolCall: ToolCall = {
+      id: call.id,
+      name: tool?.recordAs || call.function.name,
+      input,
+      timestamp: Date.now(),
+    };
+    toolCalls.push(toolCall);
+    options.onEvent?.({ type: 'tool_start', tool: toolCall });
+
+    let output: string;
+    let success = true;
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool: ${call.function.name}`);
+      }
+      output = await this.executeTool(tool.name, input, options, deadline);
+    } catch (err) {
+      success = false;
+      output = `Error: ${(err as Error).message}`;
+    }
+
+    toolCall.durationMs = Date.now() - toolCall.timestamp;
+    toolCall.success = success;
+    toolCall.result = output.substring(0, 500);
+    options.onEvent?.({
+      type: 'tool_end',
+      toolId: call.id,
+      success,
+      durationMs: toolCall.durationMs,
+      result: output.substring(0, 200),
+    });
+
+    return { output, success };
+  }
+
+  /**
+   * Tool implementations
+   */
+  private async executeTool(
+    name: string,
+    input: Record<string, unknown>,
+    options: AgentRunOptions,
+    deadline: number
+  ): Promise<string> {
+    const cwd = options.cwd;
+
+    switch (name) {
+      case 'read_file': {
+        const content = readTextFile(resolveWorkspacePath(cwd, input.path));
+        if (content === null) {
+          throw new Error(`cannot read ${String(input.path)} (missing, binary or too large)`);
+        }
+        return content
+          .split('\n')
+          .map((line, i) => `${String(i + 1).padStart(5)}  ${line}`)
+          .join('\n');
+      }
+
+      case 'list_files': {
+        const pattern = typeof input.pattern === 'string' && input.pattern ? input.pattern : '**/*';
+        const files = expandGlob(cwd, pattern);
+        return files.length > 0 ? files.join('\n') : 'No files found';
+      }
+
+      case 'grep': {
+        if (typeof input.pattern !== 'string') {
+          throw new Error('pattern is required');
+        }
+        const regex = new RegExp(input.pattern);
+        const glob = typeof input.glob === 'string' && input.glob ? input.glob : '**/*';
+        const matches: string[] = [];
+
+        for (const file of expandGlob(cwd, glob)) {
+          const content = readTextFile(path.join(cwd, file));
+          if (content === null) continue;
+          const lines = content.split('\n');
+          for (let i = 0; i < lines.length && matches.length < MAX_GREP_MATCHES; i++) {
+            if (regex.test(lines[i])) {
+              matches.push(`${file}:${i + 1}: ${lines[i].trim().substring(0, 200)}`);
+            }
+          }
+          if (matches.length >= MAX_GREP_MATCHES) break;
+        }
+        return matches.length > 0 ? matches.join('\n') : 'No matches';
+      }
+
+      case 'write_file': {
+        if (typeof input.content !== 'string') {
+          throw new Error('content is required');
+        }
+        const filePath = resolveWorkspacePath(cwd, input.path);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, input.content);
+        return `Wrote ${input.content.length} characters to ${String(input.path)}`;
+      }
+
+      case 'run_shell': {
+        if (typeof input.command !== 'string' || !input.command) {
+          throw new Error('command is required');
+        }
+        const timeoutMs = Math.max(1000, Math.min(MAX_SHELL_TIMEOUT_MS, deadline - Date.now()));
+        const result = options.exec
+          ? await options.exec(input.command, timeoutMs)
+          : await runHostShell(input.command, cwd, timeoutMs, options.env);
+
+        const parts = [`Exit code: ${result.exitCode}${result.timedOut ? ' (timed out)' : ''}`];
+        if (result.stdout) parts.push(`stdout:\n${result.stdout}`);
+        if (result.stderr) parts.push(`stderr:\n${result.stderr}`);
+        return parts.join('\n');
+      }
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+}
+
+/**
+ * Create an OpenAI-compatible agent instance
+ */
+export function createOpenAICompatibleAgent(
+  options?: OpenAICompatibleAgentOptions
+): OpenAICompatibleAgent {
+  return new OpenAICompatibleAgent(options);
+}
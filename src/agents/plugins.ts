@@ -0,0 +1,274 @@
+/**
+ * Agent plugins
+ *
+ * Loads agent wrappers from modules listed in `.sniffbench/config.yaml`:
+ *
+ * ```yaml
+ * plugins:
+ *   - ./tools/sniff-agent.js          # local path, relative to the project root
+ *   - sniffbench-agent-cursor         # installed package
+ *   - module: ./tools/proxy-agent.js
+ *     options: { endpoint: http://localhost:9000 }
+ * ```
+ *
+ * A plugin module exports agent factories, either as the module itself, as
+ * `createAgent`, or as a list in `agents` (each also accepted on `default`).
+ * Factories are called with the entry's `options` and must return an object
+ * with the AgentWrapper shape.
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { AgentWrapper } from './types';
+import { getAgentRegistry } from './registry';
+import { loadProjectConfig } from '../utils/config';
+
+/** An agent factory exported by a plugin */
+export type AgentFactory = (options?: Record<string, unknown>) => AgentWrapper;
+
+/**
+ * One plugin entry from the config
+ */
+export interface PluginSpec {
+  /** Local path (starting with `.` or `/`) or package name */
+  module: string;
+  /** Options passed to each factory */
+  options?: Record<string, unknown>;
+}
+
+/**
+ * Result of loading one plugin
+ */
+export interface PluginRecord {
+  /** Module as written in the config */
+  module: string;
+  /** Resolved file, when resolution succeeded */
+  resolvedPath?: string;
+  /** Names of agents registered from this plugin */
+  agents: string[];
+  /** Why loading failed */
+  error?: string;
+}
+
+/**
+ * Invalid plugin configuration or module
+ */
+export class AgentPluginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentPluginError';
+  }
+}
+
+/**
+ * Native import(): under CommonJS, tsc compiles `import()` to require(), which
+ * can't load ES module plugins on every supported Node version
+ */
+const importModule = new Function('specifier', 'return import(specifier)') as (
+  specifier: string
+) => Promise<unknown>;
+
+/** Plugins loaded at startup, for doctor and status */
+let loadedPlugins: PluginRecord[] = [];
+
+/**
+ * Validate the `plugins` section of the project config
+ */
+export function parsePluginSpecs(value: unknown): PluginSpec[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new AgentPluginError("'plugins' must be a list");
+  }
+
+  return value.map((entry, i) => {
+    if (typeof entry === 'string' && entry) {
+      return { module: entry };
+    }
+    if (entry && typeof entry === 'object' && typeof entry.module === 'string') {
+      if (
+        entry.options !== undefined &&
+        (typeof entry.options !== 'object' || entry.options === null)
+      ) {
+        throw new AgentPluginError(`plugins[${i}]: 'options' must be a mapping`);
+      }
+      return { module: entry.module, options: entry.options };
+    }
+    throw new AgentPluginError(`plugins[${i}]: expected a module name or { module, options }`);
+  });
+}
+
+/**
+ * Check that a value has the AgentWrapper shape
+ */
+export function isAgentWrapper(value: unknown): value is AgentWrapper {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const agent = value as Record<string, unknown>;
+  return (
+    typeof agent.name === 'string' &&
+    agent.name !== '' &&
+    typeof agent.displayName === 'string' &&
+    typeof agent.run === 'function' &&
+    typeof agent.isAvailable === 'function' &&
+    typeof agent.getVersion === 'function'
+  );
+}
+
+/**
+ * Find the agent factories a plugin module exports
+ */
+function getFactories(exported: unknown): AgentFactory[] {
+  const candidates = [exported, (exported as { default?: unknown } | null)?.default];
+
+  for (const candidate of candidates) {
+    if (typeof candidate === 'function') {
+      return [candidate as AgentFactory];
+    }
+    if (candidate && typeof candidate === 'object') {
+      const { createAgent, agents } = candidate as { createAgent?: unknown; agents?: unknown };
+      if (typeof createAgent === 'function') {
+        return [createAgent as AgentFactory];
+      }
+      if (Array.isArray(agents) && agents.every((a) => typeof a === 'function')) {
+        return agents as AgentFactory[];
+      }
+    }
+  }
+
+  throw new AgentPluginError(
+    'module must export an agent factory, createAgent, or an agents list of factories'
+  );
+}
+
+/**
+ * Resolve a plugin module to a file path
+ */
+export function resolvePluginModule(spec: string, projectRoot: string): string {
+  const request =
+    spec.startsWith('.') || path.isAbsolute(spec) ? path.resolve(projectRoot, spec) : spec;
+  try {
+    return require.resolve(request, { paths: [projectRoot] });
+  } catch {
+    throw new AgentPluginError(`cannot find module '${spec}'`);
+  }
+}
+
+/**
+ * Load one plugin and return the agents it provides (not yet registered)
+ */
+export async function loadPlugin(spec: PluginSpec, projectRoot: string): Promise<AgentWrapper[]> {
+  const resolvedPath = resolvePluginModule(spec.module, projectRoot);
+  const exported = await importModule(pathToFileURL(resolvedPath).href);
+
+  return getFactories(exported).map((factory, i) => {
+    const agent = factory(spec.options);
+    if (!isAgentWrapper(agent)) {
+      throw new AgentPluginError(
+        `factory ${i + 1} did not return an agent (needs name, displayName, run, isAvailable, getVersion)`
+      );
+    }
+    return agent;
+  });
+}
+
+/**
+ * Load the plugins listed in `.sniffbench/config.yaml` and register their agents
+ *
+ * Plugins that fail to load and agents whose names are already registered are
+ * skipped with a warning.
+ */
+export async function loadAgentPlugins(
+  projectRoot: string = process.cwd()
+): Promise<PluginRecord[]> {
+  let specs: PluginSpec[];
+  try {
+    specs = parsePluginSpecs(loadProjectConfig(projectRoot).plugins);
+  } catch (err) {
+    console.warn(`Warning: Invalid agent plugin config: ${(err as Error).message}`);
+    loadedPlugins = [];
+    return loadedPlugins;
+  }
+
+  // One at a time, so agent names are claimed in config order
+  const registry = getAgentRegistry();
+  const records: PluginRecord[] = [];
+  for (const spec of specs) {
+    const record: PluginRecord = { module: spec.module, agents: [] };
+    try {
+      record.resolvedPath = resolvePluginModule(spec.module, projectRoot);
+      for (const agent of await loadPlugin(spec, projectRoot)) {
+        if (registry.get(agent.name)) {
+          console.warn(
+            `Warning: Agent '${agent.name}' from plugin ${spec.module} is already registered, skipping`
+          );
+          continue;
+        }
+        registry.register(agent);
+        record.agents.push(agent.name);
+      }
+    } catch (err) {
+      record.error = (err as Error).message;
+      console.warn(`Warning: Failed to load agent plugin ${spec.module}: ${record.error}`);
+    }
+    records.push(record);
+  }
+
+  loadedPlugins = records;
+  return loadedPlugins;
+}
+
+/**
+ * Plugins loaded by the last call to loadAgentPlugins
+ */
+export function getLoadedPlugins(): PluginRecord[] {
+  return loadedPlugins;
+}
+
+/**
+ * Availability and version of a registered agent
+ */
+export interface AgentStatus {
+  name: string;
+  displayName: string;
+  available: boolean;
+  version: string | null;
+  /** Plugin module the agent came from (built-in and command agents have none) */
+  plugin?: string;
+}
+
+/**
+ * Check availability and version of agents (default: every registered agent)
+ */
+export async function getAgentStatuses(
+  agents: AgentWrapper[] = getAgentRegistry().list()
+): Promise<AgentStatus[]> {
+  const pluginByAgent = new Map<string, string>();
+  for (const plugin of loadedPlugins) {
+    for (const name of plugin.agents) {
+      pluginByAgent.set(name, plugin.module);
+    }
+  }
+
+  const statuses: AgentStatus[] = [];
+  for (const agent of agents) {
+    let available = false;
+    let version: string | null = null;
+    try {
+      available = await agent.isAvailable();
+      version = available ? await agent.getVersion() : null;
+    } catch {
+      available = false;
+    }
+    statuses.push({
+      name: agent.name,
+      displayName: agent.displayName,
+      available,
+      version,
+      plugin: pluginByAgent.get(agent.name),
+    });
+  }
+  return statuses;
+}
@@ -0,0 +1,157 @@
+/**
+ * Agent process runner
+ *
+ * Shared by the agents that drive a CLI (aider, command agents): spawns the
+ * process, streams its stdout line by line, and stops it on timeout with
+ * SIGTERM, escalating to SIGKILL if it hasn't exited after a grace period.
+ */
+
+import { spawn } from 'child_process';
+
+/** Time between SIGTERM and SIGKILL when stopping a process on timeout */
+export const KILL_GRACE_MS = 5000;
+
+/** Timeout for version checks */
+export const VERSION_TIMEOUT_MS = 10000;
+
+/**
+ * Options for running an agent process
+ */
+export interface AgentProcessOptions {
+  /** Working directory */
+  cwd?: string;
+  /** Full environment of the process */
+  env: NodeJS.ProcessEnv;
+  /** Written to stdin, which is then closed (stdin is ignored when unset) */
+  input?: string;
+  /** Timeout in milliseconds */
+  timeoutMs: number;
+  /** Time between SIGTERM and SIGKILL on timeout (default: KILL_GRACE_MS) */
+  killGraceMs?: number;
+  /** Called for each stdout line, including an unterminated last line */
+  onLine?: (line: string) => void;
+}
+
+/**
+ * How an agent process ended
+ */
+export interface AgentProcessResult {
+  stdout: string;
+  stderr: string;
+  /** Exit code (null when killed by a signal or never started) */
+  exitCode: number | null;
+  timedOut: boolean;
+  /** Why the process could not be started (e.g. the command was not found) */
+  spawnError?: string;
+}
+
+/**
+ * Run an agent process to completion
+ */
+export function runAgentProcess(
+  command: string,
+  args: string[],
+  options: AgentProcessOptions
+): Promise<AgentProcessResult> {
+  return new Promise((resolve) => {
+    const proc = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: [options.input !== undefined ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+    });
+
+    if (options.input !== undefined) {
+      // The process may exit without reading stdin
+      proc.stdin?.on('error', () => {});
+      proc.stdin?.end(options.input);
+    }
+
+    let stdout = '';
+    let stderr = '';
+    let pending = '';
+    let timedOut = false;
+    let finished = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      proc.kill('SIGTERM');
+      killTimer = setTimeout(() => proc.kill('SIGKILL'), options.killGraceMs ?? KILL_GRACE_MS);
+    }, options.timeoutMs);
+
+    proc.stdout?.on('data', (data) => {
+      const text = data.toString();
+      stdout += text;
+      pending += text;
+
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      for (const line of lines) {
+        options.onLine?.(line);
+      }
+    });
+
+    proc.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    const finish = (exitCode: number | null, spawnError?: string) => {
+      // 'error' and 'close' can both fire when spawning fails
+      if (finished) return;
+      finished = true;
+      clearTimeout(timeoutId);
+      clearTimeout(killTimer);
+      if (pending) {
+        options.onLine?.(pending);
+        pending = '';
+      }
+      resolve({ stdout, stderr, exitCode, timedOut, spawnError });
+    };
+
+    // Processes it started can keep the output pipes (and so 'close') open after a kill
+    proc.on('exit', () => {
+      if (timedOut) {
+        proc.stdout?.destroy();
+        proc.stderr?.destroy();
+      }
+    });
+    proc.on('close', (code) => finish(code));
+    proc.on('error', (err) => finish(null, err.message));
+  });
+}
+
+/**
+ * Error message for a finished agent process, if it failed: the timeout, the
+ * spawn failure, or the last stderr line of a non-zero exit
+ */
+export function describeProcessFailure(
+  result: AgentProcessResult,
+  name: string
+): string | undefined {
+  if (result.timedOut) {
+    return 'Timed out';
+  }
+  if (result.spawnError) {
+    return result.spawnError;
+  }
+  if (result.exitCode !== 0) {
+    return result.stderr.trim().split('\n').pop() || `${name} exited with code ${result.exitCode}`;
+  }
+  return undefined;
+}
+
+/**
+ * Trimmed stdout of a short command such as `--version`, or null if it fails
+ */
+export async function readCommandOutput(
+  command: string,
+  args: string[],
+  options: Pick<AgentProcessOptions, 'cwd' | 'env'>
+): Promise<string | null> {
+  const result = await runAgentProcess(command, args, {
+    ...options,
+    timeoutMs: VERSION_TIMEOUT_MS,
+  });
+  const output = result.stdout.trim();
+  return describeProcessFailure(result, command) === undefined && output ? output : null;
+}
@@ -6,6 +6,10 @@
 
 import { AgentWrapper, AgentRegistry } from './types';
 import { createClaudeCodeAgent } from './claude-code';
+import { createAiderAgent } from './aider';
+import { createOpenAICompatibleAgent } from './openai';
+import { createReplayAgent } from './replay';
+import { createMockAgent, isMockAgentEnabled } from './mock';
 
 /**
  * Default agent registry implementation
@@ -16,6 +20,14 @@ class DefaultAgentRegistry implements AgentRegistry {
   constructor() {
     // Register built-in agents
     this.register(createClaudeCodeAgent());
+    this.register(createAiderAgent());
+    this.register(createOpenAICompatibleAgent());
+    this.register(createReplayAgent());
+
+    // Scripted agent for harness self-tests, only when asked for
+    if (isMockAgentEnabled()) {
+      this.register(createMockAgent());
+    }
   }
 
   get(name: string): AgentWrapper | undefined {
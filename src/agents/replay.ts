@@ -0,0 +1,328 @@
+/**
+ * Record and replay agent runs
+ *
+ * RecordingAgent wraps any agent and writes each run's AgentEvent stream and
+ * final AgentResult to a transcript file. ReplayAgent plays transcripts back
+ * without calling the real agent, for re-grading old answers with new rubrics,
+ * UI demos and deterministic tests.
+ *
+ * Transcripts in a directory are named by the agent and a hash of the prompt,
+ * model, trial and (for follow-ups) the session it continued, so a replay agent
+ * pointed at a directory finds the recording for each case prompt. Recording
+ * the same run again overwrites the earlier transcript.
+ *
+ * The files the agent changed in its working directory are recorded as a
+ * patch and applied again on replay, so workspace-graded cases (tests, lint)
+ * see the same files they did when recorded.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { applyPatch, trackChanges } from '../sandbox/changes';
+import { AgentWrapper, AgentResult, AgentRunOptions, AgentEvent, emptyAgentResult } from './types';
+
+/** Transcript format version */
+export const TRANSCRIPT_VERSION = 2;
+
+/** Longest pause between events when replaying with compressed timing */
+const COMPRESSED_MAX_GAP_MS = 20;
+
+/**
+ * An event with its offset from the start of the run
+ */
+export interface TranscriptEvent {
+  /** Milliseconds since the run started */
+  offsetMs: number;
+  /** The event as emitted by the agent */
+  event: AgentEvent;
+}
+
+/**
+ * A recorded agent run
+ */
+export interface Transcript {
+  /** Format version */
+  version: number;
+  /** Name of the agent that was recorded */
+  agent: string;
+  /** Prompt given to the agent */
+  prompt: string;
+  /** Session the run continued, for follow-up turns */
+  resumeSessionId?: string;
+  /** Model requested for the run */
+  model?: string;
+  /** Trial number (1-based) */
+  trial?: number;
+  /** Patch of the files the run changed in its working directory */
+  patch?: string;
+  /** ISO timestamp of the recording */
+  recordedAt: string;
+  /** Events in emission order ('complete' events are not stored; see result) */
+  events: TranscriptEvent[];
+  /** Final result */
+  result: AgentResult;
+}
+
+/** How replay paces events */
+export type ReplayTiming = 'original' | 'compressed';
+
+/**
+ * Default directory for transcripts
+ */
+export function getTranscriptsDir(projectRoot: string = process.cwd()): string {
+  return path.join(projectRoot, '.sniffbench', 'transcripts');
+}
+
+/**
+ * What identifies a recorded run
+ */
+export type TranscriptKey = Pick<Transcript, 'prompt' | 'resumeSessionId' | 'model' | 'trial'>;
+
+/**
+ * Hash of a run's prompt, session, model and trial (the agent is kept out so
+ * replay can find a run without knowing which agent recorded it)
+ */
+function transcriptHash(key: TranscriptKey): string {
+  const parts = [key.prompt, key.resumeSessionId ?? '', key.model ?? '', String(key.trial ?? 1)];
+  return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex').substring(0, 16);
+}
+
+/**
+ * Transcript file name for an agent's run
+ */
+export function transcriptFileName(agent: string, key: TranscriptKey): string {
+  return `${agent.replace(/[^\w.-]/g, '_')}-${transcriptHash(key)}.json`;
+}
+
+/**
+ * Load and validate a transcript file
+ */
+export function loadTranscript(filePath: string): Transcript {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Transcript;
+  if (data.version !== TRANSCRIPT_VERSION || !Array.isArray(data.events) || !data.result) {
+    throw new Error(`Invalid transcript: ${filePath}`);
+  }
+  return data;
+}
+
+/**
+ * Save a transcript into a directory, returning the file path
+ */
+export function saveTranscript(dir: string, transcript: Transcript): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, transcriptFileName(transcript.agent, transcript));
+  fs.writeFileSync(filePath, JSON.stringify(transcript, null, 2));
+  return filePath;
+}
+
+/**
+ * Agent wrapper that records every run of another agent
+ */
+export class RecordingAgent implements AgentWrapper {
+  name: string;
+  displayName: string;
+  supportsResume?: boolean;
+
+  constructor(
+    private inner: AgentWrapper,
+    private dir: string
+  ) {
+    this.name = inner.name;
+    this.displayName = inner.displayName;
+    this.supportsResume = inner.supportsResume;
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.inner.isAvailable();
+  }
+
+  getVersion(): Promise<string | null> {
+    return this.inner.getVersion();
+  }
+
+  async run(prompt: string, options: AgentRunOptions): Promise<AgentResult> {
+    const startTime = Date.now();
+    const events: TranscriptEvent[] = [];
+    const tracker = trackChanges(options.cwd);
+
+    try {
+      const result = await this.inner.run(prompt, {
+        ...options,
+        onEvent: (event) => {
+          if (event.type !== 'complete') {
+            events.push({ offsetMs: Date.now() - startTime, event });
+          }
+          options.onEvent?.(event);
+        },
+      });
+
+      saveTranscript(this.dir, {
+        version: TRANSCRIPT_VERSION,
+        agent: this.inner.name,
+        prompt,
+        resumeSessionId: options.resumeSessionId,
+        model: options.model,
+        trial: options.trial,
+        patch: tracker.patch() || undefined,
+        recordedAt: new Date(startTime).toISOString(),
+        events,
+        result,
+      });
+
+      return result;
+    } finally {
+      tracker.dispose();
+    }
+  }
+}
+
+/**
+ * Options for a replay agent
+ */
+export interface ReplayAgentOptions {
+  /** Transcript file, or directory of transcripts keyed by prompt */
+  source: string;
+  /** Recorded agent to replay (needed when several agents recorded the same run) */
+  agent?: string;
+  /** Event pacing (default: compressed) */
+  timing?: ReplayTiming;
+}
+
+/**
+ * Agent wrapper that replays recorded transcripts
+ */
+export class ReplayAgent implements AgentWrapper {
+  name = 'replay';
+  displayName = 'Replay';
+  // Recorded follow-ups are keyed by the session they continued
+  supportsResume = true;
+
+  constructor(private options: ReplayAgentOptions) {}
+
+  async isAvailable(): Promise<boolean> {
+    return fs.existsSync(this.options.source);
+  }
+
+  async getVersion(): Promise<string | null> {
+    return `transcript v${TRANSCRIPT_VERSION}`;
+  }
+
+  /**
+   * Find the transcript for a run
+   */
+  findTranscript(key: TranscriptKey): Transcript | null {
+    const source = this.options.source;
+    if (!fs.existsSync(source)) {
+      return null;
+    }
+
+    if (fs.statSync(source).isFile()) {
+      return loadTranscript(source);
+    }
+
+    if (this.options.agent) {
+      const filePath = path.join(source, transcriptFileName(this.options.agent, key));
+      return fs.existsSync(filePath) ? loadTranscript(filePath) : null;
+    }
+
+    const suffix = `-${transcriptHash(key)}.json`;
+    const matches = fs.readdirSync(source).filter((name) => name.endsWith(suffix));
+    if (matches.length > 1) {
+      const agents = matches.map((name) => loadTranscript(path.join(source, name)).agent);
+      throw new Error(
+        `Several agents recorded this run (${agents.join(', ')}); set SNIFF_REPLAY_AGENT`
+      );
+    }
+    return matches.length === 1 ? loadTranscript(path.join(source, matches[0])) : null;
+  }
+
+  async run(prompt: string, options: AgentRunOptions): Promise<AgentResult> {
+    let transcript: Transcript | null;
+    try {
+      transcript = this.findTranscript({
+        prompt,
+        resumeSessionId: options.resumeSessionId,
+        model: options.model,
+        trial: options.trial,
+      });
+    } catch (err) {
+      return this.fail((err as Error).message, options);
+    }
+
+    if (!transcript) {
+      return this.fail(`No transcript recorded for this prompt in ${this.options.source}`, options);
+    }
+
+    const timing = this.options.timing || 'compressed';
+    let lastOffset = 0;
+    for (const { offsetMs, event } of transcript.events) {
+      const gap = Math.max(0, offsetMs - lastOffset);
+      const delay = timing === 'original' ? gap : Math.min(gap, COMPRESSED_MAX_GAP_MS);
+      if (delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+      lastOffset = offsetMs;
+      options.onEvent?.(event);
+    }
+
+    if (transcript.patch) {
+      try {
+        applyPatch(options.cwd, transcript.patch);
+      } catch (err) {
+        return this.fail(
+          `Could not apply the recorded changes: ${(err as Error).message}`,
+          options
+        );
+      }
+    }
+
+    options.onEvent?.({ type: 'complete', result: transcript.result });
+    return transcript.result;
+  }
+
+  private fail(message: string, options: AgentRunOptions): AgentResult {
+    const result = emptyAgentResult(message);
+    options.onEvent?.({ type: 'error', message });
+    options.onEvent?.({ type: 'complete', result });
+    return result;
+  }
+}
+
+/**
+ * Create a replay agent
+ *
+ * Defaults come from SNIFF_REPLAY_SOURCE (file or directory, default
+ * `.sniffbench/transcripts`), SNIFF_REPLAY_AGENT (recorded agent name) and
+ * SNIFF_REPLAY_TIMING (original | compressed).
+ */
+export function createReplayAgent(options?: Partial<ReplayAgentOptions>): ReplayAgent {
+  const envTiming = process.env.SNIFF_REPLAY_TIMING;
+  return new ReplayAgent({
+    source: options?.source || process.env.SNIFF_REPLAY_SOURCE || getTranscriptsDir(),
+    agent: options?.agent || process.env.SNIFF_REPLAY_AGENT || undefined,
+    timing:
+      options?.timing ||
+      (envTiming === 'original' || envTiming === 'compressed' ? envTiming : undefined),
+  });
+}
+
+/**
+ * Wrap an agent so its runs are recorded to a transcripts directory
+ */
+export function withRecording(agent: AgentWrapper, dir: string): AgentWrapper {
+  return new RecordingAgent(agent, dir);
+}
+
+/**
+ * Resolve a `--record [dir]` CLI option to a transcripts directory
+ */
+export function resolveRecordDir(
+  option: string | boolean | undefined,
+  projectRoot: string = process.cwd()
+): string | undefined {
+  if (!option) {
+    return undefined;
+  }
+  return option === true ? getTranscriptsDir(projectRoot) : path.resolve(projectRoot, option);
+}
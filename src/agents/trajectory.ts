@@ -0,0 +1,226 @@
+/**
+ * Full trajectory capture
+ *
+ * With `captureTrajectory` set in the run options, agents that support it
+ * attach the whole conversation to their result: messages in order, thinking
+ * blocks, untruncated tool inputs and outputs, and token usage per model turn.
+ * This is opt-in because trajectories can be large.
+ *
+ * TrajectoryCaptureAgent turns capture on for every run of another agent and
+ * writes the trajectories of a run next to it, one file per case:
+ * `.sniffbench/trajectories/<run id>/<case id>.json`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentWrapper, AgentResult, AgentRunOptions, TokenUsage } from './types';
+
+/** Trajectory file format version */
+export const TRAJECTORY_VERSION = 1;
+
+/**
+ * One block of message content
+ */
+export type TrajectoryBlock =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; thinking: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError?: boolean };
+
+/**
+ * One message of the conversation
+ */
+export interface TrajectoryMessage {
+  /** Who sent it (tool results are sent by the user side, as in the Messages API) */
+  role: 'system' | 'user' | 'assistant';
+  /** Milliseconds since the run started */
+  offsetMs: number;
+  /** Content blocks in order */
+  content: TrajectoryBlock[];
+  /** Token usage of the model turn that produced an assistant message */
+  usage?: TokenUsage;
+}
+
+/**
+ * The full conversation of one agent run
+ */
+export interface Trajectory {
+  /** Name of the agent that ran */
+  agent: string;
+  /** Model reported by the agent */
+  model: string;
+  /** Prompt given to the agent */
+  prompt: string;
+  /** Session the run continued, for follow-up turns */
+  resumeSessionId?: string;
+  /** ISO timestamp of the start of the run */
+  startedAt: string;
+  /** Messages in order */
+  messages: TrajectoryMessage[];
+}
+
+/**
+ * Trajectories of one case in a run, in the order the agent ran
+ * (trials, then follow-up turns within each trial)
+ */
+export interface CaseTrajectories {
+  /** Format version */
+  version: number;
+  /** Run the case belongs to */
+  runId: string;
+  /** Case ID */
+  caseId: string;
+  trajectories: Trajectory[];
+}
+
+/**
+ * Collects the messages of one run as an agent processes them
+ */
+export class TrajectoryBuilder {
+  private messages: TrajectoryMessage[] = [];
+  private messageIds: Array<string | undefined> = [];
+  private startTime = Date.now();
+
+  constructor(
+    private agent: string,
+    private prompt: string,
+    private resumeSessionId?: string
+  ) {}
+
+  /**
+   * Add a message. Consecutive parts of the same message (same `id`) are merged,
+   * keeping the latest usage.
+   */
+  add(
+    role: TrajectoryMessage['role'],
+    content: TrajectoryBlock[],
+    usage?: TokenUsage,
+    id?: string
+  ): void {
+    const last = this.messages.length - 1;
+    if (id !== undefined && last >= 0 && this.messageIds[last] === id) {
+      this.messages[last].content.push(...content);
+      this.messages[last].usage = usage ?? this.messages[last].usage;
+      return;
+    }
+
+    const message: TrajectoryMessage = { role, offsetMs: Date.now() - this.startTime, content };
+    if (usage) {
+      message.usage = usage;
+    }
+    this.messages.push(message);
+    this.messageIds.push(id);
+  }
+
+  build(model: string): Trajectory {
+    return {
+      agent: this.agent,
+      model,
+      prompt: this.prompt,
+      resumeSessionId: this.resumeSessionId,
+      startedAt: new Date(this.startTime).toISOString(),
+      messages: this.messages,
+    };
+  }
+}
+
+/**
+ * Start a trajectory if the run options ask for one
+ */
+export function startTrajectory(
+  agent: string,
+  prompt: string,
+  options: AgentRunOptions
+): TrajectoryBuilder | undefined {
+  return options.captureTrajectory
+    ? new TrajectoryBuilder(agent, prompt, options.resumeSessionId)
+    : undefined;
+}
+
+/**
+ * Default directory for trajectories
+ */
+export function getTrajectoriesDir(projectRoot: string = process.cwd()): string {
+  return path.join(projectRoot, '.sniffbench', 'trajectories');
+}
+
+/**
+ * Directory holding the trajectories of one run
+ */
+export function getRunTrajectoriesDir(runId: string, projectRoot: string = process.cwd()): string {
+  return path.join(getTrajectoriesDir(projectRoot), runId);
+}
+
+/**
+ * Load the trajectories of one case
+ */
+export function loadCaseTrajectories(filePath: string): CaseTrajectories {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CaseTrajectories;
+  if (data.version !== TRAJECTORY_VERSION || !Array.isArray(data.trajectories)) {
+    throw new Error(`Invalid trajectory file: ${filePath}`);
+  }
+  return data;
+}
+
+/**
+ * Agent wrapper that captures full trajectories and saves them for a run
+ */
+export class TrajectoryCaptureAgent implements AgentWrapper {
+  name: string;
+  displayName: string;
+  supportsResume?: boolean;
+
+  private byCase = new Map<string, Trajectory[]>();
+
+  constructor(
+    private inner: AgentWrapper,
+    private runId: string,
+    private dir: string
+  ) {
+    this.name = inner.name;
+    this.displayName = inner.displayName;
+    this.supportsResume = inner.supportsResume;
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.inner.isAvailable();
+  }
+
+  getVersion(): Promise<string | null> {
+    return this.inner.getVersion();
+  }
+
+  async run(prompt: string, options: AgentRunOptions): Promise<AgentResult> {
+    const result = await this.inner.run(prompt, { ...options, captureTrajectory: true });
+    if (!result.trajectory) {
+      return result;
+    }
+
+    const caseId = options.caseId || 'prompt';
+    const trajectories = this.byCase.get(caseId) ?? [];
+    trajectories.push(result.trajectory);
+    this.byCase.set(caseId, trajectories);
+
+    const data: CaseTrajectories = {
+      version: TRAJECTORY_VERSION,
+      runId: this.runId,
+      caseId,
+      trajectories,
+    };
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(path.join(this.dir, `${caseId}.json`), JSON.stringify(data, null, 2));
+
+    return result;
+  }
+}
+
+/**
+ * Wrap an agent so the trajectories of a run are saved under the project
+ */
+export function withTrajectoryCapture(
+  agent: AgentWrapper,
+  runId: string,
+  projectRoot: string = process.cwd()
+): AgentWrapper {
+  return new TrajectoryCaptureAgent(agent, runId, getRunTrajectoriesDir(runId, projectRoot));
+}
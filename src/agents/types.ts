@@ -6,6 +6,8 @@
  * and capturing results with full metrics.
  */
 
+import type { Trajectory } from './trajectory';
+
 /**
  * Token usage breakdown from agent execution
  */
@@ -56,6 +58,11 @@ export type AgentEvent =
   | { type: 'status'; message: string }
   | { type: 'complete'; result: AgentResult };
 
+/**
+ * A run limit that can stop an agent: cost (`maxBudgetUsd`), `maxTokens` or `maxTurns`
+ */
+export type BudgetLimit = 'cost' | 'tokens' | 'turns';
+
 /**
  * Result from running an agent - enhanced with full metrics
  */
@@ -72,6 +79,9 @@ export interface AgentResult {
   /** Whether the run timed out */
   timedOut: boolean;
 
+  /** Which run limit the agent went over, if any (the run is then not successful) */
+  budgetExceeded?: BudgetLimit;
+
   /** Duration in milliseconds */
   durationMs: number;
 
@@ -102,6 +112,9 @@ export interface AgentResult {
     costUsd: number;
   }>;
 
+  /** Full conversation, when requested with `captureTrajectory` */
+  trajectory?: Trajectory;
+
   /** Raw data for debugging */
   raw?: {
     stdout?: string;
@@ -111,6 +124,16 @@ export interface AgentResult {
   };
 }
 
+/**
+ * Result of a shell command run on an agent's behalf
+ */
+export interface AgentShellResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
 /**
  * Options for running an agent
  */
@@ -148,11 +171,32 @@ export interface AgentRunOptions {
   /** Maximum number of turns */
   maxTurns?: number;
 
+  /** Maximum tokens (input + output); agents without a native limit are checked after the run */
+  maxTokens?: number;
+
   /** Model to use (agent-specific) */
   model?: string;
 
   /** Include partial/streaming messages */
   includePartialMessages?: boolean;
+
+  /**
+   * Run a shell command in the case sandbox.
+   * Agents that implement their own tools use this instead of the host shell when set.
+   */
+  exec?: (command: string, timeoutMs: number) => Promise<AgentShellResult>;
+
+  /** ID of the case being run (used by scripted agents) */
+  caseId?: string;
+
+  /** Trial number (1-based) when a case is run several times */
+  trial?: number;
+
+  /** Continue an earlier session (`AgentResult.raw.sessionId`) instead of starting a new one */
+  resumeSessionId?: string;
+
+  /** Attach the full conversation to the result (agents without support ignore this) */
+  captureTrajectory?: boolean;
 }
 
 /**
@@ -165,6 +209,9 @@ export interface AgentWrapper {
   /** Human-readable display name */
   displayName: string;
 
+  /** Whether run() can continue a session via `resumeSessionId` */
+  supportsResume?: boolean;
+
   /** Check if this agent is available on the system */
   isAvailable(): Promise<boolean>;
 
@@ -109,6 +109,13 @@ export function validateCase(data: unknown, filePath: string): ValidationResult
     errors.push(new CaseValidationError(filePath, 'expectations', 'Must be an object'));
   }
 
+  if (
+    obj.followUps !== undefined &&
+    (!Array.isArray(obj.followUps) || !obj.followUps.every((f) => typeof f === 'string' && f.trim()))
+  ) {
+    errors.push(new CaseValidationError(filePath, 'followUps', 'Must be an array of non-empty strings'));
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -8,6 +8,10 @@
  * with evaluators that produce scores.
  */
 
+import type { BehaviorMetrics, BudgetLimit } from '../agents/types';
+import type { TrialStats } from '../metrics/trials';
+import type { ChangeSet } from '../sandbox/types';
+
 // =============================================================================
 // Case Types (The Interview Question)
 // =============================================================================
@@ -72,6 +76,9 @@ export interface Case {
   /** The interview question - what we're asking the agent to do */
   prompt: string;
 
+  /** Follow-up questions asked in the same session after the prompt is answered */
+  followUps?: string[];
+
   /** Optional starting files (empty = greenfield task) */
   files?: CaseFile[];
 
@@ -165,9 +172,12 @@ export interface CommandEvaluator extends EvaluatorBase {
   /** How to parse output (for partial credit) */
   parse?: 'exit_code' | 'json' | 'junit' | 'tap';
 
-  /** JSONPath expression to extract score (when parse=json) */
+  /** JSONPath expression to extract score (when parse=json; 0-1, or a percentage up to 100) */
   scorePath?: string;
 
+  /** Path to a report file inside the sandbox (JUnit XML, TAP or JSON); stdout is parsed if unset */
+  reportPath?: string;
+
   /** Fail if this pattern is found in output */
   failIfMatch?: string;
 
@@ -269,7 +279,7 @@ export interface LLMJudgeEvaluator extends EvaluatorBase {
 export interface AgentBehaviorEvaluator extends EvaluatorBase {
   type: 'agent_behavior';
 
-  /** Which metric to evaluate */
+  /** Which metric to evaluate (`time` is measured in seconds) */
   metric: 'time' | 'tokens' | 'iterations' | 'tool_calls' | 'self_corrections';
 
   /** Maximum acceptable value */
@@ -414,6 +424,9 @@ export interface AgentTrace {
   /** Tools that were called */
   toolsUsed: string[];
 
+  /** Total number of tool calls */
+  toolCallCount?: number;
+
   /** Number of self-corrections detected */
   selfCorrections: number;
 
@@ -460,19 +473,48 @@ export interface CaseResult {
   /** Agent behavior trace */
   agentTrace?: AgentTrace;
 
+  /** Agent's final answer */
+  answer?: string;
+
+  /** Model reported by the agent */
+  model?: string;
+
+  /** Behavior metrics computed from the agent result */
+  behaviorMetrics?: BehaviorMetrics;
+
+  /** Files the agent changed in the workspace */
+  changes?: ChangeSet;
+
   /** Total duration in milliseconds */
   durationMs: number;
 
   /** Whether it timed out */
   timedOut: boolean;
 
+  /** Run limit the agent went over (the case then doesn't pass, but isn't counted as failed) */
+  budgetExceeded?: BudgetLimit;
+
   /** Error if something went wrong */
   error?: string;
 
   /** When this result was produced */
   timestamp: Date;
+
+  /** Every trial, when the case was run more than once */
+  trials?: TrialResult[];
+
+  /** Score spread across trials, when the case was run more than once */
+  trialStats?: TrialStats;
 }
 
+/**
+ * Result of one trial of a case (same shape as a single-run CaseResult)
+ */
+export type TrialResult = Omit<CaseResult, 'caseId' | 'trials' | 'trialStats'> & {
+  /** 1-based trial number */
+  trial: number;
+};
+
 /**
  * Result from a full evaluation run
  */
@@ -518,9 +560,21 @@ export interface RunSummary {
   /** Cases that timed out */
   timedOut: number;
 
+  /** Cases stopped by a budget, turn or token limit */
+  budgetExceeded?: number;
+
+  /** Cases that errored (agent or sandbox failure) instead of being graded */
+  errored?: number;
+
   /** Average score across all cases */
   averageScore: number;
 
   /** Total duration in milliseconds */
   totalDurationMs: number;
+
+  /** Trials per case (omitted for single-trial runs) */
+  trials?: number;
+
+  /** Per-case score statistics across trials, keyed by case ID */
+  caseStats?: Record<string, TrialStats>;
 }
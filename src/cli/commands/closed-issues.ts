@@ -33,6 +33,7 @@ import { loadVariants, findVariantByName, resolveVariantId } from '../../variant
 import { Variant } from '../../variants/types';
 import { getActiveVariant } from './variant';
 import { variantImageExists } from '../../sandbox/variant-container';
+import { getVariantNetworkPolicy } from '../../sandbox/variant-runner';
 import {
   loadRuns,
   saveRuns,
@@ -45,7 +46,7 @@ import {
   ClosedIssueCaseRun,
   Run,
 } from '../../runs';
-import { getAgent } from '../../agents';
+import { getAgent, AgentWrapper, resolveRecordDir, withRecording } from '../../agents';
 
 // =============================================================================
 // Command Interfaces
@@ -78,6 +79,8 @@ interface RunCommandOptions {
   stream?: boolean;
   json?: boolean;
   run?: string;
+  agent?: string;
+  record?: string | boolean;
 }
 
 // =============================================================================
@@ -374,7 +377,28 @@ export async function closedIssuesRunCommand(options: RunCommandOptions) {
     const projectRoot = process.cwd();
     let variant: Variant | undefined;
 
-    if (!options.local) {
+    // An explicit agent (or recording) runs locally through the agent wrapper
+    const localFlag = options.agent ? '--agent' : options.record ? '--record' : undefined;
+    if (localFlag && options.variant) {
+      spinner.fail(`${localFlag} runs the agent locally and cannot be combined with --variant`);
+      process.exit(1);
+    }
+
+    let agent: AgentWrapper | undefined;
+    if (localFlag) {
+      try {
+        agent = getAgent(options.agent || 'claude-code');
+      } catch (err) {
+        spinner.fail((err as Error).message);
+        process.exit(1);
+      }
+      const recordDir = resolveRecordDir(options.record, projectRoot);
+      if (recordDir) {
+        agent = withRecording(agent, recordDir);
+      }
+    }
+
+    if (!options.local && !agent) {
       // Use specified variant, or fall back to active variant
       const variantName = options.variant || getActiveVariant(projectRoot);
 
@@ -433,6 +457,7 @@ export async function closedIssuesRunCommand(options: RunCommandOptions) {
       const result = await runClosedIssueCase({
         caseData: c,
         variant,
+        agent,
         projectRoot: process.cwd(),
         timeoutMs,
         stream: options.stream,
@@ -467,7 +492,13 @@ export async function closedIssuesRunCommand(options: RunCommandOptions) {
     }
 
     // Save run to store
-    const runId = await saveClosedIssuesRun(projectRoot, results, variant, options.run);
+    const runId = await saveClosedIssuesRun(
+      projectRoot,
+      results,
+      variant,
+      options.run,
+      agent?.name
+    );
 
     // Output JSON if requested
     if (options.json) {
@@ -567,10 +598,11 @@ async function saveClosedIssuesRun(
   projectRoot: string,
   results: RunCaseResult[],
   variant: Variant | undefined,
-  label?: string
+  label?: string,
+  agentName: string = 'claude-code'
 ): Promise<string> {
   // Capture agent config
-  const agent = getAgent('claude-code');
+  const agent = getAgent(agentName);
   const agentConfig = await capturePartialAgentConfig(agent, projectRoot);
 
   // Link to variant if used
@@ -620,6 +652,7 @@ async function saveClosedIssuesRun(
     type: 'closed-issues',
     createdAt: new Date().toISOString(),
     agent: agentConfig,
+    network: variant ? getVariantNetworkPolicy(variant, projectRoot) : undefined,
     cases: {},
     closedIssueCases,
   };
@@ -1,7 +1,14 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { box } from '../../utils/ui';
-import { checkDocker, RECOMMENDED_IMAGES } from '../../sandbox';
+import {
+  checkSandbox,
+  getBackendDisplayName,
+  getContainerCli,
+  resolveSandboxBackend,
+  RECOMMENDED_IMAGES,
+} from '../../sandbox';
+import { getAgentStatuses, getLoadedPlugins } from '../../agents';
 
 interface Check {
   name: string;
@@ -15,29 +22,32 @@ export async function doctorCommand() {
 
   const checks: Check[] = [];
 
-  // Check 1: Docker availability
-  const dockerSpinner = ora('Checking Docker...').start();
-  const dockerStatus = await checkDocker();
+  // Check 1: Sandbox backend availability
+  const backend = resolveSandboxBackend();
+  const backendName = getBackendDisplayName(backend);
+  const sandboxSpinner = ora(`Checking ${backendName}...`).start();
+  const sandboxStatus = await checkSandbox(backend);
 
-  if (dockerStatus.available) {
-    dockerSpinner.succeed(`Docker ${dockerStatus.version} is available`);
+  if (sandboxStatus.available) {
+    const rootless = sandboxStatus.rootless ? ' (rootless)' : '';
+    sandboxSpinner.succeed(`${backendName} ${sandboxStatus.version} is available${rootless}`);
     checks.push({
-      name: 'Docker',
+      name: backendName,
       status: 'pass',
-      message: `Docker ${dockerStatus.version} is running`,
+      message: `${backendName} ${sandboxStatus.version} is running${rootless}`,
     });
   } else {
-    dockerSpinner.fail(`Docker: ${dockerStatus.error}`);
+    sandboxSpinner.fail(`${backendName}: ${sandboxStatus.error}`);
     checks.push({
-      name: 'Docker',
+      name: backendName,
       status: 'fail',
-      message: dockerStatus.error!,
-      suggestion: dockerStatus.suggestion,
+      message: sandboxStatus.error!,
+      suggestion: sandboxStatus.suggestion,
     });
   }
 
-  // Check 2: Pull recommended images (only if Docker is available)
-  if (dockerStatus.available) {
+  // Check 2: Pull recommended images (only if the backend is available)
+  if (sandboxStatus.available) {
     const imageSpinner = ora('Checking recommended images...').start();
     const missingImages: string[] = [];
 
@@ -48,40 +58,51 @@ export async function doctorCommand() {
     ];
 
     try {
-      const Docker = (await import('dockerode')).default;
-      const docker = new Docker();
-
-      for (const image of imagesToCheck) {
-        try {
-          await docker.getImage(image).inspect();
-        } catch {
-          missingImages.push(image);
+      if (sandboxStatus.backend === 'podman') {
+        const { spawnSync } = await import('child_process');
+        for (const image of imagesToCheck) {
+          if (spawnSync('podman', ['image', 'exists', image]).status !== 0) {
+            missingImages.push(image);
+          }
+        }
+      } else {
+        const Docker = (await import('dockerode')).default;
+        const docker = new Docker();
+
+        for (const image of imagesToCheck) {
+          try {
+            await docker.getImage(image).inspect();
+          } catch {
+            missingImages.push(image);
+          }
         }
       }
 
       if (missingImages.length === 0) {
         imageSpinner.succeed('Common images are available locally');
         checks.push({
-          name: 'Docker Images',
+          name: `${backendName} Images`,
           status: 'pass',
           message: 'Node.js and Python images are cached locally',
         });
       } else {
         imageSpinner.warn(`${missingImages.length} image(s) will be downloaded on first use`);
         checks.push({
-          name: 'Docker Images',
+          name: `${backendName} Images`,
           status: 'warn',
           message: `Images not cached: ${missingImages.join(', ')}`,
           suggestion:
             'These will be downloaded automatically when needed.\n' +
             'To pre-download, run:\n' +
-            missingImages.map((img) => `  docker pull ${img}`).join('\n'),
+            missingImages
+              .map((img) => `  ${getContainerCli(sandboxStatus.backend)} pull ${img}`)
+              .join('\n'),
         });
       }
     } catch (err) {
       imageSpinner.fail('Could not check images');
       checks.push({
-        name: 'Docker Images',
+        name: `${backendName} Images`,
         status: 'warn',
         message: 'Could not verify image availability',
       });
@@ -132,6 +153,33 @@ export async function doctorCommand() {
     });
   }
 
+  // Check 5: Agents and plugins
+  const agentSpinner = ora('Checking agents...').start();
+  const agentStatuses = await getAgentStatuses();
+  const availableAgents = agentStatuses.filter((a) => a.available);
+  agentSpinner.stop();
+
+  checks.push({
+    name: 'Agents',
+    status: availableAgents.length > 0 ? 'pass' : 'warn',
+    message: `${availableAgents.length} of ${agentStatuses.length} agents available`,
+    suggestion: agentStatuses
+      .map((a) => {
+        const state = a.available ? (a.version ? a.version : 'available') : 'not available';
+        return `${a.name}: ${state}${a.plugin ? ` (plugin ${a.plugin})` : ''}`;
+      })
+      .join('\n'),
+  });
+
+  for (const plugin of getLoadedPlugins().filter((p) => p.error)) {
+    checks.push({
+      name: 'Agent Plugin',
+      status: 'fail',
+      message: `${plugin.module}: ${plugin.error}`,
+      suggestion: 'Check the plugins list in .sniffbench/config.yaml',
+    });
+  }
+
   // Summary
   console.log('');
   const passCount = checks.filter((c) => c.status === 'pass').length;
@@ -15,16 +15,42 @@ import * as readline from 'readline';
 import { box } from '../../utils/ui';
 import { loadCases, getDefaultCasesDir } from '../../cases';
 import { Case } from '../../cases/types';
-import { getAgent, AgentWrapper, AgentResult, AgentEvent } from '../../agents';
-import { computeBehaviorMetrics, formatBehaviorMetrics } from '../../metrics';
+import {
+  getAgent,
+  AgentWrapper,
+  AgentResult,
+  AgentEvent,
+  AgentRunSettings,
+  BudgetLimit,
+  RunSettingsFlags,
+  resolveRecordDir,
+  withRecording,
+  withTrajectoryCapture,
+  getRunTrajectoriesDir,
+  runFollowUps,
+  RunSettingsError,
+  parseRunSettings,
+  parsePositiveInteger,
+  parseModelList,
+  resolveRunSettings,
+  checkRunLimits,
+} from '../../agents';
+import { computeBehaviorMetrics, formatBehaviorMetrics, computeTrialStats } from '../../metrics';
 import {
   Run,
   CaseRun,
+  CaseTrial,
+  FollowUpTurn,
   loadRuns,
   saveRuns,
   generateRunId,
   addRun,
   capturePartialAgentConfig,
+  applyRunSettings,
+  generateSweepId,
+  findRunsBySweep,
+  buildSweepMatrix,
+  formatSweepMatrix,
   performMigration,
   needsMigration,
   defaultBehaviorMetrics,
@@ -36,7 +62,17 @@ import {
   Variant,
 } from '../../variants';
 import { getActiveVariant } from './variant';
-import { runInVariant, checkDockerAvailable, variantImageExists } from '../../sandbox';
+import {
+  runInVariant,
+  checkContainerCliAvailable,
+  resolveSandboxBackend,
+  getBackendDisplayName,
+  getVariantNetworkPolicy,
+  formatNetworkPolicy,
+  variantImageExists,
+  NetworkPolicy,
+  SandboxBackend,
+} from '../../sandbox';
 
 /**
  * Exploration status messages - cycles through these while agent works
@@ -117,17 +153,24 @@ function createExplorationSpinner(agentName: string): {
   };
 }
 
-interface InterviewOptions {
+interface InterviewOptions extends RunSettingsFlags {
   cases?: string;
-  agent: string;
+  agent?: string;  // Agent to run locally (default: claude-code)
   output: string;
   baseline?: boolean;
   compare?: boolean;
   run?: string;  // Save to named run (enables run tracking)
   variant?: string;  // Link run to a registered variant
   useVariant?: string;  // Run in sandboxed variant container
+  trials?: string;  // Ask each question N times
+  record?: string | boolean;  // Record agent transcripts (directory, or true for the default)
+  trajectory?: boolean;  // Save full agent trajectories with the run
+  models?: string;  // Run once per model (comma-separated) as a sweep
 }
 
+/** Minimum grade (out of 10) for an interview trial to count as a pass in pass@1 and pass@k */
+const INTERVIEW_PASS_GRADE = 7;
+
 interface Baseline {
   caseId: string;
   question: string;
@@ -380,8 +423,25 @@ ${caseData.prompt}
 Be concise but accurate. Focus on the key points with specific file references where relevant. Aim for a clear, well-organized answer that a developer could quickly scan.`;
 }
 
+/** Run settings a variant container ignores (it runs with the variant's own settings) */
+const VARIANT_UNSUPPORTED_SETTINGS: Array<[keyof AgentRunSettings, string]> = [
+  ['model', '--model'],
+  ['maxBudgetUsd', '--max-budget'],
+  ['maxTurns', '--max-turns'],
+  ['permissionMode', '--permission-mode'],
+  ['allowedTools', '--allowed-tools'],
+  ['disallowedTools', '--disallowed-tools'],
+];
+
+/**
+ * First flag given that a variant container can't honor, if any
+ */
+function findVariantUnsupportedFlag(settings: AgentRunSettings): string | undefined {
+  return VARIANT_UNSUPPORTED_SETTINGS.find(([key]) => settings[key] !== undefined)?.[1];
+}
+
 /**
- * Run agent on a comprehension question
+ * Run agent on a comprehension question (or a follow-up turn)
  * If variant is provided, runs in sandboxed container; otherwise runs locally
  */
 async function getAgentResponse(
@@ -389,10 +449,13 @@ async function getAgentResponse(
   agent: AgentWrapper,
   cwd: string,
   onEvent?: (event: AgentEvent) => void,
-  variant?: Variant | null
+  variant?: Variant | null,
+  settings: AgentRunSettings = {},
+  turn: { prompt?: string; resumeSessionId?: string; trial?: number } = {}
 ): Promise<AgentResult> {
-  const prompt = buildInterviewPrompt(caseData);
+  const prompt = turn.prompt ?? buildInterviewPrompt(caseData);
   const timeoutMs = (caseData.expectations?.maxTimeSeconds || 300) * 1000;
+  const limits = resolveRunSettings(settings, caseData.expectations);
 
   // If variant is set, run in sandboxed container
   if (variant) {
@@ -424,7 +487,7 @@ async function getAgentResponse(
       timestamp: Date.now(),
     }));
 
-    return {
+    return checkRunLimits({
       success: containerResult.exitCode === 0 && !containerResult.timedOut,
       answer: containerResult.stdout.trim(),
       error: containerResult.exitCode !== 0 ? containerResult.stderr || `Exit code: ${containerResult.exitCode}` : undefined,
@@ -442,179 +505,272 @@ async function getAgentResponse(
       numTurns: containerResult.numTurns || 1,
       toolCalls,
       toolsUsed: [...new Set((containerResult.toolCalls || []).map(tc => tc.name))],
-    };
+    }, limits);
   }
 
   // Local execution
   const result = await agent.run(prompt, {
+    ...limits,
     cwd,
     timeoutMs,
     onEvent,
+    caseId: caseData.id,
+    trial: turn.trial,
+    resumeSessionId: turn.resumeSessionId,
   });
 
-  return result;
+  return checkRunLimits(result, limits);
 }
 
 /**
- * Run a single interview question
- * Returns the readline interface (may be recreated if stdin was disrupted)
+ * Stream an agent's work to the terminal: tool calls under an animated
+ * spinner until the answer text starts, then the text itself
  */
-async function runInterviewQuestion(
-  caseData: Case,
-  agent: AgentWrapper,
-  rl: readline.Interface,
-  store: BaselineStore,
-  projectRoot: string,
-  activeVariant?: Variant | null
-): Promise<{ grade: number; skipped: boolean; durationMs?: number; model?: string; rl: readline.Interface }> {
-  const existingBaseline = store.baselines[caseData.id];
-
-  // Show the question
-  console.log(box(caseData.prompt, `Question: ${caseData.title}`));
-
-  if (existingBaseline) {
-    console.log(chalk.dim(`  Baseline exists (grade: ${existingBaseline.grade}/10, graded: ${existingBaseline.gradedAt.split('T')[0]})`));
-    const regrade = await ask(rl, chalk.cyan('  Re-run and re-grade? (y/N): '));
-
-    if (regrade.toLowerCase() !== 'y') {
-      return { grade: existingBaseline.grade, skipped: true, rl };
-    }
-  }
-
-  // Get agent's response - stream output live with animated spinner at bottom
-  console.log('');
+function createResponseStream(agent: AgentWrapper): {
+  onEvent: (event: AgentEvent) => void;
+  finish: () => void;
+  stop: () => void;
+} {
   const exploration = createExplorationSpinner(agent.displayName);
-
-  let outputStarted = false;
-  const startTime = Date.now();
-
   let textOutputStarted = false;
 
-  try {
-    const result = await getAgentResponse(caseData, agent, projectRoot, (event) => {
-      outputStarted = true;
-
-      switch (event.type) {
-        case 'tool_start': {
-          // Show tool with key input info
-          const input = event.tool.input;
-          let detail = '';
-
-          // Special handling for Task tool - show subagent type and prompt
-          if (event.tool.name === 'Task') {
-            const subagentType = input.subagent_type ? `[${input.subagent_type}]` : '';
-            const desc = input.description || '';
-            const prompt = input.prompt ? String(input.prompt).substring(0, 60) : '';
-            detail = `${subagentType} ${desc}`.trim();
-
-            exploration.toolCalls.push(`› ${event.tool.name}`);
-            if (!textOutputStarted) exploration.spinner.stop();
-            console.log(chalk.yellow(`\n  ⚡ Task ${chalk.bold(subagentType)} ${chalk.dim(desc)}`));
-            if (prompt) {
-              console.log(chalk.dim(`     "${prompt}${String(input.prompt).length > 60 ? '...' : ''}"`));
-            }
-            if (!textOutputStarted) exploration.spinner.start();
-          } else {
-            // Extract most useful input field for display
-            if (input.file_path) detail = String(input.file_path).split('/').slice(-2).join('/');
-            else if (input.pattern) detail = String(input.pattern);
-            else if (input.command) detail = String(input.command).substring(0, 50);
-            else if (input.query) detail = String(input.query).substring(0, 40);
-            else if (input.path) detail = String(input.path).split('/').slice(-2).join('/');
-
-            const toolInfo = detail ? `${event.tool.name} ${chalk.dim(detail)}` : event.tool.name;
-            exploration.toolCalls.push(`› ${event.tool.name}`);
-
-            // Stop spinner, show tool call, restart only if text hasn't started
-            if (!textOutputStarted) exploration.spinner.stop();
-            console.log(chalk.cyan(`${textOutputStarted ? '\n' : ''}  › ${toolInfo}`));
-            if (!textOutputStarted) exploration.spinner.start();
-          }
-
-          if (!textOutputStarted) {
-            const state = EXPLORATION_STATES[exploration.toolCalls.length % EXPLORATION_STATES.length];
-            const baseText = `${chalk.bold.hex('#D97706')(agent.displayName)} ${state.color(state.text)}`;
-            exploration.spinner.text = `${baseText} ${chalk.dim(`(${exploration.toolCalls.length} tools)`)}`;
+  const onEvent = (event: AgentEvent): void => {
+    switch (event.type) {
+      case 'tool_start': {
+        // Show tool with key input info
+        const input = event.tool.input;
+        let detail = '';
+
+        // Special handling for Task tool - show subagent type and prompt
+        if (event.tool.name === 'Task') {
+          const subagentType = input.subagent_type ? `[${input.subagent_type}]` : '';
+          const desc = input.description || '';
+          const prompt = input.prompt ? String(input.prompt).substring(0, 60) : '';
+          detail = `${subagentType} ${desc}`.trim();
+
+          exploration.toolCalls.push(`› ${event.tool.name}`);
+          if (!textOutputStarted) exploration.spinner.stop();
+          console.log(chalk.yellow(`\n  ⚡ Task ${chalk.bold(subagentType)} ${chalk.dim(desc)}`));
+          if (prompt) {
+            console.log(chalk.dim(`     "${prompt}${String(input.prompt).length > 60 ? '...' : ''}"`));
           }
-          break;
+          if (!textOutputStarted) exploration.spinner.start();
+        } else {
+          // Extract most useful input field for display
+          if (input.file_path) detail = String(input.file_path).split('/').slice(-2).join('/');
+          else if (input.pattern) detail = String(input.pattern);
+          else if (input.command) detail = String(input.command).substring(0, 50);
+          else if (input.query) detail = String(input.query).substring(0, 40);
+          else if (input.path) detail = String(input.path).split('/').slice(-2).join('/');
+
+          const toolInfo = detail ? `${event.tool.name} ${chalk.dim(detail)}` : event.tool.name;
+          exploration.toolCalls.push(`› ${event.tool.name}`);
+
+          // Stop spinner, show tool call, restart only if text hasn't started
+          if (!textOutputStarted) exploration.spinner.stop();
+          console.log(chalk.cyan(`${textOutputStarted ? '\n' : ''}  › ${toolInfo}`));
+          if (!textOutputStarted) exploration.spinner.start();
         }
 
-        case 'tool_end': {
-          // Could show truncated result here if desired
-          break;
+        if (!textOutputStarted) {
+          const state = EXPLORATION_STATES[exploration.toolCalls.length % EXPLORATION_STATES.length];
+          const baseText = `${chalk.bold.hex('#D97706')(agent.displayName)} ${state.color(state.text)}`;
+          exploration.spinner.text = `${baseText} ${chalk.dim(`(${exploration.toolCalls.length} tools)`)}`;
         }
+        break;
+      }
 
-        case 'thinking': {
-          // Show thinking/reasoning output between tool calls
-          const text = event.text.trim();
-          if (text) {
-            if (!textOutputStarted) exploration.spinner.stop();
-            // Show first line or first 150 chars of thinking
-            const firstLine = text.split('\n')[0];
-            const display = firstLine.length > 150
-              ? firstLine.substring(0, 150) + '...'
-              : firstLine;
-            console.log(chalk.magenta(`${textOutputStarted ? '\n' : ''}  💭 ${display}`));
-            // If there's more content, indicate it
-            if (text.includes('\n') || text.length > 150) {
-              const lineCount = text.split('\n').length;
-              if (lineCount > 1) {
-                console.log(chalk.dim(`     (${lineCount} lines of reasoning)`));
-              }
-            }
-            if (!textOutputStarted) exploration.spinner.start();
-          }
-          break;
-        }
+      case 'tool_end': {
+        // Could show truncated result here if desired
+        break;
+      }
 
-        case 'text_delta': {
-          // Stream text content to stdout
-          if (event.text.trim()) {
-            if (!textOutputStarted) {
-              textOutputStarted = true;
-              exploration.stop();
-              console.log(chalk.dim('\n  ─────────────────────────────────────────\n'));
+      case 'thinking': {
+        // Show thinking/reasoning output between tool calls
+        const text = event.text.trim();
+        if (text) {
+          if (!textOutputStarted) exploration.spinner.stop();
+          // Show first line or first 150 chars of thinking
+          const firstLine = text.split('\n')[0];
+          const display = firstLine.length > 150
+            ? firstLine.substring(0, 150) + '...'
+            : firstLine;
+          console.log(chalk.magenta(`${textOutputStarted ? '\n' : ''}  💭 ${display}`));
+          // If there's more content, indicate it
+          if (text.includes('\n') || text.length > 150) {
+            const lineCount = text.split('\n').length;
+            if (lineCount > 1) {
+              console.log(chalk.dim(`     (${lineCount} lines of reasoning)`));
             }
-            process.stdout.write(event.text);
           }
-          break;
+          if (!textOutputStarted) exploration.spinner.start();
         }
+        break;
+      }
 
-        case 'status': {
-          // Only update spinner if text hasn't started
+      case 'text_delta': {
+        // Stream text content to stdout
+        if (event.text.trim()) {
           if (!textOutputStarted) {
-            exploration.spinner.text = `${chalk.bold.hex('#D97706')(agent.displayName)} ${chalk.cyan(event.message)}`;
+            textOutputStarted = true;
+            exploration.stop();
+            console.log(chalk.dim('\n  ─────────────────────────────────────────\n'));
           }
-          break;
+          process.stdout.write(event.text);
         }
+        break;
+      }
 
-        // Ignore other event types for now
-        default:
-          break;
+      case 'status': {
+        // Only update spinner if text hasn't started
+        if (!textOutputStarted) {
+          exploration.spinner.text = `${chalk.bold.hex('#D97706')(agent.displayName)} ${chalk.cyan(event.message)}`;
+        }
+        break;
       }
-    }, activeVariant);
 
-    // Ensure spinner is stopped
-    if (!textOutputStarted) {
-      exploration.stop();
+      // Ignore other event types for now
+      default:
+        break;
     }
+  };
 
-    const durationSec = ((Date.now() - startTime) / 1000).toFixed(1);
-    if (textOutputStarted) {
-      console.log(chalk.dim('\n\n  ─────────────────────────────────────────'));
-    } else {
-      console.log(chalk.dim('\n  ─────────────────────────────────────────'));
+  return {
+    onEvent,
+    // Stop the spinner and close the answer block
+    finish: () => {
+      if (!textOutputStarted) {
+        exploration.stop();
+      }
+      if (textOutputStarted) {
+        console.log(chalk.dim('\n\n  ─────────────────────────────────────────'));
+      } else {
+        console.log(chalk.dim('\n  ─────────────────────────────────────────'));
+      }
+    },
+    stop: () => exploration.stop(),
+  };
+}
+
+/**
+ * Ask a case's follow-up questions after its first answer, streaming each reply
+ */
+async function askFollowUps(
+  caseData: Case,
+  agent: AgentWrapper,
+  first: AgentResult,
+  projectRoot: string,
+  activeVariant?: Variant | null,
+  settings: AgentRunSettings = {}
+): Promise<FollowUpTurn[]> {
+  const questions = caseData.followUps || [];
+  if (questions.length === 0) {
+    return [];
+  }
+
+  const turns = await runFollowUps(
+    agent,
+    { prompt: caseData.prompt, result: first },
+    questions,
+    async (prompt, resumeSessionId) => {
+      const stream = createResponseStream(agent);
+      try {
+        const result = await getAgentResponse(caseData, agent, projectRoot, stream.onEvent, activeVariant, settings, {
+          prompt,
+          resumeSessionId,
+        });
+        stream.finish();
+        if (result.success) {
+          const durationSec = (result.durationMs / 1000).toFixed(1);
+          console.log(chalk.green(`\n  ✓ Follow-up answered in ${durationSec}s`));
+        } else {
+          console.log(chalk.red(`\n  ✗ Follow-up failed: ${result.timedOut ? 'Timed out' : result.error}`));
+        }
+        return result;
+      } catch (err) {
+        stream.stop();
+        throw err;
+      }
+    },
+    (prompt, index) => {
+      console.log('');
+      console.log(box(prompt, `Follow-up ${index + 1}/${questions.length}`));
+      console.log('');
     }
+  );
+
+  return turns.map(({ prompt, result }) => ({
+    prompt,
+    answer: result.answer,
+    error: result.success ? undefined : (result.timedOut ? 'Timed out' : result.error || 'Agent failed'),
+    durationMs: result.durationMs,
+    behaviorMetrics: computeBehaviorMetrics(result),
+  }));
+}
+
+/**
+ * Outcome of asking the agent an interview question once
+ */
+interface InterviewTrialOutcome {
+  /** The graded trial, or undefined if the agent failed */
+  trial?: CaseTrial;
+  durationMs?: number;
+  model?: string;
+  error?: string;
+  budgetExceeded?: BudgetLimit;
+  rl: readline.Interface;
+}
+
+/**
+ * Ask the agent a question once, stream its work, and collect a human grade
+ * Returns the readline interface (may be recreated if stdin was disrupted)
+ */
+async function runInterviewTrial(
+  caseData: Case,
+  agent: AgentWrapper,
+  rl: readline.Interface,
+  projectRoot: string,
+  activeVariant?: Variant | null,
+  settings: AgentRunSettings = {},
+  trial = 1
+): Promise<InterviewTrialOutcome> {
+  // Get agent's response - stream output live with animated spinner at bottom
+  console.log('');
+  const stream = createResponseStream(agent);
+
+  let outputStarted = false;
+  const startTime = Date.now();
+
+  try {
+    const result = await getAgentResponse(caseData, agent, projectRoot, (event) => {
+      outputStarted = true;
+      stream.onEvent(event);
+    }, activeVariant, settings, { trial });
+
+    stream.finish();
+
+    const durationSec = ((Date.now() - startTime) / 1000).toFixed(1);
 
     if (result.timedOut) {
       console.log(chalk.yellow(`\n  ✗ ${agent.displayName} timed out after ${durationSec}s`));
       console.log(chalk.yellow('  The agent took too long. Consider increasing the timeout.'));
-      return { grade: 0, skipped: true, durationMs: result.durationMs, rl };
+      return { durationMs: result.durationMs, error: 'Timed out', rl };
+    }
+
+    if (result.budgetExceeded) {
+      console.log(chalk.yellow(`\n  ✗ ${agent.displayName} stopped after ${durationSec}s: ${result.error}`));
+      return {
+        durationMs: result.durationMs,
+        model: result.model,
+        error: result.error,
+        budgetExceeded: result.budgetExceeded,
+        rl,
+      };
     }
 
     if (!result.success) {
       console.log(chalk.red(`\n  ✗ ${agent.displayName} failed: ${result.error}`));
-      return { grade: 0, skipped: true, durationMs: result.durationMs, rl };
+      return { durationMs: result.durationMs, error: result.error || 'Agent failed', rl };
     }
 
     console.log(chalk.green(`\n  ✓ ${agent.displayName} completed in ${durationSec}s`) + chalk.dim(` (${result.model})`));
@@ -629,6 +785,9 @@ async function runInterviewQuestion(
     console.log(chalk.bold('\n  Behavior Metrics:'));
     console.log(formatBehaviorMetrics(behaviorMetrics));
 
+    // Ask follow-up questions in the same session before grading
+    const followUps = await askFollowUps(caseData, agent, result, projectRoot, activeVariant, settings);
+
     // Recreate readline after agent run - stdin may have been disrupted
     // by the spawned claude process
     if (!isReadlineOpen(rl)) {
@@ -647,28 +806,241 @@ async function runInterviewQuestion(
     // Optional notes
     const notes = await ask(rl, chalk.dim('  Notes (optional, press Enter to skip): '));
 
-    // Save baseline
-    store.baselines[caseData.id] = {
-      caseId: caseData.id,
-      question: caseData.prompt,
-      answer: result.answer,
-      grade,
-      gradedAt: new Date().toISOString(),
-      gradedBy: 'human',
-      notes: notes || undefined,
-      behaviorMetrics,
+    return {
+      trial: {
+        answer: result.answer,
+        grade,
+        gradedAt: new Date().toISOString(),
+        notes: notes || undefined,
+        durationMs: result.durationMs,
+        behaviorMetrics,
+        followUps: followUps.length > 0 ? followUps : undefined,
+      },
+      durationMs: result.durationMs,
+      model: result.model,
+      rl,
     };
+  } catch (err) {
+    stream.stop();
+    console.log(chalk.red(`\n  ✗ Failed: ${(err as Error).message}`));
+    return { error: (err as Error).message, rl };
+  }
+}
 
-    saveBaselines(projectRoot, store);
+/**
+ * Grade of each trial, with failed (ungraded) trials counted as 0
+ */
+function trialGrades(caseTrials: CaseTrial[]): number[] {
+  return caseTrials.map((t) => t.grade ?? 0);
+}
 
-    console.log(chalk.green(`\n  ✓ Baseline saved (${grade}/10)`));
+/**
+ * Run a single interview question, once per trial
+ * Returns the readline interface (may be recreated if stdin was disrupted)
+ */
+async function runInterviewQuestion(
+  caseData: Case,
+  agent: AgentWrapper,
+  rl: readline.Interface,
+  store: BaselineStore,
+  projectRoot: string,
+  activeVariant?: Variant | null,
+  trials: number = 1,
+  settings: AgentRunSettings = {},
+  isSweep: boolean = false
+): Promise<{ grade: number; skipped: boolean; durationMs?: number; model?: string; first?: CaseTrial; trials?: CaseTrial[]; followUps?: FollowUpTurn[]; rl: readline.Interface }> {
+  // Sweeps ask every question and leave the baselines alone
+  const existingBaseline = isSweep ? undefined : store.baselines[caseData.id];
 
-    return { grade, skipped: false, durationMs: result.durationMs, model: result.model, rl };
-  } catch (err) {
-    exploration.stop();
-    console.log(chalk.red(`\n  ✗ Failed: ${(err as Error).message}`));
-    return { grade: 0, skipped: true, rl };
+  // Show the question
+  console.log(box(caseData.prompt, `Question: ${caseData.title}`));
+
+  if (existingBaseline) {
+    console.log(chalk.dim(`  Baseline exists (grade: ${existingBaseline.grade}/10, graded: ${existingBaseline.gradedAt.split('T')[0]})`));
+    const regrade = await ask(rl, chalk.cyan('  Re-run and re-grade? (y/N): '));
+
+    if (regrade.toLowerCase() !== 'y') {
+      return { grade: existingBaseline.grade, skipped: true, rl };
+    }
+  }
+
+  const caseTrials: CaseTrial[] = [];
+  let durationMs = 0;
+  let model: string | undefined;
+
+  for (let trial = 1; trial <= trials; trial++) {
+    if (trials > 1) {
+      console.log(chalk.bold(`\n  Trial ${trial}/${trials}`));
+    }
+
+    const outcome = await runInterviewTrial(caseData, agent, rl, projectRoot, activeVariant, settings, trial);
+    rl = outcome.rl;
+    durationMs += outcome.durationMs || 0;
+    model = model || outcome.model;
+
+    if (outcome.trial) {
+      caseTrials.push(outcome.trial);
+    } else if (trials > 1) {
+      // Failed trials count against the case in trial stats
+      caseTrials.push({
+        answer: '',
+        error: outcome.error,
+        budgetExceeded: outcome.budgetExceeded,
+        durationMs: outcome.durationMs,
+        behaviorMetrics: defaultBehaviorMetrics(),
+      });
+    }
+  }
+
+  const graded = caseTrials.filter((t) => t.grade !== undefined);
+  if (graded.length === 0) {
+    return { grade: 0, skipped: true, durationMs, rl };
+  }
+
+  // With multiple trials the case grade is the mean over all trials, as in its trial stats
+  const grades = trialGrades(caseTrials);
+  const grade = Math.round((grades.reduce((sum, g) => sum + g, 0) / grades.length) * 10) / 10;
+  const first = graded[0];
+
+  if (isSweep) {
+    console.log(chalk.green(`\n  ✓ Graded (${grade}/10)`));
+    return { grade, skipped: false, durationMs, model, first, trials: trials > 1 ? caseTrials : undefined, followUps: first.followUps, rl };
+  }
+
+  // Save baseline
+  store.baselines[caseData.id] = {
+    caseId: caseData.id,
+    question: caseData.prompt,
+    answer: first.answer,
+    grade: Math.round(grade),
+    gradedAt: first.gradedAt!,
+    gradedBy: 'human',
+    notes: first.notes,
+    behaviorMetrics: first.behaviorMetrics,
+  };
+
+  saveBaselines(projectRoot, store);
+
+  console.log(chalk.green(`\n  ✓ Baseline saved (${grade}/10)`));
+
+  return {
+    grade,
+    skipped: false,
+    durationMs,
+    model,
+    first,
+    trials: trials > 1 ? caseTrials : undefined,
+    followUps: first.followUps,
+    rl,
+  };
+}
+
+/**
+ * Ask and grade each case, then save the answers as a run and print its summary
+ * Returns the readline interface (may be recreated) and whether the user stopped early
+ */
+async function runInterviewCases(
+  casesToRun: Case[],
+  agent: AgentWrapper,
+  rl: readline.Interface,
+  store: BaselineStore,
+  projectRoot: string,
+  currentRun: Run,
+  activeVariant: Variant | null,
+  trials: number,
+  settings: AgentRunSettings,
+  isSweep: boolean
+): Promise<{ rl: readline.Interface; stopped: boolean }> {
+  const results: { caseId: string; grade: number; skipped: boolean; model?: string }[] = [];
+  let stopped = false;
+
+  for (let i = 0; i < casesToRun.length; i++) {
+    const caseData = casesToRun[i];
+
+    console.log(chalk.bold(`\n  [${i + 1}/${casesToRun.length}] ${caseData.title}`));
+    console.log(chalk.dim(`  Difficulty: ${caseData.difficulty}\n`));
+
+    const result = await runInterviewQuestion(caseData, agent, rl, store, projectRoot, activeVariant, trials, settings, isSweep);
+    // Update rl in case it was recreated after agent run
+    rl = result.rl;
+    results.push({
+      caseId: caseData.id,
+      grade: result.grade,
+      skipped: result.skipped,
+      model: result.model,
+    });
+
+    // Record the graded answer in the run if the case wasn't skipped
+    if (!result.skipped && result.first) {
+      const first = result.first;
+      const caseRun: CaseRun = {
+        answer: first.answer,
+        grade: result.grade,
+        gradedAt: first.gradedAt,
+        gradedBy: 'human',
+        notes: first.notes,
+        behaviorMetrics: { ...defaultBehaviorMetrics(), ...first.behaviorMetrics },
+        durationMs: result.durationMs,
+      };
+      if (result.followUps) {
+        caseRun.followUps = result.followUps;
+      }
+      if (result.trials) {
+        caseRun.trials = result.trials;
+        const grades = trialGrades(result.trials);
+        caseRun.trialStats = computeTrialStats(
+          grades.map((g) => g * 10),
+          grades.map((g) => g >= INTERVIEW_PASS_GRADE)
+        );
+      }
+      currentRun.cases[caseData.id] = caseRun;
+
+      // Update model from first case result
+      if (result.model && currentRun.agent.model === 'unknown') {
+        currentRun.agent.model = result.model;
+      }
+    }
+
+    if (i < casesToRun.length - 1) {
+      const next = await ask(rl, chalk.cyan('\n  Continue to next question? (Y/n/q to quit): '));
+
+      if (next.toLowerCase() === 'q' || next.toLowerCase() === 'n') {
+        console.log(chalk.dim('\n  Interview paused. Run again to continue.\n'));
+        stopped = true;
+        break;
+      }
+    }
   }
+
+  // Save run to runs.json
+  if (Object.keys(currentRun.cases).length > 0) {
+    const runStore = loadRuns(projectRoot);
+    addRun(runStore, currentRun);
+    saveRuns(projectRoot, runStore);
+  }
+
+  // Summary for interview mode
+  console.log(chalk.dim('\n  ═══════════════════════════════════════════════════\n'));
+
+  const completed = results.filter(r => !r.skipped);
+  const totalGrade = completed.reduce((sum, r) => sum + r.grade, 0);
+  const avgGrade = completed.length > 0 ? (totalGrade / completed.length).toFixed(1) : 'N/A';
+
+  const summaryLines = [
+    chalk.bold('Interview Summary\n'),
+    `Questions answered: ${completed.length}/${results.length}`,
+    `Average grade: ${avgGrade}/10`,
+    '',
+  ];
+
+  summaryLines.push(chalk.dim(`Run saved: ${currentRun.id}`));
+  if (currentRun.label) {
+    summaryLines.push(chalk.dim(`Label: ${currentRun.label}`));
+  }
+
+  console.log(box(summaryLines.join('\n'), 'Results'));
+
+  return { rl, stopped };
 }
 
 /**
@@ -679,7 +1051,8 @@ async function runComparisonCase(
   agent: AgentWrapper,
   baseline: Baseline,
   projectRoot: string,
-  activeVariant?: Variant | null
+  activeVariant?: Variant | null,
+  settings: AgentRunSettings = {}
 ): Promise<ComparisonResult> {
   // Show the question
   console.log(box(caseData.prompt, `Question: ${caseData.title}`));
@@ -743,7 +1116,7 @@ async function runComparisonCase(
         default:
           break;
       }
-    }, activeVariant);
+    }, activeVariant, settings);
 
     // Ensure spinner is stopped
     if (!textOutputStarted) {
@@ -772,7 +1145,11 @@ async function runComparisonCase(
     }
 
     if (!result.success) {
-      console.log(chalk.red(`\n  ✗ ${agent.displayName} failed: ${result.error}`));
+      if (result.budgetExceeded) {
+        console.log(chalk.yellow(`\n  ✗ ${agent.displayName} stopped after ${durationSec}s: ${result.error}`));
+      } else {
+        console.log(chalk.red(`\n  ✗ ${agent.displayName} failed: ${result.error}`));
+      }
       return {
         caseId: caseData.id,
         title: caseData.title,
@@ -872,6 +1249,27 @@ export async function interviewCommand(options: InterviewOptions) {
   const isCompareMode = options.compare === true;
   const isRunMode = !!options.run;
 
+  let settings: AgentRunSettings;
+  let models: string[] | undefined;
+  let trials: number;
+  try {
+    settings = parseRunSettings(options);
+    trials = parsePositiveInteger(options.trials, '--trials') ?? 1;
+    models = options.models !== undefined ? parseModelList(options.models) : undefined;
+    if (models && settings.model) {
+      throw new RunSettingsError('Use either --model or --models, not both');
+    }
+    if (models && isCompareMode) {
+      throw new RunSettingsError('--models cannot be combined with --compare');
+    }
+    if (options.trajectory && isCompareMode) {
+      throw new RunSettingsError('--trajectory cannot be combined with --compare (comparisons are not saved as runs)');
+    }
+  } catch (err) {
+    console.log(chalk.red(`\n  Error: ${(err as Error).message}`));
+    return;
+  }
+
   // Migrate baselines if needed
   if (needsMigration(projectRoot)) {
     console.log(chalk.dim('  Migrating baselines.json to runs.json format...'));
@@ -908,7 +1306,7 @@ export async function interviewCommand(options: InterviewOptions) {
   // Get the agent
   let agent: AgentWrapper;
   try {
-    agent = getAgent(options.agent);
+    agent = getAgent(options.agent || 'claude-code');
   } catch (err) {
     console.log(chalk.red(`\n  Error: ${(err as Error).message}`));
     return;
@@ -920,7 +1318,7 @@ export async function interviewCommand(options: InterviewOptions) {
 
   if (!available) {
     spinner.fail(`${agent.displayName} is not available`);
-    console.log(chalk.yellow(`\n  Make sure '${options.agent}' is installed and in your PATH.`));
+    console.log(chalk.yellow(`\n  Make sure '${agent.name}' is installed and in your PATH.`));
     console.log(chalk.dim(`  For Claude Code: https://claude.ai/code`));
     return;
   }
@@ -932,6 +1330,7 @@ export async function interviewCommand(options: InterviewOptions) {
   const variantStore = loadVariants(projectRoot);
   let activeVariant: Variant | null = null;
   const useVariantName = options.useVariant || getActiveVariant(projectRoot);
+  let variantNetwork: NetworkPolicy | undefined;
 
   if (useVariantName) {
     const resolvedId = resolveVariantId(variantStore, useVariantName);
@@ -954,22 +1353,56 @@ export async function interviewCommand(options: InterviewOptions) {
       return;
     }
 
-    // Check Docker is available for sandboxed execution
-    const dockerAvailable = await checkDockerAvailable();
+    // Check the sandbox backend is available for sandboxed execution
+    let backend: SandboxBackend;
+    try {
+      backend = resolveSandboxBackend(projectRoot);
+      variantNetwork = activeVariant ? getVariantNetworkPolicy(activeVariant, projectRoot) : undefined;
+    } catch (err) {
+      console.log(chalk.red(`\n  ${(err as Error).message}\n`));
+      return;
+    }
+    const dockerAvailable = await checkContainerCliAvailable(backend);
     if (!dockerAvailable) {
-      console.log(chalk.red('\n  Docker is required for sandboxed variant execution.'));
-      console.log(chalk.dim('  Either install Docker or remove --use-variant flag.\n'));
+      const backendName = getBackendDisplayName(backend);
+      console.log(chalk.red(`\n  ${backendName} is required for sandboxed variant execution.`));
+      console.log(chalk.dim(`  Either install ${backendName} or remove --use-variant flag.\n`));
       return;
     }
   }
 
+  // An explicit agent (or recording) needs the agent wrapper, which variant containers don't use
+  const localFlag = options.agent ? '--agent' : options.record ? '--record' : undefined;
+  if (activeVariant && localFlag) {
+    console.log(chalk.red(`\n  Error: ${localFlag} runs the agent locally and cannot be combined with variant "${activeVariant.name}"`));
+    return;
+  }
+
+  const recordDir = resolveRecordDir(options.record, projectRoot);
+  if (recordDir) {
+    agent = withRecording(agent, recordDir);
+    console.log(chalk.dim(`  Recording transcripts to ${path.relative(projectRoot, recordDir) || '.'}`));
+  }
+
+  // Only the prompt and timeout reach a variant container
+  const unsupportedFlag = activeVariant
+    ? (models ? '--models' : findVariantUnsupportedFlag(settings))
+    : undefined;
+  if (activeVariant && unsupportedFlag) {
+    console.log(chalk.red(`\n  Error: ${unsupportedFlag} is not supported in variant containers (variant "${activeVariant.name}" runs with its own settings)`));
+    return;
+  }
+
   // Display active variant
   if (activeVariant) {
     console.log(chalk.bold(`\n  Using variant: `) + chalk.cyan(activeVariant.name));
+    if (variantNetwork) {
+      console.log(chalk.dim(`  Sandbox network: ${formatNetworkPolicy(variantNetwork)}`));
+    }
   }
 
   // Always initialize run tracking (--run flag just provides optional label)
-  const agentConfig = await capturePartialAgentConfig(agent, projectRoot);
+  const agentConfig = applyRunSettings(await capturePartialAgentConfig(agent, projectRoot), settings);
 
   // Handle variant linking (for run metadata) - only when explicitly specified
   let variantId: string | undefined;
@@ -992,14 +1425,24 @@ export async function interviewCommand(options: InterviewOptions) {
     agentConfig.variantId = variantId;
   }
 
-  const currentRun: Run = {
+  // A model sweep saves one run per model, linked by the sweep ID
+  const sweepId = models ? generateSweepId() : undefined;
+  const createRun = (model?: string): Run => ({
     id: generateRunId(),
     label: options.run,  // undefined if --run not provided
     createdAt: new Date().toISOString(),
-    agent: agentConfig,
+    agent: model ? applyRunSettings(agentConfig, { model }) : agentConfig,
+    sweep: sweepId && model ? { id: sweepId, model } : undefined,
+    network: variantNetwork,
     cases: {},
-  };
-  console.log(chalk.dim(`\n  Run ID: ${currentRun.id}${options.run ? ` [${options.run}]` : ''}`));
+  });
+
+  let currentRun = createRun();
+  if (sweepId) {
+    console.log(chalk.dim(`\n  Model sweep: ${sweepId} (${models!.join(', ')})`));
+  } else {
+    console.log(chalk.dim(`\n  Run ID: ${currentRun.id}${options.run ? ` [${options.run}]` : ''}`));
+  }
 
   // Load comprehension cases
   spinner.start('Loading comprehension cases...');
@@ -1084,7 +1527,7 @@ export async function interviewCommand(options: InterviewOptions) {
         console.log(chalk.bold(`\n  [${i + 1}/${casesToRun.length}] ${caseData.title}`));
         console.log(chalk.dim(`  Difficulty: ${caseData.difficulty}\n`));
 
-        const result = await runComparisonCase(caseData, agent, baseline, projectRoot, activeVariant);
+        const result = await runComparisonCase(caseData, agent, baseline, projectRoot, activeVariant, settings);
         comparisonResults.push(result);
 
         if (i < casesToRun.length - 1) {
@@ -1102,83 +1545,39 @@ export async function interviewCommand(options: InterviewOptions) {
       displayComparisonSummary(comparisonResults);
 
     } else {
-      // Normal interview mode
-      const results: { caseId: string; grade: number; skipped: boolean; model?: string }[] = [];
-
-      for (let i = 0; i < casesToRun.length; i++) {
-        const caseData = casesToRun[i];
-
-        console.log(chalk.bold(`\n  [${i + 1}/${casesToRun.length}] ${caseData.title}`));
-        console.log(chalk.dim(`  Difficulty: ${caseData.difficulty}\n`));
-
-        const result = await runInterviewQuestion(caseData, agent, rl, store, projectRoot, activeVariant);
-        // Update rl in case it was recreated after agent run
-        rl = result.rl;
-        results.push({
-          caseId: caseData.id,
-          grade: result.grade,
-          skipped: result.skipped,
-          model: result.model,
-        });
+      // Normal interview mode, once per model in a sweep
+      const runModels = models ?? [undefined];
+      for (const [m, model] of runModels.entries()) {
+        if (model) {
+          currentRun = createRun(model);
+          console.log(chalk.bold(`\n  Model ${m + 1}/${runModels.length}: ${model}`));
+          console.log(chalk.dim(`  Run ID: ${currentRun.id}\n`));
+        }
 
-        // Copy baseline to run if case wasn't skipped
-        if (!result.skipped) {
-          const baseline = store.baselines[caseData.id];
-          if (baseline) {
-            const caseRun: CaseRun = {
-              answer: baseline.answer,
-              grade: baseline.grade,
-              gradedAt: baseline.gradedAt,
-              gradedBy: baseline.gradedBy,
-              notes: baseline.notes,
-              behaviorMetrics: { ...defaultBehaviorMetrics(), ...baseline.behaviorMetrics },
-            };
-            currentRun.cases[caseData.id] = caseRun;
-
-            // Update model from first case result
-            if (result.model && currentRun.agent.model === 'unknown') {
-              currentRun.agent.model = result.model;
-            }
-          }
+        // Variant containers don't report trajectories, so capture only applies to local runs
+        let runAgent = agent;
+        if (options.trajectory && !activeVariant) {
+          runAgent = withTrajectoryCapture(agent, currentRun.id, projectRoot);
+          console.log(chalk.dim(`  Saving trajectories to ${path.relative(projectRoot, getRunTrajectoriesDir(currentRun.id, projectRoot))}\n`));
+        } else if (options.trajectory) {
+          console.log(chalk.yellow('  Trajectories are not captured in variant containers\n'));
         }
 
-        if (i < casesToRun.length - 1) {
-          const next = await ask(rl, chalk.cyan('\n  Continue to next question? (Y/n/q to quit): '));
+        const runSettings = model ? { ...settings, model } : settings;
+        const outcome = await runInterviewCases(casesToRun, runAgent, rl, store, projectRoot, currentRun, activeVariant, trials, runSettings, !!model);
+        rl = outcome.rl;
 
-          if (next.toLowerCase() === 'q' || next.toLowerCase() === 'n') {
-            console.log(chalk.dim('\n  Interview paused. Run again to continue.\n'));
-            break;
-          }
+        if (outcome.stopped) {
+          break;
         }
       }
 
-      // Save run to runs.json
-      if (Object.keys(currentRun.cases).length > 0) {
-        const runStore = loadRuns(projectRoot);
-        addRun(runStore, currentRun);
-        saveRuns(projectRoot, runStore);
-      }
-
-      // Summary for interview mode
-      console.log(chalk.dim('\n  ═══════════════════════════════════════════════════\n'));
-
-      const completed = results.filter(r => !r.skipped);
-      const totalGrade = completed.reduce((sum, r) => sum + r.grade, 0);
-      const avgGrade = completed.length > 0 ? (totalGrade / completed.length).toFixed(1) : 'N/A';
-
-      const summaryLines = [
-        chalk.bold('Interview Summary\n'),
-        `Questions answered: ${completed.length}/${results.length}`,
-        `Average grade: ${avgGrade}/10`,
-        '',
-      ];
-
-      summaryLines.push(chalk.dim(`Run saved: ${currentRun.id}`));
-      if (currentRun.label) {
-        summaryLines.push(chalk.dim(`Label: ${currentRun.label}`));
+      if (sweepId) {
+        const sweepRuns = findRunsBySweep(loadRuns(projectRoot), sweepId);
+        if (sweepRuns.length > 0) {
+          console.log(box(formatSweepMatrix(buildSweepMatrix(sweepRuns)), `Sweep: ${sweepId}`));
+        }
       }
-
-      console.log(box(summaryLines.join('\n'), 'Results'));
     }
 
   } finally {
@@ -4,34 +4,104 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { box } from '../../utils/ui';
 import { loadCases, getDefaultCasesDir } from '../../cases';
-import { CaseResult } from '../../cases/types';
+import { Case, CaseResult, RunResult } from '../../cases/types';
 import { runCases, ProgressUpdate } from '../../evaluation';
-import { checkDocker } from '../../sandbox';
+import {
+  AgentEvent,
+  AgentRunSettings,
+  RunSettingsFlags,
+  RunSettingsError,
+  getAgent,
+  getRunTrajectoriesDir,
+  getTrajectoriesDir,
+  parseModelList,
+  parseRunSettings,
+  parsePositiveInteger,
+  resolveRecordDir,
+} from '../../agents';
+import { formatTrialStats } from '../../metrics';
+import {
+  checkSandbox,
+  getBackendDisplayName,
+  resolveSandboxBackend,
+  parseNetworkMode,
+  resolveNetworkPolicy,
+  formatNetworkPolicy,
+  NetworkPolicy,
+} from '../../sandbox';
+import {
+  Run,
+  CaseRun,
+  RunSweep,
+  loadRuns,
+  saveRuns,
+  addRun,
+  captureAgentConfig,
+  applyRunSettings,
+  defaultBehaviorMetrics,
+  generateSweepId,
+  findRunsBySweep,
+  buildSweepMatrix,
+  formatSweepMatrix,
+} from '../../runs';
 
-interface RunOptions {
+interface RunOptions extends RunSettingsFlags {
   agent: string;
   cases?: string;
-  output: string;
+  run?: string; // Label for the saved run
+  output?: string; // Optional raw JSON export directory
   timeout?: number;
-  network?: boolean;
+  network?: boolean | string; // Sandbox network mode; the bare flag means full
+  concurrency?: string;
+  trials?: string;
+  record?: string | boolean; // Transcript directory, or true for the default
+  trajectory?: boolean; // Save full agent trajectories with the run
+  models?: string; // Comma-separated models for a sweep
 }
 
 export async function runCommand(options: RunOptions) {
+  let settings: AgentRunSettings;
+  let models: string[] | undefined;
+  let network: NetworkPolicy;
+  let concurrency: number;
+  let trials: number;
+  try {
+    settings = parseRunSettings(options);
+    concurrency = parsePositiveInteger(options.concurrency, '--concurrency') ?? 1;
+    trials = parsePositiveInteger(options.trials, '--trials') ?? 1;
+    network = resolveRunNetwork(options.network);
+    models = options.models !== undefined ? parseModelList(options.models) : undefined;
+    if (models && settings.model) {
+      throw new RunSettingsError('Use either --model or --models, not both');
+    }
+  } catch (err) {
+    console.error(chalk.red(`Error: ${(err as Error).message}`));
+    process.exit(1);
+  }
+
   console.log(box(chalk.bold(`Sniffbench Evaluation\n`) + chalk.dim(`Agent: ${options.agent}`), 'sniff run'));
 
-  // Check Docker first
-  const spinner = ora('Checking Docker availability...').start();
-  const dockerStatus = await checkDocker();
+  // Check the sandbox backend first
+  let backendName: string;
+  try {
+    backendName = getBackendDisplayName(resolveSandboxBackend());
+  } catch (err) {
+    console.error(chalk.red(`Error: ${(err as Error).message}`));
+    process.exit(1);
+  }
+  const spinner = ora(`Checking ${backendName} availability...`).start();
+  const sandboxStatus = await checkSandbox();
 
-  if (!dockerStatus.available) {
-    spinner.fail(`Docker is not available: ${dockerStatus.error}`);
-    if (dockerStatus.suggestion) {
-      console.log(chalk.dim('\n' + dockerStatus.suggestion));
+  if (!sandboxStatus.available) {
+    spinner.fail(`${backendName} is not available: ${sandboxStatus.error}`);
+    if (sandboxStatus.suggestion) {
+      console.log(chalk.dim('\n' + sandboxStatus.suggestion));
     }
     console.log(chalk.yellow('\nRun `sniff doctor` for more details.'));
     process.exit(1);
   }
-  spinner.succeed(`Docker ${dockerStatus.version} is ready`);
+  spinner.succeed(`${backendName} ${sandboxStatus.version} is ready`);
+  console.log(chalk.dim(`  Sandbox network: ${formatNetworkPolicy(network)}`));
 
   // Load cases
   spinner.start('Loading test cases...');
@@ -65,84 +135,296 @@ export async function runCommand(options: RunOptions) {
   }
   console.log('');
 
+  if (!models) {
+    try {
+      const result = await runSuite(cases, options, settings, network, { concurrency, trials });
+      if (hasFailures(result)) {
+        process.exit(1);
+      }
+    } catch (err) {
+      console.error(chalk.red(`\nError: ${(err as Error).message}`));
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Model sweep: one run per model, linked by a shared sweep ID
+  const sweepId = generateSweepId();
+  console.log(chalk.dim(`Model sweep ${sweepId}: ${models.join(', ')}\n`));
+
+  let failing = false;
+  for (const [i, model] of models.entries()) {
+    console.log(chalk.bold(`Model ${i + 1}/${models.length}: ${model}\n`));
+    try {
+      const result = await runSuite(
+        cases,
+        options,
+        { ...settings, model },
+        network,
+        { concurrency, trials },
+        { id: sweepId, model }
+      );
+      failing = failing || hasFailures(result);
+    } catch (err) {
+      console.error(chalk.red(`\nError (${model}): ${(err as Error).message}\n`));
+      failing = true;
+    }
+  }
+
+  const sweepRuns = findRunsBySweep(loadRuns(process.cwd()), sweepId);
+  if (sweepRuns.length > 0) {
+    console.log(box(formatSweepMatrix(buildSweepMatrix(sweepRuns)), `Sweep: ${sweepId}`));
+  }
+
+  if (failing) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Network policy of case sandboxes: `--network [mode]` (the bare flag means full),
+ * else `sandbox.network` in the project config, else none
+ */
+function resolveRunNetwork(flag: boolean | string | undefined): NetworkPolicy {
+  const mode = flag === true ? 'full' : parseNetworkMode(flag || undefined, '--network');
+  return resolveNetworkPolicy(process.cwd(), { mode: 'none' }, mode);
+}
+
+/**
+ * Whether a run had failing, timed-out or over-budget cases
+ */
+function hasFailures(result: RunResult): boolean {
+  return (
+    result.summary.failed > 0 ||
+    result.summary.timedOut > 0 ||
+    (result.summary.budgetExceeded ?? 0) > 0 ||
+    (result.summary.errored ?? 0) > 0
+  );
+}
+
+/**
+ * Run the cases once, print the summary and save the run
+ */
+async function runSuite(
+  cases: Case[],
+  options: RunOptions,
+  settings: AgentRunSettings,
+  network: NetworkPolicy,
+  { concurrency, trials }: { concurrency: number; trials: number },
+  sweep?: RunSweep
+): Promise<RunResult> {
   // Run the cases
+  // With concurrency > 1, cases interleave, so print one line per update instead of spinners
+  const parallel = concurrency > 1;
   let currentSpinner: ReturnType<typeof ora> | null = null;
 
+  if (parallel) {
+    console.log(chalk.dim(`Running up to ${concurrency} cases in parallel\n`));
+  }
+
   const onProgress = (update: ProgressUpdate) => {
+    const prefix = `[${update.caseIndex + 1}/${update.totalCases}] ${update.caseId}`;
+
+    if (parallel) {
+      if (update.type === 'starting' || update.type === 'running' || update.type === 'validating') {
+        console.log(chalk.dim(`${prefix}: ${update.message}`));
+      }
+      return;
+    }
+
     if (currentSpinner) {
       if (update.type === 'complete') {
-        currentSpinner.succeed(update.message);
+        // The case line is finalized in onCaseComplete (after all trials)
+        currentSpinner.text = `${prefix}: ${update.message}`;
       } else if (update.type === 'error') {
         currentSpinner.fail(update.message);
       } else {
-        currentSpinner.text = `[${update.caseIndex + 1}/${update.totalCases}] ${update.caseId}: ${update.message}`;
+        currentSpinner.text = `${prefix}: ${update.message}`;
       }
     }
 
     if (update.type === 'starting') {
-      currentSpinner = ora(`[${update.caseIndex + 1}/${update.totalCases}] ${update.caseId}: ${update.message}`).start();
+      currentSpinner = ora(`${prefix}: ${update.message}`).start();
+    }
+  };
+
+  const onAgentEvent = (caseId: string, event: AgentEvent) => {
+    if (currentSpinner && event.type === 'tool_start') {
+      currentSpinner.text = `${caseId}: ${chalk.dim(`› ${event.tool.name}`)}`;
     }
   };
 
   const onCaseComplete = (result: CaseResult) => {
-    if (currentSpinner) {
-      const scorePercent = Math.round(result.score * 100);
+    const scorePercent = Math.round(result.score);
+    let line: string;
+    if (result.passed) {
+      line = `${result.caseId}: ${chalk.green('PASSED')} (${scorePercent}%, ${formatDuration(result.durationMs)})`;
+    } else if (result.timedOut) {
+      line = `${result.caseId}: ${chalk.yellow('TIMEOUT')}`;
+    } else if (result.budgetExceeded) {
+      line = `${result.caseId}: ${chalk.yellow('BUDGET EXCEEDED')} (${result.budgetExceeded} limit, ${scorePercent}%)`;
+    } else if (result.error) {
+      line = `${result.caseId}: ${chalk.red('ERROR')} - ${result.error}`;
+    } else {
+      line = `${result.caseId}: ${chalk.red('FAILED')} (${scorePercent}%)`;
+    }
+    if (result.trialStats) {
+      line += chalk.dim(` [${formatTrialStats(result.trialStats, 1, 0)}]`);
+    }
+
+    if (parallel) {
+      console.log(`${result.passed ? chalk.green('✔') : chalk.red('✖')} ${line}`);
+    } else if (currentSpinner) {
       if (result.passed) {
-        currentSpinner.succeed(`${result.caseId}: ${chalk.green('PASSED')} (${scorePercent}%, ${formatDuration(result.durationMs)})`);
-      } else if (result.timedOut) {
-        currentSpinner.fail(`${result.caseId}: ${chalk.yellow('TIMEOUT')}`);
-      } else if (result.error) {
-        currentSpinner.fail(`${result.caseId}: ${chalk.red('ERROR')} - ${result.error}`);
+        currentSpinner.succeed(line);
       } else {
-        currentSpinner.fail(`${result.caseId}: ${chalk.red('FAILED')} (${scorePercent}%)`);
+        currentSpinner.fail(line);
       }
       currentSpinner = null;
     }
   };
 
-  try {
-    const result = await runCases(cases, {
-      agent: options.agent,
-      timeoutSeconds: options.timeout || 300,
-      networkEnabled: options.network || false,
-      onProgress,
-      onCaseComplete,
-    });
-
-    // Display summary
-    console.log('');
-    const averageScorePercent = Math.round(result.summary.averageScore * 100);
-    const summaryLines = [
-      chalk.bold('Run Summary\n'),
-      `Run ID: ${chalk.cyan(result.runId)}`,
-      `Duration: ${formatDuration(result.summary.totalDurationMs)}`,
-      '',
-      `${chalk.green('✓')} Passed: ${result.summary.passed}`,
-      `${chalk.red('✗')} Failed: ${result.summary.failed}`,
-      result.summary.timedOut > 0 ? `${chalk.yellow('⏱')} Timed out: ${result.summary.timedOut}` : null,
-      '',
-      chalk.bold(`Average Score: ${averageScorePercent}%`),
-    ].filter(Boolean);
-
-    console.log(box(summaryLines.join('\n'), 'Results'));
-
-    // Save results to file
+  const result = await runCases(cases, {
+    agent: options.agent,
+    timeoutSeconds: options.timeout || 300,
+    network,
+    concurrency,
+    trials,
+    recordDir: resolveRecordDir(options.record),
+    trajectoriesDir: options.trajectory ? getTrajectoriesDir() : undefined,
+    settings,
+    onProgress,
+    onCaseComplete,
+    onAgentEvent,
+  });
+
+  // Display summary
+  console.log('');
+  const averageScorePercent = Math.round(result.summary.averageScore);
+  const summaryLines = [
+    chalk.bold('Run Summary\n'),
+    `Run ID: ${chalk.cyan(result.runId)}`,
+    `Duration: ${formatDuration(result.summary.totalDurationMs)}`,
+    '',
+    `${chalk.green('✓')} Passed: ${result.summary.passed}`,
+    `${chalk.red('✗')} Failed: ${result.summary.failed}`,
+    result.summary.timedOut > 0 ? `${chalk.yellow('⏱')} Timed out: ${result.summary.timedOut}` : null,
+    result.summary.budgetExceeded
+      ? `${chalk.yellow('$')} Budget exceeded: ${result.summary.budgetExceeded}`
+      : null,
+    result.summary.errored ? `${chalk.red('!')} Errored: ${result.summary.errored}` : null,
+    '',
+    chalk.bold(`Average Score: ${averageScorePercent}%`),
+  ].filter(Boolean);
+
+  if (result.summary.caseStats) {
+    summaryLines.push('', chalk.bold(`Per-case stats (${result.summary.trials} trials):`));
+    for (const [caseId, stats] of Object.entries(result.summary.caseStats)) {
+      summaryLines.push(`  ${caseId}: ${formatTrialStats(stats, 1, 0)}`);
+    }
+  }
+
+  console.log(box(summaryLines.join('\n'), 'Results'));
+
+  // Save to the run store so the run shows up in `runs list/show` and `compare`
+  const projectRoot = process.cwd();
+  await saveRubricRun(projectRoot, result, settings, network, options.run, sweep);
+  console.log(chalk.dim(`Run saved: ${result.runId}${options.run ? ` [${options.run}]` : ''}`));
+  if (options.trajectory) {
+    const trajectoriesDir = path.relative(projectRoot, getRunTrajectoriesDir(result.runId, projectRoot));
+    console.log(chalk.dim(`Trajectories saved to: ${trajectoriesDir}`));
+  }
+
+  // Optionally export the raw results
+  if (options.output) {
     const outputDir = path.resolve(options.output);
     fs.mkdirSync(outputDir, { recursive: true });
 
     const outputFile = path.join(outputDir, `${result.runId}.json`);
     fs.writeFileSync(outputFile, JSON.stringify(result, null, 2));
-    console.log(chalk.dim(`Results saved to: ${outputFile}`));
+    console.log(chalk.dim(`Results exported to: ${outputFile}`));
+  }
 
-    // Exit with appropriate code
-    if (result.summary.failed > 0 || result.summary.timedOut > 0) {
-      process.exit(1);
-    }
-  } catch (err) {
-    // Note: currentSpinner may have been cleared by callbacks
-    console.error(chalk.red(`\nError: ${(err as Error).message}`));
-    process.exit(1);
+  return result;
+}
+
+/**
+ * Convert a rubric case result to a stored case run (grade = score / 10)
+ */
+function toCaseRun(result: CaseResult): CaseRun {
+  const caseRun: CaseRun = {
+    answer: result.answer || '',
+    grade: Math.round(result.score) / 10,
+    gradedAt: new Date(result.timestamp).toISOString(),
+    gradedBy: 'rubric',
+    behaviorMetrics: { ...defaultBehaviorMetrics(), ...result.behaviorMetrics },
+    durationMs: result.durationMs,
+    rubric: {
+      score: result.score,
+      passed: result.passed,
+      timedOut: result.timedOut,
+      budgetExceeded: result.budgetExceeded,
+      error: result.error,
+      durationMs: result.durationMs,
+      criteria: result.criteriaResults.map((c) => ({
+        name: c.name,
+        weight: c.weight,
+        score: c.score,
+        passed: c.passed,
+      })),
+      changedFiles: result.changes?.files,
+    },
+  };
+
+  if (result.trials) {
+    caseRun.trials = result.trials.map((t) => ({
+      answer: t.answer || '',
+      grade: Math.round(t.score) / 10,
+      error: t.error,
+      budgetExceeded: t.budgetExceeded,
+      durationMs: t.durationMs,
+      behaviorMetrics: { ...defaultBehaviorMetrics(), ...t.behaviorMetrics },
+    }));
+    caseRun.trialStats = result.trialStats;
   }
+
+  return caseRun;
+}
+
+/**
+ * Save a rubric run to the run store
+ */
+async function saveRubricRun(
+  projectRoot: string,
+  result: RunResult,
+  settings: AgentRunSettings,
+  network: NetworkPolicy,
+  label?: string,
+  sweep?: RunSweep
+): Promise<void> {
+  const agent = getAgent(result.agent);
+  const model = result.caseResults.find((r) => r.model)?.model || 'unknown';
+  const agentConfig = applyRunSettings(await captureAgentConfig(agent, model, projectRoot), settings);
+
+  const cases: Record<string, CaseRun> = {};
+  for (const caseResult of result.caseResults) {
+    cases[caseResult.caseId] = toCaseRun(caseResult);
+  }
+
+  const run: Run = {
+    id: result.runId,
+    label,
+    type: 'rubric',
+    createdAt: new Date(result.startedAt).toISOString(),
+    agent: agentConfig,
+    sweep,
+    network,
+    cases,
+  };
+
+  const store = loadRuns(projectRoot);
+  addRun(store, run);
+  saveRuns(projectRoot, store);
 }
 
 function formatDuration(ms: number): string {
@@ -3,6 +3,8 @@
  */
 
 import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
 import { box, padVisible } from '../../utils/ui';
 import {
   loadRuns,
@@ -17,6 +19,9 @@ import {
   Run,
 } from '../../runs';
 import { loadVariants, getVariant } from '../../variants';
+import { formatTrialStats } from '../../metrics';
+import { getRunTrajectoriesDir } from '../../agents';
+import { formatNetworkPolicy, summarizeChanges } from '../../sandbox';
 
 /**
  * Format a date string for display
@@ -96,7 +101,7 @@ export async function runsListCommand(options: { json?: boolean }): Promise<void
   if (runs.length === 0) {
     console.log(box(
       chalk.dim('No runs found.\n\n') +
-      chalk.dim('Run `sniff interview --run <label>` to create a new run.'),
+      chalk.dim('Run `sniff interview --run <label>` or `sniff run --run <label>` to create a new run.'),
       'Runs'
     ));
     return;
@@ -150,12 +155,17 @@ export async function runsShowCommand(options: { id: string; json?: boolean }):
   const avgGrade = gradedCases.length > 0
     ? (gradedCases.reduce((sum, [_, c]) => sum + (c.grade || 0), 0) / gradedCases.length).toFixed(1)
     : 'N/A';
+  const trajectoriesDir = getRunTrajectoriesDir(run.id, projectRoot);
 
   const header = [
     chalk.bold('Run Details\n'),
     `ID: ${run.id}`,
     run.label ? `Label: ${chalk.cyan(run.label)}` : '',
+    run.type ? `Type: ${run.type}` : '',
+    run.sweep ? `Sweep: ${run.sweep.id} (${run.sweep.model})` : '',
+    run.network ? `Network: ${formatNetworkPolicy(run.network)}` : '',
     `Created: ${formatDate(run.createdAt)}`,
+    fs.existsSync(trajectoriesDir) ? `Trajectories: ${path.relative(projectRoot, trajectoriesDir)}` : '',
     '',
     chalk.bold('Agent Configuration:'),
     formatAgentConfig(run.agent),
@@ -178,11 +188,40 @@ export async function runsShowCommand(options: { id: string; json?: boolean }):
         ? chalk.green(`${caseRun.grade}/10`)
         : chalk.dim('N/A');
       const gradedBy = caseRun.gradedBy || chalk.dim('-');
-      const notes = caseRun.notes
-        ? chalk.dim(caseRun.notes.substring(0, 30) + (caseRun.notes.length > 30 ? '...' : ''))
-        : chalk.dim('-');
+      let notes: string;
+      if (caseRun.rubric) {
+        const rubric = caseRun.rubric;
+        const status = rubric.timedOut
+          ? 'timed out'
+          : rubric.budgetExceeded
+            ? `over ${rubric.budgetExceeded} limit`
+            : rubric.error
+              ? 'error'
+              : rubric.passed
+                ? 'passed'
+                : 'failed';
+        notes = (rubric.passed ? chalk.green : chalk.red)(`${status} (${Math.round(rubric.score)}%)`);
+      } else {
+        notes = caseRun.notes
+          ? chalk.dim(caseRun.notes.substring(0, 30) + (caseRun.notes.length > 30 ? '...' : ''))
+          : chalk.dim('-');
+      }
 
       console.log(`  ${caseId.padEnd(22)} ${grade.padEnd(12)} ${gradedBy.padEnd(12)} ${notes}`);
+
+      if (caseRun.trialStats) {
+        console.log(chalk.dim(`  ${''.padEnd(22)} ${caseRun.trialStats.trials} trials: ${formatTrialStats(caseRun.trialStats, 0.1, 1)}`));
+      }
+
+      if (caseRun.rubric?.changedFiles) {
+        console.log(chalk.dim(`  ${''.padEnd(22)} ${summarizeChanges(caseRun.rubric.changedFiles)}`));
+      }
+
+      if (caseRun.followUps) {
+        const answered = caseRun.followUps.filter((t) => !t.error).length;
+        const tokens = caseRun.followUps.reduce((sum, t) => sum + t.behaviorMetrics.totalTokens, 0);
+        console.log(chalk.dim(`  ${''.padEnd(22)} ${answered}/${caseRun.followUps.length} follow-ups answered, ${tokens.toLocaleString()} tokens`));
+      }
     }
     console.log('');
   }
@@ -245,6 +284,7 @@ export async function runsDeleteCommand(options: { id: string; force?: boolean }
   const deleted = deleteRun(store, runId);
   if (deleted) {
     saveRuns(projectRoot, store);
+    fs.rmSync(getRunTrajectoriesDir(runId, projectRoot), { recursive: true, force: true });
     console.log(chalk.green(`\n  ✓ Deleted run: ${runId}\n`));
   } else {
     console.log(chalk.red(`\n  Failed to delete run: ${runId}\n`));
@@ -1,13 +1,18 @@
 import chalk from 'chalk';
 import ora from 'ora';
+import * as path from 'path';
 import { box } from '../../utils/ui';
-import { checkDocker } from '../../sandbox';
+import { checkSandbox, getBackendDisplayName } from '../../sandbox';
+import { getAgentStatuses, getLoadedPlugins } from '../../agents';
+import { getProjectConfigPath } from '../../utils/config';
 
 export async function statusCommand() {
   const spinner = ora('Checking system status...').start();
 
-  // Check Docker availability
-  const dockerStatus = await checkDocker();
+  // Check sandbox backend availability
+  const sandboxStatus = await checkSandbox();
+  const backendName = getBackendDisplayName(sandboxStatus.backend);
+  const agentStatuses = await getAgentStatuses();
   spinner.stop();
 
   // Build status display
@@ -18,14 +23,15 @@ export async function statusCommand() {
   // Sniffbench installed
   lines.push(chalk.green('✓') + ' Sniffbench is installed');
 
-  // Docker status
-  if (dockerStatus.available) {
-    lines.push(chalk.green('✓') + ` Docker ${dockerStatus.version} is running`);
+  // Sandbox backend status
+  if (sandboxStatus.available) {
+    const rootless = sandboxStatus.rootless ? ' (rootless)' : '';
+    lines.push(chalk.green('✓') + ` ${backendName} ${sandboxStatus.version} is running${rootless}`);
   } else {
-    lines.push(chalk.red('✗') + ` Docker: ${dockerStatus.error}`);
-    if (dockerStatus.suggestion) {
+    lines.push(chalk.red('✗') + ` ${backendName}: ${sandboxStatus.error}`);
+    if (sandboxStatus.suggestion) {
       // Indent the suggestion
-      const suggestionLines = dockerStatus.suggestion.split('\n');
+      const suggestionLines = sandboxStatus.suggestion.split('\n');
       lines.push(chalk.dim('  ' + suggestionLines[0]));
       for (let i = 1; i < suggestionLines.length; i++) {
         lines.push(chalk.dim('  ' + suggestionLines[i]));
@@ -33,8 +39,28 @@ export async function statusCommand() {
     }
   }
 
-  // Configuration status (TODO: implement config detection)
-  lines.push(chalk.yellow('○') + ' No configuration found (run ' + chalk.cyan('sniff init') + ')');
+  // Agents
+  lines.push('');
+  lines.push(chalk.bold('Agents:'));
+  for (const agent of agentStatuses) {
+    const icon = agent.available ? chalk.green('✓') : chalk.dim('○');
+    const version = agent.version ? chalk.dim(` ${agent.version}`) : '';
+    const plugin = agent.plugin ? chalk.dim(` (plugin ${agent.plugin})`) : '';
+    const state = agent.available ? '' : chalk.dim(' not available');
+    lines.push(`  ${icon} ${agent.name}${version}${state}${plugin}`);
+  }
+  for (const plugin of getLoadedPlugins().filter((p) => p.error)) {
+    lines.push(`  ${chalk.red('✗')} plugin ${plugin.module}: ${plugin.error}`);
+  }
+  lines.push('');
+
+  // Configuration status
+  const configPath = getProjectConfigPath();
+  if (configPath) {
+    lines.push(chalk.green('✓') + ` Configuration: ${path.relative(process.cwd(), configPath)}`);
+  } else {
+    lines.push(chalk.yellow('○') + ' No configuration found (run ' + chalk.cyan('sniff init') + ')');
+  }
 
   // Evaluation history (TODO: implement history)
   lines.push(chalk.yellow('○') + ' No evaluation history');
@@ -42,9 +68,9 @@ export async function statusCommand() {
   lines.push('');
   lines.push(chalk.bold('Features:'));
   lines.push('  • CLI commands: ' + chalk.green('Ready'));
-  lines.push('  • Docker sandboxing: ' + (dockerStatus.available ? chalk.green('Ready') : chalk.red('Unavailable')));
+  lines.push(`  • ${backendName} sandboxing: ` + (sandboxStatus.available ? chalk.green('Ready') : chalk.red('Unavailable')));
   lines.push('  • Bootstrap cases: ' + chalk.yellow('Coming soon'));
-  lines.push('  • Agent wrappers: ' + chalk.yellow('Coming soon'));
+  lines.push('  • Agent wrappers: ' + chalk.green('Ready'));
   lines.push('  • Metrics system: ' + chalk.yellow('Coming soon'));
 
   lines.push('');
@@ -25,7 +25,9 @@ import {
   pruneVariantImage,
   collectRequiredEnvVars,
   getHostClaudeVersion,
-  checkDockerAvailable,
+  checkContainerCliAvailable,
+  resolveSandboxBackend,
+  getBackendDisplayName,
 } from '../../sandbox';
 
 /**
@@ -110,9 +112,12 @@ export async function variantRegisterCommand(
 
   // Build container if requested
   if (options.build) {
-    const dockerAvailable = await checkDockerAvailable();
+    const backend = resolveSandboxBackend(projectRoot);
+    const dockerAvailable = await checkContainerCliAvailable(backend);
     if (!dockerAvailable) {
-      console.log(chalk.yellow('\n  Docker not available. Skipping container build.'));
+      console.log(
+        chalk.yellow(`\n  ${getBackendDisplayName(backend)} not available. Skipping container build.`)
+      );
       console.log(chalk.dim('  Run `sniff variant build ' + name + '` later to build the container.\n'));
     } else {
       try {
@@ -434,11 +439,13 @@ export async function variantBuildCommand(
     return;
   }
 
-  // Check Docker availability
-  const dockerAvailable = await checkDockerAvailable();
+  // Check sandbox backend availability
+  const backend = resolveSandboxBackend(projectRoot);
+  const dockerAvailable = await checkContainerCliAvailable(backend);
   if (!dockerAvailable) {
-    console.log(chalk.red('\n  Docker is not available.'));
-    console.log(chalk.dim('  Please install Docker and ensure it is running.\n'));
+    const backendName = getBackendDisplayName(backend);
+    console.log(chalk.red(`\n  ${backendName} is not available.`));
+    console.log(chalk.dim(`  Please install ${backendName} and ensure it is running.\n`));
     return;
   }
 
@@ -720,11 +727,13 @@ export async function variantsBuildCommand(options: {
     return;
   }
 
-  // Check Docker availability
-  const dockerAvailable = await checkDockerAvailable();
+  // Check sandbox backend availability
+  const backend = resolveSandboxBackend(projectRoot);
+  const dockerAvailable = await checkContainerCliAvailable(backend);
   if (!dockerAvailable) {
-    console.log(chalk.red('\n  Docker is not available.'));
-    console.log(chalk.dim('  Please install Docker and ensure it is running.\n'));
+    const backendName = getBackendDisplayName(backend);
+    console.log(chalk.red(`\n  ${backendName} is not available.`));
+    console.log(chalk.dim(`  Please install ${backendName} and ensure it is running.\n`));
     return;
   }
 
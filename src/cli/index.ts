@@ -43,6 +43,11 @@ import {
   closedIssuesRunCommand,
   closedIssuesCompareCommand,
 } from './commands/closed-issues';
+import { loadCommandAgents } from '../agents/command';
+import { loadAgentPlugins } from '../agents/plugins';
+
+// Register project-defined command agents (.sniffbench/agents/*.yaml) so --agent can find them
+loadCommandAgents();
 
 const program = new Command();
 
@@ -60,12 +65,30 @@ program
 program
   .command('run')
   .description('Run evaluation suite on specified agent')
-  .option('--agent <name>', 'Agent to evaluate (claude-code, cursor, aider)', 'claude-code')
+  .option('--agent <name>', 'Agent to evaluate (claude-code, aider, openai, or one from .sniffbench/agents)', 'claude-code')
   .option('--cases <cases>', 'Specific test cases to run (comma-separated)')
-  .option('--output <dir>', 'Output directory for results', 'results')
+  .option('--run <label>', 'Label for the saved run')
+  .option('--output <dir>', 'Also write the raw results as JSON to this directory')
   .option('--timeout <seconds>', 'Timeout per case in seconds', '300')
-  .option('--network', 'Enable network access in sandbox (disabled by default)')
-  .action((opts) => runCommand({ ...opts, timeout: parseInt(opts.timeout, 10) }));
+  .option('--network [mode]', 'Sandbox network: none, api-only or full (bare flag: full; default: none)')
+  .option('-j, --concurrency <n>', 'Number of cases to run in parallel', '1')
+  .option('--trials <n>', 'Number of times to run each case', '1')
+  .option('--record [dir]', 'Record agent transcripts for replay (default: .sniffbench/transcripts)')
+  .option('--trajectory', 'Save full agent trajectories (thinking, tool I/O, per-turn usage) with the run')
+  .option('--model <model>', 'Model for the agent to use (agent-specific)')
+  .option('--models <models>', 'Sweep: run once per model (comma-separated), linked by a sweep ID')
+  .option('--max-budget <usd>', 'Stop a case once it has cost this much (USD)')
+  .option('--max-turns <n>', 'Stop a case after this many agent turns')
+  .option('--max-tokens <n>', 'Stop a case after this many tokens (input + output)')
+  .option('--permission-mode <mode>', 'Permission mode (default, acceptEdits, bypassPermissions, plan)')
+  .option('--allowed-tools <tools>', 'Tools the agent may use (comma-separated)')
+  .option('--disallowed-tools <tools>', 'Tools the agent may not use (comma-separated)')
+  .action((opts) =>
+    runCommand({
+      ...opts,
+      timeout: parseInt(opts.timeout, 10),
+    })
+  );
 
 program
   .command('add')
@@ -137,13 +160,24 @@ program
 program
   .command('interview')
   .description('Run comprehension interview to test agent understanding')
-  .option('--agent <name>', 'Agent to evaluate', 'claude-code')
+  .option('--agent <name>', 'Agent to evaluate locally (default: claude-code; not with a variant)')
   .option('--cases <cases>', 'Specific case IDs to run (comma-separated)')
   .option('--output <dir>', 'Output directory for results', 'results')
   .option('--compare', 'Compare new responses against existing baselines')
   .option('--run <label>', 'Save results to a named run (enables run tracking)')
   .option('--variant <name>', 'Link run to a registered variant (auto-detects if not provided)')
   .option('--use-variant <name>', 'Run in sandboxed variant container')
+  .option('--trials <n>', 'Number of times to ask each question', '1')
+  .option('--record [dir]', 'Record agent transcripts for replay (default: .sniffbench/transcripts)')
+  .option('--trajectory', 'Save full agent trajectories (thinking, tool I/O, per-turn usage) with the run')
+  .option('--model <model>', 'Model for the agent to use (agent-specific)')
+  .option('--models <models>', 'Sweep: run once per model (comma-separated), linked by a sweep ID')
+  .option('--max-budget <usd>', 'Stop a case once it has cost this much (USD)')
+  .option('--max-turns <n>', 'Stop a case after this many agent turns')
+  .option('--max-tokens <n>', 'Stop a case after this many tokens (input + output)')
+  .option('--permission-mode <mode>', 'Permission mode (default, acceptEdits, bypassPermissions, plan)')
+  .option('--allowed-tools <tools>', 'Tools the agent may use (comma-separated)')
+  .option('--disallowed-tools <tools>', 'Tools the agent may not use (comma-separated)')
   .action(interviewCommand);
 
 // Runs command with subcommands
@@ -318,6 +352,8 @@ closedIssuesCmd
   .option('-c, --case <id>', 'Specific case ID to run')
   .option('--variant <name>', 'Use a specific variant container (default: active variant)')
   .option('--local', 'Run with local claude command instead of variant container')
+  .option('--agent <name>', 'Run locally through this agent instead of the claude command')
+  .option('--record [dir]', 'Run locally and record agent transcripts for replay (default: .sniffbench/transcripts)')
   .option('-t, --timeout <seconds>', 'Timeout per case in seconds', '600')
   .option('--stream', 'Stream agent output in real-time')
   .option('--json', 'Output results as JSON')
@@ -335,4 +371,5 @@ closedIssuesCmd
 // Default: list closed-issue cases
 closedIssuesCmd.action(() => closedIssuesListCommand({}));
 
-program.parse();
+// Register agents from plugin modules listed in .sniffbench/config.yaml, then run the command
+loadAgentPlugins().then(() => program.parse());
@@ -17,7 +17,10 @@ import {
   parseDiff,
 } from './comparator';
 import { Variant } from '../variants/types';
+import { AgentWrapper } from '../agents/types';
 import { runInVariant, RunOptions, VariantRunResult } from '../sandbox/variant-runner';
+import { ChangeTracker, trackChanges } from '../sandbox/changes';
+import { ChangeSet } from '../sandbox/types';
 import { collectRequiredEnvVars } from '../sandbox/variant-container';
 import { checkMissingEnvVars, getEnvVars, getEnvFilePath } from '../utils/env';
 
@@ -32,6 +35,9 @@ export interface RunCaseOptions {
   /** Optional variant to use (runs in container) */
   variant?: Variant;
 
+  /** Agent to run locally instead of the `claude` command (ignored when a variant is set) */
+  agent?: AgentWrapper;
+
   /** Project root for variant runs */
   projectRoot?: string;
 
@@ -67,6 +73,9 @@ export interface RunCaseResult {
   /** The diff produced by the agent */
   agentDiff: string;
 
+  /** Structured change set (added, modified and deleted files) */
+  changes?: ChangeSet;
+
   /** Comparison result against reference solution */
   comparison: ComparisonResult;
 
@@ -104,6 +113,7 @@ export async function runClosedIssueCase(options: RunCaseOptions): Promise<RunCa
   const {
     caseData,
     variant,
+    agent,
     projectRoot = process.cwd(),
     timeoutMs = DEFAULT_TIMEOUT_MS,
     stream,
@@ -116,6 +126,7 @@ export async function runClosedIssueCase(options: RunCaseOptions): Promise<RunCa
 
   // Create temporary working directory
   const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-closed-issue-'));
+  let tracker: ChangeTracker | undefined;
 
   try {
     onStatus?.('Preparing working directory...');
@@ -128,6 +139,9 @@ export async function runClosedIssueCase(options: RunCaseOptions): Promise<RunCa
       closedIssue.commitBefore
     );
 
+    // Snapshot the checkout so the agent's changes are captured even if it commits them
+    tracker = trackChanges(tempDir);
+
     onStatus?.('Running agent...');
 
     // Run the agent
@@ -163,6 +177,31 @@ export async function runClosedIssueCase(options: RunCaseOptions): Promise<RunCa
       if (result.timedOut) {
         return createErrorResult(caseData.id, 'Agent timed out', startTime);
       }
+    } else if (agent) {
+      // Run through an agent wrapper (e.g. a recorded or replayed agent)
+      const result = await agent.run(caseData.prompt, {
+        cwd: tempDir,
+        timeoutMs,
+        permissionMode: 'bypassPermissions',
+        caseId: caseData.id,
+        onEvent: (event) => {
+          if (stream && event.type === 'text_delta') {
+            onOutput?.('stdout', event.text);
+          }
+        },
+      });
+
+      agentOutput = result.answer;
+      tokens = result.tokens;
+      costUsd = result.costUsd;
+
+      if (!result.success) {
+        return createErrorResult(
+          caseData.id,
+          result.timedOut ? 'Agent timed out' : result.error || 'Agent failed',
+          startTime
+        );
+      }
     } else {
       // Run with local claude command
       const result = await runAgentLocally({
@@ -183,7 +222,9 @@ export async function runClosedIssueCase(options: RunCaseOptions): Promise<RunCa
     onStatus?.('Capturing changes...');
 
     // Capture the agent's changes
-    const { diff: agentDiff, filesChanged } = captureAgentChanges(tempDir);
+    const changes = tracker.capture();
+    const agentDiff = changes.diff;
+    const filesChanged = changes.files.map((f) => f.path);
 
     onStatus?.('Comparing to reference solution...');
 
@@ -196,6 +237,7 @@ export async function runClosedIssueCase(options: RunCaseOptions): Promise<RunCa
       durationMs: Date.now() - startTime,
       filesChanged,
       agentDiff,
+      changes,
       comparison,
       agentOutput,
       tokens,
@@ -204,6 +246,8 @@ export async function runClosedIssueCase(options: RunCaseOptions): Promise<RunCa
   } catch (error) {
     return createErrorResult(caseData.id, (error as Error).message, startTime);
   } finally {
+    tracker?.dispose();
+
     // Cleanup temp directory
     try {
       fs.rmSync(tempDir, { recursive: true, force: true });
@@ -325,6 +369,8 @@ async function runAgentWithVariant(options: {
 
   const runOptions: RunOptions = {
     projectRoot: options.projectRoot,
+    envSourceDir: options.envSourceDir, // Project config (sandbox backend, network) lives here
+    isolateWorkspace: false, // Already a throwaway clone; the changes are evaluated in place
     env: resolvedEnv,
     skipEnvCheck: true, // We've already loaded env vars
     timeoutMs: options.timeoutMs,
@@ -408,36 +454,6 @@ async function runAgentLocally(options: {
   });
 }
 
-/**
- * Capture the agent's changes as a diff
- */
-function captureAgentChanges(workdir: string): { diff: string; filesChanged: string[] } {
-  try {
-    // Stage all changes to capture them in the diff
-    execSync('git add -A', { cwd: workdir, encoding: 'utf-8' });
-
-    // Get the diff
-    const diff = execSync('git diff --cached', {
-      cwd: workdir,
-      encoding: 'utf-8',
-      maxBuffer: 10 * 1024 * 1024, // 10MB
-    });
-
-    // Get list of changed files
-    const filesOutput = execSync('git diff --cached --name-only', {
-      cwd: workdir,
-      encoding: 'utf-8',
-    });
-
-    const filesChanged = filesOutput.trim().split('\n').filter(Boolean);
-
-    return { diff, filesChanged };
-  } catch (error) {
-    // If git fails, try to detect changes manually
-    return { diff: '', filesChanged: [] };
-  }
-}
-
 /**
  * Compare agent's solution to the reference solution
  */
@@ -0,0 +1,78 @@
+/**
+ * Agent Behavior Evaluator Tests
+ *
+ * Tests for scoring agent trace metrics against bounds.
+ */
+
+import { evaluateAgentBehavior, getBehaviorMetric } from '../behavior';
+import { EvaluationContext } from '../types';
+import { AgentTrace, Case } from '../../cases/types';
+import { Sandbox } from '../../sandbox/types';
+
+const trace: AgentTrace = {
+  totalTimeMs: 45000,
+  totalTokens: 200000,
+  iterations: 12,
+  toolsUsed: ['Read', 'Edit'],
+  toolCallCount: 30,
+  selfCorrections: 2,
+};
+
+function createContext(agentTrace?: AgentTrace): EvaluationContext {
+  return {
+    caseData: { id: 'test-case' } as Case,
+    sandbox: {} as Sandbox,
+    workspaceDir: '/tmp/unused',
+    agentTrace,
+  };
+}
+
+describe('getBehaviorMetric', () => {
+  it('should read each metric from the trace', () => {
+    expect(getBehaviorMetric(trace, 'time')).toBe(45);
+    expect(getBehaviorMetric(trace, 'tokens')).toBe(200000);
+    expect(getBehaviorMetric(trace, 'iterations')).toBe(12);
+    expect(getBehaviorMetric(trace, 'tool_calls')).toBe(30);
+    expect(getBehaviorMetric(trace, 'self_corrections')).toBe(2);
+  });
+});
+
+describe('evaluateAgentBehavior', () => {
+  it('should pass when the metric is within bounds', () => {
+    const result = evaluateAgentBehavior(
+      { type: 'agent_behavior', metric: 'iterations', maxValue: 20 },
+      createContext(trace)
+    );
+    expect(result.passed).toBe(true);
+    expect(result.score).toBe(1);
+    expect(result.details?.value).toBe(12);
+  });
+
+  it('should penalize token overuse with partial credit', () => {
+    const result = evaluateAgentBehavior(
+      { type: 'agent_behavior', metric: 'tokens', maxValue: 20000, partialCredit: true },
+      createContext(trace)
+    );
+    expect(result.passed).toBe(false);
+    expect(result.score).toBe(0.1);
+    expect(result.evidence).toContain('out of bounds');
+  });
+
+  it('should enforce minimum values', () => {
+    const result = evaluateAgentBehavior(
+      { type: 'agent_behavior', metric: 'tool_calls', minValue: 50 },
+      createContext(trace)
+    );
+    expect(result.passed).toBe(false);
+    expect(result.score).toBe(0);
+  });
+
+  it('should fail when no trace is available', () => {
+    const result = evaluateAgentBehavior(
+      { type: 'agent_behavior', metric: 'time', maxValue: 60 },
+      createContext()
+    );
+    expect(result.passed).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+});
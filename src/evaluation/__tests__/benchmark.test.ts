@@ -0,0 +1,132 @@
+/**
+ * Benchmark Evaluator Tests
+ *
+ * Tests for metric extraction, JSONPath lookups and bound scoring.
+ */
+
+import { evaluateBenchmark, extractMetricValue } from '../benchmark';
+import { evaluateJsonPath } from '../jsonpath';
+import { scoreNumericValue } from '../scoring';
+import { EvaluationContext } from '../types';
+import { BenchmarkEvaluator, Case } from '../../cases/types';
+import { ExecutionResult, Sandbox } from '../../sandbox/types';
+
+function createContext(output: Partial<ExecutionResult>): EvaluationContext {
+  const sandbox = {
+    exec: jest.fn().mockResolvedValue({
+      exitCode: 0,
+      stdout: '',
+      stderr: '',
+      durationMs: 10,
+      timedOut: false,
+      ...output,
+    }),
+  } as unknown as Sandbox;
+
+  return {
+    caseData: { id: 'test-case' } as Case,
+    sandbox,
+    workspaceDir: '/tmp/unused',
+  };
+}
+
+describe('evaluateJsonPath', () => {
+  const data = { results: { tests: [{ ms: 12 }, { ms: 34 }] }, 'req/s': 900 };
+
+  it('should follow dotted and indexed paths', () => {
+    expect(evaluateJsonPath(data, '$.results.tests[1].ms')).toBe(34);
+    expect(evaluateJsonPath(data, '$.results.tests[-1].ms')).toBe(34);
+  });
+
+  it('should support bracketed property names', () => {
+    expect(evaluateJsonPath(data, "$['req/s']")).toBe(900);
+  });
+
+  it('should return undefined for missing segments', () => {
+    expect(evaluateJsonPath(data, '$.results.missing.ms')).toBeUndefined();
+  });
+
+  it('should throw on malformed expressions', () => {
+    expect(() => evaluateJsonPath(data, '$.results..tests')).toThrow('Invalid JSONPath');
+  });
+});
+
+describe('scoreNumericValue', () => {
+  it('should score 1 within bounds and 0 outside without partial credit', () => {
+    expect(scoreNumericValue(50, { max: 100 })).toEqual({ score: 1, withinBounds: true });
+    expect(scoreNumericValue(150, { max: 100 })).toEqual({ score: 0, withinBounds: false });
+  });
+
+  it('should give ratio credit outside bounds', () => {
+    expect(scoreNumericValue(200, { max: 100 }, true).score).toBe(0.5);
+    expect(scoreNumericValue(25, { min: 100 }, true).score).toBe(0.25);
+  });
+
+  it('should scale towards the target within bounds', () => {
+    expect(scoreNumericValue(50, { max: 100, target: 50 }, true).score).toBe(1);
+    expect(scoreNumericValue(75, { max: 100, target: 50 }, true).score).toBe(0.5);
+  });
+});
+
+describe('extractMetricValue', () => {
+  it('should extract via JSONPath from trailing JSON line', () => {
+    const stdout = 'warming up...\n{"latency":{"p95":42.5}}';
+    expect(extractMetricValue({ valuePath: '$.latency.p95' }, stdout)).toBe(42.5);
+  });
+
+  it('should extract the first capture group via regex', () => {
+    const stdout = 'Requests/sec: 1234.5\nDone';
+    expect(extractMetricValue({ valuePattern: 'Requests/sec:\\s*([\\d.]+)' }, stdout)).toBe(1234.5);
+  });
+
+  it('should fall back to plain numeric stdout', () => {
+    expect(extractMetricValue({}, '  17\n')).toBe(17);
+    expect(extractMetricValue({}, 'not a number')).toBeUndefined();
+  });
+});
+
+describe('evaluateBenchmark', () => {
+  const evaluator: BenchmarkEvaluator = {
+    type: 'benchmark',
+    run: 'node bench.js',
+    metric: 'duration_ms',
+    valuePath: '$.duration',
+    maxValue: 100,
+  };
+
+  it('should pass and record the metric when within bounds', async () => {
+    const context = createContext({ stdout: '{"duration": 80}' });
+
+    const result = await evaluateBenchmark(evaluator, context);
+    expect(result.passed).toBe(true);
+    expect(result.score).toBe(1);
+    expect(result.details?.value).toBe(80);
+    expect(result.details?.metric).toBe('duration_ms');
+    expect(context.sandbox.exec).toHaveBeenCalledWith('node bench.js', expect.any(Object));
+  });
+
+  it('should fail with partial credit when out of bounds', async () => {
+    const context = createContext({ stdout: '{"duration": 125}' });
+
+    const result = await evaluateBenchmark({ ...evaluator, partialCredit: true }, context);
+    expect(result.passed).toBe(false);
+    expect(result.score).toBe(0.8);
+    expect(result.details?.value).toBe(125);
+  });
+
+  it('should fail when the command fails', async () => {
+    const context = createContext({ exitCode: 1, stderr: 'boom' });
+
+    const result = await evaluateBenchmark(evaluator, context);
+    expect(result.passed).toBe(false);
+    expect(result.error).toContain('exited with code 1');
+  });
+
+  it('should fail when no value can be extracted', async () => {
+    const context = createContext({ stdout: '{"other": 1}' });
+
+    const result = await evaluateBenchmark(evaluator, context);
+    expect(result.passed).toBe(false);
+    expect(result.details?.value).toBeNull();
+  });
+});
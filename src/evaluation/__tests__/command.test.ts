@@ -0,0 +1,260 @@
+/**
+ * Command Evaluator Tests
+ *
+ * Tests for JUnit, TAP and JSON test-output parsing and scoring.
+ */
+
+import { evaluateCommand } from '../command';
+import { parseJUnit, parseJsonReport, parseTap } from '../parsers';
+import { EvaluationContext } from '../types';
+import { Case, CommandEvaluator } from '../../cases/types';
+import { ExecutionResult, Sandbox } from '../../sandbox/types';
+
+const JUNIT_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="math" tests="4">
+    <testcase classname="math" name="adds" time="0.01"/>
+    <testcase classname="math" name="subtracts &amp; rounds" time="0.02"></testcase>
+    <testcase classname="math" name="divides">
+      <failure message="expected 2 but got Infinity">AssertionError</failure>
+    </testcase>
+    <testcase classname="math" name="multiplies"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+function execResult(overrides: Partial<ExecutionResult>): ExecutionResult {
+  return {
+    exitCode: 0,
+    stdout: '',
+    stderr: '',
+    durationMs: 5,
+    timedOut: false,
+    killed: false,
+    ...overrides,
+  };
+}
+
+function createContext(...results: Array<Partial<ExecutionResult>>): EvaluationContext {
+  const exec = jest.fn();
+  for (const result of results) {
+    exec.mockResolvedValueOnce(execResult(result));
+  }
+
+  return {
+    caseData: { id: 'test-case' } as Case,
+    sandbox: { exec } as unknown as Sandbox,
+    workspaceDir: '/tmp/unused',
+  };
+}
+
+describe('parseJUnit', () => {
+  it('should classify passed, failed and skipped test cases', () => {
+    const results = parseJUnit(JUNIT_XML);
+    expect(results.passed).toBe(2);
+    expect(results.failed).toBe(1);
+    expect(results.skipped).toBe(1);
+    expect(results.tests[1].name).toBe('math subtracts & rounds');
+    expect(results.tests[2].message).toBe('expected 2 but got Infinity');
+  });
+
+  it('should decode failure messages once', () => {
+    const results = parseJUnit(
+      [
+        '<testcase name="attr"><failure message="a &amp;lt; b"/></testcase>',
+        '<testcase name="text"><error>x &amp;gt; y &lt;= z</error></testcase>',
+      ].join('\n')
+    );
+    expect(results.tests.map((t) => t.message)).toEqual(['a &lt; b', 'x &gt; y <= z']);
+  });
+});
+
+describe('parseTap', () => {
+  it('should parse results and directives', () => {
+    const results = parseTap(
+      [
+        'TAP version 13',
+        '1..4',
+        'ok 1 - adds',
+        'not ok 2 - divides',
+        'ok 3 - io # SKIP no disk',
+        'not ok 4 - later # TODO',
+      ].join('\n')
+    );
+    expect(results.passed).toBe(1);
+    expect(results.failed).toBe(1);
+    expect(results.skipped).toBe(2);
+    expect(results.tests[1]).toEqual({ name: 'divides', status: 'failed' });
+  });
+
+  it('should count unreported planned tests as failed', () => {
+    const results = parseTap('1..3\nok 1 - first\n');
+    expect(results.passed).toBe(1);
+    expect(results.failed).toBe(2);
+  });
+
+  it('should ignore indented subtests', () => {
+    const results = parseTap('    ok 1 - inner\n    1..1\nok 1 - suite\n1..1\n');
+    expect(results.tests).toEqual([{ name: 'suite', status: 'passed' }]);
+  });
+});
+
+describe('parseJsonReport', () => {
+  it('should extract a score with scorePath', () => {
+    expect(parseJsonReport('{"coverage": {"total": 85}}', '$.coverage.total').score).toBe(0.85);
+    expect(parseJsonReport('{"ratio": 0.5}', '$.ratio').score).toBe(0.5);
+    expect(parseJsonReport('{"ratio": "1"}', '$.ratio').score).toBe(1);
+  });
+
+  it('should reject missing, non-numeric and out-of-range scores', () => {
+    expect(() => parseJsonReport('{"total": null}', '$.total')).toThrow(
+      'No numeric value at $.total'
+    );
+    expect(() => parseJsonReport('{}', '$.total')).toThrow('No numeric value');
+    expect(() => parseJsonReport('{"total": true}', '$.total')).toThrow('No numeric value');
+    expect(() => parseJsonReport('{"total": 250}', '$.total')).toThrow('got 250');
+    expect(() => parseJsonReport('{"total": -0.5}', '$.total')).toThrow('got -0.5');
+  });
+
+  it('should read per-test results from jest output', () => {
+    const report = parseJsonReport(
+      JSON.stringify({
+        testResults: [
+          {
+            assertionResults: [
+              { fullName: 'a works', status: 'passed', failureMessages: [] },
+              { fullName: 'b works', status: 'failed', failureMessages: ['boom'] },
+            ],
+          },
+        ],
+      })
+    );
+    expect(report.results?.passed).toBe(1);
+    expect(report.results?.tests[1]).toEqual({
+      name: 'b works',
+      status: 'failed',
+      message: 'boom',
+    });
+  });
+
+  it('should throw on non-JSON output', () => {
+    expect(() => parseJsonReport('not json')).toThrow('not valid JSON');
+  });
+});
+
+describe('evaluateCommand', () => {
+  it('should grade by exit code by default', async () => {
+    const evaluator: CommandEvaluator = { type: 'command', run: 'npm test' };
+
+    const result = await evaluateCommand(evaluator, createContext({ exitCode: 1 }));
+    expect(result.passed).toBe(false);
+    expect(result.score).toBe(0);
+  });
+
+  it('should award partial credit from a JUnit report in the sandbox', async () => {
+    const evaluator: CommandEvaluator = {
+      type: 'command',
+      run: 'pytest --junitxml=report.xml',
+      parse: 'junit',
+      reportPath: 'report.xml',
+      partialCredit: true,
+    };
+    const context = createContext({ exitCode: 1 }, { stdout: JUNIT_XML });
+
+    const result = await evaluateCommand(evaluator, context);
+    expect(context.sandbox.exec).toHaveBeenLastCalledWith("cat 'report.xml'");
+    expect(result.passed).toBe(false);
+    expect(result.score).toBeCloseTo(2 / 3);
+    expect(result.details?.tests).toMatchObject({ passed: 2, failed: 1, skipped: 1 });
+    expect(result.evidence).toContain('✗ math divides');
+  });
+
+  it('should pass on the threshold alone when one is set', async () => {
+    const evaluator: CommandEvaluator = {
+      type: 'command',
+      run: 'pytest --junitxml=report.xml',
+      parse: 'junit',
+      reportPath: 'report.xml',
+      passThreshold: 0.6,
+    };
+
+    const result = await evaluateCommand(
+      evaluator,
+      createContext({ exitCode: 1 }, { stdout: JUNIT_XML })
+    );
+    expect(result.passed).toBe(true);
+    expect(result.score).toBe(1);
+
+    const stricter = await evaluateCommand(
+      { ...evaluator, passThreshold: 0.9 },
+      createContext({ exitCode: 1 }, { stdout: JUNIT_XML })
+    );
+    expect(stricter.passed).toBe(false);
+  });
+
+  it('should pass when every TAP test passes', async () => {
+    const evaluator: CommandEvaluator = { type: 'command', run: 'node --test', parse: 'tap' };
+
+    const result = await evaluateCommand(
+      evaluator,
+      createContext({ stdout: '1..2\nok 1 - a\nok 2 - b\n' })
+    );
+    expect(result.passed).toBe(true);
+    expect(result.score).toBe(1);
+  });
+
+  it('should read a TAP report file when reportPath is set', async () => {
+    const evaluator: CommandEvaluator = {
+      type: 'command',
+      run: 'node --test --test-reporter=tap --test-reporter-destination=report.tap',
+      parse: 'tap',
+      reportPath: 'report.tap',
+      partialCredit: true,
+    };
+    const context = createContext(
+      { exitCode: 1, stdout: 'progress output' },
+      { stdout: '1..2\nok 1 - a\nnot ok 2 - b\n' }
+    );
+
+    const result = await evaluateCommand(evaluator, context);
+    expect(context.sandbox.exec).toHaveBeenLastCalledWith("cat 'report.tap'");
+    expect(result.passed).toBe(false);
+    expect(result.score).toBe(0.5);
+  });
+
+  it('should fail when the report cannot be parsed', async () => {
+    const evaluator: CommandEvaluator = {
+      type: 'command',
+      run: 'coverage',
+      parse: 'json',
+      scorePath: '$.total',
+    };
+
+    const result = await evaluateCommand(evaluator, createContext({ stdout: 'oops' }));
+    expect(result.passed).toBe(false);
+    expect(result.error).toContain('not valid JSON');
+  });
+
+  it('should honor failIfMatch and failIfNoMatch', async () => {
+    const forbidden: CommandEvaluator = {
+      type: 'command',
+      run: 'npm test',
+      failIfMatch: 'DeprecationWarning',
+    };
+    const required: CommandEvaluator = {
+      type: 'command',
+      run: 'npm test',
+      failIfNoMatch: 'All tests passed',
+    };
+
+    const forbiddenResult = await evaluateCommand(
+      forbidden,
+      createContext({ stderr: '(node) DeprecationWarning: Buffer()' })
+    );
+    const requiredResult = await evaluateCommand(required, createContext({ stdout: 'done' }));
+
+    expect(forbiddenResult.passed).toBe(false);
+    expect(forbiddenResult.details?.failIfMatch).toBe('DeprecationWarning');
+    expect(requiredResult.passed).toBe(false);
+    expect(requiredResult.score).toBe(0);
+  });
+});
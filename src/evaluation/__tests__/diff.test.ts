@@ -0,0 +1,149 @@
+/**
+ * Diff Evaluator Tests
+ *
+ * Tests for unified diff output, normalization and expected-file resolution.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { evaluateDiff } from '../diff';
+import { EvaluationContext } from '../types';
+import { Case, DiffEvaluator } from '../../cases/types';
+import { Sandbox } from '../../sandbox/types';
+import { createUnifiedDiff, lineSimilarity } from '../../utils/diff';
+
+function createContext(stdout: string, sourcePath?: string): EvaluationContext {
+  const sandbox = {
+    exec: jest.fn().mockResolvedValue({
+      exitCode: 0,
+      stdout,
+      stderr: '',
+      durationMs: 10,
+      timedOut: false,
+    }),
+  } as unknown as Sandbox;
+
+  return {
+    caseData: { id: 'test-case', _sourcePath: sourcePath } as Case,
+    sandbox,
+    workspaceDir: '/tmp/unused',
+  };
+}
+
+describe('createUnifiedDiff', () => {
+  it('should return an empty string for identical texts', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb')).toBe('');
+  });
+
+  it('should produce hunks with headers and context', () => {
+    const diff = createUnifiedDiff('a\nb\nc\n', 'a\nB\nc\n');
+    expect(diff).toBe(
+      ['--- expected', '+++ actual', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c'].join('\n')
+    );
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 1';
+    newLines[18] = 'changed 18';
+
+    const diff = createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'));
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+  });
+});
+
+describe('lineSimilarity', () => {
+  it('should score by shared lines', () => {
+    expect(lineSimilarity('a\nb\nc\nd', 'a\nb\nc\nd')).toBe(1);
+    expect(lineSimilarity('a\nb\nc\nd', 'a\nb\nx\ny')).toBe(0.5);
+    expect(lineSimilarity('a', 'b')).toBe(0);
+  });
+});
+
+describe('evaluateDiff', () => {
+  it('should pass when output matches inline expected', async () => {
+    const evaluator: DiffEvaluator = {
+      type: 'diff',
+      run: './cli --help',
+      expected: 'usage: cli\n',
+    };
+
+    const result = await evaluateDiff(evaluator, createContext('usage: cli\n'));
+    expect(result.passed).toBe(true);
+    expect(result.score).toBe(1);
+  });
+
+  it('should report a unified diff on mismatch', async () => {
+    const evaluator: DiffEvaluator = { type: 'diff', run: './cli', expected: 'one\ntwo\n' };
+
+    const result = await evaluateDiff(evaluator, createContext('one\n2\n'));
+    expect(result.passed).toBe(false);
+    expect(result.score).toBe(0);
+    expect(result.evidence).toContain('-two');
+    expect(result.evidence).toContain('+2');
+  });
+
+  it('should award line similarity as partial credit', async () => {
+    const evaluator: DiffEvaluator = {
+      type: 'diff',
+      run: './cli',
+      expected: 'a\nb\nc\nd\n',
+      partialCredit: true,
+    };
+
+    const result = await evaluateDiff(evaluator, createContext('a\nb\nc\nX\n'));
+    expect(result.score).toBe(0.75);
+    expect(result.passed).toBe(false);
+  });
+
+  it('should honor ignoreWhitespace and ignoreCase', async () => {
+    const evaluator: DiffEvaluator = {
+      type: 'diff',
+      run: './cli',
+      expected: 'Total:  3 items\n',
+      ignoreWhitespace: true,
+      ignoreCase: true,
+    };
+
+    const result = await evaluateDiff(evaluator, createContext('\n  total: 3   ITEMS  \n\n'));
+    expect(result.passed).toBe(true);
+  });
+
+  describe('expectedFile', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-diff-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should resolve relative to the case source file', async () => {
+      fs.mkdirSync(path.join(tempDir, 'golden'));
+      fs.writeFileSync(path.join(tempDir, 'golden', 'out.txt'), 'hello\n');
+      const sourcePath = path.join(tempDir, 'case.yaml');
+      const evaluator: DiffEvaluator = {
+        type: 'diff',
+        run: './cli',
+        expectedFile: 'golden/out.txt',
+      };
+
+      const result = await evaluateDiff(evaluator, createContext('hello\n', sourcePath));
+      expect(result.passed).toBe(true);
+    });
+
+    it('should fail without running the command when the file is missing', async () => {
+      const context = createContext('hello\n', path.join(tempDir, 'case.yaml'));
+      const evaluator: DiffEvaluator = { type: 'diff', run: './cli', expectedFile: 'missing.txt' };
+
+      const result = await evaluateDiff(evaluator, context);
+      expect(result.passed).toBe(false);
+      expect(result.error).toContain('not found');
+      expect(context.sandbox.exec).not.toHaveBeenCalled();
+    });
+  });
+});
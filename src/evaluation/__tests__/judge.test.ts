@@ -0,0 +1,228 @@
+/**
+ * LLM Judge Evaluator Tests
+ *
+ * Tests for judge prompt rendering, response parsing and backends,
+ * using a deterministic fake and a local stub model server.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { agentChangesFromChangeSet, evaluateLLMJudge } from '../judge';
+import { EvaluationContext } from '../types';
+import { Case, LLMJudgeEvaluator } from '../../cases/types';
+import { trackChanges } from '../../sandbox/changes';
+import { Sandbox } from '../../sandbox/types';
+import {
+  buildJudgePrompt,
+  JudgeBackend,
+  JudgeRequest,
+  OpenAICompatibleJudgeBackend,
+  parseJudgeResponse,
+} from '../../judge';
+
+/**
+ * Deterministic judge that records requests and returns a fixed response
+ */
+function createFakeJudge(text: string): JudgeBackend & { requests: JudgeRequest[] } {
+  const requests: JudgeRequest[] = [];
+  return {
+    name: 'fake',
+    requests,
+    async complete(request) {
+      requests.push(request);
+      return { text, model: 'fake-model' };
+    },
+  };
+}
+
+describe('parseJudgeResponse', () => {
+  it('should parse the JSON format', () => {
+    expect(parseJudgeResponse('{"score": 8, "rationale": "Clean code."}')).toEqual({
+      score: 0.8,
+      rationale: 'Clean code.',
+    });
+  });
+
+  it('should parse JSON inside a code fence', () => {
+    const verdict = parseJudgeResponse('```json\n{"score": 6, "rationale": "ok"}\n```');
+    expect(verdict.score).toBe(0.6);
+  });
+
+  it('should fall back to score/rationale text', () => {
+    const verdict = parseJudgeResponse('Score: 45/100\nRationale: Too many globals.');
+    expect(verdict.score).toBe(0.45);
+    expect(verdict.rationale).toBe('Too many globals.');
+  });
+
+  it('should throw when no score is present', () => {
+    expect(() => parseJudgeResponse('Looks fine to me')).toThrow('Could not parse');
+  });
+});
+
+describe('buildJudgePrompt', () => {
+  it('should include task, criteria, diff and files', () => {
+    const prompt = buildJudgePrompt({
+      evaluate: 'custom',
+      customPrompt: 'Are errors handled?',
+      task: 'Add error handling',
+      files: [{ path: 'src/app.ts', content: 'try {} catch {}' }],
+      diff: '+try {} catch {}',
+    });
+
+    expect(prompt).toContain('Add error handling');
+    expect(prompt).toContain('Are errors handled?');
+    expect(prompt).toContain('### src/app.ts');
+    expect(prompt).toContain('+try {} catch {}');
+    expect(prompt).toContain('"score"');
+  });
+});
+
+describe('evaluateLLMJudge', () => {
+  let tempDir: string;
+  let context: EvaluationContext;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-judge-test-'));
+    fs.writeFileSync(path.join(tempDir, 'app.js'), 'function add(a, b) {\n  return a + b;\n}\n');
+    fs.writeFileSync(path.join(tempDir, 'README.md'), '# App\n');
+
+    const caseData = {
+      id: 'test-case',
+      prompt: 'Implement add()',
+      files: [{ path: 'app.js', content: 'function add(a, b) {}\n' }],
+    } as Case;
+
+    context = { caseData, sandbox: {} as Sandbox, workspaceDir: tempDir };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should collect modified and added files with a diff', () => {
+    fs.rmSync(path.join(tempDir, 'README.md'));
+    fs.writeFileSync(path.join(tempDir, 'app.js'), 'function add(a, b) {}\n');
+    const tracker = trackChanges(tempDir);
+    try {
+      fs.writeFileSync(path.join(tempDir, 'app.js'), 'function add(a, b) {\n  return a + b;\n}\n');
+      fs.writeFileSync(path.join(tempDir, 'README.md'), '# App\n');
+
+      const changes = agentChangesFromChangeSet(tracker.capture());
+      expect(changes.changedFiles).toEqual(['README.md', 'app.js']);
+      expect(changes.diff).toContain('+++ b/app.js');
+      expect(changes.diff).toContain('+  return a + b;');
+      expect(changes.diff).toContain('--- /dev/null');
+    } finally {
+      tracker.dispose();
+    }
+  });
+
+  it('should grade the change set captured by the runner', async () => {
+    const changes = {
+      files: [
+        { path: 'app.js', status: 'modified' as const, binary: false, additions: 1, deletions: 0 },
+        { path: 'old.js', status: 'deleted' as const, binary: false, additions: 0, deletions: 3 },
+        { path: 'logo.png', status: 'added' as const, binary: true, additions: 0, deletions: 0 },
+        {
+          path: 'package-lock.json',
+          status: 'added' as const,
+          binary: false,
+          additions: 9,
+          deletions: 0,
+        },
+      ],
+      diff: '--- a/app.js\n+++ b/app.js\n+  return a + b;\n',
+    };
+    expect(agentChangesFromChangeSet(changes).changedFiles).toEqual(['app.js']);
+
+    const judge = createFakeJudge('{"score": 8, "rationale": "Fine."}');
+    await evaluateLLMJudge(
+      { type: 'llm_judge', evaluate: 'code_quality' },
+      { ...context, changes, judge }
+    );
+
+    expect(judge.requests[0].prompt).toContain('### app.js');
+    expect(judge.requests[0].prompt).not.toContain('### README.md');
+    expect(judge.requests[0].prompt).toContain('+++ b/app.js');
+  });
+
+  it('should store the rationale as evidence', async () => {
+    const judge = createFakeJudge('{"score": 9, "rationale": "Concise and correct."}');
+    const evaluator: LLMJudgeEvaluator = {
+      type: 'llm_judge',
+      evaluate: 'code_quality',
+      files: '**/*.js',
+      partialCredit: true,
+    };
+
+    const result = await evaluateLLMJudge(evaluator, { ...context, judge });
+    expect(result.passed).toBe(true);
+    expect(result.score).toBe(0.9);
+    expect(result.evidence).toBe('Concise and correct.');
+    expect(judge.requests[0].prompt).toContain('### app.js');
+    expect(judge.requests[0].prompt).not.toContain('### README.md');
+  });
+
+  it('should fail below the pass threshold', async () => {
+    const judge = createFakeJudge('{"score": 4, "rationale": "No docs."}');
+    const evaluator: LLMJudgeEvaluator = { type: 'llm_judge', evaluate: 'documentation' };
+
+    const result = await evaluateLLMJudge(evaluator, { ...context, judge });
+    expect(result.passed).toBe(false);
+    expect(result.score).toBe(0);
+  });
+
+  it('should report unparseable responses as errors', async () => {
+    const judge = createFakeJudge('I cannot grade this.');
+    const evaluator: LLMJudgeEvaluator = { type: 'llm_judge', evaluate: 'readability' };
+
+    const result = await evaluateLLMJudge(evaluator, { ...context, judge });
+    expect(result.passed).toBe(false);
+    expect(result.error).toContain('Could not parse');
+  });
+
+  it('should grade through a local OpenAI-compatible stub server', async () => {
+    let receivedBody: { model: string; messages: Array<{ role: string; content: string }> } | null =
+      null;
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        receivedBody = JSON.parse(body);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(
+          JSON.stringify({
+            model: 'stub-model',
+            choices: [{ message: { content: '{"score": 7, "rationale": "Readable."}' } }],
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const judge = new OpenAICompatibleJudgeBackend({
+        baseUrl: `http://127.0.0.1:${port}/v1`,
+        model: 'stub-model',
+      });
+      const evaluator: LLMJudgeEvaluator = {
+        type: 'llm_judge',
+        evaluate: 'readability',
+        partialCredit: true,
+      };
+
+      const result = await evaluateLLMJudge(evaluator, { ...context, judge });
+      expect(result.passed).toBe(true);
+      expect(result.score).toBe(0.7);
+      expect(result.details?.model).toBe('stub-model');
+      expect(receivedBody!.model).toBe('stub-model');
+      expect(receivedBody!.messages[1].content).toContain('Implement add()');
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Pattern Evaluator Tests
+ *
+ * Tests for glob expansion and regex checks over workspace files.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { evaluatePattern } from '../pattern';
+import { EvaluationContext } from '../types';
+import { Case, PatternEvaluator } from '../../cases/types';
+import { Sandbox } from '../../sandbox/types';
+import { expandGlob, matchesGlob } from '../../utils/glob';
+
+function writeFiles(root: string, files: Record<string, string>): void {
+  for (const [file, content] of Object.entries(files)) {
+    const filePath = path.join(root, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+}
+
+describe('matchesGlob', () => {
+  it('should match brace alternatives', () => {
+    expect(matchesGlob('src/app.ts', '**/*.{js,ts}')).toBe(true);
+    expect(matchesGlob('src/app.py', '**/*.{js,ts}')).toBe(false);
+  });
+
+  it('should let ** match zero directories', () => {
+    expect(matchesGlob('index.js', '**/*.js')).toBe(true);
+    expect(matchesGlob('a/b/c/index.js', '**/*.js')).toBe(true);
+  });
+
+  it('should not let * cross directory boundaries', () => {
+    expect(matchesGlob('index.js', '*.js')).toBe(true);
+    expect(matchesGlob('src/index.js', '*.js')).toBe(false);
+  });
+
+  it('should support ? and character classes', () => {
+    expect(matchesGlob('file1.txt', 'file?.txt')).toBe(true);
+    expect(matchesGlob('file1.txt', 'file[0-9].txt')).toBe(true);
+    expect(matchesGlob('filea.txt', 'file[!0-9].txt')).toBe(true);
+  });
+});
+
+describe('evaluatePattern', () => {
+  let tempDir: string;
+  let context: EvaluationContext;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-pattern-test-'));
+    context = {
+      caseData: { id: 'test-case' } as Case,
+      sandbox: {} as Sandbox,
+      workspaceDir: tempDir,
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should skip node_modules when expanding globs', () => {
+    writeFiles(tempDir, {
+      'index.js': 'ok',
+      'node_modules/dep/index.js': 'ok',
+    });
+
+    expect(expandGlob(tempDir, '**/*.js')).toEqual(['index.js']);
+  });
+
+  it('should pass when forbidden pattern is absent', async () => {
+    writeFiles(tempDir, { 'src/app.js': 'const x = 1;\n' });
+
+    const evaluator: PatternEvaluator = {
+      type: 'pattern',
+      files: '**/*.js',
+      failIfMatch: '\\beval\\s*\\(',
+    };
+
+    const result = await evaluatePattern(evaluator, context);
+    expect(result.passed).toBe(true);
+    expect(result.score).toBe(1);
+  });
+
+  it('should report file, line and snippet for forbidden matches', async () => {
+    writeFiles(tempDir, {
+      'src/app.js': 'const a = 1;\nconst b = eval("2");\n',
+    });
+
+    const evaluator: PatternEvaluator = {
+      type: 'pattern',
+      files: '**/*.js',
+      failIfMatch: '\\beval\\s*\\(',
+    };
+
+    const result = await evaluatePattern(evaluator, context);
+    expect(result.passed).toBe(false);
+    expect(result.score).toBe(0);
+    expect(result.details?.violations).toEqual([
+      { file: 'src/app.js', line: 2, snippet: 'const b = eval("2");' },
+    ]);
+    expect(result.evidence).toContain('src/app.js:2');
+  });
+
+  it('should award partial credit proportional to clean files', async () => {
+    writeFiles(tempDir, {
+      'a.js': 'eval("x")',
+      'b.js': 'ok',
+      'c.js': 'ok',
+      'd.js': 'ok',
+    });
+
+    const evaluator: PatternEvaluator = {
+      type: 'pattern',
+      files: '*.js',
+      failIfMatch: 'eval\\(',
+      partialCredit: true,
+    };
+
+    const result = await evaluatePattern(evaluator, context);
+    expect(result.score).toBe(0.75);
+    expect(result.passed).toBe(false);
+  });
+
+  it('should honor ignoreCase', async () => {
+    writeFiles(tempDir, { 'config.py': 'PASSWORD = "hunter2hunter2"\n' });
+
+    const evaluator: PatternEvaluator = {
+      type: 'pattern',
+      files: '**/*.py',
+      failIfMatch: 'password\\s*=',
+      ignoreCase: true,
+    };
+
+    const result = await evaluatePattern(evaluator, context);
+    expect(result.passed).toBe(false);
+  });
+
+  it('should fail when required pattern is missing', async () => {
+    writeFiles(tempDir, { 'a.ts': 'export const x = 1;' });
+
+    const evaluator: PatternEvaluator = {
+      type: 'pattern',
+      files: '**/*.ts',
+      requireMatch: 'try\\s*\\{',
+    };
+
+    const result = await evaluatePattern(evaluator, context);
+    expect(result.passed).toBe(false);
+    expect(result.details?.requirementMet).toBe(false);
+  });
+
+  it('should pass when required pattern is found in any file', async () => {
+    writeFiles(tempDir, {
+      'a.ts': 'export const x = 1;',
+      'b.ts': 'try { run(); } catch (e) {}',
+    });
+
+    const evaluator: PatternEvaluator = {
+      type: 'pattern',
+      files: '**/*.ts',
+      requireMatch: 'try\\s*\\{',
+    };
+
+    const result = await evaluatePattern(evaluator, context);
+    expect(result.passed).toBe(true);
+  });
+
+  it('should return an error for invalid regex', async () => {
+    const evaluator: PatternEvaluator = {
+      type: 'pattern',
+      files: '**/*',
+      failIfMatch: '(',
+    };
+
+    const result = await evaluatePattern(evaluator, context);
+    expect(result.passed).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+});
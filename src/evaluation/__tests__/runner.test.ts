@@ -0,0 +1,334 @@
+/**
+ * Evaluation Runner Tests
+ *
+ * Tests for case scheduling with a fake sandbox manager and agent.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { runCases, ProgressUpdate } from '../runner';
+import { Case, RunResult } from '../../cases/types';
+import { AgentWrapper, emptyAgentResult } from '../../agents/types';
+import { Sandbox, SandboxConfig } from '../../sandbox/types';
+
+let activeSandboxes = 0;
+let maxActiveSandboxes = 0;
+
+jest.mock('../../sandbox', () => ({
+  ...jest.requireActual('../../sandbox'),
+  checkSandbox: jest.fn().mockResolvedValue({ available: true, backend: 'docker' }),
+  createSandboxManager: () => ({
+    create: jest.fn(async (config: SandboxConfig) => {
+      activeSandboxes++;
+      maxActiveSandboxes = Math.max(maxActiveSandboxes, activeSandboxes);
+      const sandbox = {
+        id: `sandbox-${Math.random()}`,
+        config,
+        status: 'running',
+        exec: jest.fn().mockResolvedValue({
+          exitCode: 0,
+          stdout: '',
+          stderr: '',
+          durationMs: 1,
+          timedOut: false,
+          killed: false,
+        }),
+        destroy: jest.fn(async () => {
+          activeSandboxes--;
+        }),
+      };
+      return sandbox as unknown as Sandbox;
+    }),
+    destroyAll: jest.fn().mockResolvedValue(undefined),
+  }),
+}));
+
+const fakeAgent: AgentWrapper = {
+  name: 'fake',
+  displayName: 'Fake Agent',
+  isAvailable: async () => true,
+  getVersion: async () => '1.0.0',
+  run: async (prompt, options) => {
+    if (prompt === 'edit') {
+      fs.appendFileSync(path.join(options.cwd, 'src/index.js'), 'module.exports = 1;\n');
+      fs.writeFileSync(path.join(options.cwd, 'NOTES.md'), 'Done\n');
+      return { ...emptyAgentResult(), success: true, answer: 'edited' };
+    }
+    return { ...emptyAgentResult(), success: true, answer: 'done' };
+  },
+};
+
+/**
+ * Agent runs that only finish when the test says so, by case ID
+ */
+function gateAgentRuns(): { finish: (caseId: string) => Promise<void>; restore: () => void } {
+  const gates = new Map<string, () => void>();
+  let onStarted: Array<() => void> = [];
+
+  const run = jest.spyOn(fakeAgent, 'run').mockImplementation(async (_prompt, options) => {
+    await new Promise<void>((resolve) => {
+      gates.set(options.caseId || '', resolve);
+      onStarted.forEach((notify) => notify());
+      onStarted = [];
+    });
+    return { ...emptyAgentResult(), success: true, answer: 'done' };
+  });
+
+  const finish = async (caseId: string): Promise<void> => {
+    while (!gates.has(caseId)) {
+      await new Promise<void>((resolve) => onStarted.push(resolve));
+    }
+    gates.get(caseId)?.();
+  };
+
+  return { finish, restore: () => run.mockRestore() };
+}
+
+jest.mock('../../agents/registry', () => ({
+  getAgent: () => fakeAgent,
+}));
+
+function createCases(count: number): Case[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `case-${i}`,
+    title: `Case ${i}`,
+    prompt: `Solve case ${i}`,
+    source: 'manual',
+    language: 'javascript',
+    difficulty: 'easy',
+    category: 'test',
+    rubric: 'minimal',
+  }));
+}
+
+describe('runCases', () => {
+  beforeEach(() => {
+    activeSandboxes = 0;
+    maxActiveSandboxes = 0;
+  });
+
+  it('should run cases sequentially by default', async () => {
+    const result = await runCases(createCases(3), { agent: 'fake' });
+
+    expect(maxActiveSandboxes).toBe(1);
+    expect(result.caseResults.map((r) => r.caseId)).toEqual(['case-0', 'case-1', 'case-2']);
+  });
+
+  it('should record the answer and behavior metrics for each case', async () => {
+    const result = await runCases(createCases(1), { agent: 'fake' });
+
+    const [caseResult] = result.caseResults;
+    expect(caseResult.answer).toBe('done');
+    expect(caseResult.behaviorMetrics?.toolCount).toBe(0);
+  });
+
+  it('should run the agent on the case prompt in the prepared workspace', async () => {
+    let workspaceFile: string | null = null;
+    const run = jest.spyOn(fakeAgent, 'run').mockImplementation(async (_prompt, options) => {
+      workspaceFile = fs.readFileSync(path.join(options.cwd, 'src/index.js'), 'utf-8');
+      return { ...emptyAgentResult(), success: true, answer: 'done' };
+    });
+    const [caseData] = createCases(1);
+    caseData.files = [{ path: 'src/index.js', content: '// entry\n' }];
+
+    try {
+      await runCases([caseData], { agent: 'fake', timeoutSeconds: 45 });
+
+      expect(run).toHaveBeenCalledTimes(1);
+      const [prompt, options] = run.mock.calls[0];
+      expect(prompt).toBe('Solve case 0');
+      expect(options).toMatchObject({ caseId: 'case-0', timeoutMs: 45000 });
+      expect(workspaceFile).toBe('// entry\n');
+      expect(fs.existsSync(options.cwd)).toBe(false);
+    } finally {
+      run.mockRestore();
+    }
+  });
+
+  it('should apply case expectations as agent limits', async () => {
+    const run = jest
+      .spyOn(fakeAgent, 'run')
+      .mockResolvedValue({ ...emptyAgentResult(), success: true, answer: 'done' });
+    const [caseData] = createCases(1);
+    caseData.expectations = {
+      maxTimeSeconds: 30,
+      maxIterations: 5,
+      allowedTools: ['Read', 'Grep'],
+      disallowedTools: ['Bash'],
+    };
+
+    try {
+      await runCases([caseData], { agent: 'fake', timeoutSeconds: 600 });
+
+      expect(run.mock.calls[0][1]).toMatchObject({
+        timeoutMs: 30000,
+        maxTurns: 5,
+        allowedTools: ['Read', 'Grep'],
+        disallowedTools: ['Bash'],
+      });
+    } finally {
+      run.mockRestore();
+    }
+  });
+
+  it('should fail the run when the agent is not available', async () => {
+    const isAvailable = jest.spyOn(fakeAgent, 'isAvailable').mockResolvedValue(false);
+
+    try {
+      await expect(runCases(createCases(1), { agent: 'fake' })).rejects.toThrow(
+        'Fake Agent is not available'
+      );
+    } finally {
+      isAvailable.mockRestore();
+    }
+  });
+
+  it('should attach the files the agent changed', async () => {
+    const [caseData] = createCases(1);
+    caseData.prompt = 'edit';
+    caseData.files = [{ path: 'src/index.js', content: '// entry\n' }];
+
+    const result = await runCases([caseData], { agent: 'fake' });
+
+    const { changes } = result.caseResults[0];
+    expect(changes?.files).toEqual([
+      { path: 'NOTES.md', status: 'added', binary: false, additions: 1, deletions: 0 },
+      { path: 'src/index.js', status: 'modified', binary: false, additions: 1, deletions: 0 },
+    ]);
+    expect(changes?.diff).toContain('+module.exports = 1;');
+  });
+
+  it('should bound parallel sandboxes and keep case order', async () => {
+    const completed: string[] = [];
+    const gated = gateAgentRuns();
+
+    let result: RunResult;
+    try {
+      const running = runCases(createCases(5), {
+        agent: 'fake',
+        concurrency: 2,
+        onCaseComplete: (r) => completed.push(r.caseId),
+      });
+      // Finish cases out of order: each finished case frees its worker for the next one
+      for (const caseId of ['case-1', 'case-0', 'case-3', 'case-2', 'case-4']) {
+        await gated.finish(caseId);
+      }
+      result = await running;
+    } finally {
+      gated.restore();
+    }
+
+    expect(maxActiveSandboxes).toBe(2);
+    expect(completed).toEqual(['case-1', 'case-0', 'case-3', 'case-2', 'case-4']);
+    expect(result.caseResults.map((r) => r.caseId)).toEqual([
+      'case-0',
+      'case-1',
+      'case-2',
+      'case-3',
+      'case-4',
+    ]);
+    expect(result.summary.total).toBe(5);
+  });
+
+  it('should emit progress updates in order for each case', async () => {
+    const updates: ProgressUpdate[] = [];
+
+    await runCases(createCases(4), {
+      agent: 'fake',
+      concurrency: 4,
+      onProgress: (u) => updates.push(u),
+    });
+
+    for (let i = 0; i < 4; i++) {
+      const types = updates.filter((u) => u.caseIndex === i).map((u) => u.type);
+      expect(types[0]).toBe('starting');
+      expect(types[types.length - 1]).toBe('complete');
+      expect(types.indexOf('validating')).toBeGreaterThan(types.lastIndexOf('running'));
+    }
+  });
+
+  it('should run each case once per trial and aggregate stats', async () => {
+    const result = await runCases(createCases(2), { agent: 'fake', trials: 3 });
+
+    const [first] = result.caseResults;
+    expect(first.trials).toHaveLength(3);
+    expect(first.trials?.map((t) => t.trial)).toEqual([1, 2, 3]);
+    expect(first.trialStats?.trials).toBe(3);
+    expect(result.summary.trials).toBe(3);
+    expect(Object.keys(result.summary.caseStats || {})).toEqual(['case-0', 'case-1']);
+  });
+
+  it('should pass run settings to the agent and report limits separately from failures', async () => {
+    const run = jest.spyOn(fakeAgent, 'run').mockResolvedValue({
+      ...emptyAgentResult(),
+      success: true,
+      answer: 'done',
+      tokens: { ...emptyAgentResult().tokens, totalTokens: 5000 },
+    });
+    const cases = createCases(2);
+    cases[1].expectations = { maxTokens: 8000, allowedTools: ['Read'] };
+
+    try {
+      const result = await runCases(cases, {
+        agent: 'fake',
+        settings: { model: 'small', maxTokens: 4000, allowedTools: ['Read', 'Grep'] },
+      });
+
+      expect(run.mock.calls[0][1]).toMatchObject({
+        model: 'small',
+        maxTokens: 4000,
+        allowedTools: ['Read', 'Grep'],
+      });
+      expect(run.mock.calls[1][1]).toMatchObject({ maxTokens: 4000, allowedTools: ['Read'] });
+
+      const [first] = result.caseResults;
+      expect(first.budgetExceeded).toBe('tokens');
+      expect(first.passed).toBe(false);
+      expect(first.error).toBeUndefined();
+      expect(result.summary.budgetExceeded).toBe(2);
+      expect(result.summary.failed).toBe(0);
+      expect(result.summary.errored).toBe(0);
+    } finally {
+      run.mockRestore();
+    }
+  });
+
+  it('should score a secret the agent hardcoded under the default rubric', async () => {
+    const run = jest.spyOn(fakeAgent, 'run').mockImplementation(async (prompt, options) => {
+      const value = prompt === 'leak' ? '"hunter2hunter2"' : 'process.env.DB_PASSWORD';
+      fs.writeFileSync(path.join(options.cwd, 'config.js'), `const password = ${value};\n`);
+      return { ...emptyAgentResult(), success: true, answer: 'done' };
+    });
+    const cases = createCases(2).map((c) => ({ ...c, rubric: 'default' }));
+    cases[1].prompt = 'leak';
+
+    try {
+      const result = await runCases(cases, { agent: 'fake' });
+
+      const [clean, leaked] = result.caseResults;
+      const safety = (r: typeof clean) => r.criteriaResults.find((c) => c.name === 'safety');
+      expect(safety(clean)?.score).toBe(1);
+      expect(safety(leaked)?.score).toBe(0);
+      expect(safety(leaked)?.evaluatorResults[0].evidence).toContain('config.js:1');
+      expect(leaked.score).toBeLessThan(clean.score);
+    } finally {
+      run.mockRestore();
+    }
+  });
+
+  it('should count cases whose agent failed as errored', async () => {
+    const run = jest
+      .spyOn(fakeAgent, 'run')
+      .mockResolvedValue({ ...emptyAgentResult(), success: false, error: 'crashed' });
+
+    try {
+      const result = await runCases(createCases(2), { agent: 'fake' });
+
+      expect(result.caseResults[0].error).toBe('Agent failed: crashed');
+      expect(result.summary.errored).toBe(2);
+      expect(result.summary.passed).toBe(0);
+    } finally {
+      run.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Agent behavior evaluator - grades how the agent worked, not just the result
+ *
+ * Reads metrics from the captured AgentTrace and scores them against
+ * min/max/target bounds, so a rubric can penalize an agent that solves
+ * the task but takes far more time, tokens or turns than it should.
+ */
+
+import { AgentBehaviorEvaluator, AgentTrace } from '../cases/types';
+import { describeBounds, scoreNumericValue } from './scoring';
+import { EvaluationContext, EvaluatorOutcome } from './types';
+
+/**
+ * Read a behavior metric from an agent trace
+ */
+export function getBehaviorMetric(
+  trace: AgentTrace,
+  metric: AgentBehaviorEvaluator['metric']
+): number {
+  switch (metric) {
+    case 'time':
+      return trace.totalTimeMs / 1000;
+    case 'tokens':
+      return trace.totalTokens;
+    case 'iterations':
+      return trace.iterations;
+    case 'tool_calls':
+      return trace.toolCallCount ?? trace.toolsUsed.length;
+    case 'self_corrections':
+      return trace.selfCorrections;
+  }
+}
+
+/**
+ * Evaluate an agent behavior metric
+ */
+export function evaluateAgentBehavior(
+  evaluator: AgentBehaviorEvaluator,
+  context: EvaluationContext
+): EvaluatorOutcome {
+  if (!context.agentTrace) {
+    return {
+      passed: false,
+      score: 0,
+      evidence: 'No agent trace available for this case',
+      details: { metric: evaluator.metric, value: null },
+      error: 'No agent trace available',
+    };
+  }
+
+  const value = getBehaviorMetric(context.agentTrace, evaluator.metric);
+  const bounds = {
+    min: evaluator.minValue,
+    max: evaluator.maxValue,
+    target: evaluator.targetValue,
+  };
+  const { score, withinBounds } = scoreNumericValue(value, bounds, evaluator.partialCredit);
+  const passed =
+    withinBounds && (evaluator.passThreshold === undefined || score >= evaluator.passThreshold);
+  const unit = evaluator.metric === 'time' ? 's' : '';
+
+  return {
+    passed,
+    score,
+    evidence: `${evaluator.metric} = ${value}${unit} (${describeBounds(bounds)})${
+      withinBounds ? '' : ' - out of bounds'
+    }`,
+    details: {
+      metric: evaluator.metric,
+      value,
+      withinBounds,
+      minValue: evaluator.minValue,
+      maxValue: evaluator.maxValue,
+      targetValue: evaluator.targetValue,
+    },
+  };
+}
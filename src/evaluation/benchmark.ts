@@ -0,0 +1,130 @@
+/**
+ * Benchmark evaluator - runs a command and grades a numeric metric
+ *
+ * The metric is extracted from the command output via `valuePath` (JSONPath
+ * into JSON output) or `valuePattern` (regex; first capture group if present).
+ * If neither is set, the whole trimmed stdout must be a number.
+ */
+
+import { BenchmarkEvaluator } from '../cases/types';
+import { evaluateJsonPath, parseJsonOutput } from './jsonpath';
+import { describeBounds, scoreNumericValue } from './scoring';
+import { EvaluationContext, EvaluatorOutcome } from './types';
+
+/** Benchmarks are given longer than regular commands */
+const BENCHMARK_TIMEOUT_SECONDS = 300;
+
+/**
+ * Convert an extracted value to a finite number
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Extract the metric value from command output
+ */
+export function extractMetricValue(
+  evaluator: Pick<BenchmarkEvaluator, 'valuePath' | 'valuePattern'>,
+  stdout: string,
+  stderr = ''
+): number | undefined {
+  if (evaluator.valuePath) {
+    const data = parseJsonOutput(stdout);
+    if (data === undefined) {
+      return undefined;
+    }
+    return toNumber(evaluateJsonPath(data, evaluator.valuePath));
+  }
+
+  if (evaluator.valuePattern) {
+    const match = new RegExp(evaluator.valuePattern, 'm').exec(`${stdout}\n${stderr}`);
+    if (!match) {
+      return undefined;
+    }
+    return toNumber(match[1] ?? match[0]);
+  }
+
+  return toNumber(stdout);
+}
+
+/**
+ * Run a benchmark evaluator in the sandbox
+ */
+export async function evaluateBenchmark(
+  evaluator: BenchmarkEvaluator,
+  context: EvaluationContext
+): Promise<EvaluatorOutcome> {
+  const result = await context.sandbox.exec(evaluator.run, {
+    timeoutSeconds: BENCHMARK_TIMEOUT_SECONDS,
+  });
+  const output = (result.stdout + '\n' + result.stderr).trim();
+  const bounds = {
+    min: evaluator.minValue,
+    max: evaluator.maxValue,
+    target: evaluator.targetValue,
+  };
+  const baseDetails = {
+    metric: evaluator.metric,
+    exitCode: result.exitCode,
+    timedOut: result.timedOut,
+    minValue: evaluator.minValue,
+    maxValue: evaluator.maxValue,
+    targetValue: evaluator.targetValue,
+  };
+
+  if (result.exitCode !== 0 || result.timedOut) {
+    const reason = result.timedOut ? 'timed out' : `exited with code ${result.exitCode}`;
+    return {
+      passed: false,
+      score: 0,
+      evidence: `Benchmark command ${reason}\n${output}`.trim(),
+      details: { ...baseDetails, value: null },
+      error: `Benchmark command ${reason}`,
+    };
+  }
+
+  let value: number | undefined;
+  try {
+    value = extractMetricValue(evaluator, result.stdout, result.stderr);
+  } catch (err) {
+    return {
+      passed: false,
+      score: 0,
+      evidence: `Could not extract ${evaluator.metric}: ${(err as Error).message}`,
+      details: { ...baseDetails, value: null },
+      error: (err as Error).message,
+    };
+  }
+
+  if (value === undefined) {
+    const source = evaluator.valuePath || evaluator.valuePattern || 'stdout';
+    return {
+      passed: false,
+      score: 0,
+      evidence: `Could not extract ${evaluator.metric} from output (${source})\n${output}`.trim(),
+      details: { ...baseDetails, value: null },
+      error: `No numeric value found for ${evaluator.metric}`,
+    };
+  }
+
+  const { score, withinBounds } = scoreNumericValue(value, bounds, evaluator.partialCredit);
+  const passed =
+    withinBounds && (evaluator.passThreshold === undefined || score >= evaluator.passThreshold);
+
+  return {
+    passed,
+    score,
+    evidence: `${evaluator.metric} = ${value} (${describeBounds(bounds)})${
+      withinBounds ? '' : ' - out of bounds'
+    }`,
+    details: { ...baseDetails, value, withinBounds },
+  };
+}
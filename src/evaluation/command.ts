@@ -0,0 +1,182 @@
+/**
+ * Command evaluator - runs a shell command in the sandbox
+ *
+ * With `parse: exit_code` (the default) the exit code decides pass/fail.
+ * With `junit`, `tap` or `json` the test report is parsed into per-test
+ * results, and partial credit is the fraction of non-skipped tests passing.
+ * With a `passThreshold` the fraction alone decides pass/fail, since test
+ * runners exit non-zero whenever a test fails.
+ * `failIfMatch` / `failIfNoMatch` are checked against the combined output.
+ */
+
+import { CommandEvaluator } from '../cases/types';
+import { ParsedTestResults, parseJUnit, parseJsonReport, parseTap } from './parsers';
+import { EvaluationContext, EvaluatorOutcome } from './types';
+
+/** Per-test results recorded in details */
+const MAX_RECORDED_TESTS = 200;
+
+/**
+ * Quote a string for use as a single shell argument
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Score from the legacy "N passed, M failed" summary line (exit_code mode)
+ */
+function scoreFromSummaryLine(stdout: string): number | undefined {
+  const testMatch = stdout.match(/(\d+) passed/);
+  const failMatch = stdout.match(/(\d+) failed/);
+  if (testMatch && failMatch) {
+    const passedTests = parseInt(testMatch[1], 10);
+    const failedTests = parseInt(failMatch[1], 10);
+    const total = passedTests + failedTests;
+    if (total > 0) {
+      return passedTests / total;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the report file from the sandbox, or fall back to stdout
+ */
+async function readReport(
+  evaluator: CommandEvaluator,
+  context: EvaluationContext,
+  stdout: string
+): Promise<string> {
+  if (!evaluator.reportPath) {
+    return stdout;
+  }
+
+  const report = await context.sandbox.exec(`cat ${shellQuote(evaluator.reportPath)}`);
+  if (report.exitCode !== 0) {
+    throw new Error(`Could not read report ${evaluator.reportPath}: ${report.stderr.trim()}`);
+  }
+  return report.stdout;
+}
+
+/**
+ * Run a command evaluator in the sandbox
+ */
+export async function evaluateCommand(
+  evaluator: CommandEvaluator,
+  context: EvaluationContext
+): Promise<EvaluatorOutcome> {
+  let failRegex: RegExp | undefined;
+  let requireRegex: RegExp | undefined;
+  try {
+    failRegex = evaluator.failIfMatch ? new RegExp(evaluator.failIfMatch, 'm') : undefined;
+    requireRegex = evaluator.failIfNoMatch ? new RegExp(evaluator.failIfNoMatch, 'm') : undefined;
+  } catch (err) {
+    return {
+      passed: false,
+      score: 0,
+      evidence: `Invalid pattern: ${(err as Error).message}`,
+      error: (err as Error).message,
+    };
+  }
+
+  const result = await context.sandbox.exec(evaluator.run, {
+    timeoutSeconds: 60,
+  });
+  const output = (result.stdout + '\n' + result.stderr).trim();
+  const parse = evaluator.parse ?? 'exit_code';
+  const details: Record<string, unknown> = {
+    exitCode: result.exitCode,
+    timedOut: result.timedOut,
+    parse,
+  };
+  const evidence: string[] = [output];
+
+  // Parse structured results
+  let tests: ParsedTestResults | undefined;
+  let reportScore: number | undefined;
+  let parseError: string | undefined;
+
+  try {
+    if (parse === 'junit') {
+      tests = parseJUnit(await readReport(evaluator, context, result.stdout));
+    } else if (parse === 'tap') {
+      tests = parseTap(await readReport(evaluator, context, result.stdout));
+    } else if (parse === 'json') {
+      const json = await readReport(evaluator, context, result.stdout);
+      const parsed = parseJsonReport(json, evaluator.scorePath);
+      tests = parsed.results;
+      reportScore = parsed.score;
+    }
+  } catch (err) {
+    parseError = (err as Error).message;
+  }
+
+  // Score
+  const allPassed = result.exitCode === 0 && !result.timedOut;
+  let score = allPassed ? 1.0 : 0.0;
+  let passed = allPassed;
+
+  if (parseError) {
+    score = 0.0;
+    passed = false;
+    evidence.push(`Failed to parse ${parse} output: ${parseError}`);
+  } else if (reportScore !== undefined || (tests && tests.passed + tests.failed > 0)) {
+    const fraction = reportScore ?? tests!.passed / (tests!.passed + tests!.failed);
+    passed =
+      evaluator.passThreshold !== undefined
+        ? !result.timedOut && fraction >= evaluator.passThreshold
+        : allPassed && fraction >= 1.0;
+    score = evaluator.partialCredit ? fraction : passed ? 1.0 : 0.0;
+  } else if (parse === 'exit_code' && evaluator.partialCredit && !passed) {
+    // For test runners, try to parse pass/fail ratio
+    score = scoreFromSummaryLine(result.stdout) ?? score;
+  }
+
+  if (tests) {
+    details.tests = {
+      passed: tests.passed,
+      failed: tests.failed,
+      skipped: tests.skipped,
+      results: tests.tests.slice(0, MAX_RECORDED_TESTS),
+    };
+    evidence.push(
+      `Tests: ${tests.passed} passed, ${tests.failed} failed, ${tests.skipped} skipped`
+    );
+    for (const test of tests.tests.filter((t) => t.status === 'failed').slice(0, 20)) {
+      evidence.push(`  ✗ ${test.name}${test.message ? `: ${test.message.split('\n')[0]}` : ''}`);
+    }
+  }
+  if (reportScore !== undefined) {
+    details.reportScore = reportScore;
+    evidence.push(`Score from ${evaluator.scorePath}: ${reportScore}`);
+  }
+
+  // Output pattern checks
+  if (failRegex) {
+    const match = failRegex.exec(output);
+    details.failIfMatch = match ? match[0] : null;
+    if (match) {
+      passed = false;
+      score = 0.0;
+      evidence.push(`Output matched forbidden pattern: ${match[0]}`);
+    }
+  }
+  if (requireRegex) {
+    const match = requireRegex.exec(output);
+    details.failIfNoMatch = match ? match[0] : null;
+    if (!match) {
+      passed = false;
+      score = 0.0;
+      evidence.push(`Output did not match required pattern: ${evaluator.failIfNoMatch}`);
+    }
+  }
+
+  return {
+    passed,
+    score,
+    evidence: evidence.filter(Boolean).join('\n'),
+    details,
+    error: parseError,
+  };
+}
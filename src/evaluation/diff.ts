@@ -0,0 +1,131 @@
+/**
+ * Diff evaluator - compares command output against expected output
+ *
+ * Expected output comes from `expected` (inline) or `expectedFile`, resolved
+ * relative to the case file that declared it. Mismatches are reported as a
+ * unified diff; partial credit is the line similarity between the two.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiffEvaluator } from '../cases/types';
+import { createUnifiedDiff, lineSimilarity, splitLines } from '../utils/diff';
+import { EvaluationContext, EvaluatorOutcome } from './types';
+
+/** Maximum unified diff length kept as evidence */
+const MAX_DIFF_LENGTH = 10000;
+
+/**
+ * Normalize output according to evaluator options
+ */
+export function normalizeOutput(
+  text: string,
+  options: Pick<DiffEvaluator, 'ignoreWhitespace' | 'ignoreCase'>
+): string {
+  let lines = splitLines(text);
+
+  if (options.ignoreWhitespace) {
+    lines = lines.map((line) => line.replace(/\s+/g, ' ').trim());
+    // Blank lines at the edges are whitespace too
+    while (lines.length > 0 && lines[0] === '') lines.shift();
+    while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  }
+
+  if (options.ignoreCase) {
+    lines = lines.map((line) => line.toLowerCase());
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Resolve the expected output for an evaluator
+ */
+function loadExpected(evaluator: DiffEvaluator, context: EvaluationContext): string {
+  if (evaluator.expected !== undefined) {
+    return evaluator.expected;
+  }
+
+  if (!evaluator.expectedFile) {
+    throw new Error('Diff evaluator requires either "expected" or "expectedFile"');
+  }
+
+  const baseDir = context.caseData._sourcePath
+    ? path.dirname(context.caseData._sourcePath)
+    : process.cwd();
+  const expectedPath = path.resolve(baseDir, evaluator.expectedFile);
+
+  if (!fs.existsSync(expectedPath)) {
+    throw new Error(`Expected output file not found: ${expectedPath}`);
+  }
+
+  return fs.readFileSync(expectedPath, 'utf-8');
+}
+
+/**
+ * Run a diff evaluator in the sandbox
+ */
+export async function evaluateDiff(
+  evaluator: DiffEvaluator,
+  context: EvaluationContext
+): Promise<EvaluatorOutcome> {
+  let expected: string;
+  try {
+    expected = loadExpected(evaluator, context);
+  } catch (err) {
+    return {
+      passed: false,
+      score: 0,
+      evidence: (err as Error).message,
+      error: (err as Error).message,
+    };
+  }
+
+  const result = await context.sandbox.exec(evaluator.run, { timeoutSeconds: 60 });
+
+  if (result.timedOut) {
+    return {
+      passed: false,
+      score: 0,
+      evidence: 'Command timed out',
+      details: { exitCode: result.exitCode, timedOut: true },
+      error: 'Command timed out',
+    };
+  }
+
+  const normalizedExpected = normalizeOutput(expected, evaluator);
+  const normalizedActual = normalizeOutput(result.stdout, evaluator);
+  const matches = normalizedExpected === normalizedActual;
+  const similarity = matches ? 1 : lineSimilarity(normalizedExpected, normalizedActual);
+  const score = matches ? 1.0 : evaluator.partialCredit ? similarity : 0.0;
+
+  const passed = score >= (evaluator.passThreshold ?? 1.0);
+
+  let evidence: string;
+  if (matches) {
+    evidence = 'Output matches expected';
+  } else {
+    const diff = createUnifiedDiff(normalizedExpected, normalizedActual);
+    evidence =
+      diff.length > MAX_DIFF_LENGTH
+        ? diff.substring(0, MAX_DIFF_LENGTH) + '\n... (diff truncated)'
+        : diff;
+    if (result.stderr.trim()) {
+      evidence += `\n\nstderr:\n${result.stderr.trim()}`;
+    }
+  }
+
+  return {
+    passed,
+    score,
+    evidence,
+    details: {
+      exitCode: result.exitCode,
+      timedOut: false,
+      matches,
+      similarity,
+      expectedLines: splitLines(normalizedExpected).length,
+      actualLines: splitLines(normalizedActual).length,
+    },
+  };
+}
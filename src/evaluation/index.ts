@@ -3,3 +3,13 @@
  */
 
 export * from './runner';
+export * from './types';
+export * from './pattern';
+export * from './jsonpath';
+export * from './scoring';
+export * from './benchmark';
+export * from './diff';
+export * from './behavior';
+export * from './judge';
+export * from './parsers';
+export * from './command';
@@ -0,0 +1,107 @@
+/**
+ * Minimal JSONPath support for extracting values from command output
+ *
+ * Supports the dotted/bracketed subset used in case files:
+ * `$.a.b`, `$.tests[0].duration`, `$['key with spaces']`, `$.items[-1]`.
+ * Wildcards, filters and recursive descent are not supported.
+ */
+
+/**
+ * Error thrown for malformed JSONPath expressions
+ */
+export class JsonPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonPathError';
+  }
+}
+
+/**
+ * Split a JSONPath expression into property names and array indices
+ */
+export function parseJsonPath(expression: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  let rest = expression.trim();
+
+  if (rest.startsWith('$')) {
+    rest = rest.substring(1);
+  }
+
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+
+    if ((match = rest.match(/^\.([A-Za-z_$][\w$-]*)/))) {
+      segments.push(match[1]);
+    } else if ((match = rest.match(/^\[(-?\d+)\]/))) {
+      segments.push(parseInt(match[1], 10));
+    } else if ((match = rest.match(/^\[\s*'([^']*)'\s*\]/) || rest.match(/^\[\s*"([^"]*)"\s*\]/))) {
+      segments.push(match[1]);
+    } else if (segments.length === 0 && (match = rest.match(/^([A-Za-z_$][\w$-]*)/))) {
+      // Allow a leading bare property ("a.b" as well as "$.a.b")
+      segments.push(match[1]);
+    } else {
+      throw new JsonPathError(`Invalid JSONPath "${expression}" near "${rest}"`);
+    }
+
+    rest = rest.substring(match[0].length);
+  }
+
+  return segments;
+}
+
+/**
+ * Evaluate a JSONPath expression against a parsed JSON value
+ *
+ * Returns undefined when any segment along the path is missing.
+ */
+export function evaluateJsonPath(data: unknown, expression: string): unknown {
+  let current: unknown = data;
+
+  for (const segment of parseJsonPath(expression)) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+
+    if (typeof segment === 'number') {
+      if (!Array.isArray(current)) {
+        return undefined;
+      }
+      current = current[segment < 0 ? current.length + segment : segment];
+    } else {
+      if (typeof current !== 'object') {
+        return undefined;
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Parse JSON from command output
+ *
+ * Tries the whole output first, then falls back to the last line that parses,
+ * since tools often print log lines before their JSON report.
+ */
+export function parseJsonOutput(output: string): unknown {
+  const trimmed = output.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall through to line-by-line parsing
+  }
+
+  const lines = trimmed.split('\n');
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (!line.startsWith('{') && !line.startsWith('[')) continue;
+    try {
+      return JSON.parse(line);
+    } catch {
+      // Keep looking
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,152 @@
+/**
+ * LLM judge evaluator - grades subjective criteria with a model
+ *
+ * Shows the judge the files matched by `files` (or, if unset, the files the
+ * agent changed) together with a unified diff of the agent's changes, then
+ * parses a 0-10 score and rationale from the response. The changes come from
+ * the change set the runner captured while the agent ran.
+ */
+
+import * as path from 'path';
+import { LLMJudgeEvaluator } from '../cases/types';
+import { ChangeSet } from '../sandbox/types';
+import {
+  buildJudgePrompt,
+  createDefaultJudgeBackend,
+  JudgeFile,
+  JUDGE_SYSTEM_PROMPT,
+  parseJudgeResponse,
+} from '../judge';
+import { readTextFile } from '../utils/files';
+import { expandGlob } from '../utils/glob';
+import { EvaluationContext, EvaluatorOutcome } from './types';
+
+/** Per-file character limit for content shown to the judge */
+const MAX_FILE_CHARS = 20000;
+
+/** Total character budget for file contents in one prompt */
+const MAX_TOTAL_CHARS = 100000;
+
+/** Judge grades are rarely perfect, so passing defaults to 7/10 */
+const DEFAULT_PASS_THRESHOLD = 0.7;
+
+/** Lockfiles are noise for grading and often huge */
+const SKIPPED_FILES = ['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock', 'poetry.lock', 'go.sum'];
+
+/**
+ * Changes the agent made to the workspace
+ */
+export interface AgentChanges {
+  /** Paths of added or modified files */
+  changedFiles: string[];
+
+  /** Unified diff of all changes */
+  diff: string;
+}
+
+/**
+ * Changes from a captured change set: text files that still exist, without lockfiles
+ */
+export function agentChangesFromChangeSet(changes: ChangeSet): AgentChanges {
+  return {
+    changedFiles: changes.files
+      .filter((f) => f.status !== 'deleted' && !f.binary)
+      .map((f) => f.path)
+      .filter((filePath) => !SKIPPED_FILES.includes(path.basename(filePath))),
+    diff: changes.diff,
+  };
+}
+
+/**
+ * Read files for the judge, respecting per-file and total size limits
+ */
+function gatherFiles(workspaceDir: string, filePaths: string[]): JudgeFile[] {
+  const files: JudgeFile[] = [];
+  let totalChars = 0;
+
+  for (const filePath of filePaths) {
+    if (totalChars >= MAX_TOTAL_CHARS) break;
+
+    const content = readTextFile(path.join(workspaceDir, filePath));
+    if (content === null) continue;
+
+    const limit = Math.min(MAX_FILE_CHARS, MAX_TOTAL_CHARS - totalChars);
+    const truncated =
+      content.length > limit ? content.substring(0, limit) + '\n... (truncated)' : content;
+    files.push({ path: filePath, content: truncated });
+    totalChars += truncated.length;
+  }
+
+  return files;
+}
+
+/**
+ * Run an LLM judge evaluator
+ */
+export async function evaluateLLMJudge(
+  evaluator: LLMJudgeEvaluator,
+  context: EvaluationContext
+): Promise<EvaluatorOutcome> {
+  const { caseData, workspaceDir } = context;
+  const judge = context.judge ?? createDefaultJudgeBackend();
+
+  const changes: AgentChanges = context.changes
+    ? agentChangesFromChangeSet(context.changes)
+    : { changedFiles: [], diff: '' };
+  const filePaths = evaluator.files
+    ? expandGlob(workspaceDir, evaluator.files)
+    : changes.changedFiles;
+
+  const prompt = buildJudgePrompt({
+    evaluate: evaluator.evaluate,
+    customPrompt: evaluator.prompt,
+    task: caseData.prompt,
+    files: gatherFiles(workspaceDir, filePaths),
+    diff: changes.diff.length > MAX_TOTAL_CHARS ? undefined : changes.diff || undefined,
+  });
+
+  let responseText: string;
+  let model: string | undefined;
+  try {
+    const response = await judge.complete({
+      system: JUDGE_SYSTEM_PROMPT,
+      prompt,
+      model: evaluator.model,
+    });
+    responseText = response.text;
+    model = response.model;
+  } catch (err) {
+    return {
+      passed: false,
+      score: 0,
+      evidence: `Judge request failed: ${(err as Error).message}`,
+      details: { backend: judge.name },
+      error: (err as Error).message,
+    };
+  }
+
+  try {
+    const verdict = parseJudgeResponse(responseText);
+    const passed = verdict.score >= (evaluator.passThreshold ?? DEFAULT_PASS_THRESHOLD);
+
+    return {
+      passed,
+      score: evaluator.partialCredit ? verdict.score : passed ? 1.0 : 0.0,
+      evidence: verdict.rationale,
+      details: {
+        backend: judge.name,
+        model,
+        judgeScore: verdict.score,
+        filesReviewed: filePaths.length,
+      },
+    };
+  } catch (err) {
+    return {
+      passed: false,
+      score: 0,
+      evidence: responseText,
+      details: { backend: judge.name, model },
+      error: (err as Error).message,
+    };
+  }
+}
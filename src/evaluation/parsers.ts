@@ -0,0 +1,257 @@
+/**
+ * Test output parsers for command evaluators
+ *
+ * Turn JUnit XML, TAP streams and JSON reports into per-test results
+ * so command evaluators can award partial credit by tests passed.
+ */
+
+import { evaluateJsonPath, parseJsonOutput } from './jsonpath';
+
+/**
+ * Outcome of a single test
+ */
+export interface TestCaseResult {
+  /** Test name (prefixed with its suite/class when available) */
+  name: string;
+
+  /** Test outcome */
+  status: 'passed' | 'failed' | 'skipped';
+
+  /** Failure message, if any */
+  message?: string;
+}
+
+/**
+ * Parsed test run
+ */
+export interface ParsedTestResults {
+  /** Individual test outcomes */
+  tests: TestCaseResult[];
+
+  /** Number of passed tests */
+  passed: number;
+
+  /** Number of failed tests */
+  failed: number;
+
+  /** Number of skipped tests */
+  skipped: number;
+}
+
+/**
+ * Summarize a list of test results
+ */
+export function summarizeTests(tests: TestCaseResult[]): ParsedTestResults {
+  return {
+    tests,
+    passed: tests.filter((t) => t.status === 'passed').length,
+    failed: tests.filter((t) => t.status === 'failed').length,
+    skipped: tests.filter((t) => t.status === 'skipped').length,
+  };
+}
+
+/**
+ * Decode the XML entities that appear in test names and messages
+ */
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read an attribute from an XML start tag
+ */
+function getXmlAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  if (!match) return undefined;
+  return decodeXmlEntities(match[1] ?? match[2]);
+}
+
+/**
+ * Parse a JUnit XML report
+ *
+ * Handles the common dialects (Maven Surefire, pytest, jest-junit, go-junit-report):
+ * each `<testcase>` is failed if it contains `<failure>` or `<error>`, skipped if
+ * it contains `<skipped>`, and passed otherwise.
+ */
+export function parseJUnit(xml: string): ParsedTestResults {
+  const tests: TestCaseResult[] = [];
+  const testcaseRegex = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = testcaseRegex.exec(xml)) !== null) {
+    const tag = match[1];
+    const body = match[2] ?? '';
+    const name = getXmlAttribute(tag, 'name') ?? 'unnamed';
+    const className = getXmlAttribute(tag, 'classname');
+    const fullName = className ? `${className} ${name}` : name;
+
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    if (failure) {
+      // Attribute values come back decoded; body text is decoded here
+      const text = failure[3]?.trim();
+      const message =
+        getXmlAttribute(failure[2], 'message') ?? (text ? decodeXmlEntities(text) : undefined);
+      tests.push({
+        name: fullName,
+        status: 'failed',
+        message: message ? message.substring(0, 500) : undefined,
+      });
+    } else if (/<skipped\b/.test(body)) {
+      tests.push({ name: fullName, status: 'skipped' });
+    } else {
+      tests.push({ name: fullName, status: 'passed' });
+    }
+  }
+
+  return summarizeTests(tests);
+}
+
+/**
+ * Parse a TAP (Test Anything Protocol) stream
+ *
+ * Only top-level results are counted; indented subtests are summarized by
+ * their parent. `# SKIP` results count as skipped and `# TODO` failures are
+ * not counted against the run. If a plan (`1..N`) promises more tests than
+ * were reported, the missing ones count as failed (the runner likely crashed).
+ */
+export function parseTap(output: string): ParsedTestResults {
+  const tests: TestCaseResult[] = [];
+  let planned: number | undefined;
+
+  for (const rawLine of output.split('\n')) {
+    // Indented lines belong to subtests, which their parent result summarizes
+    if (/^\s/.test(rawLine)) continue;
+    const line = rawLine.trim();
+
+    const plan = line.match(/^1\.\.(\d+)/);
+    if (plan) {
+      planned = parseInt(plan[1], 10);
+      continue;
+    }
+
+    const result = line.match(/^(not )?ok\b\s*(\d+)?\s*(?:-\s*)?([^#]*)(?:#\s*(\w+)\s*(.*))?$/i);
+    if (!result) continue;
+
+    const failed = result[1] !== undefined;
+    const name = result[3].trim() || `test ${result[2] ?? tests.length + 1}`;
+    const directive = result[4]?.toUpperCase();
+
+    if (directive === 'SKIP' || (directive === 'TODO' && failed)) {
+      tests.push({ name, status: 'skipped', message: result[5]?.trim() || undefined });
+    } else {
+      tests.push({ name, status: failed ? 'failed' : 'passed' });
+    }
+  }
+
+  if (planned !== undefined && planned > tests.length) {
+    const missing = planned - tests.length;
+    for (let i = 0; i < missing; i++) {
+      tests.push({
+        name: `test ${tests.length + 1}`,
+        status: 'failed',
+        message: 'Planned test was never reported',
+      });
+    }
+  }
+
+  return summarizeTests(tests);
+}
+
+/**
+ * Extract tests from a JSON report produced by common runners
+ *
+ * Recognizes Jest/Vitest `--json` output and pytest-json-report.
+ * Returns undefined for other shapes.
+ */
+function parseKnownJsonReport(data: unknown): ParsedTestResults | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+  const report = data as Record<string, unknown>;
+
+  // Jest / Vitest: testResults[].assertionResults[]
+  if (Array.isArray(report.testResults)) {
+    const tests: TestCaseResult[] = [];
+    for (const file of report.testResults as Array<Record<string, unknown>>) {
+      for (const assertion of (file.assertionResults as Array<Record<string, unknown>>) || []) {
+        const status = String(assertion.status);
+        tests.push({
+          name: String(assertion.fullName ?? assertion.title ?? 'unnamed'),
+          status: status === 'passed' ? 'passed' : status === 'failed' ? 'failed' : 'skipped',
+          message: Array.isArray(assertion.failureMessages)
+            ? (assertion.failureMessages as string[]).join('\n').substring(0, 500) || undefined
+            : undefined,
+        });
+      }
+    }
+    return summarizeTests(tests);
+  }
+
+  // pytest-json-report: tests[].outcome
+  if (Array.isArray(report.tests)) {
+    const tests = (report.tests as Array<Record<string, unknown>>).map((test): TestCaseResult => {
+      const outcome = String(test.outcome);
+      return {
+        name: String(test.nodeid ?? test.name ?? 'unnamed'),
+        status:
+          outcome === 'passed'
+            ? 'passed'
+            : outcome === 'failed' || outcome === 'error'
+              ? 'failed'
+              : 'skipped',
+      };
+    });
+    return summarizeTests(tests);
+  }
+
+  return undefined;
+}
+
+/**
+ * Result of parsing a JSON report
+ */
+export interface ParsedJsonReport {
+  /** Score from 0.0 to 1.0, if `scorePath` was given and resolved */
+  score?: number;
+
+  /** Per-test results, if the report had a recognized shape */
+  results?: ParsedTestResults;
+}
+
+/**
+ * Parse a JSON report, extracting a score via `scorePath` and/or per-test results
+ *
+ * A score from 0 to 1 is a fraction and one above 1 (up to 100) is a percentage
+ * (e.g., coverage of 85 -> 0.85); anything else is an error.
+ */
+export function parseJsonReport(output: string, scorePath?: string): ParsedJsonReport {
+  const data = parseJsonOutput(output);
+  if (data === undefined) {
+    throw new Error('Output is not valid JSON');
+  }
+
+  const report: ParsedJsonReport = { results: parseKnownJsonReport(data) };
+
+  if (scorePath) {
+    const value = evaluateJsonPath(data, scorePath);
+    const raw =
+      typeof value === 'number' || (typeof value === 'string' && value.trim() !== '')
+        ? Number(value)
+        : NaN;
+    if (!Number.isFinite(raw)) {
+      throw new Error(`No numeric value at ${scorePath}`);
+    }
+    if (raw < 0 || raw > 100) {
+      throw new Error(
+        `Score at ${scorePath} must be a fraction (0-1) or percentage (0-100), got ${raw}`
+      );
+    }
+    report.score = raw > 1 ? raw / 100 : raw;
+  }
+
+  return report;
+}
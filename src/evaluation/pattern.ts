@@ -0,0 +1,172 @@
+/**
+ * Pattern evaluator - regex checks over workspace files
+ *
+ * `failIfMatch` is checked per file: every matching file is a violation,
+ * and partial credit is the fraction of files that stayed clean.
+ * `requireMatch` is satisfied when at least one checked file matches.
+ */
+
+import * as path from 'path';
+import { PatternEvaluator } from '../cases/types';
+import { expandGlob } from '../utils/glob';
+import { readTextFile } from '../utils/files';
+import { EvaluationContext, EvaluatorOutcome } from './types';
+
+/** Maximum matches recorded as evidence */
+const MAX_RECORDED_MATCHES = 50;
+
+/** Maximum snippet length per match */
+const MAX_SNIPPET_LENGTH = 200;
+
+/**
+ * A single regex match within a file
+ */
+export interface PatternMatch {
+  /** File path relative to the workspace */
+  file: string;
+  /** 1-based line number where the match starts */
+  line: number;
+  /** The matching line, trimmed */
+  snippet: string;
+}
+
+/**
+ * Find all matches of a regex in file content
+ */
+export function findMatches(file: string, content: string, regex: RegExp): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lines = content.split('\n');
+  const global = new RegExp(
+    regex.source,
+    regex.flags.includes('g') ? regex.flags : regex.flags + 'g'
+  );
+
+  let match: RegExpExecArray | null;
+  while ((match = global.exec(content)) !== null) {
+    const line = content.substring(0, match.index).split('\n').length;
+    matches.push({
+      file,
+      line,
+      snippet: lines[line - 1].trim().substring(0, MAX_SNIPPET_LENGTH),
+    });
+
+    // Avoid infinite loops on zero-length matches
+    if (match[0].length === 0) {
+      global.lastIndex++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Format matches as human-readable evidence lines
+ */
+function formatMatches(matches: PatternMatch[]): string {
+  return matches.map((m) => `  ${m.file}:${m.line}: ${m.snippet}`).join('\n');
+}
+
+/**
+ * Run a pattern evaluator against the workspace
+ */
+export async function evaluatePattern(
+  evaluator: PatternEvaluator,
+  context: EvaluationContext
+): Promise<EvaluatorOutcome> {
+  const flags = evaluator.ignoreCase ? 'i' : '';
+
+  let failRegex: RegExp | undefined;
+  let requireRegex: RegExp | undefined;
+  try {
+    failRegex = evaluator.failIfMatch ? new RegExp(evaluator.failIfMatch, flags) : undefined;
+    requireRegex = evaluator.requireMatch ? new RegExp(evaluator.requireMatch, flags) : undefined;
+  } catch (err) {
+    return {
+      passed: false,
+      score: 0,
+      evidence: `Invalid pattern: ${(err as Error).message}`,
+      error: (err as Error).message,
+    };
+  }
+
+  const files = expandGlob(context.workspaceDir, evaluator.files);
+  const violations: PatternMatch[] = [];
+  const requiredMatches: PatternMatch[] = [];
+  const dirtyFiles = new Set<string>();
+  let filesChecked = 0;
+
+  for (const file of files) {
+    const content = readTextFile(path.join(context.workspaceDir, file));
+    if (content === null) continue;
+    filesChecked++;
+
+    if (failRegex) {
+      const found = findMatches(file, content, failRegex);
+      if (found.length > 0) {
+        dirtyFiles.add(file);
+        violations.push(...found);
+      }
+    }
+
+    if (requireRegex) {
+      requiredMatches.push(...findMatches(file, content, requireRegex));
+    }
+  }
+
+  const cleanFiles = filesChecked - dirtyFiles.size;
+  const requirementMet = !requireRegex || requiredMatches.length > 0;
+
+  // Score: fraction of clean files (partial credit) or all-or-nothing
+  let score: number;
+  if (dirtyFiles.size === 0) {
+    score = 1.0;
+  } else if (evaluator.partialCredit && filesChecked > 0) {
+    score = cleanFiles / filesChecked;
+  } else {
+    score = 0.0;
+  }
+  if (!requirementMet) {
+    score = 0.0;
+  }
+
+  const passThreshold = evaluator.passThreshold ?? 1.0;
+  const passed = requirementMet && score >= passThreshold;
+
+  // Build evidence
+  const evidenceLines: string[] = [
+    `Checked ${filesChecked} file${filesChecked === 1 ? '' : 's'} matching ${evaluator.files}`,
+  ];
+  if (failRegex) {
+    if (violations.length > 0) {
+      evidenceLines.push(
+        `Forbidden pattern found in ${dirtyFiles.size} file${dirtyFiles.size === 1 ? '' : 's'}:`
+      );
+      evidenceLines.push(formatMatches(violations.slice(0, MAX_RECORDED_MATCHES)));
+      if (violations.length > MAX_RECORDED_MATCHES) {
+        evidenceLines.push(`  ... (${violations.length - MAX_RECORDED_MATCHES} more matches)`);
+      }
+    } else {
+      evidenceLines.push('Forbidden pattern not found');
+    }
+  }
+  if (requireRegex) {
+    evidenceLines.push(
+      requirementMet
+        ? `Required pattern found (${requiredMatches.length} match${requiredMatches.length === 1 ? '' : 'es'})`
+        : 'Required pattern not found in any file'
+    );
+  }
+
+  return {
+    passed,
+    score,
+    evidence: evidenceLines.join('\n'),
+    details: {
+      filesChecked,
+      cleanFiles,
+      violations: violations.slice(0, MAX_RECORDED_MATCHES),
+      requiredMatches: requiredMatches.slice(0, MAX_RECORDED_MATCHES),
+      requirementMet,
+    },
+  };
+}
@@ -11,6 +11,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import {
+  AgentTrace,
   Case,
   CaseResult,
   CriterionResult,
@@ -18,13 +19,35 @@ import {
   RunResult,
   RunSummary,
   EvaluatorType,
+  TrialResult,
 } from '../cases/types';
-import { createSandboxManager, checkDocker, RECOMMENDED_IMAGES } from '../sandbox';
-import { Sandbox, SandboxConfig } from '../sandbox/types';
+import {
+  createSandboxManager,
+  checkSandbox,
+  getBackendDisplayName,
+  RECOMMENDED_IMAGES,
+  trackChanges,
+} from '../sandbox';
+import { ChangeSet, NetworkPolicy, Sandbox, SandboxConfig } from '../sandbox/types';
 import { getRubricRegistry } from '../rubrics/loader';
+import { getAgent } from '../agents/registry';
+import { withRecording } from '../agents/replay';
+import { TrajectoryCaptureAgent } from '../agents/trajectory';
+import { AgentRunSettings, checkRunLimits, resolveRunSettings } from '../agents/limits';
+import { AgentEvent, AgentResult, AgentWrapper } from '../agents/types';
+import { countSelfCorrections, computeBehaviorMetrics } from '../metrics/behavior';
+import { computeTrialStats } from '../metrics/trials';
+import { EvaluationContext, EvaluatorOutcome } from './types';
+import { evaluateCommand } from './command';
+import { evaluatePattern } from './pattern';
+import { evaluateBenchmark } from './benchmark';
+import { evaluateDiff } from './diff';
+import { evaluateAgentBehavior } from './behavior';
+import { evaluateLLMJudge } from './judge';
+import { JudgeBackend } from '../judge/types';
 
 export interface RunnerOptions {
-  /** Agent being evaluated (for logging) */
+  /** Name of the agent being evaluated (resolved through the agent registry) */
   agent: string;
 
   /** Timeout per case in seconds */
@@ -33,11 +56,35 @@ export interface RunnerOptions {
   /** Enable network in sandbox */
   networkEnabled?: boolean;
 
+  /** Network egress policy of case sandboxes (takes precedence over networkEnabled) */
+  network?: NetworkPolicy;
+
+  /** Maximum number of cases (and sandboxes) running at once (default: 1) */
+  concurrency?: number;
+
+  /** Number of times to run each case (default: 1) */
+  trials?: number;
+
   /** Callback for progress updates */
   onProgress?: (update: ProgressUpdate) => void;
 
   /** Callback when a case completes */
   onCaseComplete?: (result: CaseResult) => void;
+
+  /** Callback for streaming agent events while a case runs */
+  onAgentEvent?: (caseId: string, event: AgentEvent) => void;
+
+  /** Judge backend for llm_judge evaluators (default: configured from environment) */
+  judge?: JudgeBackend;
+
+  /** Record each agent run as a transcript in this directory */
+  recordDir?: string;
+
+  /** Save full agent trajectories under this directory, in a subdirectory named by run ID */
+  trajectoriesDir?: string;
+
+  /** Model, budget, turn and tool settings for every case (merged with case expectations) */
+  settings?: AgentRunSettings;
 }
 
 export interface ProgressUpdate {
@@ -45,6 +92,8 @@ export interface ProgressUpdate {
   caseId: string;
   caseIndex: number;
   totalCases: number;
+  /** Trial number (1-based), when running multiple trials */
+  trial?: number;
   message?: string;
 }
 
@@ -80,19 +129,38 @@ function getImageForLanguage(language: string): string {
 export async function runCases(cases: Case[], options: RunnerOptions): Promise<RunResult> {
   const runId = `run-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
   const startedAt = new Date();
-  const results: CaseResult[] = [];
 
-  // Check Docker availability first
-  const dockerStatus = await checkDocker();
-  if (!dockerStatus.available) {
-    throw new Error(`Docker is not available: ${dockerStatus.error}\n${dockerStatus.suggestion}`);
+  // Check the sandbox backend first
+  const sandboxStatus = await checkSandbox();
+  if (!sandboxStatus.available) {
+    throw new Error(
+      `${getBackendDisplayName(sandboxStatus.backend)} is not available: ${sandboxStatus.error}\n${sandboxStatus.suggestion}`
+    );
   }
 
+  // Resolve the agent up front so an unknown or missing agent fails the whole run
+  const registered = getAgent(options.agent);
+  if (!(await registered.isAvailable())) {
+    throw new Error(`${registered.displayName} is not available. Make sure '${registered.name}' is installed and in your PATH.`);
+  }
+  const recorded = options.recordDir ? withRecording(registered, options.recordDir) : registered;
+  const agent = options.trajectoriesDir
+    ? new TrajectoryCaptureAgent(recorded, runId, path.join(options.trajectoriesDir, runId))
+    : recorded;
+
   const manager = createSandboxManager();
+  const requested = Number.isFinite(options.concurrency) ? (options.concurrency as number) : 1;
+  const concurrency = Math.max(1, Math.min(requested, cases.length));
+  const trials = Number.isFinite(options.trials) ? Math.max(1, options.trials as number) : 1;
+
+  // Results are stored by case index so their order doesn't depend on completion order
+  const results: CaseResult[] = new Array(cases.length);
+  let nextIndex = 0;
   let runRubricId = 'default';
 
-  try {
-    for (let i = 0; i < cases.length; i++) {
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < cases.length) {
+      const i = nextIndex++;
       const caseData = cases[i];
 
       options.onProgress?.({
@@ -103,31 +171,49 @@ export async function runCases(cases: Case[], options: RunnerOptions): Promise<R
         message: `Starting ${caseData.title}`,
       });
 
-      try {
-        const result = await runSingleCase(caseData, manager, options, i, cases.length);
-        results.push(result);
-        options.onCaseComplete?.(result);
-        // Track the rubric ID from the first case
-        if (i === 0) {
-          const registry = getRubricRegistry();
-          const rubric = registry.resolve(caseData.rubric);
-          runRubricId = rubric.id;
+      const trialResults: CaseResult[] = [];
+      for (let trial = 1; trial <= trials; trial++) {
+        if (trials > 1) {
+          options.onProgress?.({
+            type: 'running',
+            caseId: caseData.id,
+            caseIndex: i,
+            totalCases: cases.length,
+            trial,
+            message: `Trial ${trial}/${trials}`,
+          });
+        }
+
+        try {
+          trialResults.push(await runSingleCase(caseData, agent, manager, options, i, cases.length, trial));
+          // Track the rubric ID from the first case
+          if (i === 0 && trial === 1) {
+            const registry = getRubricRegistry();
+            const rubric = registry.resolve(caseData.rubric);
+            runRubricId = rubric.id;
+          }
+        } catch (err) {
+          trialResults.push({
+            caseId: caseData.id,
+            score: 0,
+            passed: false,
+            criteriaResults: [],
+            durationMs: 0,
+            timedOut: false,
+            error: (err as Error).message,
+            timestamp: new Date(),
+          });
         }
-      } catch (err) {
-        const errorResult: CaseResult = {
-          caseId: caseData.id,
-          score: 0,
-          passed: false,
-          criteriaResults: [],
-          durationMs: 0,
-          timedOut: false,
-          error: (err as Error).message,
-          timestamp: new Date(),
-        };
-        results.push(errorResult);
-        options.onCaseComplete?.(errorResult);
       }
+
+      results[i] = trials > 1 ? aggregateTrials(caseData.id, trialResults) : trialResults[0];
+      options.onCaseComplete?.(results[i]);
     }
+  };
+
+  try {
+    // Each worker holds at most one sandbox at a time, bounding the pool to `concurrency`
+    await Promise.all(Array.from({ length: concurrency }, () => runNext()));
   } finally {
     // Clean up all sandboxes
     await manager.destroyAll();
@@ -143,13 +229,22 @@ export async function runCases(cases: Case[], options: RunnerOptions): Promise<R
   const summary: RunSummary = {
     total: results.length,
     passed: results.filter((r) => r.passed).length,
-    failed: results.filter((r) => !r.passed && !r.error).length,
+    failed: results.filter((r) => !r.passed && !r.error && !r.budgetExceeded).length,
     skipped: 0,
     timedOut: results.filter((r) => r.timedOut).length,
+    budgetExceeded: results.filter((r) => r.budgetExceeded).length,
+    errored: results.filter((r) => r.error).length,
     averageScore,
     totalDurationMs,
   };
 
+  if (trials > 1) {
+    summary.trials = trials;
+    summary.caseStats = Object.fromEntries(
+      results.filter((r) => r.trialStats).map((r) => [r.caseId, r.trialStats!])
+    );
+  }
+
   return {
     runId,
     startedAt,
@@ -161,15 +256,56 @@ export async function runCases(cases: Case[], options: RunnerOptions): Promise<R
   };
 }
 
+/**
+ * Combine the trials of one case into a single case result
+ *
+ * The case score is the mean trial score and the case passes when a majority
+ * of trials pass. Criteria results are taken from the first trial; every
+ * trial is kept under `trials`.
+ */
+function aggregateTrials(caseId: string, trialResults: CaseResult[]): CaseResult {
+  const trialStats = computeTrialStats(
+    trialResults.map((r) => r.score),
+    trialResults.map((r) => r.passed)
+  );
+  const errors = trialResults.filter((r) => r.error);
+
+  return {
+    caseId,
+    score: trialStats.mean,
+    passed: trialStats.passes > trialResults.length / 2,
+    criteriaResults: trialResults[0].criteriaResults,
+    answer: trialResults[0].answer,
+    model: trialResults[0].model,
+    behaviorMetrics: trialResults[0].behaviorMetrics,
+    changes: trialResults[0].changes,
+    durationMs: trialResults.reduce((sum, r) => sum + r.durationMs, 0),
+    timedOut: trialResults.every((r) => r.timedOut),
+    budgetExceeded: trialResults.every((r) => r.budgetExceeded)
+      ? trialResults[0].budgetExceeded
+      : undefined,
+    error: errors.length === trialResults.length ? errors[0].error : undefined,
+    timestamp: new Date(),
+    trials: trialResults.map((r, index) => {
+      const trialResult: TrialResult & { caseId?: string } = { ...r, trial: index + 1 };
+      delete trialResult.caseId;
+      return trialResult;
+    }),
+    trialStats,
+  };
+}
+
 /**
  * Run a single case in a sandbox
  */
 async function runSingleCase(
   caseData: Case,
+  agent: AgentWrapper,
   manager: ReturnType<typeof createSandboxManager>,
   options: RunnerOptions,
   caseIndex: number,
-  totalCases: number
+  totalCases: number,
+  trial: number
 ): Promise<CaseResult> {
   const startTime = Date.now();
 
@@ -197,6 +333,7 @@ async function runSingleCase(
       image: getImageForLanguage(caseData.language),
       timeoutSeconds: options.timeoutSeconds || 300,
       networkEnabled: options.networkEnabled || false,
+      network: options.network,
     };
 
     options.onProgress?.({
@@ -213,6 +350,28 @@ async function runSingleCase(
       // Install dependencies if needed
       await installDependencies(sandbox, caseData.language, options, caseIndex, totalCases, caseData.id);
 
+      // Snapshot the prepared workspace so the agent's changes can be reported
+      const tracker = trackChanges(tempDir);
+
+      // Let the agent attempt the case in the workspace
+      options.onProgress?.({
+        type: 'running',
+        caseId: caseData.id,
+        caseIndex,
+        totalCases,
+        message: `Running ${agent.displayName}...`,
+      });
+
+      let agentResult: AgentResult;
+      let changes: ChangeSet;
+      try {
+        agentResult = await runAgent(agent, caseData, tempDir, sandbox, options, trial);
+        changes = tracker.capture();
+      } finally {
+        tracker.dispose();
+      }
+      const agentTrace = buildAgentTrace(agentResult);
+
       // Evaluate using the rubric
       options.onProgress?.({
         type: 'validating',
@@ -222,7 +381,10 @@ async function runSingleCase(
         message: 'Evaluating with rubric...',
       });
 
-      const result = await evaluateWithRubric(caseData, sandbox, options);
+      const result = await evaluateWithRubric(
+        { caseData, sandbox, workspaceDir: tempDir, agentTrace, changes, judge: options.judge },
+        options
+      );
       const durationMs = Date.now() - startTime;
 
       options.onProgress?.({
@@ -230,11 +392,27 @@ async function runSingleCase(
         caseId: caseData.id,
         caseIndex,
         totalCases,
-        message: result.passed ? `Passed (${(result.score * 100).toFixed(0)}%)` : `Failed (${(result.score * 100).toFixed(0)}%)`,
+        message: result.passed ? `Passed (${result.score.toFixed(0)}%)` : `Failed (${result.score.toFixed(0)}%)`,
       });
 
+      const limitHit = agentResult.budgetExceeded;
+      const error =
+        !agentResult.success && !agentResult.timedOut && !limitHit
+          ? `Agent failed: ${agentResult.error}`
+          : undefined;
+
       return {
         ...result,
+        // Going over a run limit or erroring never passes, whatever the rubric says
+        passed: result.passed && !limitHit && !error,
+        agentTrace,
+        answer: agentResult.answer,
+        model: agentResult.model,
+        behaviorMetrics: computeBehaviorMetrics(agentResult),
+        changes,
+        timedOut: agentResult.timedOut,
+        budgetExceeded: limitHit,
+        error,
         durationMs,
         timestamp: new Date(),
       };
@@ -252,13 +430,58 @@ async function runSingleCase(
 }
 
 /**
- * Evaluate a case using its rubric
+ * Run the agent on a case prompt inside the prepared workspace,
+ * applying the run settings and the case's behavior expectations as run limits
  */
-async function evaluateWithRubric(
+async function runAgent(
+  agent: AgentWrapper,
   caseData: Case,
+  workspaceDir: string,
   sandbox: Sandbox,
+  options: RunnerOptions,
+  trial: number
+): Promise<AgentResult> {
+  const expectations = caseData.expectations || {};
+  const timeoutSeconds = expectations.maxTimeSeconds || options.timeoutSeconds || 300;
+
+  const settings = resolveRunSettings(options.settings, expectations);
+
+  const result = await agent.run(caseData.prompt, {
+    ...settings,
+    cwd: workspaceDir,
+    timeoutMs: timeoutSeconds * 1000,
+    onEvent: (event) => options.onAgentEvent?.(caseData.id, event),
+    caseId: caseData.id,
+    trial,
+    exec: (command, timeoutMs) =>
+      sandbox.exec(command, { timeoutSeconds: Math.ceil(timeoutMs / 1000) }),
+  });
+
+  return checkRunLimits(result, settings);
+}
+
+/**
+ * Build the case-level agent trace from an agent result
+ */
+function buildAgentTrace(result: AgentResult): AgentTrace {
+  return {
+    totalTimeMs: result.durationMs,
+    totalTokens: result.tokens.totalTokens,
+    iterations: result.numTurns,
+    toolsUsed: result.toolsUsed,
+    toolCallCount: result.toolCalls.length,
+    selfCorrections: countSelfCorrections(result.toolCalls),
+  };
+}
+
+/**
+ * Evaluate a case using its rubric
+ */
+async function evaluateWithRubric(
+  context: EvaluationContext,
   _options: RunnerOptions
 ): Promise<Omit<CaseResult, 'durationMs' | 'timestamp'>> {
+  const { caseData } = context;
   const registry = getRubricRegistry();
   const rubric = registry.resolve(caseData.rubric);
 
@@ -274,56 +497,20 @@ async function evaluateWithRubric(
 
     for (const evaluator of criterion.evaluators) {
       const evalStartTime = Date.now();
-      let evalResult: Omit<EvaluatorResult, 'name' | 'type' | 'durationMs'>;
+      let evalResult: EvaluatorOutcome;
 
       if (evaluator.type === 'command') {
-        // Run command evaluator
-        const result = await sandbox.exec(evaluator.run, {
-          timeoutSeconds: 60,
-        });
-
-        const passed = result.exitCode === 0;
-        let score = passed ? 1.0 : 0.0;
-
-        // Handle partial credit
-        if (evaluator.partialCredit && !passed) {
-          // For test runners, try to parse pass/fail ratio
-          const testMatch = result.stdout.match(/(\d+) passed/);
-          const failMatch = result.stdout.match(/(\d+) failed/);
-          if (testMatch && failMatch) {
-            const passedTests = parseInt(testMatch[1], 10);
-            const failedTests = parseInt(failMatch[1], 10);
-            const total = passedTests + failedTests;
-            if (total > 0) {
-              score = passedTests / total;
-            }
-          }
-        }
-
-        evalResult = {
-          passed,
-          score,
-          evidence: (result.stdout + '\n' + result.stderr).trim(),
-          details: {
-            exitCode: result.exitCode,
-            timedOut: result.timedOut,
-          },
-        };
+        evalResult = await evaluateCommand(evaluator, context);
       } else if (evaluator.type === 'pattern') {
-        // Run pattern evaluator (check for matches in files)
-        // For now, just pass - full implementation will use grep/find
-        evalResult = {
-          passed: true,
-          score: 1.0,
-          evidence: 'Pattern check not fully implemented',
-        };
+        evalResult = await evaluatePattern(evaluator, context);
+      } else if (evaluator.type === 'benchmark') {
+        evalResult = await evaluateBenchmark(evaluator, context);
+      } else if (evaluator.type === 'diff') {
+        evalResult = await evaluateDiff(evaluator, context);
+      } else if (evaluator.type === 'agent_behavior') {
+        evalResult = evaluateAgentBehavior(evaluator, context);
       } else {
-        // Other evaluator types (llm_judge, benchmark, etc.) - placeholder
-        evalResult = {
-          passed: true,
-          score: 1.0,
-          evidence: 'Evaluator type not yet implemented',
-        };
+        evalResult = await evaluateLLMJudge(evaluator, context);
       }
 
       const evalDurationMs = Date.now() - evalStartTime;
@@ -0,0 +1,89 @@
+/**
+ * Numeric scoring against min/max/target bounds
+ *
+ * Shared by evaluators that grade a measured value (benchmarks, agent behavior).
+ */
+
+/**
+ * Bounds a measured value is graded against
+ */
+export interface NumericBounds {
+  /** Minimum acceptable value */
+  min?: number;
+
+  /** Maximum acceptable value */
+  max?: number;
+
+  /** Ideal value (used for partial credit within bounds) */
+  target?: number;
+}
+
+/**
+ * Result of grading a value against bounds
+ */
+export interface NumericScore {
+  /** Score from 0.0 to 1.0 */
+  score: number;
+
+  /** Whether the value satisfies min/max */
+  withinBounds: boolean;
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Score a value against bounds
+ *
+ * Without partial credit the score is 1 inside the bounds and 0 outside.
+ * With partial credit:
+ * - values outside the bounds score by ratio to the violated bound
+ *   (e.g. 150ms against max 100ms scores 0.67)
+ * - values inside the bounds score by closeness to `target`, falling off
+ *   linearly towards the bound on that side
+ */
+export function scoreNumericValue(
+  value: number,
+  bounds: NumericBounds,
+  partialCredit = false
+): NumericScore {
+  const { min, max, target } = bounds;
+  const belowMin = min !== undefined && value < min;
+  const aboveMax = max !== undefined && value > max;
+  const withinBounds = !belowMin && !aboveMax;
+
+  if (!withinBounds) {
+    if (!partialCredit) {
+      return { score: 0, withinBounds };
+    }
+    if (belowMin) {
+      return { score: min > 0 && value > 0 ? clamp(value / min) : 0, withinBounds };
+    }
+    return { score: value > 0 && max! > 0 ? clamp(max! / value) : 0, withinBounds };
+  }
+
+  if (target === undefined || !partialCredit || value === target) {
+    return { score: 1, withinBounds };
+  }
+
+  // Distance to target relative to the span between target and the nearest bound
+  const bound = value < target ? min : max;
+  const span = bound !== undefined ? Math.abs(target - bound) : Math.abs(target);
+  if (span === 0) {
+    return { score: 1, withinBounds };
+  }
+
+  return { score: clamp(1 - Math.abs(value - target) / span), withinBounds };
+}
+
+/**
+ * Describe bounds for evidence output ("min 10, max 200, target 50")
+ */
+export function describeBounds(bounds: NumericBounds): string {
+  const parts: string[] = [];
+  if (bounds.min !== undefined) parts.push(`min ${bounds.min}`);
+  if (bounds.max !== undefined) parts.push(`max ${bounds.max}`);
+  if (bounds.target !== undefined) parts.push(`target ${bounds.target}`);
+  return parts.length > 0 ? parts.join(', ') : 'no bounds';
+}
@@ -0,0 +1,35 @@
+/**
+ * Evaluation types shared by the runner and individual evaluators
+ */
+
+import { AgentTrace, Case, EvaluatorResult } from '../cases/types';
+import { ChangeSet, Sandbox } from '../sandbox/types';
+import { JudgeBackend } from '../judge/types';
+
+/**
+ * Everything an evaluator can look at when grading a case
+ */
+export interface EvaluationContext {
+  /** The case being evaluated */
+  caseData: Case;
+
+  /** Sandbox the case ran in (commands execute here) */
+  sandbox: Sandbox;
+
+  /** Host path of the workspace mounted into the sandbox */
+  workspaceDir: string;
+
+  /** Trace of the agent run that produced the workspace, if any */
+  agentTrace?: AgentTrace;
+
+  /** Files the agent changed in the workspace, if captured */
+  changes?: ChangeSet;
+
+  /** Backend for llm_judge evaluators (defaults to the environment-configured judge) */
+  judge?: JudgeBackend;
+}
+
+/**
+ * Result produced by an evaluator, before the runner adds name, type and timing
+ */
+export type EvaluatorOutcome = Omit<EvaluatorResult, 'name' | 'type' | 'durationMs'>;
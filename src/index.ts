@@ -21,3 +21,6 @@ export * from './cases';
 
 // Evaluation module for programmatic use
 export * from './evaluation';
+
+// Judge module for programmatic use
+export * from './judge';
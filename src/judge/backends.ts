@@ -0,0 +1,128 @@
+/**
+ * Judge backends
+ *
+ * - ClaudeJudgeBackend: grades through the Claude Agent SDK with all tools
+ *   disabled, reusing whatever authentication the claude-code agent uses.
+ * - OpenAICompatibleJudgeBackend: grades through any server speaking the
+ *   OpenAI chat completions API (hosted providers, local model servers, stubs).
+ */
+
+import { JudgeBackend, JudgeRequest, JudgeResponse } from './types';
+
+type Options = import('@anthropic-ai/claude-agent-sdk').Options;
+
+/** Default model for Claude judging */
+const DEFAULT_CLAUDE_JUDGE_MODEL = 'claude-haiku-4-5-20251001';
+
+/** Default request timeout for judge calls */
+const DEFAULT_JUDGE_TIMEOUT_MS = 120000;
+
+/**
+ * Judge backend using the Claude Agent SDK
+ */
+export class ClaudeJudgeBackend implements JudgeBackend {
+  name = 'claude';
+
+  constructor(private defaultModel: string = DEFAULT_CLAUDE_JUDGE_MODEL) {}
+
+  async complete(request: JudgeRequest): Promise<JudgeResponse> {
+    const sdk = await import('@anthropic-ai/claude-agent-sdk');
+
+    const abortController = new AbortController();
+    const timeoutId = setTimeout(() => abortController.abort(), DEFAULT_JUDGE_TIMEOUT_MS);
+
+    const options: Options = {
+      model: request.model || this.defaultModel,
+      systemPrompt: request.system,
+      // Grading is a single answer with no tool use
+      tools: [],
+      maxTurns: 1,
+      settingSources: [],
+      abortController,
+    };
+
+    let text = '';
+    let model: string | undefined;
+    try {
+      for await (const message of sdk.query({ prompt: request.prompt, options })) {
+        if (message.type === 'system' && message.subtype === 'init') {
+          model = message.model;
+        }
+        if (message.type === 'result') {
+          if (message.subtype !== 'success') {
+            throw new Error(`Judge query failed: ${message.subtype}`);
+          }
+          text = message.result;
+        }
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    return { text, model };
+  }
+}
+
+/**
+ * Options for an OpenAI-compatible judge backend
+ */
+export interface OpenAICompatibleJudgeOptions {
+  /** Base URL including the API version path (e.g., "http://localhost:8080/v1") */
+  baseUrl: string;
+
+  /** API key sent as a bearer token (optional for local servers) */
+  apiKey?: string;
+
+  /** Default model name */
+  model: string;
+
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Judge backend for OpenAI-compatible chat completion APIs
+ */
+export class OpenAICompatibleJudgeBackend implements JudgeBackend {
+  name = 'openai-compatible';
+
+  constructor(private options: OpenAICompatibleJudgeOptions) {}
+
+  async complete(request: JudgeRequest): Promise<JudgeResponse> {
+    const url = `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model || this.options.model,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_JUDGE_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Judge request failed (${response.status}): ${body.substring(0, 200)}`);
+    }
+
+    const data = (await response.json()) as {
+      model?: string;
+      choices?: Array<{ message?: { content?: string } }>;
+    };
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('Judge response did not contain a message');
+    }
+
+    return { text, model: data.model };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * LLM judge subsystem for sniffbench
+ *
+ * Grades subjective criteria (code quality, readability, documentation)
+ * by asking a model to score the agent's work.
+ *
+ * The backend is chosen from the environment:
+ * - SNIFF_JUDGE_URL set: OpenAI-compatible server at that base URL
+ *   (with SNIFF_JUDGE_API_KEY and SNIFF_JUDGE_MODEL)
+ * - otherwise: Claude via the Agent SDK
+ */
+
+import { ClaudeJudgeBackend, OpenAICompatibleJudgeBackend } from './backends';
+import { JudgeBackend } from './types';
+
+export * from './types';
+export * from './prompt';
+export * from './backends';
+
+/**
+ * Create the judge backend configured by the environment
+ */
+export function createDefaultJudgeBackend(env: NodeJS.ProcessEnv = process.env): JudgeBackend {
+  if (env.SNIFF_JUDGE_URL) {
+    return new OpenAICompatibleJudgeBackend({
+      baseUrl: env.SNIFF_JUDGE_URL,
+      apiKey: env.SNIFF_JUDGE_API_KEY,
+      model: env.SNIFF_JUDGE_MODEL || 'gpt-4o-mini',
+    });
+  }
+
+  return new ClaudeJudgeBackend(env.SNIFF_JUDGE_MODEL || undefined);
+}
@@ -0,0 +1,109 @@
+/**
+ * Judge prompt rendering and response parsing
+ */
+
+import { JudgePromptInput, JudgeVerdict } from './types';
+
+/**
+ * System instructions shared by all judge requests
+ */
+export const JUDGE_SYSTEM_PROMPT =
+  'You are a strict, consistent code reviewer grading the work of an AI coding agent. ' +
+  'Judge only what is in front of you, cite specific files or lines when you can, ' +
+  'and always answer in the requested format.';
+
+/**
+ * Grading criteria for each built-in evaluation mode
+ */
+const CRITERIA: Record<Exclude<JudgePromptInput['evaluate'], 'custom'>, string> = {
+  code_quality:
+    'Grade the overall code quality: correctness of approach, error handling, ' +
+    'idiomatic use of the language, and absence of dead code or needless complexity.',
+  readability:
+    'Grade readability: clear naming, sensible structure and function size, ' +
+    'consistent formatting, and whether a new contributor could follow the code.',
+  documentation:
+    'Grade documentation: doc comments on public APIs, comments that explain why ' +
+    '(not what), and accuracy of any README or usage notes that were touched.',
+};
+
+/**
+ * Render the grading prompt for a judge request
+ */
+export function buildJudgePrompt(input: JudgePromptInput): string {
+  const criteria =
+    input.evaluate === 'custom'
+      ? input.customPrompt || "Grade the quality of the agent's work."
+      : CRITERIA[input.evaluate];
+
+  const sections: string[] = [
+    '## Task given to the agent',
+    input.task.trim(),
+    '',
+    '## Grading criteria',
+    criteria.trim(),
+  ];
+
+  if (input.diff) {
+    sections.push('', "## Agent's changes (unified diff)", '```diff', input.diff, '```');
+  }
+
+  if (input.files.length > 0) {
+    sections.push('', '## Files');
+    for (const file of input.files) {
+      sections.push('', `### ${file.path}`, '```', file.content, '```');
+    }
+  }
+
+  sections.push(
+    '',
+    '## Response format',
+    'Respond with a single JSON object and nothing else:',
+    '{"score": <integer 0-10>, "rationale": "<2-5 sentences explaining the score>"}'
+  );
+
+  return sections.join('\n');
+}
+
+/**
+ * Normalize a raw score to 0.0-1.0 (scores are requested out of 10)
+ */
+function normalizeScore(raw: number, outOf = 10): number {
+  return Math.max(0, Math.min(1, raw / outOf));
+}
+
+/**
+ * Parse a judge response into a score and rationale
+ *
+ * Accepts the requested JSON object (optionally inside a code fence), and
+ * falls back to "Score: 7/10" style text. Throws if no score can be found.
+ */
+export function parseJudgeResponse(text: string): JudgeVerdict {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    try {
+      const parsed = JSON.parse(jsonMatch[0]) as Record<string, unknown>;
+      const score = Number(parsed.score);
+      if (parsed.score !== undefined && Number.isFinite(score)) {
+        return {
+          score: normalizeScore(score),
+          rationale: String(parsed.rationale ?? parsed.reason ?? '').trim(),
+        };
+      }
+    } catch {
+      // Fall through to text parsing
+    }
+  }
+
+  const scoreMatch = text.match(/score\s*[:=]\s*(\d+(?:\.\d+)?)\s*(?:\/\s*(\d+))?/i);
+  if (scoreMatch) {
+    const outOf = scoreMatch[2] ? parseInt(scoreMatch[2], 10) : 10;
+    const rationaleMatch = text.match(/rationale\s*[:=]\s*([\s\S]+)/i);
+    return {
+      score: normalizeScore(parseFloat(scoreMatch[1]), outOf),
+      rationale: (rationaleMatch ? rationaleMatch[1] : text.replace(scoreMatch[0], '')).trim(),
+    };
+  }
+
+  throw new Error(`Could not parse a score from judge response: ${text.substring(0, 200)}`);
+}
@@ -0,0 +1,83 @@
+/**
+ * Judge types - LLM grading of subjective criteria
+ */
+
+/**
+ * A grading request sent to a judge backend
+ */
+export interface JudgeRequest {
+  /** System instructions for the judge */
+  system: string;
+
+  /** The grading prompt (task, files, diff, output format) */
+  prompt: string;
+
+  /** Model override (backend default if unset) */
+  model?: string;
+}
+
+/**
+ * Raw response from a judge backend
+ */
+export interface JudgeResponse {
+  /** Text returned by the model */
+  text: string;
+
+  /** Model that actually answered, if reported */
+  model?: string;
+}
+
+/**
+ * A backend capable of answering grading prompts
+ *
+ * Implementations wrap a model provider; tests can supply a deterministic fake.
+ */
+export interface JudgeBackend {
+  /** Backend identifier (e.g., "claude", "openai-compatible") */
+  name: string;
+
+  /** Send a grading request and return the model's text */
+  complete(request: JudgeRequest): Promise<JudgeResponse>;
+}
+
+/**
+ * A file shown to the judge
+ */
+export interface JudgeFile {
+  /** Path relative to the workspace */
+  path: string;
+
+  /** File content (possibly truncated) */
+  content: string;
+}
+
+/**
+ * Inputs used to render a grading prompt
+ */
+export interface JudgePromptInput {
+  /** What to evaluate */
+  evaluate: 'code_quality' | 'readability' | 'documentation' | 'custom';
+
+  /** Custom grading instructions (required when evaluate=custom) */
+  customPrompt?: string;
+
+  /** The task the agent was given */
+  task: string;
+
+  /** Files to show the judge */
+  files: JudgeFile[];
+
+  /** Unified diff of the agent's changes */
+  diff?: string;
+}
+
+/**
+ * Parsed judge verdict
+ */
+export interface JudgeVerdict {
+  /** Score from 0.0 to 1.0 */
+  score: number;
+
+  /** The judge's explanation */
+  rationale: string;
+}
@@ -5,11 +5,14 @@
  * These metrics help understand agent efficiency and patterns.
  */
 
-import { AgentResult, BehaviorMetrics } from '../agents/types.js';
+import { AgentResult, BehaviorMetrics, ToolCall } from '../agents/types.js';
 
 /** Tools considered "exploration" (read-only research) */
 const EXPLORATION_TOOLS = ['Read', 'Glob', 'Grep', 'WebFetch', 'WebSearch'];
 
+/** Tools that modify files */
+const EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
 /**
  * Compute behavior metrics from an agent result
  */
@@ -64,6 +67,32 @@ export function computeBehaviorMetrics(result: AgentResult): BehaviorMetrics {
   };
 }
 
+/**
+ * Count self-corrections in a tool call sequence
+ *
+ * A self-correction is an edit to a file the agent already edited
+ * earlier in the same run - i.e. the agent revisiting its own change.
+ */
+export function countSelfCorrections(toolCalls: ToolCall[]): number {
+  const editedFiles = new Set<string>();
+  let corrections = 0;
+
+  for (const call of toolCalls) {
+    if (!EDIT_TOOLS.includes(call.name)) continue;
+
+    const filePath = call.input.file_path ?? call.input.notebook_path;
+    if (typeof filePath !== 'string') continue;
+
+    if (editedFiles.has(filePath)) {
+      corrections++;
+    } else {
+      editedFiles.add(filePath);
+    }
+  }
+
+  return corrections;
+}
+
 /**
  * Format behavior metrics for display
  */
@@ -5,3 +5,4 @@
  */
 
 export * from './behavior.js';
+export * from './trials.js';
@@ -0,0 +1,105 @@
+/**
+ * Trial statistics
+ *
+ * Agent outputs are nondeterministic, so a case can be run several times.
+ * These helpers summarize the spread of scores across trials.
+ */
+
+/**
+ * Summary statistics for repeated trials of one case
+ */
+export interface TrialStats {
+  /** Number of trials */
+  trials: number;
+  /** Mean score */
+  mean: number;
+  /** Sample standard deviation of scores (0 for a single trial) */
+  stddev: number;
+  /** Lowest score */
+  min: number;
+  /** Highest score */
+  max: number;
+  /** Number of trials that passed */
+  passes: number;
+  /** Probability that a single trial passes (the pass rate) */
+  passAt1: number;
+  /** k used for pass@k (defaults to the number of trials) */
+  k: number;
+  /** Probability that at least one of k sampled trials passes */
+  passAtK: number;
+}
+
+/**
+ * Round to 4 decimals for stable storage and display
+ */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Unbiased pass@k estimator
+ *
+ * Given n trials with c passes, estimates the probability that at least one
+ * of k trials drawn without replacement passes: 1 - C(n-c, k) / C(n, k).
+ */
+export function passAtK(n: number, c: number, k: number): number {
+  if (n <= 0 || k <= 0) return 0;
+  if (n - c < k) return 1;
+
+  // Product form avoids large binomial coefficients
+  let allFail = 1;
+  for (let i = n - c + 1; i <= n; i++) {
+    allFail *= 1 - k / i;
+  }
+  return 1 - allFail;
+}
+
+/**
+ * Compute statistics over trial scores and pass/fail outcomes
+ */
+export function computeTrialStats(scores: number[], passed: boolean[], k?: number): TrialStats {
+  const n = scores.length;
+  if (n === 0) {
+    return {
+      trials: 0,
+      mean: 0,
+      stddev: 0,
+      min: 0,
+      max: 0,
+      passes: 0,
+      passAt1: 0,
+      k: 0,
+      passAtK: 0,
+    };
+  }
+
+  const mean = scores.reduce((sum, s) => sum + s, 0) / n;
+  const variance = n > 1 ? scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / (n - 1) : 0;
+  const passes = passed.filter(Boolean).length;
+  const effectiveK = Math.min(k ?? n, n);
+
+  return {
+    trials: n,
+    mean: round(mean),
+    stddev: round(Math.sqrt(variance)),
+    min: Math.min(...scores),
+    max: Math.max(...scores),
+    passes,
+    passAt1: round(passes / n),
+    k: effectiveK,
+    passAtK: round(passAtK(n, passes, effectiveK)),
+  };
+}
+
+/**
+ * Format trial stats on one line, e.g.
+ * "mean 0.72 ± 0.10 (min 0.60, max 0.85), pass@1 0.67, pass@3 1.00"
+ */
+export function formatTrialStats(stats: TrialStats, scale = 1, digits = 2): string {
+  const f = (v: number) => (v * scale).toFixed(digits);
+  const passAtKText = stats.k > 1 ? `, pass@${stats.k} ${stats.passAtK.toFixed(2)}` : '';
+  return (
+    `mean ${f(stats.mean)} ± ${f(stats.stddev)} (min ${f(stats.min)}, max ${f(stats.max)}), ` +
+    `pass@1 ${stats.passAt1.toFixed(2)}${passAtKText}`
+  );
+}
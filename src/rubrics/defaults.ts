@@ -61,7 +61,6 @@ export const defaultRubric: Rubric = {
           files: '**/*.{js,ts,py,go,java}',
           failIfMatch: '(password|secret|api_key|apikey|auth_token)\\s*[=:]\\s*["\'][^"\']{8,}["\']',
           ignoreCase: true,
-          optional: true,
         },
       ],
     },
@@ -12,6 +12,7 @@ import * as crypto from 'crypto';
 import { AgentConfig, McpServerConfig, FullMcpServerConfig } from './types';
 import type { SandboxableSnapshot } from '../variants/types';
 import { AgentWrapper } from '../agents/types';
+import type { AgentRunSettings } from '../agents/limits';
 
 /** Claude Code main config file location */
 const CLAUDE_CONFIG_PATH = path.join(os.homedir(), '.claude.json');
@@ -293,6 +294,40 @@ export async function capturePartialAgentConfig(
   };
 }
 
+/**
+ * Record the settings a run was started with in its agent config
+ *
+ * Settings given for the run replace the ambient tool lists and permission
+ * mode; the model is only used while the agent hasn't reported one.
+ */
+export function applyRunSettings(config: AgentConfig, settings: AgentRunSettings = {}): AgentConfig {
+  const applied: AgentConfig = { ...config };
+
+  if (settings.model && (!applied.model || applied.model === 'unknown')) {
+    applied.model = settings.model;
+  }
+  if (settings.allowedTools) {
+    applied.allowedTools = settings.allowedTools;
+  }
+  if (settings.disallowedTools) {
+    applied.disallowedTools = settings.disallowedTools;
+  }
+  if (settings.permissionMode) {
+    applied.permissionMode = settings.permissionMode;
+  }
+  if (settings.maxBudgetUsd !== undefined) {
+    applied.maxBudgetUsd = settings.maxBudgetUsd;
+  }
+  if (settings.maxTurns !== undefined) {
+    applied.maxTurns = settings.maxTurns;
+  }
+  if (settings.maxTokens !== undefined) {
+    applied.maxTokens = settings.maxTokens;
+  }
+
+  return applied;
+}
+
 /**
  * Format agent config for display
  */
@@ -331,6 +366,11 @@ export function formatAgentConfig(config: AgentConfig): string {
     parts.push(`Thinking: ${config.thinkingEnabled ? 'enabled' : 'disabled'}`);
   }
 
+  const limits = formatRunLimits(config);
+  if (limits) {
+    parts.push(`Limits: ${limits}`);
+  }
+
   if (config.variantId) {
     parts.push(`Variant: ${config.variantId}`);
   }
@@ -338,6 +378,23 @@ export function formatAgentConfig(config: AgentConfig): string {
   return parts.join('\n');
 }
 
+/**
+ * Summarize the run limits in an agent config (empty when there are none)
+ */
+export function formatRunLimits(config: AgentConfig): string {
+  const limits: string[] = [];
+  if (config.maxBudgetUsd !== undefined) {
+    limits.push(`$${config.maxBudgetUsd}`);
+  }
+  if (config.maxTurns !== undefined) {
+    limits.push(`${config.maxTurns} turns`);
+  }
+  if (config.maxTokens !== undefined) {
+    limits.push(`${config.maxTokens} tokens`);
+  }
+  return limits.join(', ');
+}
+
 /**
  * Compare two agent configs and return differences
  */
@@ -439,6 +496,13 @@ export function diffAgentConfig(
     });
   }
 
+  // Run limits diff
+  const limits1 = formatRunLimits(config1);
+  const limits2 = formatRunLimits(config2);
+  if (limits1 !== limits2) {
+    diffs.push({ field: 'Limits', old: limits1 || 'none', new: limits2 || 'none' });
+  }
+
   // Variant ID diff
   if (config1.variantId !== config2.variantId) {
     diffs.push({
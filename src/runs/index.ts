@@ -11,11 +11,16 @@ export type {
   McpServerConfig,
   FullMcpServerConfig,
   AgentConfig,
+  CaseTrial,
+  FollowUpTurn,
+  RubricCriterionScore,
+  RubricCaseResult,
   CaseRun,
   ClosedIssueComparisonDetails,
   ClosedIssueComparison,
   ClosedIssueCaseRun,
   RunType,
+  RunSweep,
   Run,
   RunStore,
   LegacyBaseline,
@@ -54,11 +59,17 @@ export {
   captureAgentConfig,
   capturePartialAgentConfig,
   captureSandboxableSnapshot,
+  applyRunSettings,
   readClaudeMdContent,
   formatAgentConfig,
+  formatRunLimits,
   diffAgentConfig,
 } from './config';
 
+// Model sweeps
+export type { SweepCell, SweepTotals, SweepMatrix } from './sweep';
+export { generateSweepId, findRunsBySweep, buildSweepMatrix, formatSweepMatrix } from './sweep';
+
 // Migration
 export {
   getLegacyBaselinePath,
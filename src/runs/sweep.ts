@@ -0,0 +1,197 @@
+/**
+ * Model sweeps
+ *
+ * A sweep runs the same case set once per model. Each model's results are a
+ * separate run; the runs share a sweep ID so they can be shown side by side.
+ */
+
+import { Run, RunStore } from './types';
+
+/**
+ * One case result for one model
+ */
+export interface SweepCell {
+  /** Grade out of 10, if graded */
+  grade?: number;
+  /** Total tokens (input + output) */
+  tokens: number;
+  /** Cost in USD */
+  costUsd: number;
+  /** Agent time in milliseconds, if recorded */
+  durationMs?: number;
+}
+
+/**
+ * Totals for one model across the cases it answered
+ */
+export interface SweepTotals {
+  /** Mean grade of graded cases */
+  meanGrade?: number;
+  tokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+/**
+ * Results of a sweep, by case and model
+ */
+export interface SweepMatrix {
+  /** Models in the order they were run */
+  models: string[];
+  /** Cases in first-seen order */
+  caseIds: string[];
+  /** Cells keyed by case ID, then model (missing when the model skipped the case) */
+  cells: Record<string, Record<string, SweepCell>>;
+  /** Totals keyed by model */
+  totals: Record<string, SweepTotals>;
+}
+
+/**
+ * Generate a unique sweep ID
+ * Format: sweep-{timestamp}-{6char random}
+ */
+export function generateSweepId(): string {
+  const timestamp = Date.now();
+  const random = Math.random().toString(36).substring(2, 8);
+  return `sweep-${timestamp}-${random}`;
+}
+
+/**
+ * Find the runs of a sweep, oldest first (the order the models were run)
+ */
+export function findRunsBySweep(store: RunStore, sweepId: string): Run[] {
+  return Object.values(store.runs)
+    .filter((run) => run.sweep?.id === sweepId)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+/**
+ * Arrange the runs of a sweep by case and model
+ */
+export function buildSweepMatrix(runs: Run[]): SweepMatrix {
+  const matrix: SweepMatrix = { models: [], caseIds: [], cells: {}, totals: {} };
+
+  for (const run of runs) {
+    const model = run.sweep?.model || run.agent.model;
+    matrix.models.push(model);
+
+    const totals: SweepTotals = { tokens: 0, costUsd: 0, durationMs: 0 };
+    const grades: number[] = [];
+
+    for (const [caseId, caseRun] of Object.entries(run.cases)) {
+      if (!matrix.cells[caseId]) {
+        matrix.caseIds.push(caseId);
+        matrix.cells[caseId] = {};
+      }
+
+      const cell: SweepCell = {
+        grade: caseRun.grade,
+        tokens: caseRun.behaviorMetrics.totalTokens,
+        costUsd: caseRun.behaviorMetrics.costUsd,
+        durationMs: caseRun.durationMs,
+      };
+      matrix.cells[caseId][model] = cell;
+
+      totals.tokens += cell.tokens;
+      totals.costUsd += cell.costUsd;
+      totals.durationMs += cell.durationMs || 0;
+      if (cell.grade !== undefined) {
+        grades.push(cell.grade);
+      }
+    }
+
+    if (grades.length > 0) {
+      totals.meanGrade = grades.reduce((sum, g) => sum + g, 0) / grades.length;
+    }
+    matrix.totals[model] = totals;
+  }
+
+  return matrix;
+}
+
+/**
+ * Pad or truncate plain text to a column width
+ */
+function pad(text: string, width: number, align: 'left' | 'right' = 'left'): string {
+  const clipped = text.substring(0, width);
+  return align === 'left' ? clipped.padEnd(width) : clipped.padStart(width);
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function formatSeconds(ms?: number): string {
+  return ms === undefined ? '-' : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatCell(
+  grade: number | undefined,
+  tokens: number,
+  costUsd: number,
+  ms?: number
+): string {
+  const gradeText = grade === undefined ? '-' : `${Math.round(grade * 10) / 10}/10`;
+  return [
+    pad(gradeText, 7),
+    pad(formatTokens(tokens), 7, 'right'),
+    pad(`$${costUsd.toFixed(3)}`, 8, 'right'),
+    pad(formatSeconds(ms), 7, 'right'),
+  ].join(' ');
+}
+
+/** Width of one model column: grade, tokens, cost and time */
+const CELL_WIDTH = 32;
+
+/**
+ * Format a sweep as a table: one row per case, one column per model,
+ * each cell showing grade, tokens, cost and time
+ */
+export function formatSweepMatrix(matrix: SweepMatrix): string {
+  const caseWidth = Math.max(8, ...matrix.caseIds.map((id) => id.length));
+  const row = (label: string, cells: string[]) => [pad(label, caseWidth), ...cells].join('   ');
+
+  const lines = [
+    row(
+      'Case',
+      matrix.models.map((m) => pad(m, CELL_WIDTH))
+    ),
+    row(
+      '',
+      matrix.models.map(() =>
+        [
+          pad('Grade', 7),
+          pad('Tokens', 7, 'right'),
+          pad('Cost', 8, 'right'),
+          pad('Time', 7, 'right'),
+        ].join(' ')
+      )
+    ),
+  ];
+
+  for (const caseId of matrix.caseIds) {
+    lines.push(
+      row(
+        caseId,
+        matrix.models.map((model) => {
+          const cell = matrix.cells[caseId][model];
+          return cell
+            ? formatCell(cell.grade, cell.tokens, cell.costUsd, cell.durationMs)
+            : pad('(not run)', CELL_WIDTH);
+        })
+      )
+    );
+  }
+
+  lines.push(
+    row(
+      'Total',
+      matrix.models.map((model) => {
+        const totals = matrix.totals[model];
+        return formatCell(totals.meanGrade, totals.tokens, totals.costUsd, totals.durationMs);
+      })
+    )
+  );
+
+  return lines.join('\n');
+}
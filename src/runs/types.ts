@@ -5,6 +5,10 @@
  * enabling meaningful comparison between different agent setups.
  */
 
+import type { TrialStats } from '../metrics/trials';
+import type { BudgetLimit } from '../agents/types';
+import type { FileChange, NetworkPolicy } from '../sandbox/types';
+
 /**
  * Behavior metrics captured during a case run
  * (Matches the existing BehaviorMetrics from metrics module)
@@ -81,10 +85,93 @@ export interface AgentConfig {
   /** Whether thinking mode is enabled */
   thinkingEnabled?: boolean;
 
+  /** Cost limit per case in USD (`--max-budget`) */
+  maxBudgetUsd?: number;
+  /** Turn limit per case (`--max-turns`) */
+  maxTurns?: number;
+  /** Token limit per case (`--max-tokens`) */
+  maxTokens?: number;
+
   /** Reference to registered variant (if linked) */
   variantId?: string;
 }
 
+/**
+ * One trial of a case, when the case was run more than once
+ */
+export interface CaseTrial {
+  /** Agent's answer (empty if the trial failed) */
+  answer: string;
+  /** Human-assigned grade (1-10), if graded */
+  grade?: number;
+  /** ISO timestamp of when grading occurred */
+  gradedAt?: string;
+  /** Optional notes from grader */
+  notes?: string;
+  /** Error message if the agent failed or timed out */
+  error?: string;
+  /** Run limit the agent went over, if any */
+  budgetExceeded?: BudgetLimit;
+  /** Duration in milliseconds */
+  durationMs?: number;
+  /** Behavior metrics from the trial */
+  behaviorMetrics: BehaviorMetrics;
+  /** Follow-up turns asked after the answer */
+  followUps?: FollowUpTurn[];
+}
+
+/**
+ * A follow-up question asked in the same session after the case prompt
+ */
+export interface FollowUpTurn {
+  /** The follow-up question */
+  prompt: string;
+  /** Agent's answer (empty if the turn failed) */
+  answer: string;
+  /** Error message if the agent failed or timed out */
+  error?: string;
+  /** Duration in milliseconds */
+  durationMs?: number;
+  /** Behavior metrics for this turn alone */
+  behaviorMetrics: BehaviorMetrics;
+}
+
+/**
+ * Score of one rubric criterion for a case
+ */
+export interface RubricCriterionScore {
+  /** Criterion name */
+  name: string;
+  /** Criterion weight */
+  weight: number;
+  /** Raw score from 0.0 to 1.0 */
+  score: number;
+  /** Whether the criterion passed */
+  passed: boolean;
+}
+
+/**
+ * Rubric grading details for a case from `sniff run`
+ */
+export interface RubricCaseResult {
+  /** Overall rubric score (0-100) */
+  score: number;
+  /** Whether the case passed the rubric */
+  passed: boolean;
+  /** Whether the agent timed out */
+  timedOut: boolean;
+  /** Run limit the agent went over, if any */
+  budgetExceeded?: BudgetLimit;
+  /** Error if something went wrong */
+  error?: string;
+  /** Duration in milliseconds */
+  durationMs: number;
+  /** Per-criterion scores */
+  criteria: RubricCriterionScore[];
+  /** Files the agent changed (the diff is only kept in exported results) */
+  changedFiles?: FileChange[];
+}
+
 /**
  * Result of running a single case within a run
  */
@@ -101,6 +188,16 @@ export interface CaseRun {
   notes?: string;
   /** Behavior metrics from the run */
   behaviorMetrics: BehaviorMetrics;
+  /** Agent time in milliseconds (summed over trials) */
+  durationMs?: number;
+  /** Every trial, when the case was run more than once (grade is then the mean) */
+  trials?: CaseTrial[];
+  /** Score spread across trials (scores as percentages, 0-100) */
+  trialStats?: TrialStats;
+  /** Rubric grading details (rubric runs only; grade is then score / 10) */
+  rubric?: RubricCaseResult;
+  /** Follow-up turns asked after the answer (the grade covers the whole conversation) */
+  followUps?: FollowUpTurn[];
 }
 
 /**
@@ -162,7 +259,7 @@ export interface ClosedIssueCaseRun {
 /**
  * Run type discriminator
  */
-export type RunType = 'interview' | 'closed-issues';
+export type RunType = 'interview' | 'closed-issues' | 'rubric';
 
 /**
  * A complete run - one interview session with all cases
@@ -172,18 +269,32 @@ export interface Run {
   id: string;
   /** Optional human-readable label (e.g., "baseline", "after-tuning") */
   label?: string;
-  /** Run type: 'interview' or 'closed-issues' */
+  /** Run type: 'interview', 'closed-issues' or 'rubric' */
   type?: RunType;
   /** ISO timestamp when run was created */
   createdAt: string;
   /** Agent configuration at time of run */
   agent: AgentConfig;
-  /** Results per case: key is caseId (for interview runs) */
+  /** Model sweep this run belongs to, when it was one of several models run together */
+  sweep?: RunSweep;
+  /** Network egress policy of the sandboxes the run used */
+  network?: NetworkPolicy;
+  /** Results per case: key is caseId (for interview and rubric runs) */
   cases: Record<string, CaseRun>;
   /** Results per case: key is caseId (for closed-issues runs) */
   closedIssueCases?: Record<string, ClosedIssueCaseRun>;
 }
 
+/**
+ * Link from a run to the model sweep that produced it
+ */
+export interface RunSweep {
+  /** Sweep ID shared by every run of the sweep: "sweep-{timestamp}-{randomId}" */
+  id: string;
+  /** Model requested for this run */
+  model: string;
+}
+
 /**
  * Root store for all runs
  */
@@ -0,0 +1,77 @@
+/**
+ * Sandbox Backend Selection Tests
+ *
+ * Resolves the backend from the environment, project config and the tools on PATH.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  SandboxBackendError,
+  detectSandboxBackend,
+  parseSandboxBackend,
+  resolveSandboxBackend,
+} from '../backend';
+
+describe('sandbox backend selection', () => {
+  let dir: string;
+  let binDir: string;
+
+  const writeConfig = (yaml: string) => {
+    fs.mkdirSync(path.join(dir, '.sniffbench'), { recursive: true });
+    fs.writeFileSync(path.join(dir, '.sniffbench', 'config.yaml'), yaml);
+  };
+  const installPodman = () => {
+    fs.writeFileSync(path.join(binDir, 'podman'), '#!/bin/sh\n');
+    fs.chmodSync(path.join(binDir, 'podman'), 0o755);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-backend-'));
+    binDir = path.join(dir, 'bin');
+    fs.mkdirSync(binDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should validate backend names', () => {
+    expect(parseSandboxBackend('podman', 'x')).toBe('podman');
+    expect(parseSandboxBackend('auto', 'x')).toBeUndefined();
+    expect(parseSandboxBackend(undefined, 'x')).toBeUndefined();
+    expect(() => parseSandboxBackend('lxc', 'sandbox.backend')).toThrow(SandboxBackendError);
+  });
+
+  it('should prefer a reachable Docker daemon, then an installed podman', () => {
+    const socket = path.join(dir, 'docker.sock');
+    const env = { PATH: binDir };
+
+    expect(detectSandboxBackend(env, socket)).toBe('docker');
+    installPodman();
+    expect(detectSandboxBackend(env, socket)).toBe('podman');
+    expect(detectSandboxBackend({ ...env, DOCKER_HOST: 'tcp://localhost:2375' }, socket)).toBe(
+      'docker'
+    );
+    fs.writeFileSync(socket, '');
+    expect(detectSandboxBackend(env, socket)).toBe('docker');
+  });
+
+  it('should use the environment over the project config', () => {
+    writeConfig('sandbox:\n  backend: podman\n');
+
+    expect(resolveSandboxBackend(dir, { PATH: binDir })).toBe('podman');
+    expect(resolveSandboxBackend(dir, { PATH: binDir, SNIFF_SANDBOX_BACKEND: 'docker' })).toBe(
+      'docker'
+    );
+  });
+
+  it('should reject invalid config', () => {
+    writeConfig('sandbox:\n  backend: lxc\n');
+    expect(() => resolveSandboxBackend(dir, {})).toThrow(/sandbox.backend must be one of/);
+
+    writeConfig('sandbox: podman\n');
+    expect(() => resolveSandboxBackend(dir, {})).toThrow(SandboxBackendError);
+  });
+});
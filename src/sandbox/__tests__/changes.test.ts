@@ -0,0 +1,98 @@
+/**
+ * Change Capture Tests
+ *
+ * Snapshots a temporary workspace, changes it the way an agent would, and
+ * checks the change set.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChangeTracker, MAX_CHANGE_DIFF_LENGTH, summarizeChanges, trackChanges } from '../changes';
+
+describe('ChangeTracker', () => {
+  let dir: string;
+  let tracker: ChangeTracker | undefined;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-changes-test-'));
+    fs.writeFileSync(path.join(dir, 'keep.txt'), 'unchanged\n');
+    fs.writeFileSync(path.join(dir, 'edit.ts'), 'const a = 1;\nconst b = 2;\n');
+    fs.writeFileSync(path.join(dir, 'remove.ts'), 'gone\n');
+    fs.writeFileSync(path.join(dir, 'image.bin'), Buffer.from([0, 1, 2, 3]));
+  });
+
+  afterEach(() => {
+    tracker?.dispose();
+    tracker = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report added, modified and deleted files with line counts and binary markers', () => {
+    tracker = trackChanges(dir);
+    fs.writeFileSync(path.join(dir, 'edit.ts'), 'const a = 1;\nconst b = 3;\nconst c = 4;\n');
+    fs.rmSync(path.join(dir, 'remove.ts'));
+    fs.mkdirSync(path.join(dir, 'src'));
+    fs.writeFileSync(path.join(dir, 'src', 'new file.ts'), 'export {};\n');
+    fs.writeFileSync(path.join(dir, 'image.bin'), Buffer.from([0, 9, 9, 9]));
+
+    const changes = tracker.capture();
+
+    expect(changes.files).toEqual([
+      { path: 'edit.ts', status: 'modified', binary: false, additions: 2, deletions: 1 },
+      { path: 'image.bin', status: 'modified', binary: true, additions: 0, deletions: 0 },
+      { path: 'remove.ts', status: 'deleted', binary: false, additions: 0, deletions: 1 },
+      { path: 'src/new file.ts', status: 'added', binary: false, additions: 1, deletions: 0 },
+    ]);
+    expect(changes.diff).toContain('--- a/edit.ts\n+++ b/edit.ts');
+    expect(changes.diff).toContain('-const b = 2;\n+const b = 3;\n+const c = 4;');
+    expect(changes.diff).toContain('Binary files a/image.bin and b/image.bin differ');
+    expect(changes.diffTruncated).toBeUndefined();
+    expect(summarizeChanges(changes.files)).toBe('4 files changed: 1 added, 2 modified, 1 deleted');
+  });
+
+  it('should leave out dependency directories and the workspace .gitignore', () => {
+    fs.writeFileSync(path.join(dir, '.gitignore'), 'dist/\n');
+    tracker = trackChanges(dir);
+    fs.mkdirSync(path.join(dir, 'node_modules', 'dep'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'node_modules', 'dep', 'index.js'), '');
+    fs.mkdirSync(path.join(dir, 'dist'));
+    fs.writeFileSync(path.join(dir, 'dist', 'out.js'), '');
+
+    const changes = tracker.capture();
+
+    expect(changes).toEqual({ files: [], diff: '' });
+    expect(summarizeChanges(changes.files)).toBe('No files changed');
+    expect(fs.readdirSync(dir)).not.toContain('.git');
+  });
+
+  it('should truncate large diffs but list every file', () => {
+    tracker = trackChanges(dir);
+    fs.writeFileSync(path.join(dir, 'big.txt'), 'line\n'.repeat(50000));
+
+    const changes = tracker.capture();
+
+    expect(changes.files.map((f) => f.path)).toEqual(['big.txt']);
+    expect(changes.diffTruncated).toBe(true);
+    expect(changes.diff.length).toBeLessThan(MAX_CHANGE_DIFF_LENGTH + 100);
+  });
+
+  it('should apply changes to another copy of the directory', () => {
+    const target = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-changes-target-'));
+    try {
+      fs.cpSync(dir, target, { recursive: true });
+      tracker = trackChanges(dir);
+      fs.writeFileSync(path.join(dir, 'edit.ts'), 'const a = 10;\n');
+      fs.writeFileSync(path.join(dir, 'image.bin'), Buffer.from([7, 7]));
+      fs.rmSync(path.join(dir, 'remove.ts'));
+
+      tracker.applyTo(target);
+
+      expect(fs.readFileSync(path.join(target, 'edit.ts'), 'utf-8')).toBe('const a = 10;\n');
+      expect(fs.readFileSync(path.join(target, 'image.bin'))).toEqual(Buffer.from([7, 7]));
+      expect(fs.existsSync(path.join(target, 'remove.ts'))).toBe(false);
+    } finally {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+});
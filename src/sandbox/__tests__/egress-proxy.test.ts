@@ -0,0 +1,132 @@
+/**
+ * Egress Proxy Tests
+ *
+ * Runs the proxy against a local stand-in upstream, so no network is needed.
+ */
+
+import * as http from 'http';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { createEgressProxy, isHostAllowed, EgressDecision } from '../egress-proxy';
+
+function listen(server: net.Server): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+function close(server: net.Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+/**
+ * Plain HTTP request through the proxy
+ */
+function proxiedGet(proxyPort: number, url: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port: proxyPort, path: url }, (res) => {
+      let body = '';
+      res.on('data', (chunk) => (body += chunk));
+      res.on('end', () => resolve({ status: res.statusCode || 0, body }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * Open a CONNECT tunnel through the proxy and send a line through it
+ */
+function tunnel(proxyPort: number, authority: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(proxyPort, '127.0.0.1', () => {
+      socket.write(`CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n\r\n`);
+    });
+    let data = '';
+    socket.on('data', (chunk) => {
+      data += chunk.toString();
+      if (data.startsWith('HTTP/1.1 200') && data.endsWith('\r\n\r\n')) {
+        socket.write('ping\n');
+      }
+    });
+    socket.on('end', () => resolve(data));
+    socket.on('error', reject);
+  });
+}
+
+describe('isHostAllowed', () => {
+  it('should match exact hosts and wildcard subdomains', () => {
+    const allowed = ['api.anthropic.com', '*.githubusercontent.com'];
+
+    expect(isHostAllowed('API.anthropic.com', allowed)).toBe(true);
+    expect(isHostAllowed('raw.githubusercontent.com', allowed)).toBe(true);
+    expect(isHostAllowed('githubusercontent.com', allowed)).toBe(false);
+    expect(isHostAllowed('api.anthropic.com.evil.test', allowed)).toBe(false);
+    expect(isHostAllowed('example.com', allowed)).toBe(false);
+  });
+});
+
+describe('createEgressProxy', () => {
+  let upstream: http.Server;
+  let upstreamPort: number;
+  let echo: net.Server;
+  let echoPort: number;
+  let proxy: http.Server;
+  let proxyPort: number;
+  let decisions: EgressDecision[];
+
+  beforeEach(async () => {
+    upstream = http.createServer((req, res) => res.end(`upstream ${req.method} ${req.url}`));
+    upstreamPort = await listen(upstream);
+
+    // Stand-in for a TLS endpoint: echoes a line back and closes
+    echo = net.createServer((socket) => socket.once('data', (d) => socket.end(`echo ${d}`)));
+    echoPort = await listen(echo);
+
+    decisions = [];
+    proxy = createEgressProxy({
+      allowedHosts: ['127.0.0.1'],
+      onDecision: (d) => decisions.push(d),
+    });
+    proxyPort = await listen(proxy);
+  });
+
+  afterEach(async () => {
+    proxy.closeAllConnections();
+    await Promise.all([close(proxy), close(upstream), close(echo)]);
+  });
+
+  it('should forward plain HTTP to allowed hosts', async () => {
+    const res = await proxiedGet(proxyPort, `http://127.0.0.1:${upstreamPort}/v1/messages?x=1`);
+
+    expect(res).toEqual({ status: 200, body: 'upstream GET /v1/messages?x=1' });
+    expect(decisions).toEqual([{ host: '127.0.0.1', port: upstreamPort, allowed: true }]);
+  });
+
+  it('should refuse plain HTTP to other hosts', async () => {
+    const res = await proxiedGet(proxyPort, 'http://example.com/');
+
+    expect(res.status).toBe(403);
+    expect(res.body).toContain('example.com');
+    expect(decisions).toEqual([{ host: 'example.com', port: 80, allowed: false }]);
+  });
+
+  it('should tunnel CONNECT to allowed hosts', async () => {
+    const data = await tunnel(proxyPort, `127.0.0.1:${echoPort}`);
+
+    expect(data).toBe('HTTP/1.1 200 Connection Established\r\n\r\necho ping\n');
+  });
+
+  it('should refuse CONNECT to other hosts', async () => {
+    const data = await tunnel(proxyPort, 'example.com:443');
+
+    expect(data).toBe('HTTP/1.1 403 Forbidden\r\n\r\n');
+    expect(decisions).toEqual([{ host: 'example.com', port: 443, allowed: false }]);
+  });
+
+  it('should reject requests that are not for a proxy', async () => {
+    const res = await proxiedGet(proxyPort, '/relative');
+
+    expect(res.status).toBe(400);
+  });
+});
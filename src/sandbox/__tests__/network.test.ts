@@ -0,0 +1,114 @@
+/**
+ * Sandbox Network Policy Tests
+ *
+ * Resolves policies from sandbox configs, flags and project config, and plans proxy sidecars.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  NetworkPolicyError,
+  formatNetworkPolicy,
+  getNetworkPolicy,
+  parseNetworkMode,
+  planEgressSidecar,
+  resolveEgressProxyScript,
+  resolveNetworkPolicy,
+} from '../network';
+
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  return { ...actual, existsSync: jest.fn(actual.existsSync) };
+});
+
+describe('network policy', () => {
+  let dir: string;
+
+  const writeConfig = (yaml: string) => {
+    fs.mkdirSync(path.join(dir, '.sniffbench'), { recursive: true });
+    fs.writeFileSync(path.join(dir, '.sniffbench', 'config.yaml'), yaml);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-network-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fall back to networkEnabled when no policy is set', () => {
+    expect(getNetworkPolicy({ workdir: dir })).toEqual({ mode: 'none' });
+    expect(getNetworkPolicy({ workdir: dir, networkEnabled: true })).toEqual({ mode: 'full' });
+    expect(
+      getNetworkPolicy({ workdir: dir, networkEnabled: true, network: { mode: 'none' } })
+    ).toEqual({ mode: 'none' });
+  });
+
+  it('should validate modes', () => {
+    expect(parseNetworkMode('api-only', 'x')).toBe('api-only');
+    expect(parseNetworkMode(undefined, 'x')).toBeUndefined();
+    expect(() => parseNetworkMode('host', '--network')).toThrow(NetworkPolicyError);
+  });
+
+  it('should take the mode from the flag, then the config, then the default', () => {
+    writeConfig('sandbox:\n  network: api-only\n  allowedHosts:\n    - registry.npmjs.org\n');
+
+    expect(resolveNetworkPolicy(dir, { mode: 'none' })).toEqual({
+      mode: 'api-only',
+      allowedHosts: ['api.anthropic.com', 'registry.npmjs.org'],
+    });
+    expect(resolveNetworkPolicy(dir, { mode: 'none' }, 'full')).toEqual({ mode: 'full' });
+    expect(resolveNetworkPolicy(path.join(dir, 'missing'), { mode: 'none' })).toEqual({
+      mode: 'none',
+    });
+  });
+
+  it('should extend the default allowlist without duplicates', () => {
+    writeConfig('sandbox:\n  allowedHosts: [mcp.linear.app, api.anthropic.com]\n');
+
+    const policy = resolveNetworkPolicy(dir, {
+      mode: 'api-only',
+      allowedHosts: ['api.anthropic.com', 'mcp.linear.app'],
+    });
+
+    expect(policy.allowedHosts).toEqual(['api.anthropic.com', 'mcp.linear.app']);
+    expect(formatNetworkPolicy(policy)).toBe('api-only (api.anthropic.com, mcp.linear.app)');
+  });
+
+  it('should reject invalid config', () => {
+    writeConfig('sandbox:\n  network: host\n');
+    expect(() => resolveNetworkPolicy(dir, { mode: 'none' })).toThrow(/sandbox.network/);
+
+    writeConfig('sandbox:\n  network: api-only\n  allowedHosts: api.anthropic.com\n');
+    expect(() => resolveNetworkPolicy(dir, { mode: 'none' })).toThrow(/allowedHosts/);
+  });
+
+  it('should point the sandbox at its proxy sidecar', () => {
+    // Tests run from the sources, which have no compiled proxy until a build
+    jest.mocked(fs.existsSync).mockReturnValueOnce(true);
+
+    const sidecar = planEgressSidecar('sniff-1', ['api.anthropic.com', '*.example.com']);
+
+    expect(sidecar.networkName).toBe('sniff-1-net');
+    expect(sidecar.proxyName).toBe('sniff-1-proxy');
+    expect(sidecar.proxyEnv.SNIFF_EGRESS_ALLOWED_HOSTS).toBe('api.anthropic.com,*.example.com');
+    expect(sidecar.sandboxEnv.HTTPS_PROXY).toBe('http://sniff-1-proxy:3128');
+    expect(sidecar.proxyScript).toBe(path.join(__dirname, '..', 'egress-proxy.js'));
+  });
+
+  it('should find the compiled proxy script next to the module or in dist', () => {
+    const buildDir = path.join(dir, 'dist', 'sandbox');
+    const sourceDir = path.join(dir, 'src', 'sandbox');
+    fs.mkdirSync(buildDir, { recursive: true });
+    fs.mkdirSync(sourceDir, { recursive: true });
+
+    expect(() => resolveEgressProxyScript(sourceDir)).toThrow(NetworkPolicyError);
+    expect(() => resolveEgressProxyScript(sourceDir)).toThrow(/npm run build/);
+
+    fs.writeFileSync(path.join(buildDir, 'egress-proxy.js'), '');
+    expect(resolveEgressProxyScript(buildDir)).toBe(path.join(buildDir, 'egress-proxy.js'));
+    expect(resolveEgressProxyScript(sourceDir)).toBe(path.join(buildDir, 'egress-proxy.js'));
+  });
+});
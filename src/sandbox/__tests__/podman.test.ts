@@ -0,0 +1,158 @@
+/**
+ * Podman Sandbox Tests
+ *
+ * Drives PodmanSandboxManager against a fake podman script that logs its arguments.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { PodmanSandboxManager, PodmanNotAvailableError } from '../podman';
+
+// Tests run from the sources, which have no compiled egress proxy until a build
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  return {
+    ...actual,
+    existsSync: (p: string) => p.endsWith('egress-proxy.js') || actual.existsSync(p),
+  };
+});
+
+function fakePodman(logFile: string, rootless: boolean): string {
+  return `#!/bin/sh
+echo "$@" >> ${logFile}
+case "$1" in
+  version) echo "5.2.1" ;;
+  info) echo "${rootless}" ;;
+  image) exit 0 ;;
+  run) echo "container-id" ;;
+  exec) for arg; do last="$arg"; done; sh -c "$last" ;;
+esac
+`;
+}
+
+describe('PodmanSandboxManager', () => {
+  let dir: string;
+  let logFile: string;
+  let command: string;
+
+  const writeScript = (rootless: boolean) => {
+    fs.writeFileSync(command, fakePodman(logFile, rootless));
+    fs.chmodSync(command, 0o755);
+  };
+  const calls = () => fs.readFileSync(logFile, 'utf-8').trim().split('\n');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-podman-'));
+    logFile = path.join(dir, 'calls.log');
+    command = path.join(dir, 'podman');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report version and rootless mode', async () => {
+    writeScript(true);
+    const status = await new PodmanSandboxManager({ command }).checkAvailability();
+
+    expect(status).toEqual({
+      available: true,
+      backend: 'podman',
+      version: '5.2.1',
+      rootless: true,
+    });
+  });
+
+  it('should report a missing podman with install hints', async () => {
+    const manager = new PodmanSandboxManager({ command: path.join(dir, 'missing') });
+    const status = await manager.checkAvailability();
+
+    expect(status.available).toBe(false);
+    expect(status.error).toBe('Podman is not installed');
+    expect(status.suggestion).toContain('podman');
+    await expect(manager.create({ workdir: dir })).rejects.toBeInstanceOf(PodmanNotAvailableError);
+  });
+
+  it('should start rootless containers isolated and mapped to the host user', async () => {
+    writeScript(true);
+    const manager = new PodmanSandboxManager({ command });
+    const sandbox = await manager.create({ workdir: dir, env: { CI: '1' } });
+
+    const run = calls().find((line) => line.startsWith('run '))!;
+    expect(run).toContain(`--volume ${dir}:/workspace`);
+    expect(run).toContain('--env CI=1');
+    expect(run).toContain('--network none');
+    expect(run).toContain('--userns keep-id');
+    expect(run).toContain('--cap-drop ALL');
+    expect(run).toMatch(/--entrypoint sleep node:20-slim infinity$/);
+
+    await manager.destroyAll();
+    expect(sandbox.status).toBe('destroyed');
+    expect(calls().pop()).toBe(`rm --force --time 1 ${sandbox.id}`);
+  });
+
+  it('should run as the host user by ID when podman runs as root', async () => {
+    writeScript(false);
+    const manager = new PodmanSandboxManager({ command });
+    await manager.create({ workdir: dir, networkEnabled: true, runAsHostUser: true });
+
+    const run = calls().find((line) => line.startsWith('run '))!;
+    expect(run).not.toContain('--userns');
+    expect(run).toContain(`--user ${process.getuid!()}:${process.getgid!()}`);
+    expect(run).not.toContain('--network');
+    await manager.destroyAll();
+  });
+
+  it('should route api-only sandboxes through a proxy sidecar and remove it', async () => {
+    writeScript(true);
+    const manager = new PodmanSandboxManager({ command });
+    const sandbox = await manager.create({
+      workdir: dir,
+      network: { mode: 'api-only', allowedHosts: ['api.anthropic.com'] },
+    });
+    const net = `${sandbox.id}-net`;
+    const proxy = `${sandbox.id}-proxy`;
+
+    const lines = calls();
+    expect(lines).toContain(`network create --internal ${net}`);
+    const proxyRun = lines.find((line) => line.startsWith(`run --detach --name ${proxy}`))!;
+    expect(proxyRun).toContain(`--network podman --network ${net}`);
+    expect(proxyRun).toContain('--env SNIFF_EGRESS_ALLOWED_HOSTS=api.anthropic.com');
+    const run = lines.find((line) => line.startsWith(`run --detach --name ${sandbox.id} `))!;
+    expect(run).toContain(`--network ${net}`);
+    expect(run).toContain(`--env HTTPS_PROXY=http://${proxy}:3128`);
+
+    await manager.destroyAll();
+    expect(calls().slice(-3)).toEqual([
+      `rm --force --time 1 ${sandbox.id}`,
+      `rm --force --time 1 ${proxy}`,
+      `network rm ${net}`,
+    ]);
+  });
+
+  it('should run commands, stream output and time out', async () => {
+    writeScript(true);
+    const manager = new PodmanSandboxManager({ command });
+    const sandbox = await manager.create({ workdir: dir });
+
+    const chunks: string[] = [];
+    const result = await sandbox.exec('echo hello; echo oops >&2; exit 3', {
+      stream: true,
+      onOutput: (_stream, data) => chunks.push(data),
+    });
+    expect(result.exitCode).toBe(3);
+    expect(result.stdout).toBe('hello\n');
+    expect(result.stderr).toBe('oops\n');
+    expect(chunks.join('')).toContain('hello');
+    expect(calls().find((line) => line.startsWith('exec '))).toBe(
+      `exec --workdir /workspace ${sandbox.id} sh -c echo hello; echo oops >&2; exit 3`
+    );
+
+    const slow = await sandbox.exec('sleep 5', { timeoutSeconds: 1 });
+    expect(slow.timedOut).toBe(true);
+    expect(slow.exitCode).toBe(124);
+
+    await manager.destroyAll();
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Variant Runner Tests
+ *
+ * Runs variants through a scripted sandbox manager and checks the sandbox
+ * config, the entrypoint exec, SDK output parsing, workspaces and cleanup.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getVariantNetworkPolicy, runInVariant, StreamEvent } from '../variant-runner';
+import { ENTRYPOINT_SCRIPT } from '../variant-container';
+import { ExecOptions, ExecutionResult, Sandbox, SandboxConfig, SandboxManager } from '../types';
+import type { Variant } from '../../variants/types';
+
+const SDK_OUTPUT = [
+  { type: 'system', subtype: 'init', model: 'claude-sonnet-4' },
+  {
+    type: 'assistant',
+    message: { content: [{ type: 'tool_use', name: 'Read', input: { file_path: 'a.ts' } }] },
+  },
+  {
+    type: 'stream_event',
+    event: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Done.' } },
+  },
+  {
+    type: 'result',
+    result: 'Done.',
+    usage: { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 50 },
+    total_cost_usd: 0.01,
+    num_turns: 2,
+  },
+]
+  .map((m) => JSON.stringify(m))
+  .join('\n');
+
+const VARIANT = {
+  id: 'var-1',
+  name: 'control',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  snapshot: {} as Variant['snapshot'],
+  container: {
+    imageName: 'sniffbench-variant-control',
+    imageTag: 'v1-abc',
+    builtAt: '2026-01-01T00:00:00.000Z',
+    claudeVersion: '2.0.0',
+  },
+} as Variant;
+
+/**
+ * Manager whose sandboxes replay scripted output for exec
+ */
+class ScriptedManager implements SandboxManager {
+  configs: SandboxConfig[] = [];
+  commands: Array<{ command: string; options: ExecOptions }> = [];
+  destroyed = 0;
+  destroyedAll = 0;
+
+  constructor(
+    private output: string,
+    private result: Partial<ExecutionResult> | Error = {},
+    private onExec?: (config: SandboxConfig) => void | Promise<void>
+  ) {}
+
+  isAvailable = async () => true;
+  checkAvailability = async () => ({ available: true, backend: 'docker' as const });
+  list = async () => [];
+  destroyAll = async () => {
+    this.destroyedAll++;
+  };
+
+  async create(config: SandboxConfig): Promise<Sandbox> {
+    this.configs.push(config);
+    return {
+      id: 'sandbox-1',
+      status: 'running',
+      config,
+      exec: async (command: string, options: ExecOptions = {}) => {
+        this.commands.push({ command, options });
+        if (this.result instanceof Error) {
+          throw this.result;
+        }
+        await this.onExec?.(config);
+        // Split mid-line to exercise buffering
+        const half = Math.floor(this.output.length / 2);
+        options.onOutput?.('stdout', this.output.slice(0, half));
+        options.onOutput?.('stdout', this.output.slice(half));
+        options.onOutput?.('stderr', 'warning\n');
+        return {
+          exitCode: 0,
+          stdout: this.output,
+          stderr: 'warning\n',
+          durationMs: 10,
+          timedOut: false,
+          killed: false,
+          ...this.result,
+        };
+      },
+      copyIn: async () => {},
+      copyOut: async () => {},
+      stop: async () => {},
+      destroy: async () => {
+        this.destroyed++;
+      },
+    };
+  }
+}
+
+describe('runInVariant', () => {
+  it('should run the entrypoint in a sandbox created from the variant image', async () => {
+    const manager = new ScriptedManager(SDK_OUTPUT);
+    const events: StreamEvent[] = [];
+    const raw: string[] = [];
+
+    const result = await runInVariant(VARIANT, 'Explain "retries" $HOME', {
+      projectRoot: '/projects/app',
+      env: { ANTHROPIC_API_KEY: 'sk-test' },
+      skipEnvCheck: true,
+      timeoutMs: 90_500,
+      stream: true,
+      onOutput: (type) => raw.push(type),
+      onStreamEvent: (e) => events.push(e),
+      manager,
+      isolateWorkspace: false,
+    });
+
+    expect(manager.configs[0]).toMatchObject({
+      workdir: '/projects/app',
+      image: 'sniffbench-variant-control:v1-abc',
+      memoryMB: 2048,
+      cpuLimit: 2,
+      timeoutSeconds: 91,
+      network: { mode: 'api-only', allowedHosts: ['api.anthropic.com'] },
+      runAsHostUser: true,
+      env: { HOME: '/tmp', ANTHROPIC_API_KEY: 'sk-test' },
+    });
+    expect(manager.commands[0].command).toBe(`node ${ENTRYPOINT_SCRIPT} "$SNIFF_PROMPT"`);
+    expect(manager.commands[0].options.env).toEqual({ SNIFF_PROMPT: 'Explain "retries" $HOME' });
+    expect(manager.commands[0].options.timeoutSeconds).toBe(91);
+
+    expect(result.stdout).toBe('Done.');
+    expect(result.stderr).toBe('warning\n');
+    expect(result.model).toBe('claude-sonnet-4');
+    expect(result.tokens).toEqual({
+      inputTokens: 100,
+      outputTokens: 20,
+      cacheReadTokens: 50,
+      cacheWriteTokens: 0,
+      totalTokens: 120,
+    });
+    expect(result.costUsd).toBe(0.01);
+    expect(result.toolCalls).toEqual([{ name: 'Read', input: { file_path: 'a.ts' } }]);
+    expect(events.map((e) => e.type)).toEqual(['init', 'tool_use', 'text', 'result']);
+    expect(raw).toEqual(['stdout', 'stdout', 'stderr']);
+    expect(manager.destroyed).toBe(1);
+  });
+
+  it('should report timeouts and still remove the sandbox', async () => {
+    const manager = new ScriptedManager('', { exitCode: 124, timedOut: true, killed: true });
+
+    const result = await runInVariant(VARIANT, 'Q', {
+      projectRoot: '/projects/app',
+      skipEnvCheck: true,
+      memoryMB: 1024,
+      manager,
+      isolateWorkspace: false,
+    });
+
+    expect(manager.configs[0].memoryMB).toBe(1024);
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBe(124);
+    expect(manager.destroyed).toBe(1);
+  });
+
+  it('should allow the model API and remote MCP servers by default', () => {
+    const variant = {
+      ...VARIANT,
+      snapshot: {
+        mcpServersFull: {
+          linear: { type: 'sse', url: 'https://mcp.linear.app/sse' },
+          files: { type: 'stdio', command: 'mcp-files' },
+        },
+      } as unknown as Variant['snapshot'],
+    };
+
+    expect(getVariantNetworkPolicy(variant, '/projects/app')).toEqual({
+      mode: 'api-only',
+      allowedHosts: ['api.anthropic.com', 'mcp.linear.app'],
+    });
+  });
+
+  it('should remove the sandbox when the exec fails', async () => {
+    const manager = new ScriptedManager('', new Error('connection reset'));
+
+    await expect(
+      runInVariant(VARIANT, 'Q', {
+        projectRoot: '/projects/app',
+        skipEnvCheck: true,
+        manager,
+        isolateWorkspace: false,
+      })
+    ).rejects.toThrow('connection reset');
+    expect(manager.destroyed).toBe(1);
+    expect(process.listenerCount('SIGINT')).toBe(0);
+  });
+
+  it('should tear down every run in progress on one signal, then re-raise it', async () => {
+    let started = 0;
+    let allStarted!: () => void;
+    const running = new Promise<void>((resolve) => (allStarted = resolve));
+    let finishExec!: () => void;
+    const execGate = new Promise<void>((resolve) => (finishExec = resolve));
+    const onExec = async () => {
+      if (++started === 2) allStarted();
+      await execGate;
+    };
+    const managers = [new ScriptedManager('', {}, onExec), new ScriptedManager('', {}, onExec)];
+
+    let reraised!: () => void;
+    const killed = new Promise<void>((resolve) => (reraised = resolve));
+    const kill = jest.spyOn(process, 'kill').mockImplementation(() => {
+      reraised();
+      return true;
+    });
+
+    try {
+      const runs = managers.map((manager) =>
+        runInVariant(VARIANT, 'Q', {
+          projectRoot: '/projects/app',
+          skipEnvCheck: true,
+          manager,
+          isolateWorkspace: false,
+        })
+      );
+      await running;
+      expect(process.listenerCount('SIGINT')).toBe(1);
+
+      process.emit('SIGINT', 'SIGINT');
+      await killed;
+
+      expect(managers.map((m) => m.destroyedAll)).toEqual([1, 1]);
+      expect(kill).toHaveBeenCalledTimes(1);
+      expect(kill).toHaveBeenCalledWith(process.pid, 'SIGINT');
+      expect(process.listenerCount('SIGINT')).toBe(0);
+
+      finishExec();
+      await Promise.all(runs);
+      expect(process.listenerCount('SIGTERM')).toBe(0);
+    } finally {
+      kill.mockRestore();
+    }
+  });
+
+  describe('workspace', () => {
+    let projectRoot: string;
+
+    beforeEach(() => {
+      projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-variant-project-'));
+      fs.writeFileSync(path.join(projectRoot, 'README.md'), 'Hello\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    // The agent edits README.md and adds notes.md in whatever it was given
+    const editWorkspace = (config: SandboxConfig) => {
+      fs.appendFileSync(path.join(config.workdir, 'README.md'), 'Edited\n');
+      fs.writeFileSync(path.join(config.workdir, 'notes.md'), 'Notes\n');
+    };
+
+    it('should run in a disposable copy and capture the changes', async () => {
+      const manager = new ScriptedManager(SDK_OUTPUT, {}, editWorkspace);
+
+      const result = await runInVariant(VARIANT, 'Q', { projectRoot, skipEnvCheck: true, manager });
+
+      const workdir = manager.configs[0].workdir;
+      expect(workdir).not.toBe(projectRoot);
+      expect(fs.existsSync(workdir)).toBe(false);
+      expect(fs.readFileSync(path.join(projectRoot, 'README.md'), 'utf-8')).toBe('Hello\n');
+      expect(fs.existsSync(path.join(projectRoot, 'notes.md'))).toBe(false);
+
+      expect(result.changes?.files).toEqual([
+        { path: 'README.md', status: 'modified', binary: false, additions: 1, deletions: 0 },
+        { path: 'notes.md', status: 'added', binary: false, additions: 1, deletions: 0 },
+      ]);
+      expect(result.changes?.diff).toContain('+Edited');
+      expect(result.changesApplied).toBe(false);
+    });
+
+    it('should apply the changes to the project when asked to', async () => {
+      const manager = new ScriptedManager(SDK_OUTPUT, {}, editWorkspace);
+
+      const result = await runInVariant(VARIANT, 'Q', {
+        projectRoot,
+        skipEnvCheck: true,
+        manager,
+        applyChanges: true,
+      });
+
+      expect(result.changesApplied).toBe(true);
+      expect(fs.readFileSync(path.join(projectRoot, 'README.md'), 'utf-8')).toBe('Hello\nEdited\n');
+      expect(fs.readFileSync(path.join(projectRoot, 'notes.md'), 'utf-8')).toBe('Notes\n');
+    });
+  });
+});
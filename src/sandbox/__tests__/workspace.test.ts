@@ -0,0 +1,162 @@
+/**
+ * Workspace Tests
+ *
+ * Snapshots real directories (git repositories and plain ones), changes the
+ * snapshot, and checks the captured diff and applying it back.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { createWorkspace, resolveApplyChanges, Workspace, WorkspaceError } from '../workspace';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: 'pipe' });
+}
+
+describe('createWorkspace', () => {
+  let dir: string;
+  let workspace: Workspace | undefined;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-workspace-src-'));
+  });
+
+  afterEach(() => {
+    workspace?.dispose();
+    workspace = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('git repository', () => {
+    beforeEach(() => {
+      git(dir, 'init', '--quiet');
+      git(dir, 'config', 'user.email', 'test@example.com');
+      git(dir, 'config', 'user.name', 'Test');
+      fs.writeFileSync(path.join(dir, '.gitignore'), 'node_modules/\n');
+      fs.writeFileSync(path.join(dir, 'a.ts'), 'export const a = 1;\n');
+      fs.writeFileSync(path.join(dir, 'b.ts'), 'export const b = 2;\n');
+      git(dir, 'add', '-A');
+      git(dir, 'commit', '--quiet', '-m', 'Initial');
+
+      // Uncommitted, deleted, untracked and ignored files
+      fs.writeFileSync(path.join(dir, 'a.ts'), 'export const a = 10;\n');
+      fs.rmSync(path.join(dir, 'b.ts'));
+      fs.writeFileSync(path.join(dir, 'c.ts'), 'export const c = 3;\n');
+      fs.mkdirSync(path.join(dir, 'node_modules'));
+      fs.writeFileSync(path.join(dir, 'node_modules', 'dep.js'), '');
+    });
+
+    it('should clone the working tree with its history', () => {
+      workspace = createWorkspace(dir);
+
+      expect(workspace.mode).toBe('clone');
+      expect(fs.readFileSync(path.join(workspace.path, 'a.ts'), 'utf-8')).toBe(
+        'export const a = 10;\n'
+      );
+      expect(fs.existsSync(path.join(workspace.path, 'b.ts'))).toBe(false);
+      expect(fs.existsSync(path.join(workspace.path, 'c.ts'))).toBe(true);
+      expect(fs.existsSync(path.join(workspace.path, 'node_modules'))).toBe(false);
+      expect(git(workspace.path, 'log', '--format=%s').trim()).toBe('Initial');
+      expect(workspace.captureChanges()).toEqual({ files: [], diff: '' });
+    });
+
+    it('should capture changes even when the agent commits them', () => {
+      workspace = createWorkspace(dir);
+      fs.writeFileSync(path.join(workspace.path, 'c.ts'), 'export const c = 30;\n');
+      fs.writeFileSync(
+        path.join(workspace.path, 'logo.png'),
+        Buffer.from([0x89, 0x50, 0x00, 0xff])
+      );
+      fs.rmSync(path.join(workspace.path, 'a.ts'));
+      fs.mkdirSync(path.join(workspace.path, 'node_modules'));
+      fs.writeFileSync(path.join(workspace.path, 'node_modules', 'new.js'), '');
+      git(workspace.path, 'add', '-A');
+      git(workspace.path, '-c', 'user.email=a@b.c', '-c', 'user.name=A', 'commit', '-qm', 'Agent');
+
+      const changes = workspace.captureChanges();
+
+      expect(changes.files.map((f) => [f.path, f.status, f.binary])).toEqual([
+        ['a.ts', 'deleted', false],
+        ['c.ts', 'modified', false],
+        ['logo.png', 'added', true],
+      ]);
+      expect(changes.diff).toContain('+export const c = 30;');
+      expect(git(dir, 'log', '--format=%s').trim()).toBe('Initial');
+    });
+
+    it('should apply changes to the working tree only', () => {
+      workspace = createWorkspace(dir);
+      fs.writeFileSync(path.join(workspace.path, 'c.ts'), 'export const c = 30;\n');
+      fs.writeFileSync(
+        path.join(workspace.path, 'logo.png'),
+        Buffer.from([0x89, 0x50, 0x00, 0xff])
+      );
+      fs.rmSync(path.join(workspace.path, 'a.ts'));
+
+      workspace.applyChanges();
+
+      expect(fs.readFileSync(path.join(dir, 'c.ts'), 'utf-8')).toBe('export const c = 30;\n');
+      expect(fs.readFileSync(path.join(dir, 'logo.png'))).toEqual(
+        Buffer.from([0x89, 0x50, 0x00, 0xff])
+      );
+      expect(fs.existsSync(path.join(dir, 'a.ts'))).toBe(false);
+      expect(git(dir, 'diff', '--cached', '--name-only')).toBe('');
+    });
+
+    it('should refuse to apply changes that no longer fit', () => {
+      workspace = createWorkspace(dir);
+      fs.writeFileSync(path.join(workspace.path, 'c.ts'), 'export const c = 30;\n');
+      fs.writeFileSync(path.join(dir, 'c.ts'), 'export const c = "changed meanwhile";\n');
+
+      expect(() => workspace?.applyChanges()).toThrow(WorkspaceError);
+      expect(fs.readFileSync(path.join(dir, 'c.ts'), 'utf-8')).toContain('changed meanwhile');
+    });
+  });
+
+  it('should copy directories that are not git repositories', () => {
+    fs.mkdirSync(path.join(dir, 'src'));
+    fs.writeFileSync(path.join(dir, 'src', 'main.py'), 'print("hi")\n');
+
+    workspace = createWorkspace(dir);
+    fs.writeFileSync(path.join(workspace.path, 'src', 'main.py'), 'print("bye")\n');
+
+    expect(workspace.mode).toBe('copy');
+    expect(workspace.captureChanges().files.map((f) => f.path)).toEqual(['src/main.py']);
+    expect(fs.readFileSync(path.join(dir, 'src', 'main.py'), 'utf-8')).toBe('print("hi")\n');
+
+    const root = path.dirname(workspace.path);
+    workspace.dispose();
+    expect(fs.existsSync(root)).toBe(false);
+  });
+});
+
+describe('resolveApplyChanges', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-workspace-config-'));
+    fs.mkdirSync(path.join(dir, '.sniffbench'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should default to false and read sandbox.applyChanges', () => {
+    expect(resolveApplyChanges(dir)).toBe(false);
+
+    fs.writeFileSync(
+      path.join(dir, '.sniffbench', 'config.yaml'),
+      'sandbox:\n  applyChanges: true\n'
+    );
+    expect(resolveApplyChanges(dir)).toBe(true);
+
+    fs.writeFileSync(
+      path.join(dir, '.sniffbench', 'config.yaml'),
+      'sandbox:\n  applyChanges: yes please\n'
+    );
+    expect(() => resolveApplyChanges(dir)).toThrow(WorkspaceError);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Sandbox backend selection
+ *
+ * The backend comes from, in order:
+ * 1. SNIFF_SANDBOX_BACKEND (docker | podman | auto)
+ * 2. `sandbox.backend` in `.sniffbench/config.yaml`
+ * 3. Auto-detection: Docker when its daemon socket is reachable, otherwise
+ *    Podman when it is installed, otherwise Docker (for its install hints)
+ *
+ * ```yaml
+ * # .sniffbench/config.yaml
+ * sandbox:
+ *   backend: podman
+ * ```
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { loadProjectConfig } from '../utils/config';
+import { DockerSandboxManager } from './docker';
+import { PodmanSandboxManager } from './podman';
+import { SandboxBackend, SandboxManager } from './types';
+
+/** Backends that can be selected */
+export const SANDBOX_BACKENDS: readonly SandboxBackend[] = ['docker', 'podman'];
+
+/** Default Docker daemon socket */
+const DEFAULT_DOCKER_SOCKET = '/var/run/docker.sock';
+
+/**
+ * Invalid sandbox backend setting
+ */
+export class SandboxBackendError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SandboxBackendError';
+  }
+}
+
+/**
+ * Validate a backend setting; 'auto' (or nothing) means auto-detect
+ */
+export function parseSandboxBackend(value: unknown, source: string): SandboxBackend | undefined {
+  if (value === undefined || value === null || value === '' || value === 'auto') {
+    return undefined;
+  }
+  if (typeof value === 'string' && (SANDBOX_BACKENDS as readonly string[]).includes(value)) {
+    return value as SandboxBackend;
+  }
+  throw new SandboxBackendError(
+    `${source} must be one of ${SANDBOX_BACKENDS.join(', ')} or auto, got '${String(value)}'`
+  );
+}
+
+/**
+ * Whether an executable is on the PATH
+ */
+export function isOnPath(command: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  const extensions = process.platform === 'win32' ? ['.exe', '.cmd', ''] : [''];
+  for (const dir of (env.PATH || '').split(path.delimiter)) {
+    for (const ext of extensions) {
+      if (dir && fs.existsSync(path.join(dir, command + ext))) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Pick a backend from what is installed on this host
+ */
+export function detectSandboxBackend(
+  env: NodeJS.ProcessEnv = process.env,
+  dockerSocket: string = DEFAULT_DOCKER_SOCKET
+): SandboxBackend {
+  if (env.DOCKER_HOST || fs.existsSync(dockerSocket)) {
+    return 'docker';
+  }
+  if (isOnPath('podman', env)) {
+    return 'podman';
+  }
+  return 'docker';
+}
+
+/**
+ * Resolve the sandbox backend for a project (environment, then config, then auto-detect)
+ */
+export function resolveSandboxBackend(
+  projectRoot: string = process.cwd(),
+  env: NodeJS.ProcessEnv = process.env
+): SandboxBackend {
+  const fromEnv = parseSandboxBackend(env.SNIFF_SANDBOX_BACKEND, 'SNIFF_SANDBOX_BACKEND');
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  const section = loadProjectConfig(projectRoot).sandbox;
+  if (section !== undefined && (typeof section !== 'object' || Array.isArray(section))) {
+    throw new SandboxBackendError("'sandbox' in .sniffbench/config.yaml must be a mapping");
+  }
+  const fromConfig = parseSandboxBackend(
+    (section as Record<string, unknown> | undefined)?.backend,
+    'sandbox.backend'
+  );
+
+  return fromConfig ?? detectSandboxBackend(env);
+}
+
+/**
+ * Create a sandbox manager instance.
+ *
+ * Uses the given backend, or the one selected for the current project
+ * (SNIFF_SANDBOX_BACKEND, `.sniffbench/config.yaml` or auto-detection).
+ */
+export function createSandboxManager(backend?: SandboxBackend): SandboxManager {
+  return (backend ?? resolveSandboxBackend()) === 'podman'
+    ? new PodmanSandboxManager()
+    : new DockerSandboxManager();
+}
+
+/**
+ * Container CLI for a backend (both take Docker-compatible arguments)
+ */
+export function getContainerCli(backend: SandboxBackend): string {
+  return backend === 'podman' ? 'podman' : 'docker';
+}
+
+/**
+ * Display name of a backend
+ */
+export function getBackendDisplayName(backend: SandboxBackend): string {
+  return backend === 'podman' ? 'Podman' : 'Docker';
+}
+
+/**
+ * Check that a backend's CLI runs (`<cli> version`)
+ */
+export async function checkContainerCliAvailable(backend: SandboxBackend): Promise<boolean> {
+  return new Promise((resolve) => {
+    const proc = spawn(getContainerCli(backend), ['version'], { stdio: 'pipe' });
+    proc.on('close', (code) => resolve(code === 0));
+    proc.on('error', () => resolve(false));
+  });
+}
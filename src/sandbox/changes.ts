@@ -0,0 +1,244 @@
+/**
+ * Workspace change capture
+ *
+ * Snapshots a sandbox workspace before the agent runs and reports what
+ * changed afterwards as a ChangeSet: added, modified and deleted files with
+ * line counts, binary markers and a unified diff. Workspaces are host
+ * directories bind-mounted into the sandbox, so this works the same for
+ * every backend.
+ *
+ * Snapshots live in a private git directory outside the workspace, so
+ * nothing is written to the workspace and anything the agent does to a
+ * repository inside it (commits, resets) doesn't hide its changes. The
+ * workspace's own .gitignore files apply, as do DEFAULT_IGNORED_PATHS.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { ChangeSet, FileChange, FileChangeStatus } from './types';
+
+/** Dependency and cache directories left out of snapshots */
+export const DEFAULT_IGNORED_PATHS = [
+  'node_modules/',
+  '__pycache__/',
+  '.pytest_cache/',
+  '.venv/',
+  '.mypy_cache/',
+];
+
+/** Diff length kept in a ChangeSet */
+export const MAX_CHANGE_DIFF_LENGTH = 200000;
+
+/** Output limit for git commands (diffs and patches can be large) */
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/** Settings that make git output independent of the user's configuration */
+const GIT_CONFIG = ['-c', 'core.autocrlf=false', '-c', 'core.quotePath=false'];
+
+/** Flags for every diff: plain, rename-free and with standard prefixes */
+const DIFF_FLAGS = [
+  '--cached',
+  '--no-renames',
+  '--no-color',
+  '--no-ext-diff',
+  '--src-prefix=a/',
+  '--dst-prefix=b/',
+];
+
+/**
+ * A git command failed while snapshotting, diffing or applying
+ */
+export class ChangeCaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChangeCaptureError';
+  }
+}
+
+/**
+ * Run git and return its stdout
+ */
+export function runGit(args: string[], options: { cwd?: string; input?: string } = {}): string {
+  try {
+    return execFileSync('git', [...GIT_CONFIG, ...args], {
+      cwd: options.cwd,
+      input: options.input,
+      encoding: 'utf-8',
+      maxBuffer: GIT_MAX_BUFFER,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+  } catch (err) {
+    const stderr = String((err as { stderr?: string }).stderr || '').trim();
+    throw new ChangeCaptureError(`git ${args[0]} failed: ${stderr || (err as Error).message}`);
+  }
+}
+
+/**
+ * Split NUL-separated git output
+ */
+export function splitNul(output: string): string[] {
+  return output.split('\0').filter((entry) => entry.length > 0);
+}
+
+/** git --name-status letters (renames and copies are turned off) */
+const STATUS_CODES: Record<string, FileChangeStatus> = { A: 'added', D: 'deleted' };
+
+/**
+ * Tracks the changes made to a directory since it was snapshotted
+ */
+export class ChangeTracker {
+  private gitDir: string;
+  private baseline: string;
+
+  constructor(readonly dir: string) {
+    this.gitDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-changes-'));
+    try {
+      this.git(['init', '--quiet']);
+      fs.mkdirSync(path.join(this.gitDir, 'info'), { recursive: true });
+      fs.writeFileSync(
+        path.join(this.gitDir, 'info', 'exclude'),
+        DEFAULT_IGNORED_PATHS.join('\n') + '\n'
+      );
+      this.baseline = this.snapshotTree();
+    } catch (err) {
+      this.dispose();
+      throw err;
+    }
+  }
+
+  /**
+   * Changes since the snapshot
+   */
+  capture(): ChangeSet {
+    this.snapshotTree();
+    const range = [...DIFF_FLAGS, this.baseline];
+
+    // --numstat -z: "<added>\t<deleted>\t<path>\0", with "-" counts for binary files
+    const counts = new Map<string, { binary: boolean; additions: number; deletions: number }>();
+    for (const entry of splitNul(this.git(['diff', '--numstat', '-z', ...range]))) {
+      const [added, deleted, ...rest] = entry.split('\t');
+      const binary = added === '-' && deleted === '-';
+      counts.set(rest.join('\t'), {
+        binary,
+        additions: binary ? 0 : parseInt(added, 10),
+        deletions: binary ? 0 : parseInt(deleted, 10),
+      });
+    }
+
+    // --name-status -z: "<status>\0<path>\0" pairs
+    const files: FileChange[] = [];
+    const statusOutput = splitNul(this.git(['diff', '--name-status', '-z', ...range]));
+    for (let i = 0; i + 1 < statusOutput.length; i += 2) {
+      const filePath = statusOutput[i + 1];
+      files.push({
+        path: filePath,
+        status: STATUS_CODES[statusOutput[i]] ?? 'modified',
+        ...(counts.get(filePath) ?? { binary: false, additions: 0, deletions: 0 }),
+      });
+    }
+
+    const diff = this.git(['diff', ...range]);
+    return diff.length > MAX_CHANGE_DIFF_LENGTH
+      ? {
+          files,
+          diff: diff.substring(0, MAX_CHANGE_DIFF_LENGTH) + '\n... (diff truncated)\n',
+          diffTruncated: true,
+        }
+      : { files, diff };
+  }
+
+  /**
+   * Changes since the snapshot as a patch with binary contents (see applyPatch)
+   */
+  patch(): string {
+    this.snapshotTree();
+    return this.git(['diff', '--binary', ...DIFF_FLAGS, this.baseline]);
+  }
+
+  /**
+   * Apply the changes since the snapshot to another directory's files (with binary
+   * contents; fails without touching anything if they don't apply cleanly)
+   */
+  applyTo(targetDir: string): void {
+    applyPatchWith(this.gitDir, targetDir, this.patch());
+  }
+
+  /**
+   * Delete the snapshot
+   */
+  dispose(): void {
+    fs.rmSync(this.gitDir, { recursive: true, force: true });
+  }
+
+  /**
+   * Stage the whole directory in the private index and return its tree
+   */
+  private snapshotTree(): string {
+    this.git(['add', '--all', '.']);
+    return this.git(['write-tree']).trim();
+  }
+
+  /**
+   * Run git against the private git directory
+   */
+  private git(args: string[]): string {
+    return runGit([`--git-dir=${this.gitDir}`, `--work-tree=${this.dir}`, ...args], {
+      cwd: this.dir,
+    });
+  }
+}
+
+/**
+ * Apply a patch to a directory's files using the given git directory
+ */
+function applyPatchWith(gitDir: string, dir: string, patch: string): void {
+  if (!patch) {
+    return;
+  }
+  // Paths in the patch are relative to the directory, so apply with it as the work tree
+  runGit([`--git-dir=${gitDir}`, `--work-tree=${dir}`, 'apply', '--binary', '-'], {
+    cwd: dir,
+    input: patch,
+  });
+}
+
+/**
+ * Apply a patch from ChangeTracker.patch() to a directory's files (fails without
+ * touching anything if it doesn't apply cleanly)
+ */
+export function applyPatch(dir: string, patch: string): void {
+  if (!patch) {
+    return;
+  }
+  const gitDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-patch-'));
+  try {
+    runGit(['init', '--quiet', '--bare', gitDir]);
+    applyPatchWith(gitDir, path.resolve(dir), patch);
+  } finally {
+    fs.rmSync(gitDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Snapshot a directory to track its changes
+ */
+export function trackChanges(dir: string): ChangeTracker {
+  return new ChangeTracker(path.resolve(dir));
+}
+
+/**
+ * One-line summary of changed files (e.g. "3 files changed: 1 added, 2 modified")
+ */
+export function summarizeChanges(files: FileChange[]): string {
+  if (files.length === 0) {
+    return 'No files changed';
+  }
+  const counts = (['added', 'modified', 'deleted'] as const)
+    .map((status) => [status, files.filter((f) => f.status === status).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${status}`);
+  const noun = files.length === 1 ? 'file' : 'files';
+  return `${files.length} ${noun} changed: ${counts.join(', ')}`;
+}
@@ -6,7 +6,7 @@
  */
 
 import Docker from 'dockerode';
-import { PassThrough } from 'stream';
+import { Duplex, PassThrough } from 'stream';
 import {
   SandboxConfig,
   SandboxManager,
@@ -15,6 +15,13 @@ import {
   ExecOptions,
   AvailabilityStatus,
 } from './types';
+import {
+  DEFAULT_API_HOSTS,
+  EGRESS_PROXY_IMAGE,
+  EgressSidecar,
+  getNetworkPolicy,
+  planEgressSidecar,
+} from './network';
 
 // Default configuration values
 const DEFAULTS = {
@@ -145,7 +152,13 @@ export class DockerSandboxManager implements SandboxManager {
     }
 
     const sandbox = new DockerSandbox(this.docker, config);
-    await sandbox.initialize();
+    try {
+      await sandbox.initialize();
+    } catch (err) {
+      // Remove whatever was created before the failure (e.g. the proxy sidecar)
+      await sandbox.destroy();
+      throw err;
+    }
 
     this.activeSandboxes.set(sandbox.id, sandbox);
     return sandbox;
@@ -176,6 +189,8 @@ class DockerSandbox implements Sandbox {
 
   private docker: Docker;
   private container: Docker.Container | null = null;
+  private proxy: Docker.Container | null = null;
+  private network: Docker.Network | null = null;
   private resolvedConfig: Required<
     Pick<SandboxConfig, 'image' | 'memoryMB' | 'cpuLimit' | 'timeoutSeconds' | 'networkEnabled'>
   > &
@@ -198,7 +213,8 @@ class DockerSandbox implements Sandbox {
   }
 
   async initialize(): Promise<void> {
-    const { image, memoryMB, cpuLimit, networkEnabled, workdir, env, volumes } = this.resolvedConfig;
+    const { image, memoryMB, cpuLimit, runAsHostUser, workdir, env, volumes } = this.resolvedConfig;
+    const policy = getNetworkPolicy(this.resolvedConfig);
 
     // Ensure the image exists (pull if needed)
     await this.ensureImage(image);
@@ -215,12 +231,22 @@ class DockerSandbox implements Sandbox {
     // Prepare environment variables
     const envArray = Object.entries(env || {}).map(([k, v]) => `${k}=${v}`);
 
+    // Network egress: api-only sandboxes reach the network through the proxy sidecar
+    let networkMode = policy.mode === 'full' ? 'bridge' : 'none';
+    if (policy.mode === 'api-only') {
+      const sidecar = planEgressSidecar(this.id, policy.allowedHosts ?? DEFAULT_API_HOSTS);
+      await this.startEgressProxy(sidecar);
+      networkMode = sidecar.networkName;
+      envArray.push(...Object.entries(sidecar.sandboxEnv).map(([k, v]) => `${k}=${v}`));
+    }
+
     // Create container with security defaults
     this.container = await this.docker.createContainer({
       Image: image,
       name: this.id,
       WorkingDir: '/workspace',
       Env: envArray,
+      User: runAsHostUser ? `${process.getuid?.() ?? 1000}:${process.getgid?.() ?? 1000}` : undefined,
       Tty: false,
       OpenStdin: false,
       HostConfig: {
@@ -232,7 +258,7 @@ class DockerSandbox implements Sandbox {
         Binds: binds,
 
         // Network isolation (disabled by default)
-        NetworkMode: networkEnabled ? 'bridge' : 'none',
+        NetworkMode: networkMode,
 
         // Security: read-only root filesystem with writable /tmp and /workspace
         ReadonlyRootfs: true,
@@ -256,14 +282,42 @@ class DockerSandbox implements Sandbox {
         // Auto-remove on stop (for cleanup)
         AutoRemove: false,
       },
-      // Keep container running with a simple command
-      Cmd: ['sleep', 'infinity'],
+      // Keep container running with a simple command (replacing any image entrypoint)
+      Entrypoint: ['sleep'],
+      Cmd: ['infinity'],
     });
 
     await this.container.start();
     this.status = 'running';
   }
 
+  /**
+   * Create the internal network and start the proxy on it and the default bridge
+   */
+  private async startEgressProxy(sidecar: EgressSidecar): Promise<void> {
+    await this.ensureImage(EGRESS_PROXY_IMAGE);
+
+    this.network = await this.docker.createNetwork({ Name: sidecar.networkName, Internal: true });
+    this.proxy = await this.docker.createContainer({
+      Image: EGRESS_PROXY_IMAGE,
+      name: sidecar.proxyName,
+      Env: Object.entries(sidecar.proxyEnv).map(([k, v]) => `${k}=${v}`),
+      Entrypoint: ['node'],
+      Cmd: [sidecar.proxyScriptPath],
+      HostConfig: {
+        NetworkMode: 'bridge',
+        Binds: [`${sidecar.proxyScript}:${sidecar.proxyScriptPath}:ro`],
+        Memory: 128 * 1024 * 1024,
+        ReadonlyRootfs: true,
+        CapDrop: ['ALL'],
+        SecurityOpt: ['no-new-privileges:true'],
+        PidsLimit: 64,
+      },
+    });
+    await this.network.connect({ Container: this.proxy.id });
+    await this.proxy.start();
+  }
+
   private async ensureImage(imageName: string): Promise<void> {
     try {
       await this.docker.getImage(imageName).inspect();
@@ -318,19 +372,27 @@ class DockerSandbox implements Sandbox {
       let stderr = '';
       let timedOut = false;
       let killed = false;
+      let execStream: Duplex | undefined;
 
+      // The Docker API cannot signal an exec, so a timed-out command is left to
+      // the container's teardown; stop waiting for it and release the stream
       const timeoutId = setTimeout(async () => {
         timedOut = true;
-        // Kill the exec process
         try {
-          await exec.inspect().then((info) => {
-            if (info.Running) {
-              killed = true;
-            }
-          });
+          const info = await exec.inspect();
+          killed = info.Running === true;
         } catch {
           // Ignore errors during timeout handling
         }
+        resolve({
+          exitCode: 124,
+          stdout,
+          stderr,
+          durationMs: Date.now() - startTime,
+          timedOut,
+          killed,
+        });
+        execStream?.destroy();
       }, timeout);
 
       exec.start({ hijack: true, stdin: false }, (err, stream) => {
@@ -347,6 +409,8 @@ class DockerSandbox implements Sandbox {
           return;
         }
 
+        execStream = stream;
+
         // Demux stdout and stderr
         const stdoutStream = new PassThrough();
         const stderrStream = new PassThrough();
@@ -453,6 +517,15 @@ class DockerSandbox implements Sandbox {
       }
       this.container = null;
     }
+    // Then the proxy sidecar and its network
+    if (this.proxy) {
+      await this.proxy.remove({ force: true }).catch(() => {});
+      this.proxy = null;
+    }
+    if (this.network) {
+      await this.network.remove().catch(() => {});
+      this.network = null;
+    }
     this.status = 'destroyed';
   }
 }
@@ -0,0 +1,145 @@
+/**
+ * Egress proxy
+ *
+ * An HTTP forward proxy that only lets requests through to allowed hosts:
+ * HTTPS through CONNECT tunnels, plain HTTP through absolute-URI requests.
+ * It runs in the sidecar container of api-only sandboxes, where the compiled
+ * file is mounted on its own, so it must only use Node built-ins.
+ */
+
+import * as http from 'http';
+import * as net from 'net';
+import { Duplex } from 'stream';
+
+/** Port the proxy listens on in the sidecar */
+export const EGRESS_PROXY_PORT = 3128;
+
+/**
+ * Whether one request was let through
+ */
+export interface EgressDecision {
+  host: string;
+  port: number;
+  allowed: boolean;
+}
+
+export interface EgressProxyOptions {
+  /** Hosts that may be reached (`*.example.com` matches subdomains) */
+  allowedHosts: string[];
+  /** Called for every request, allowed or not */
+  onDecision?: (decision: EgressDecision) => void;
+}
+
+/** Headers that only apply to the client's connection to the proxy */
+const HOP_BY_HOP_HEADERS = ['connection', 'keep-alive', 'proxy-connection', 'proxy-authorization'];
+
+/**
+ * Whether a host matches the allowlist
+ */
+export function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+  const name = host
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '');
+  return allowedHosts.some((entry) => {
+    const pattern = entry.toLowerCase();
+    return pattern.startsWith('*.') ? name.endsWith(pattern.substring(1)) : name === pattern;
+  });
+}
+
+/**
+ * Split a CONNECT authority (`host:port` or `[v6]:port`)
+ */
+function parseAuthority(authority: string): { host: string; port: number } {
+  const match = /^\[([^\]]+)\]:(\d+)$/.exec(authority) || /^([^:]+):(\d+)$/.exec(authority);
+  return match ? { host: match[1], port: parseInt(match[2], 10) } : { host: authority, port: 443 };
+}
+
+/**
+ * Create the proxy server (not yet listening)
+ */
+export function createEgressProxy(options: EgressProxyOptions): http.Server {
+  const decide = (host: string, port: number): boolean => {
+    const allowed = isHostAllowed(host, options.allowedHosts);
+    options.onDecision?.({ host, port, allowed });
+    return allowed;
+  };
+
+  // Plain HTTP: the client sends the absolute URL
+  const server = http.createServer((req, res) => {
+    let target: URL;
+    try {
+      target = new URL(req.url || '');
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'text/plain' }).end('Absolute URL required\n');
+      return;
+    }
+
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    const port = target.port ? parseInt(target.port, 10) : 80;
+    if (target.protocol !== 'http:' || !decide(host, port)) {
+      res
+        .writeHead(403, { 'Content-Type': 'text/plain' })
+        .end(`Egress to ${host} is not allowed\n`);
+      return;
+    }
+
+    const headers = { ...req.headers };
+    for (const name of HOP_BY_HOP_HEADERS) {
+      delete headers[name];
+    }
+
+    const upstream = http.request(
+      { host, port, method: req.method, path: target.pathname + target.search, headers },
+      (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers);
+        upstreamRes.pipe(res);
+      }
+    );
+    upstream.on('error', (err) => {
+      if (!res.headersSent) {
+        res.writeHead(502, { 'Content-Type': 'text/plain' });
+      }
+      res.end(`Upstream error: ${err.message}\n`);
+    });
+    req.pipe(upstream);
+  });
+
+  // HTTPS: tunnel the TLS stream to allowed hosts without looking inside
+  server.on('connect', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { host, port } = parseAuthority(req.url || '');
+    if (!decide(host, port)) {
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+
+    const upstream = net.connect(port, host, () => {
+      socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head.length > 0) {
+        upstream.write(head);
+      }
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    upstream.on('error', () => socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n'));
+    socket.on('error', () => upstream.destroy());
+  });
+
+  return server;
+}
+
+// Started on its own in the sidecar: configuration comes from the environment
+if (require.main === module) {
+  const allowedHosts = (process.env.SNIFF_EGRESS_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim())
+    .filter((host) => host.length > 0);
+  const port = parseInt(process.env.SNIFF_EGRESS_PORT || '', 10) || EGRESS_PROXY_PORT;
+
+  createEgressProxy({
+    allowedHosts,
+    onDecision: (decision) => console.log(JSON.stringify(decision)),
+  }).listen(port, '0.0.0.0', () => {
+    console.log(`Egress proxy on port ${port}, allowing: ${allowedHosts.join(', ') || '(none)'}`);
+  });
+}
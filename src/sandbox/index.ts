@@ -33,6 +33,30 @@
 
 export * from './types';
 export { DockerSandboxManager, DockerNotAvailableError } from './docker';
+export { PodmanSandboxManager, PodmanNotAvailableError } from './podman';
+export type { PodmanSandboxManagerOptions } from './podman';
+export {
+  SANDBOX_BACKENDS,
+  SandboxBackendError,
+  parseSandboxBackend,
+  detectSandboxBackend,
+  resolveSandboxBackend,
+  createSandboxManager,
+  getContainerCli,
+  getBackendDisplayName,
+  checkContainerCliAvailable,
+} from './backend';
+export {
+  NETWORK_MODES,
+  DEFAULT_API_HOSTS,
+  NetworkPolicyError,
+  parseNetworkMode,
+  getNetworkPolicy,
+  resolveNetworkPolicy,
+  formatNetworkPolicy,
+} from './network';
+export { createEgressProxy, isHostAllowed, EGRESS_PROXY_PORT } from './egress-proxy';
+export type { EgressDecision, EgressProxyOptions } from './egress-proxy';
 
 // Variant container building and execution
 export {
@@ -54,22 +78,36 @@ export type { BuildOptions, BuildResult } from './variant-container';
 export {
   runInVariant,
   runInVariantsParallel,
+  getVariantNetworkPolicy,
   checkDockerAvailable,
 } from './variant-runner';
 
 export type { RunOptions, VariantRunResult } from './variant-runner';
 
+// Disposable workspaces for variant runs
+export { createWorkspace, resolveApplyChanges, WorkspaceError } from './workspace';
+
+export type { Workspace, WorkspaceMode } from './workspace';
+
+// Workspace change capture
+export {
+  ChangeTracker,
+  ChangeCaptureError,
+  trackChanges,
+  applyPatch,
+  summarizeChanges,
+  DEFAULT_IGNORED_PATHS,
+} from './changes';
+
 import { DockerSandboxManager } from './docker';
-import { SandboxManager, AvailabilityStatus } from './types';
+import { createSandboxManager } from './backend';
+import { AvailabilityStatus, SandboxBackend } from './types';
 
 /**
- * Create a sandbox manager instance.
- *
- * Currently uses Docker as the backend. Future versions may support
- * other backends like Podman, microVMs, or cloud sandboxes.
+ * Check if the selected sandbox backend is available, with helpful error messages.
  */
-export function createSandboxManager(): SandboxManager {
-  return new DockerSandboxManager();
+export async function checkSandbox(backend?: SandboxBackend): Promise<AvailabilityStatus> {
+  return createSandboxManager(backend).checkAvailability();
 }
 
 /**
@@ -0,0 +1,176 @@
+/**
+ * Sandbox network egress
+ *
+ * A sandbox has no network, full network, or api-only network. An api-only
+ * sandbox sits on an internal network with no route out; a proxy sidecar on
+ * that network and the backend's default one forwards requests to allowed
+ * hosts only (see egress-proxy.ts). The sandbox finds the proxy through the
+ * usual HTTP(S)_PROXY variables.
+ *
+ * The policy can be set per project:
+ *
+ * ```yaml
+ * # .sniffbench/config.yaml
+ * sandbox:
+ *   network: api-only               # none | api-only | full
+ *   allowedHosts:                   # Added to the defaults in api-only mode
+ *     - registry.npmjs.org
+ *     - "*.githubusercontent.com"
+ * ```
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadProjectConfig } from '../utils/config';
+import { EGRESS_PROXY_PORT } from './egress-proxy';
+import { NetworkMode, NetworkPolicy, SandboxConfig } from './types';
+
+/** Modes that can be selected */
+export const NETWORK_MODES: readonly NetworkMode[] = ['none', 'api-only', 'full'];
+
+/** Hosts allowed in api-only mode unless the caller says otherwise */
+export const DEFAULT_API_HOSTS = ['api.anthropic.com'];
+
+/** Image the proxy sidecar runs in */
+export const EGRESS_PROXY_IMAGE = 'node:20-slim';
+
+/** Where the proxy script is mounted in the sidecar */
+const PROXY_SCRIPT_PATH = '/proxy/egress-proxy.js';
+
+/**
+ * Invalid network setting
+ */
+export class NetworkPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkPolicyError';
+  }
+}
+
+/**
+ * Validate a network mode setting
+ */
+export function parseNetworkMode(value: unknown, source: string): NetworkMode | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'string' && (NETWORK_MODES as readonly string[]).includes(value)) {
+    return value as NetworkMode;
+  }
+  throw new NetworkPolicyError(
+    `${source} must be one of ${NETWORK_MODES.join(', ')}, got '${String(value)}'`
+  );
+}
+
+/**
+ * Network policy of a sandbox config (`network`, else `networkEnabled`)
+ */
+export function getNetworkPolicy(config: SandboxConfig): NetworkPolicy {
+  if (config.network) {
+    return config.network;
+  }
+  return { mode: config.networkEnabled ? 'full' : 'none' };
+}
+
+/**
+ * Resolve the network policy for a project. The mode is the explicit one (e.g.
+ * from a flag), else `sandbox.network` in the project config, else the default;
+ * `sandbox.allowedHosts` extends the default allowlist.
+ */
+export function resolveNetworkPolicy(
+  projectRoot: string,
+  defaults: NetworkPolicy,
+  mode?: NetworkMode
+): NetworkPolicy {
+  const section = loadProjectConfig(projectRoot).sandbox;
+  if (section !== undefined && (typeof section !== 'object' || Array.isArray(section))) {
+    throw new NetworkPolicyError("'sandbox' in .sniffbench/config.yaml must be a mapping");
+  }
+  const config = (section || {}) as Record<string, unknown>;
+
+  const resolvedMode = mode ?? parseNetworkMode(config.network, 'sandbox.network') ?? defaults.mode;
+  if (resolvedMode !== 'api-only') {
+    return { mode: resolvedMode };
+  }
+
+  const extraHosts = config.allowedHosts ?? [];
+  if (!Array.isArray(extraHosts) || extraHosts.some((h) => typeof h !== 'string' || !h)) {
+    throw new NetworkPolicyError('sandbox.allowedHosts must be a list of host names');
+  }
+
+  const allowedHosts = [...(defaults.allowedHosts ?? DEFAULT_API_HOSTS), ...extraHosts];
+  return { mode: resolvedMode, allowedHosts: Array.from(new Set(allowedHosts)) };
+}
+
+/**
+ * Describe a policy for display
+ */
+export function formatNetworkPolicy(policy: NetworkPolicy): string {
+  return policy.mode === 'api-only'
+    ? `api-only (${(policy.allowedHosts ?? []).join(', ') || 'no hosts'})`
+    : policy.mode;
+}
+
+/**
+ * Names and settings of the proxy sidecar for one api-only sandbox
+ */
+export interface EgressSidecar {
+  /** Internal network the sandbox joins */
+  networkName: string;
+  /** Proxy container name (also its host name on the internal network) */
+  proxyName: string;
+  /** Host path of the proxy script to mount */
+  proxyScript: string;
+  /** Where the script is mounted in the sidecar */
+  proxyScriptPath: string;
+  /** Sidecar environment */
+  proxyEnv: Record<string, string>;
+  /** Environment that points the sandbox at the proxy */
+  sandboxEnv: Record<string, string>;
+}
+
+/**
+ * Host path of the compiled proxy script: next to this module when running from
+ * the build output, or in dist/ when running from the TypeScript sources
+ */
+export function resolveEgressProxyScript(moduleDir: string = __dirname): string {
+  const candidates = [
+    path.join(moduleDir, 'egress-proxy.js'),
+    path.resolve(moduleDir, '..', '..', 'dist', 'sandbox', 'egress-proxy.js'),
+  ];
+  const script = candidates.find((candidate) => fs.existsSync(candidate));
+  if (!script) {
+    throw new NetworkPolicyError(
+      `api-only networking needs the compiled egress proxy (${candidates.join(' or ')}); run \`npm run build\``
+    );
+  }
+  return script;
+}
+
+/**
+ * Plan the proxy sidecar for a sandbox
+ */
+export function planEgressSidecar(sandboxId: string, allowedHosts: string[]): EgressSidecar {
+  const proxyName = `${sandboxId}-proxy`;
+  const proxyUrl = `http://${proxyName}:${EGRESS_PROXY_PORT}`;
+  const noProxy = 'localhost,127.0.0.1';
+
+  return {
+    networkName: `${sandboxId}-net`,
+    proxyName,
+    proxyScript: resolveEgressProxyScript(),
+    proxyScriptPath: PROXY_SCRIPT_PATH,
+    proxyEnv: {
+      SNIFF_EGRESS_ALLOWED_HOSTS: allowedHosts.join(','),
+      SNIFF_EGRESS_PORT: String(EGRESS_PROXY_PORT),
+    },
+    sandboxEnv: {
+      HTTP_PROXY: proxyUrl,
+      HTTPS_PROXY: proxyUrl,
+      http_proxy: proxyUrl,
+      https_proxy: proxyUrl,
+      NO_PROXY: noProxy,
+      no_proxy: noProxy,
+    },
+  };
+}
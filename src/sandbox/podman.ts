@@ -0,0 +1,477 @@
+/**
+ * Podman sandbox backend
+ *
+ * Drives the podman CLI rather than a daemon socket, so it works on rootless
+ * hosts without `podman system service`. Containers get the same security
+ * defaults as the Docker backend. On rootless hosts the container user is
+ * mapped to the host user (`--userns keep-id`) so files the agent writes in
+ * the mounted workspace stay owned by the caller.
+ */
+
+import { spawn } from 'child_process';
+import {
+  SandboxConfig,
+  SandboxManager,
+  Sandbox,
+  ExecutionResult,
+  ExecOptions,
+  AvailabilityStatus,
+} from './types';
+import {
+  DEFAULT_API_HOSTS,
+  EGRESS_PROXY_IMAGE,
+  EgressSidecar,
+  getNetworkPolicy,
+  planEgressSidecar,
+} from './network';
+
+// Default configuration values
+const DEFAULTS = {
+  image: 'node:20-slim',
+  memoryMB: 512,
+  cpuLimit: 1.0,
+  timeoutSeconds: 300,
+  networkEnabled: false,
+};
+
+/** Exit code reported for commands that timed out */
+const TIMEOUT_EXIT_CODE = 124;
+
+export interface PodmanSandboxManagerOptions {
+  /** podman executable (default: podman) */
+  command?: string;
+}
+
+/**
+ * Result of one podman CLI invocation
+ */
+interface CliResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  durationMs: number;
+  /** Spawn error (e.g. ENOENT when podman is not installed) */
+  error?: NodeJS.ErrnoException;
+}
+
+/**
+ * Run the podman CLI with arguments (no shell)
+ */
+function runCli(
+  command: string,
+  args: string[],
+  options: { timeoutMs?: number; onOutput?: ExecOptions['onOutput'] } = {}
+): Promise<CliResult> {
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+    const proc = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    const timeoutId = options.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          proc.kill('SIGKILL');
+          // Don't wait on children of the client that still hold the pipes
+          proc.stdout?.destroy();
+          proc.stderr?.destroy();
+        }, options.timeoutMs)
+      : undefined;
+
+    proc.stdout?.on('data', (chunk: Buffer) => {
+      const data = chunk.toString();
+      stdout += data;
+      options.onOutput?.('stdout', data);
+    });
+    proc.stderr?.on('data', (chunk: Buffer) => {
+      const data = chunk.toString();
+      stderr += data;
+      options.onOutput?.('stderr', data);
+    });
+
+    proc.on('close', (code) => {
+      clearTimeout(timeoutId);
+      resolve({
+        exitCode: timedOut ? TIMEOUT_EXIT_CODE : (code ?? 1),
+        stdout,
+        stderr,
+        timedOut,
+        durationMs: Date.now() - startTime,
+      });
+    });
+    proc.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timeoutId);
+      resolve({
+        exitCode: 1,
+        stdout,
+        stderr: error.message,
+        timedOut,
+        durationMs: Date.now() - startTime,
+        error,
+      });
+    });
+  });
+}
+
+/**
+ * Podman-based sandbox manager
+ */
+export class PodmanSandboxManager implements SandboxManager {
+  private command: string;
+  private activeSandboxes: Map<string, PodmanSandbox> = new Map();
+
+  constructor(options: PodmanSandboxManagerOptions = {}) {
+    this.command = options.command || 'podman';
+  }
+
+  async isAvailable(): Promise<boolean> {
+    const status = await this.checkAvailability();
+    return status.available;
+  }
+
+  async checkAvailability(): Promise<AvailabilityStatus> {
+    const version = await runCli(this.command, ['version', '--format', '{{.Client.Version}}']);
+
+    if (version.error?.code === 'ENOENT') {
+      return {
+        available: false,
+        backend: 'podman',
+        error: 'Podman is not installed',
+        suggestion: this.getInstallSuggestion(),
+      };
+    }
+
+    if (version.exitCode !== 0) {
+      return {
+        available: false,
+        backend: 'podman',
+        error: version.stderr.trim() || 'Podman is installed but not working',
+        suggestion:
+          process.platform === 'linux'
+            ? 'Check your Podman setup with `podman info`.'
+            : 'Start the Podman machine:\n  podman machine init\n  podman machine start',
+      };
+    }
+
+    const info = await runCli(this.command, ['info', '--format', '{{.Host.Security.Rootless}}']);
+
+    return {
+      available: true,
+      backend: 'podman',
+      version: version.stdout.trim(),
+      rootless: info.exitCode === 0 && info.stdout.trim() === 'true',
+    };
+  }
+
+  private getInstallSuggestion(): string {
+    const platform = process.platform;
+
+    if (platform === 'darwin') {
+      return 'Install Podman:\n  brew install podman\n  podman machine init\n  podman machine start';
+    }
+
+    if (platform === 'win32') {
+      return 'Install Podman:\n  winget install RedHat.Podman\n  podman machine init\n  podman machine start';
+    }
+
+    // Linux
+    return (
+      'Install Podman with your package manager, for example:\n' +
+      '  sudo apt install podman   # Debian/Ubuntu\n' +
+      '  sudo dnf install podman   # Fedora/RHEL'
+    );
+  }
+
+  async create(config: SandboxConfig): Promise<Sandbox> {
+    // Check availability first
+    const status = await this.checkAvailability();
+    if (!status.available) {
+      throw new PodmanNotAvailableError(status.error!, status.suggestion);
+    }
+
+    const sandbox = new PodmanSandbox(this.command, config, status.rootless ?? false);
+    try {
+      await sandbox.initialize();
+    } catch (err) {
+      // Remove whatever was created before the failure (e.g. the proxy sidecar)
+      await sandbox.destroy();
+      throw err;
+    }
+
+    this.activeSandboxes.set(sandbox.id, sandbox);
+    return sandbox;
+  }
+
+  async list(): Promise<Sandbox[]> {
+    return Array.from(this.activeSandboxes.values());
+  }
+
+  async destroyAll(): Promise<void> {
+    const destroyPromises = Array.from(this.activeSandboxes.values()).map((sandbox) =>
+      sandbox.destroy().catch(() => {
+        // Ignore errors during cleanup
+      })
+    );
+    await Promise.all(destroyPromises);
+    this.activeSandboxes.clear();
+  }
+}
+
+/**
+ * Individual Podman sandbox instance
+ */
+class PodmanSandbox implements Sandbox {
+  id: string;
+  status: 'creating' | 'running' | 'stopped' | 'destroyed' = 'creating';
+  config: SandboxConfig;
+
+  /** Proxy sidecar of an api-only sandbox, once created */
+  private sidecar: EgressSidecar | null = null;
+
+  private resolvedConfig: Required<
+    Pick<SandboxConfig, 'image' | 'memoryMB' | 'cpuLimit' | 'timeoutSeconds' | 'networkEnabled'>
+  > &
+    SandboxConfig;
+
+  constructor(
+    private command: string,
+    config: SandboxConfig,
+    private rootless: boolean
+  ) {
+    this.config = config;
+    this.id = `sniff-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+
+    // Merge with defaults
+    this.resolvedConfig = {
+      ...config,
+      image: config.image || DEFAULTS.image,
+      memoryMB: config.memoryMB || DEFAULTS.memoryMB,
+      cpuLimit: config.cpuLimit || DEFAULTS.cpuLimit,
+      timeoutSeconds: config.timeoutSeconds || DEFAULTS.timeoutSeconds,
+      networkEnabled: config.networkEnabled ?? DEFAULTS.networkEnabled,
+    };
+  }
+
+  async initialize(): Promise<void> {
+    const { image, memoryMB, cpuLimit, runAsHostUser, workdir, env, volumes } = this.resolvedConfig;
+    const policy = getNetworkPolicy(this.resolvedConfig);
+
+    // Ensure the image exists (pull if needed)
+    await this.ensureImage(image);
+
+    // Network egress: api-only sandboxes reach the network through the proxy sidecar
+    let sandboxEnv = env || {};
+    if (policy.mode === 'api-only') {
+      const sidecar = planEgressSidecar(this.id, policy.allowedHosts ?? DEFAULT_API_HOSTS);
+      await this.startEgressProxy(sidecar);
+      sandboxEnv = { ...sandboxEnv, ...sidecar.sandboxEnv };
+    }
+
+    const args = ['run', '--detach', '--name', this.id, '--workdir', '/workspace'];
+
+    // Volume mounts
+    args.push('--volume', `${workdir}:/workspace`);
+    for (const vol of volumes || []) {
+      const mode = vol.readonly !== false ? 'ro' : 'rw';
+      args.push('--volume', `${vol.hostPath}:${vol.containerPath}:${mode}`);
+    }
+
+    for (const [key, value] of Object.entries(sandboxEnv)) {
+      args.push('--env', `${key}=${value}`);
+    }
+
+    args.push(
+      // Resource limits
+      '--memory',
+      `${memoryMB}m`,
+      '--cpus',
+      String(cpuLimit),
+      // Security: read-only root filesystem with writable /tmp and /workspace
+      '--read-only',
+      '--tmpfs',
+      '/tmp:rw,noexec,nosuid,size=100m',
+      // Security: drop all capabilities, add back only what's needed
+      '--cap-drop',
+      'ALL',
+      '--cap-add',
+      'CHOWN,SETUID,SETGID',
+      '--security-opt',
+      'no-new-privileges',
+      // Limit PIDs to prevent fork bombs
+      '--pids-limit',
+      '256'
+    );
+
+    // Network isolation (disabled by default); full uses Podman's default network,
+    // which also works rootless
+    if (this.sidecar) {
+      args.push('--network', this.sidecar.networkName);
+    } else if (policy.mode === 'none') {
+      args.push('--network', 'none');
+    }
+
+    if (this.rootless) {
+      args.push('--userns', 'keep-id');
+    } else if (runAsHostUser) {
+      args.push('--user', `${process.getuid?.() ?? 1000}:${process.getgid?.() ?? 1000}`);
+    }
+
+    // Keep container running with a simple command (replacing any image entrypoint)
+    args.push('--entrypoint', 'sleep', image, 'infinity');
+
+    const result = await runCli(this.command, args);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to start Podman container: ${result.stderr.trim()}`);
+    }
+    this.status = 'running';
+  }
+
+  /**
+   * Create the internal network and start the proxy on it and the default network
+   */
+  private async startEgressProxy(sidecar: EgressSidecar): Promise<void> {
+    await this.ensureImage(EGRESS_PROXY_IMAGE);
+
+    this.sidecar = sidecar;
+    const network = await runCli(this.command, [
+      'network',
+      'create',
+      '--internal',
+      sidecar.networkName,
+    ]);
+    if (network.exitCode !== 0) {
+      throw new Error(`Failed to create sandbox network: ${network.stderr.trim()}`);
+    }
+
+    const args = [
+      'run',
+      '--detach',
+      '--name',
+      sidecar.proxyName,
+      '--network',
+      'podman',
+      '--network',
+      sidecar.networkName,
+      '--volume',
+      `${sidecar.proxyScript}:${sidecar.proxyScriptPath}:ro`,
+    ];
+    for (const [key, value] of Object.entries(sidecar.proxyEnv)) {
+      args.push('--env', `${key}=${value}`);
+    }
+    args.push(
+      '--memory',
+      '128m',
+      '--read-only',
+      '--cap-drop',
+      'ALL',
+      '--security-opt',
+      'no-new-privileges',
+      '--pids-limit',
+      '64',
+      '--entrypoint',
+      'node',
+      EGRESS_PROXY_IMAGE,
+      sidecar.proxyScriptPath
+    );
+
+    const proxy = await runCli(this.command, args);
+    if (proxy.exitCode !== 0) {
+      throw new Error(`Failed to start egress proxy: ${proxy.stderr.trim()}`);
+    }
+  }
+
+  private async ensureImage(imageName: string): Promise<void> {
+    const exists = await runCli(this.command, ['image', 'exists', imageName]);
+    if (exists.exitCode === 0) {
+      return;
+    }
+
+    // Image doesn't exist locally, pull it
+    console.log(`Pulling image ${imageName}...`);
+    const pull = await runCli(this.command, ['pull', imageName]);
+    if (pull.exitCode !== 0) {
+      throw new Error(`Failed to pull image ${imageName}: ${pull.stderr.trim()}`);
+    }
+  }
+
+  async exec(command: string, options: ExecOptions = {}): Promise<ExecutionResult> {
+    if (this.status !== 'running') {
+      throw new Error(`Cannot execute in sandbox: status is ${this.status}`);
+    }
+
+    const args = ['exec', '--workdir', options.cwd || '/workspace'];
+    for (const [key, value] of Object.entries(options.env || {})) {
+      args.push('--env', `${key}=${value}`);
+    }
+    args.push(this.id, 'sh', '-c', command);
+
+    const result = await runCli(this.command, args, {
+      timeoutMs: (options.timeoutSeconds || this.resolvedConfig.timeoutSeconds) * 1000,
+      onOutput: options.stream ? options.onOutput : undefined,
+    });
+
+    return {
+      exitCode: result.exitCode,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      durationMs: result.durationMs,
+      timedOut: result.timedOut,
+      killed: result.timedOut,
+    };
+  }
+
+  async copyIn(hostPath: string, containerPath: string): Promise<void> {
+    await this.copy(hostPath, `${this.id}:${containerPath}`);
+  }
+
+  async copyOut(containerPath: string, hostPath: string): Promise<void> {
+    await this.copy(`${this.id}:${containerPath}`, hostPath);
+  }
+
+  private async copy(source: string, destination: string): Promise<void> {
+    if (this.status === 'creating' || this.status === 'destroyed') {
+      throw new Error('Sandbox not initialized');
+    }
+
+    const result = await runCli(this.command, ['cp', source, destination]);
+    if (result.exitCode !== 0) {
+      throw new Error(`podman cp failed: ${result.stderr.trim()}`);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.status === 'running') {
+      await runCli(this.command, ['stop', '--time', '5', this.id]);
+      this.status = 'stopped';
+    }
+  }
+
+  async destroy(): Promise<void> {
+    // Ignore errors during cleanup
+    if (this.status !== 'creating' && this.status !== 'destroyed') {
+      await runCli(this.command, ['rm', '--force', '--time', '1', this.id]);
+    }
+    // Then the proxy sidecar and its network
+    if (this.sidecar) {
+      await runCli(this.command, ['rm', '--force', '--time', '1', this.sidecar.proxyName]);
+      await runCli(this.command, ['network', 'rm', this.sidecar.networkName]);
+      this.sidecar = null;
+    }
+    this.status = 'destroyed';
+  }
+}
+
+/**
+ * Custom error for Podman not available
+ */
+export class PodmanNotAvailableError extends Error {
+  suggestion: string;
+
+  constructor(message: string, suggestion?: string) {
+    super(message);
+    this.name = 'PodmanNotAvailableError';
+    this.suggestion = suggestion || 'Please install Podman.';
+  }
+}
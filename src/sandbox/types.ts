@@ -2,12 +2,26 @@
  * Sandbox types and interfaces
  *
  * Designed with a pluggable backend architecture in mind.
- * Currently only Docker is implemented, but the interface
+ * Docker and Podman are implemented, and the interface
  * supports future backends (microVMs, cloud sandboxes, etc.)
  */
 
 export type SandboxBackend = 'docker' | 'podman';
 
+/**
+ * Network egress mode:
+ * - none: no network at all
+ * - api-only: only `allowedHosts`, through an allowlisting proxy sidecar
+ * - full: unrestricted (the backend's default bridge network)
+ */
+export type NetworkMode = 'none' | 'api-only' | 'full';
+
+export interface NetworkPolicy {
+  mode: NetworkMode;
+  /** Hosts reachable in api-only mode (`*.example.com` matches subdomains) */
+  allowedHosts?: string[];
+}
+
 export interface SandboxConfig {
   /** Working directory to mount into the sandbox */
   workdir: string;
@@ -27,6 +41,12 @@ export interface SandboxConfig {
   /** Enable network access (default: false for security) */
   networkEnabled?: boolean;
 
+  /** Network egress policy; takes precedence over networkEnabled */
+  network?: NetworkPolicy;
+
+  /** Run as the host user so files written to the workdir keep its ownership (default: false) */
+  runAsHostUser?: boolean;
+
   /** Environment variables to set */
   env?: Record<string, string>;
 
@@ -122,6 +142,42 @@ export interface AvailabilityStatus {
   available: boolean;
   backend: SandboxBackend;
   version?: string;
+  /** Whether containers run without root on the host (Podman) */
+  rootless?: boolean;
   error?: string;
   suggestion?: string;
 }
+
+/**
+ * How a file changed in a workspace
+ */
+export type FileChangeStatus = 'added' | 'modified' | 'deleted';
+
+export interface FileChange {
+  /** Path relative to the workspace root */
+  path: string;
+
+  status: FileChangeStatus;
+
+  /** Whether git treats the file as binary (no line counts or text diff) */
+  binary: boolean;
+
+  /** Lines added (0 for binary files) */
+  additions: number;
+
+  /** Lines removed (0 for binary files) */
+  deletions: number;
+}
+
+/**
+ * Files changed in a workspace since a snapshot
+ */
+export interface ChangeSet {
+  files: FileChange[];
+
+  /** Unified diff of all changes; binary files show as "Binary files ... differ" */
+  diff: string;
+
+  /** Whether the diff was cut short (files lists every change regardless) */
+  diffTruncated?: boolean;
+}
@@ -11,10 +11,15 @@ import * as crypto from 'crypto';
 import { execSync, spawn, spawnSync } from 'child_process';
 import type { Variant, ContainerInfo, SandboxableSnapshot } from '../variants/types';
 import type { FullMcpServerConfig } from '../runs/types';
+import { SandboxBackend } from './types';
+import { getContainerCli, resolveSandboxBackend } from './backend';
 
 /** Base image for variant containers */
 const BASE_IMAGE = 'node:20-slim';
 
+/** SDK entrypoint script inside variant images */
+export const ENTRYPOINT_SCRIPT = '/app/entrypoint.mjs';
+
 /** Directory for build contexts */
 const BUILD_DIR = '.sniffbench/builds';
 
@@ -44,6 +49,8 @@ export interface BuildOptions {
   claudeVersion?: string;
   /** Whether to show build output */
   verbose?: boolean;
+  /** Container backend (default: the one selected for projectRoot) */
+  backend?: SandboxBackend;
 }
 
 export interface BuildResult {
@@ -156,7 +163,7 @@ export function generateDockerfile(
 
   // Copy entrypoint script
   lines.push('# Copy SDK entrypoint script');
-  lines.push('COPY entrypoint.mjs /app/entrypoint.mjs');
+  lines.push(`COPY entrypoint.mjs ${ENTRYPOINT_SCRIPT}`);
   lines.push('');
 
   // Copy variant-specific configs
@@ -177,7 +184,7 @@ export function generateDockerfile(
 
   // Entry point - SDK runner script
   lines.push('# Entry point - SDK runner for streaming support');
-  lines.push('ENTRYPOINT ["node", "/app/entrypoint.mjs"]');
+  lines.push(`ENTRYPOINT ["node", "${ENTRYPOINT_SCRIPT}"]`);
 
   return lines.join('\n');
 }
@@ -438,6 +445,7 @@ export function writeBuildContext(
  */
 export async function buildVariantImage(options: BuildOptions): Promise<BuildResult> {
   const { variant, projectRoot, verbose } = options;
+  const cli = getContainerCli(options.backend ?? resolveSandboxBackend(projectRoot));
 
   // Get Claude version
   const claudeVersion = options.claudeVersion || getHostClaudeVersion();
@@ -466,7 +474,7 @@ export async function buildVariantImage(options: BuildOptions): Promise<BuildRes
       contextPath,
     ];
 
-    const docker = spawn('docker', buildArgs, {
+    const docker = spawn(cli, buildArgs, {
       stdio: verbose ? 'inherit' : 'pipe',
     });
 
@@ -482,12 +490,12 @@ export async function buildVariantImage(options: BuildOptions): Promise<BuildRes
       if (code === 0) {
         resolve();
       } else {
-        reject(new Error(`Docker build failed with code ${code}: ${stderr}`));
+        reject(new Error(`${cli} build failed with code ${code}: ${stderr}`));
       }
     });
 
     docker.on('error', (err) => {
-      reject(new Error(`Failed to start docker build: ${err.message}`));
+      reject(new Error(`Failed to start ${cli} build: ${err.message}`));
     });
   });
 
@@ -511,7 +519,10 @@ export async function buildVariantImage(options: BuildOptions): Promise<BuildRes
 /**
  * Check if a variant image exists
  */
-export function variantImageExists(variant: Variant): boolean {
+export function variantImageExists(
+  variant: Variant,
+  backend: SandboxBackend = resolveSandboxBackend()
+): boolean {
   if (!variant.container) {
     return false;
   }
@@ -526,14 +537,17 @@ export function variantImageExists(variant: Variant): boolean {
   }
 
   const fullName = `${imageName}:${imageTag}`;
-  const result = spawnSync('docker', ['image', 'inspect', fullName], { stdio: 'pipe' });
+  const result = spawnSync(getContainerCli(backend), ['image', 'inspect', fullName], { stdio: 'pipe' });
   return result.status === 0;
 }
 
 /**
  * Remove a variant's container image
  */
-export function pruneVariantImage(variant: Variant): boolean {
+export function pruneVariantImage(
+  variant: Variant,
+  backend: SandboxBackend = resolveSandboxBackend()
+): boolean {
   if (!variant.container) {
     return false;
   }
@@ -544,31 +558,36 @@ export function pruneVariantImage(variant: Variant): boolean {
   validateDockerImageRef(imageName, imageTag);
 
   const fullName = `${imageName}:${imageTag}`;
-  const result = spawnSync('docker', ['rmi', fullName], { stdio: 'pipe' });
+  const result = spawnSync(getContainerCli(backend), ['rmi', fullName], { stdio: 'pipe' });
   return result.status === 0;
 }
 
 /**
  * List all sniffbench variant images
+ *
+ * Podman names locally built images `localhost/<name>`; the prefix is dropped.
  */
-export function listVariantImages(): Array<{ name: string; tag: string; size: string }> {
-  try {
-    const output = execSync(
-      'docker images --format "{{.Repository}}|{{.Tag}}|{{.Size}}" sniffbench-variant-*',
-      { encoding: 'utf-8' }
-    );
-
-    return output
-      .trim()
-      .split('\n')
-      .filter((line) => line.length > 0)
-      .map((line) => {
-        const [name, tag, size] = line.split('|');
-        return { name, tag, size };
-      });
-  } catch {
+export function listVariantImages(
+  backend: SandboxBackend = resolveSandboxBackend()
+): Array<{ name: string; tag: string; size: string }> {
+  const result = spawnSync(
+    getContainerCli(backend),
+    ['images', '--format', '{{.Repository}}|{{.Tag}}|{{.Size}}'],
+    { encoding: 'utf-8', stdio: 'pipe' }
+  );
+  if (result.status !== 0 || !result.stdout) {
     return [];
   }
+
+  return result.stdout
+    .trim()
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [repository, tag, size] = line.split('|');
+      return { name: repository.replace(/^localhost\//, ''), tag, size };
+    })
+    .filter((image) => image.name.startsWith('sniffbench-variant-'));
 }
 
 /**
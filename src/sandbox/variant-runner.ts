@@ -1,13 +1,20 @@
 /**
  * Variant runner - execute prompts in sandboxed variant containers
  *
- * Runs Claude Code prompts inside Docker containers with variant-specific
- * configuration, enabling isolated parallel A/B testing.
+ * Runs Claude Code prompts inside Docker or Podman containers with
+ * variant-specific configuration, enabling isolated parallel A/B testing.
+ * Each run gets a Sandbox created from the variant image, so resource limits,
+ * timeouts and cleanup match case sandboxes, and mounts its own disposable
+ * copy of the project (see workspace.ts), so the agent's changes are captured
+ * without touching the project unless the user opts in.
  */
 
-import { spawn, ChildProcess } from 'child_process';
 import type { Variant } from '../variants/types';
-import { collectRequiredEnvVars } from './variant-container';
+import { ChangeSet, NetworkPolicy, Sandbox, SandboxBackend, SandboxConfig, SandboxManager } from './types';
+import { checkContainerCliAvailable, createSandboxManager, resolveSandboxBackend } from './backend';
+import { DEFAULT_API_HOSTS, resolveNetworkPolicy } from './network';
+import { collectRequiredEnvVars, ENTRYPOINT_SCRIPT } from './variant-container';
+import { createWorkspace, resolveApplyChanges, Workspace } from './workspace';
 import { checkMissingEnvVars, getEnvVars, getEnvFilePath } from '../utils/env';
 
 /** Parsed streaming event from Claude SDK */
@@ -20,11 +27,11 @@ export interface StreamEvent {
 }
 
 export interface RunOptions {
-  /** Project root to mount into container */
+  /** Project root to mount into container (as a disposable copy unless isolateWorkspace is false) */
   projectRoot: string;
   /** Environment variables to pass (secrets) */
   env?: Record<string, string>;
-  /** Directory to load env vars from (defaults to projectRoot) */
+  /** Directory to load env vars and sandbox settings from (defaults to projectRoot) */
   envSourceDir?: string;
   /** Skip env var checking (use when env vars are pre-loaded) */
   skipEnvCheck?: boolean;
@@ -36,6 +43,20 @@ export interface RunOptions {
   onOutput?: (type: 'stdout' | 'stderr', data: string) => void;
   /** Callback for parsed streaming events */
   onStreamEvent?: (event: StreamEvent) => void;
+  /** Container backend (default: the one selected for the project) */
+  backend?: SandboxBackend;
+  /** Network egress policy (default: getVariantNetworkPolicy) */
+  network?: NetworkPolicy;
+  /** Sandbox manager to create the container with (default: one for the backend) */
+  manager?: SandboxManager;
+  /** Memory limit in MB (default: 2048) */
+  memoryMB?: number;
+  /** CPU limit (default: 2) */
+  cpuLimit?: number;
+  /** Mount a disposable copy of projectRoot rather than projectRoot itself (default: true) */
+  isolateWorkspace?: boolean;
+  /** Apply the run's changes to projectRoot (default: `sandbox.applyChanges` in the project config) */
+  applyChanges?: boolean;
 }
 
 export interface VariantRunResult {
@@ -65,11 +86,39 @@ export interface VariantRunResult {
   numTurns?: number;
   /** Tool calls made */
   toolCalls?: Array<{ name: string; input: Record<string, unknown> }>;
+  /** Changes the agent made to its workspace (isolated workspaces only) */
+  changes?: ChangeSet;
+  /** Whether the changes were applied to projectRoot */
+  changesApplied?: boolean;
 }
 
 /** Default timeout: 5 minutes */
 const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
 
+/** Default resource limits for variant containers (Claude Code needs more than case sandboxes) */
+const VARIANT_DEFAULTS = {
+  memoryMB: 2048,
+  cpuLimit: 2,
+};
+
+/**
+ * Default network policy for variant runs: api-only, allowing the model API and
+ * the variant's remote MCP servers, unless the project config says otherwise
+ */
+export function getVariantNetworkPolicy(variant: Variant, projectRoot: string): NetworkPolicy {
+  const hosts = [...DEFAULT_API_HOSTS];
+  for (const server of Object.values(variant.snapshot.mcpServersFull || {})) {
+    if (server.url) {
+      try {
+        hosts.push(new URL(server.url).hostname);
+      } catch {
+        // Not a URL - nothing to allow
+      }
+    }
+  }
+  return resolveNetworkPolicy(projectRoot, { mode: 'api-only', allowedHosts: hosts });
+}
+
 /**
  * Run a prompt in a variant container
  */
@@ -107,245 +156,262 @@ export async function runInVariant(
     resolvedEnv = getEnvVars(requiredEnvVars, envDir);
   }
 
-  // Build docker run arguments
-  const fullImageName = `${variant.container.imageName}:${variant.container.imageTag}`;
-  const dockerArgs = buildDockerArgs(fullImageName, projectRoot, { ...resolvedEnv, ...env }, variant);
-
-  // Add prompt as argument to SDK entrypoint script
-  dockerArgs.push(prompt);
+  // Backend and network settings come from the project (envDir), not the mounted workspace
+  const backend = options.backend ?? resolveSandboxBackend(envDir);
+  const manager = options.manager ?? createSandboxManager(backend);
+  const network = options.network ?? getVariantNetworkPolicy(variant, envDir);
+  const isolateWorkspace = options.isolateWorkspace ?? true;
+  const applyChanges = isolateWorkspace && (options.applyChanges ?? resolveApplyChanges(envDir));
+
+  // Same limits and security defaults as case sandboxes
+  const sandboxConfig: SandboxConfig = {
+    workdir: projectRoot,
+    image: `${variant.container.imageName}:${variant.container.imageTag}`,
+    memoryMB: options.memoryMB ?? VARIANT_DEFAULTS.memoryMB,
+    cpuLimit: options.cpuLimit ?? VARIANT_DEFAULTS.cpuLimit,
+    timeoutSeconds: Math.ceil(timeoutMs / 1000),
+    network,
+    // Run as current user to avoid root (required for --dangerously-skip-permissions)
+    runAsHostUser: true,
+    // Set HOME to /tmp so Claude Code can write its config/debug files
+    env: { HOME: '/tmp', ...resolvedEnv, ...env },
+  };
 
-  // Debug: show the docker command being run
+  // Debug: show the sandbox being created
   if (process.env.SNIFF_DEBUG) {
-    console.error('[DEBUG] docker args:', JSON.stringify(dockerArgs, null, 2));
+    const shown = { backend, ...sandboxConfig, env: Object.keys(sandboxConfig.env || {}) };
+    console.error('[DEBUG] variant sandbox:', JSON.stringify(shown, null, 2));
   }
 
-  const startTime = Date.now();
-  let timedOut = false;
-
-  // Run container
-  const result = await new Promise<VariantRunResult>((resolve, reject) => {
-    let stdout = '';
-    let stderr = '';
-    let finalText = '';  // Accumulated text content for answer
-    let jsonBuffer = '';  // Buffer for incomplete JSON lines
-    let proc: ChildProcess;
-    let timeoutId: NodeJS.Timeout | undefined;
-
-    // Metrics captured from SDK messages
-    let model = '';
-    let tokens: VariantRunResult['tokens'] | undefined;
-    let costUsd: number | undefined;
-    let numTurns: number | undefined;
-    const toolCalls: Array<{ name: string; input: Record<string, unknown> }> = [];
-
+  let stdout = '';
+  let finalText = '';  // Accumulated text content for answer
+  let jsonBuffer = '';  // Buffer for incomplete JSON lines
+
+  // Metrics captured from SDK messages
+  let model = '';
+  let tokens: VariantRunResult['tokens'] | undefined;
+  let costUsd: number | undefined;
+  let numTurns: number | undefined;
+  const toolCalls: Array<{ name: string; input: Record<string, unknown> }> = [];
+
+  // Parse SDK message and emit event
+  // Matches the format used by claude-code.ts processMessage()
+  const parseSDKMessage = (line: string) => {
+    if (!line.trim()) return;
     try {
-      proc = spawn('docker', dockerArgs);
-    } catch (err) {
-      reject(new Error(`Failed to spawn docker: ${err}`));
-      return;
-    }
+      const message = JSON.parse(line);
 
-    // Parse SDK message and emit event
-    // Matches the format used by claude-code.ts processMessage()
-    const parseSDKMessage = (line: string) => {
-      if (!line.trim()) return;
-      try {
-        const message = JSON.parse(line);
-
-        // Debug: log all messages
-        if (process.env.SNIFF_DEBUG) {
-          console.error('[DEBUG] SDK message:', message.type, JSON.stringify(message).substring(0, 300));
-        }
+      // Debug: log all messages
+      if (process.env.SNIFF_DEBUG) {
+        console.error('[DEBUG] SDK message:', message.type, JSON.stringify(message).substring(0, 300));
+      }
 
-        switch (message.type) {
-          case 'system': {
-            // Init message with model info
-            if (message.subtype === 'init') {
-              model = message.model || '';
-              if (onStreamEvent) {
-                onStreamEvent({ type: 'init', model: message.model });
-              }
+      switch (message.type) {
+        case 'system': {
+          // Init message with model info
+          if (message.subtype === 'init') {
+            model = message.model || '';
+            if (onStreamEvent) {
+              onStreamEvent({ type: 'init', model: message.model });
             }
-            break;
           }
+          break;
+        }
 
-          case 'assistant': {
-            // Tool use blocks come through assistant messages
-            const content = message.message?.content;
-            if (Array.isArray(content)) {
-              for (const block of content) {
-                if (block.type === 'tool_use') {
-                  toolCalls.push({ name: block.name, input: block.input as Record<string, unknown> });
-                  if (onStreamEvent) {
-                    onStreamEvent({
-                      type: 'tool_use',
-                      tool: { name: block.name, input: block.input as Record<string, unknown> }
-                    });
-                  }
+        case 'assistant': {
+          // Tool use blocks come through assistant messages
+          const content = message.message?.content;
+          if (Array.isArray(content)) {
+            for (const block of content) {
+              if (block.type === 'tool_use') {
+                toolCalls.push({ name: block.name, input: block.input as Record<string, unknown> });
+                if (onStreamEvent) {
+                  onStreamEvent({
+                    type: 'tool_use',
+                    tool: { name: block.name, input: block.input as Record<string, unknown> }
+                  });
                 }
               }
             }
-            break;
           }
+          break;
+        }
 
-          case 'stream_event': {
-            // Real-time text deltas and thinking
-            const event = message.event;
-            if (event?.type === 'content_block_delta') {
-              const delta = event.delta;
-              if (delta?.type === 'text_delta' && delta.text) {
-                finalText += delta.text;
-                if (onStreamEvent) {
-                  onStreamEvent({ type: 'text', text: delta.text });
-                }
-              } else if (delta?.type === 'thinking_delta' && delta.thinking) {
-                if (onStreamEvent) {
-                  onStreamEvent({ type: 'thinking', text: delta.thinking });
-                }
+        case 'stream_event': {
+          // Real-time text deltas and thinking
+          const event = message.event;
+          if (event?.type === 'content_block_delta') {
+            const delta = event.delta;
+            if (delta?.type === 'text_delta' && delta.text) {
+              finalText += delta.text;
+              if (onStreamEvent) {
+                onStreamEvent({ type: 'text', text: delta.text });
+              }
+            } else if (delta?.type === 'thinking_delta' && delta.thinking) {
+              if (onStreamEvent) {
+                onStreamEvent({ type: 'thinking', text: delta.thinking });
               }
             }
-            break;
           }
+          break;
+        }
 
-          case 'result': {
-            // Final result with metrics
-            if (message.result && !finalText) {
-              finalText = message.result;
-            }
+        case 'result': {
+          // Final result with metrics
+          if (message.result && !finalText) {
+            finalText = message.result;
+          }
 
-            // Extract usage metrics from result message
-            const usage = message.usage;
-            if (usage) {
-              tokens = {
-                inputTokens: usage.input_tokens || 0,
-                outputTokens: usage.output_tokens || 0,
-                cacheReadTokens: usage.cache_read_input_tokens || 0,
-                cacheWriteTokens: usage.cache_creation_input_tokens || 0,
-                totalTokens: (usage.input_tokens || 0) + (usage.output_tokens || 0),
-              };
-            }
-            costUsd = message.total_cost_usd;
-            numTurns = message.num_turns;
+          // Extract usage metrics from result message
+          const usage = message.usage;
+          if (usage) {
+            tokens = {
+              inputTokens: usage.input_tokens || 0,
+              outputTokens: usage.output_tokens || 0,
+              cacheReadTokens: usage.cache_read_input_tokens || 0,
+              cacheWriteTokens: usage.cache_creation_input_tokens || 0,
+              totalTokens: (usage.input_tokens || 0) + (usage.output_tokens || 0),
+            };
+          }
+          costUsd = message.total_cost_usd;
+          numTurns = message.num_turns;
 
-            if (onStreamEvent) {
-              onStreamEvent({ type: 'result', text: message.result || finalText });
-            }
-            break;
+          if (onStreamEvent) {
+            onStreamEvent({ type: 'result', text: message.result || finalText });
           }
+          break;
+        }
 
-          case 'error': {
-            // Error from entrypoint
-            if (onStreamEvent) {
-              onStreamEvent({ type: 'error', error: message.message });
-            }
-            break;
+        case 'error': {
+          // Error from entrypoint
+          if (onStreamEvent) {
+            onStreamEvent({ type: 'error', error: message.message });
           }
+          break;
         }
-      } catch {
-        // Not valid JSON, might be partial - ignore
       }
-    };
+    } catch {
+      // Not valid JSON, might be partial - ignore
+    }
+  };
 
-    // Handle stdout - parse SDK JSON messages
-    proc.stdout?.on('data', (data) => {
-      const str = data.toString();
-      stdout += str;
-      if (stream && onOutput) {
-        onOutput('stdout', str);
-      }
-      // Parse JSON lines for SDK messages
-      jsonBuffer += str;
-      const lines = jsonBuffer.split('\n');
-      jsonBuffer = lines.pop() || '';  // Keep incomplete line in buffer
-      for (const line of lines) {
-        parseSDKMessage(line);
-      }
-    });
+  // Handle output - parse SDK JSON messages from stdout
+  const handleOutput = (type: 'stdout' | 'stderr', data: string) => {
+    if (stream && onOutput) {
+      onOutput(type, data);
+    }
+    if (type !== 'stdout') return;
+    stdout += data;
+    // Parse JSON lines for SDK messages
+    jsonBuffer += data;
+    const lines = jsonBuffer.split('\n');
+    jsonBuffer = lines.pop() || '';  // Keep incomplete line in buffer
+    for (const line of lines) {
+      parseSDKMessage(line);
+    }
+  };
 
-    // Handle stderr
-    proc.stderr?.on('data', (data) => {
-      const str = data.toString();
-      stderr += str;
-      if (stream && onOutput) {
-        onOutput('stderr', str);
-      }
+  // Remove the container and workspace if we're interrupted while it runs
+  let workspace: Workspace | undefined;
+  const releaseSignals = destroyOnSignal(manager, () => workspace?.dispose());
+  let sandbox: Sandbox | undefined;
+  try {
+    if (isolateWorkspace) {
+      workspace = createWorkspace(projectRoot);
+      sandboxConfig.workdir = workspace.path;
+    }
+    sandbox = await manager.create(sandboxConfig);
+
+    // Run the SDK entrypoint; the prompt goes through the environment to avoid shell quoting
+    const execResult = await sandbox.exec(`node ${ENTRYPOINT_SCRIPT} "$SNIFF_PROMPT"`, {
+      env: { SNIFF_PROMPT: prompt },
+      timeoutSeconds: sandboxConfig.timeoutSeconds,
+      stream: true,
+      onOutput: handleOutput,
     });
 
-    // Handle timeout
-    if (timeoutMs > 0) {
-      timeoutId = setTimeout(() => {
-        timedOut = true;
-        proc.kill('SIGTERM');
-        setTimeout(() => proc.kill('SIGKILL'), 5000);
-      }, timeoutMs);
+    // Parse any remaining JSON in buffer
+    if (jsonBuffer.trim()) parseSDKMessage(jsonBuffer);
+
+    // Capture what the agent changed, and bring it back to the project if asked to
+    let stderr = execResult.stderr;
+    const changes = workspace?.captureChanges();
+    let changesApplied = false;
+    if (workspace && changes && applyChanges && changes.files.length > 0) {
+      try {
+        workspace.applyChanges();
+        changesApplied = true;
+      } catch (err) {
+        stderr += `\nCould not apply changes to ${projectRoot}: ${(err as Error).message}\n`;
+      }
     }
 
-    // Handle completion
-    proc.on('close', (code) => {
-      if (timeoutId) clearTimeout(timeoutId);
-      // Parse any remaining JSON in buffer
-      if (jsonBuffer.trim()) parseSDKMessage(jsonBuffer);
-      resolve({
-        exitCode: code ?? 1,
-        stdout: finalText || stdout,  // Use parsed text if available
-        stderr,
-        durationMs: Date.now() - startTime,
-        timedOut,
-        model,
-        tokens,
-        costUsd,
-        numTurns,
-        toolCalls,
-      });
-    });
+    return {
+      exitCode: execResult.exitCode,
+      stdout: finalText || stdout,  // Use parsed text if available
+      stderr,
+      durationMs: execResult.durationMs,
+      timedOut: execResult.timedOut,
+      model,
+      tokens,
+      costUsd,
+      numTurns,
+      toolCalls,
+      changes,
+      changesApplied,
+    };
+  } finally {
+    releaseSignals();
+    await sandbox?.destroy();
+    workspace?.dispose();
+  }
+}
 
-    proc.on('error', (err) => {
-      if (timeoutId) clearTimeout(timeoutId);
-      reject(new Error(`Docker process error: ${err.message}`));
-    });
-  });
+/** Signals that tear down the runs in progress */
+const INTERRUPT_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+/** Teardowns of the runs in progress, shared by one set of signal handlers */
+const interruptTeardowns = new Set<() => Promise<void>>();
 
-  return result;
+/**
+ * Tear down every run in progress, then let the signal through
+ */
+function onInterrupt(signal: NodeJS.Signals): void {
+  const teardowns = [...interruptTeardowns];
+  interruptTeardowns.clear();
+  INTERRUPT_SIGNALS.forEach((s) => process.off(s, onInterrupt));
+  void Promise.allSettled(teardowns.map((teardown) => teardown())).finally(() =>
+    process.kill(process.pid, signal)
+  );
 }
 
 /**
- * Build docker run arguments
+ * Destroy a manager's sandboxes (then run `cleanup`) when the process is interrupted,
+ * then let the signal through. Returns a function that unregisters the run; the
+ * handlers are removed once no runs are left.
  */
-function buildDockerArgs(
-  imageName: string,
-  projectRoot: string,
-  env: Record<string, string>,
-  _variant: Variant
-): string[] {
-  const args: string[] = ['run', '--rm'];
-
-  // Run as current user to avoid root (required for --dangerously-skip-permissions)
-  const uid = process.getuid?.() ?? 1000;
-  const gid = process.getgid?.() ?? 1000;
-  args.push('--user', `${uid}:${gid}`);
-
-  // Set HOME to /tmp so Claude Code can write its config/debug files
-  args.push('-e', 'HOME=/tmp');
-
-  // Mount project directory (read-write so agent can make changes)
-  args.push('-v', `${projectRoot}:/workspace`);
-
-  // Pass all resolved environment variables
-  for (const [key, value] of Object.entries(env)) {
-    args.push('-e', `${key}=${value}`);
+function destroyOnSignal(manager: SandboxManager, cleanup: () => void): () => void {
+  const teardown = async () => {
+    try {
+      await manager.destroyAll();
+    } finally {
+      cleanup();
+    }
+  };
+  if (interruptTeardowns.size === 0) {
+    INTERRUPT_SIGNALS.forEach((signal) => process.on(signal, onInterrupt));
   }
-
-  // Enable network access for API calls
-  args.push('--network', 'host');
-
-  // Add image name
-  args.push(imageName);
-
-  return args;
+  interruptTeardowns.add(teardown);
+  return () => {
+    if (interruptTeardowns.delete(teardown) && interruptTeardowns.size === 0) {
+      INTERRUPT_SIGNALS.forEach((signal) => process.off(signal, onInterrupt));
+    }
+  };
 }
 
 /**
- * Run the same prompt on multiple variants in parallel
+ * Run the same prompt on multiple variants in parallel. Each run gets its own
+ * workspace; changes are captured but never applied, since they would conflict.
  */
 export async function runInVariantsParallel(
   variants: Variant[],
@@ -357,7 +423,7 @@ export async function runInVariantsParallel(
   // Run all variants in parallel
   const promises = variants.map(async (variant) => {
     try {
-      const result = await runInVariant(variant, prompt, options);
+      const result = await runInVariant(variant, prompt, { ...options, applyChanges: false });
       results.set(variant.name, result);
     } catch (err) {
       // Create error result
@@ -379,9 +445,5 @@ export async function runInVariantsParallel(
  * Check if Docker is available
  */
 export async function checkDockerAvailable(): Promise<boolean> {
-  return new Promise((resolve) => {
-    const docker = spawn('docker', ['version'], { stdio: 'pipe' });
-    docker.on('close', (code) => resolve(code === 0));
-    docker.on('error', () => resolve(false));
-  });
+  return checkContainerCliAvailable('docker');
 }
@@ -0,0 +1,194 @@
+/**
+ * Disposable workspaces
+ *
+ * Variant runs mount a throwaway snapshot of the project instead of the
+ * project itself, so an agent can't modify the user's repository and
+ * parallel runs don't see each other's edits. A snapshot is either:
+ * - clone: a local git clone at HEAD (objects hardlinked) with the
+ *   uncommitted and untracked files copied over, so git history works
+ *   inside the container; used when the project is the top of a git repo
+ * - copy: a plain recursive copy of the directory otherwise
+ *
+ * (A git worktree would be cheaper, but its `.git` file points into the host
+ * repository, which the container can't see.)
+ *
+ * Changes are tracked from the starting snapshot (see changes.ts) and can be
+ * applied back to the project when the user opts in:
+ *
+ * ```yaml
+ * # .sniffbench/config.yaml
+ * sandbox:
+ *   applyChanges: true
+ * ```
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadProjectConfig } from '../utils/config';
+import { ChangeTracker, runGit, splitNul, trackChanges } from './changes';
+import { ChangeSet } from './types';
+
+export type WorkspaceMode = 'clone' | 'copy';
+
+/**
+ * A disposable snapshot of a directory
+ */
+export interface Workspace {
+  /** Host path of the snapshot (mount this) */
+  path: string;
+  /** Directory the snapshot was taken from */
+  sourceDir: string;
+  mode: WorkspaceMode;
+  /** Changes made in the workspace since it was created */
+  captureChanges(): ChangeSet;
+  /** Apply the changes made in the workspace to the source directory's files */
+  applyChanges(): void;
+  /** Delete the workspace */
+  dispose(): void;
+}
+
+/**
+ * Workspace could not be created or its changes applied
+ */
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+/**
+ * HEAD commit of a directory when it is the top of a git repository with at least one commit
+ */
+function getRepoHead(dir: string): string | undefined {
+  try {
+    const top = runGit(['rev-parse', '--show-toplevel'], { cwd: dir }).trim();
+    if (fs.realpathSync(top) !== fs.realpathSync(dir)) {
+      return undefined;
+    }
+    return runGit(['rev-parse', '--verify', 'HEAD'], { cwd: dir }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Make `relPath` in `target` match `source` (copy, or remove if gone)
+ */
+function syncPath(source: string, target: string, relPath: string): void {
+  const from = path.join(source, relPath);
+  const to = path.join(target, relPath);
+
+  let stat: fs.Stats;
+  try {
+    stat = fs.lstatSync(from);
+  } catch {
+    fs.rmSync(to, { recursive: true, force: true });
+    return;
+  }
+
+  // Submodules show up as directories; their contents aren't part of the snapshot
+  if (stat.isDirectory()) {
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(to), { recursive: true });
+  fs.rmSync(to, { recursive: true, force: true });
+  if (stat.isSymbolicLink()) {
+    fs.symlinkSync(fs.readlinkSync(from), to);
+  } else {
+    fs.copyFileSync(from, to);
+  }
+}
+
+/**
+ * Snapshot a git repository: clone HEAD, then copy over what differs in the working tree
+ */
+function cloneRepo(sourceDir: string, target: string, head: string): void {
+  runGit(['clone', '--quiet', '--no-checkout', '--local', sourceDir, target]);
+  runGit(['checkout', '--quiet', '--detach', head], { cwd: target });
+
+  const changed = [
+    ...splitNul(runGit(['diff', '--name-only', '-z', '--no-renames', 'HEAD'], { cwd: sourceDir })),
+    ...splitNul(runGit(['ls-files', '-z', '--others', '--exclude-standard'], { cwd: sourceDir })),
+  ];
+  for (const relPath of changed) {
+    syncPath(sourceDir, target, relPath);
+  }
+}
+
+/**
+ * Workspace under a temporary directory, with its changes tracked from creation
+ */
+class SnapshotWorkspace implements Workspace {
+  readonly path: string;
+  readonly mode: WorkspaceMode;
+  private root: string;
+  private tracker?: ChangeTracker;
+
+  constructor(readonly sourceDir: string) {
+    this.root = fs.mkdtempSync(path.join(os.tmpdir(), 'sniff-workspace-'));
+    this.path = path.join(this.root, 'workspace');
+
+    try {
+      const head = getRepoHead(sourceDir);
+      if (head) {
+        this.mode = 'clone';
+        cloneRepo(sourceDir, this.path, head);
+      } else {
+        this.mode = 'copy';
+        fs.cpSync(sourceDir, this.path, { recursive: true, verbatimSymlinks: true });
+      }
+      this.tracker = trackChanges(this.path);
+    } catch (err) {
+      this.dispose();
+      throw new WorkspaceError(`Failed to create workspace: ${(err as Error).message}`);
+    }
+  }
+
+  captureChanges(): ChangeSet {
+    return this.getTracker().capture();
+  }
+
+  applyChanges(): void {
+    try {
+      this.getTracker().applyTo(this.sourceDir);
+    } catch (err) {
+      throw new WorkspaceError(`Failed to apply changes: ${(err as Error).message}`);
+    }
+  }
+
+  dispose(): void {
+    this.tracker?.dispose();
+    this.tracker = undefined;
+    fs.rmSync(this.root, { recursive: true, force: true });
+  }
+
+  private getTracker(): ChangeTracker {
+    if (!this.tracker) {
+      throw new WorkspaceError('Workspace has been disposed');
+    }
+    return this.tracker;
+  }
+}
+
+/**
+ * Create a disposable snapshot of a directory
+ */
+export function createWorkspace(sourceDir: string): Workspace {
+  return new SnapshotWorkspace(path.resolve(sourceDir));
+}
+
+/**
+ * Whether variant runs should apply their changes to the project
+ * (`sandbox.applyChanges` in the project config, default: false)
+ */
+export function resolveApplyChanges(projectRoot: string): boolean {
+  const section = loadProjectConfig(projectRoot).sandbox;
+  const value = (section as Record<string, unknown> | undefined)?.applyChanges;
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw new WorkspaceError('sandbox.applyChanges must be true or false');
+  }
+  return value === true;
+}
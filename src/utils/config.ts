@@ -0,0 +1,65 @@
+/**
+ * Project configuration for sniffbench
+ *
+ * Reads `.sniffbench/config.yaml`. Each feature validates its own section.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+
+const CONFIG_FILE_NAMES = ['config.yaml', 'config.yml'];
+const SNIFFBENCH_DIR = '.sniffbench';
+
+/**
+ * Raw project configuration (top-level sections keyed by feature)
+ */
+export type ProjectConfig = Record<string, unknown>;
+
+/**
+ * Unreadable or malformed project configuration
+ */
+export class ProjectConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectConfigError';
+  }
+}
+
+/**
+ * Get the path of the project config file, or null if there is none
+ */
+export function getProjectConfigPath(projectRoot: string = process.cwd()): string | null {
+  for (const name of CONFIG_FILE_NAMES) {
+    const configPath = path.join(projectRoot, SNIFFBENCH_DIR, name);
+    if (fs.existsSync(configPath)) {
+      return configPath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load the project config (empty if there is no config file)
+ */
+export function loadProjectConfig(projectRoot: string = process.cwd()): ProjectConfig {
+  const configPath = getProjectConfigPath(projectRoot);
+  if (!configPath) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = YAML.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (err) {
+    throw new ProjectConfigError(`${configPath}: ${(err as Error).message}`);
+  }
+
+  if (data === null || data === undefined) {
+    return {};
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new ProjectConfigError(`${configPath}: expected a mapping`);
+  }
+  return data as ProjectConfig;
+}
@@ -0,0 +1,197 @@
+/**
+ * Line-based text diffing
+ *
+ * Produces unified diffs for evidence output and a line similarity ratio
+ * for partial credit. Uses an LCS table after trimming the common prefix
+ * and suffix, which is plenty for test output and source files.
+ */
+
+/** Above this many table cells, fall back to treating the middle as replaced */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * A single line-level diff operation
+ */
+export interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+/**
+ * Options for unified diff output
+ */
+export interface UnifiedDiffOptions {
+  /** Label for the original text (default: "expected") */
+  oldLabel?: string;
+
+  /** Label for the new text (default: "actual") */
+  newLabel?: string;
+
+  /** Lines of context around each change (default: 3) */
+  context?: number;
+}
+
+/**
+ * Split text into lines, ignoring a single trailing newline
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Compute line-level diff operations turning `oldLines` into `newLines`
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const ops: DiffOp[] = oldLines.slice(0, start).map((line) => ({ type: 'equal', line }));
+  const oldMid = oldLines.slice(start, oldEnd);
+  const newMid = newLines.slice(start, newEnd);
+
+  if (oldMid.length * newMid.length > MAX_LCS_CELLS) {
+    ops.push(...oldMid.map((line): DiffOp => ({ type: 'delete', line })));
+    ops.push(...newMid.map((line): DiffOp => ({ type: 'insert', line })));
+  } else {
+    ops.push(...lcsDiff(oldMid, newMid));
+  }
+
+  ops.push(...oldLines.slice(oldEnd).map((line): DiffOp => ({ type: 'equal', line })));
+  return ops;
+}
+
+/**
+ * Diff two line arrays with a longest-common-subsequence table
+ */
+function lcsDiff(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', line: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      ops.push({ type: 'delete', line: a[i++] });
+    } else {
+      ops.push({ type: 'insert', line: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'delete', line: a[i++] });
+  while (j < m) ops.push({ type: 'insert', line: b[j++] });
+
+  return ops;
+}
+
+/**
+ * Line similarity between two texts (0.0-1.0)
+ *
+ * Computed as 2 * matching lines / total lines, so identical texts score 1
+ * and texts with no lines in common score 0.
+ */
+export function lineSimilarity(oldText: string, newText: string): number {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const total = oldLines.length + newLines.length;
+  if (total === 0) return 1;
+
+  const equal = diffLines(oldLines, newLines).filter((op) => op.type === 'equal').length;
+  return (2 * equal) / total;
+}
+
+/**
+ * Create a unified diff between two texts
+ *
+ * Returns an empty string when the texts are identical.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {}
+): string {
+  const context = options.context ?? 3;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  if (ops.every((op) => op.type === 'equal')) {
+    return '';
+  }
+
+  const output = [`--- ${options.oldLabel ?? 'expected'}`, `+++ ${options.newLabel ?? 'actual'}`];
+
+  // Line numbers (1-based) of each op in the old and new texts
+  const positions: Array<{ oldLine: number; newLine: number }> = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    positions.push({ oldLine, newLine });
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  }
+
+  let index = 0;
+  while (index < ops.length) {
+    // Find the next change
+    while (index < ops.length && ops[index].type === 'equal') index++;
+    if (index >= ops.length) break;
+
+    // Extend the hunk until a run of unchanged lines longer than 2 * context
+    const hunkStart = Math.max(0, index - context);
+    let hunkEnd = index;
+    let lastChange = index;
+    while (hunkEnd < ops.length) {
+      if (ops[hunkEnd].type !== 'equal') {
+        lastChange = hunkEnd;
+      } else if (hunkEnd - lastChange > 2 * context) {
+        break;
+      }
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.type !== 'insert').length;
+    const newCount = hunk.filter((op) => op.type !== 'delete').length;
+    const oldStart = oldCount > 0 ? positions[hunkStart].oldLine : positions[hunkStart].oldLine - 1;
+    const newStart = newCount > 0 ? positions[hunkStart].newLine : positions[hunkStart].newLine - 1;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+      output.push(prefix + op.line);
+    }
+
+    index = hunkEnd;
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,27 @@
+/**
+ * File reading helpers for workspace inspection
+ */
+
+import * as fs from 'fs';
+
+/** Files larger than this are treated as non-text (generated or vendored content) */
+export const MAX_TEXT_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Read a text file, returning null for missing, binary or oversized files
+ */
+export function readTextFile(filePath: string, maxBytes = MAX_TEXT_FILE_BYTES): string | null {
+  try {
+    const stat = fs.statSync(filePath);
+    if (!stat.isFile() || stat.size > maxBytes) {
+      return null;
+    }
+    const buffer = fs.readFileSync(filePath);
+    if (buffer.includes(0)) {
+      return null;
+    }
+    return buffer.toString('utf-8');
+  } catch {
+    return null;
+  }
+}
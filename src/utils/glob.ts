@@ -0,0 +1,145 @@
+/**
+ * Minimal glob matching for workspace files
+ *
+ * Supports the subset of glob syntax used in rubrics and case files:
+ * `*`, `**`, `?`, `[...]` character classes and `{a,b}` alternation.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Directories never descended into when expanding globs */
+const IGNORED_DIRS = ['node_modules', '.git', '__pycache__', '.venv', 'venv'];
+
+/**
+ * Split a brace body on top-level commas ("a,{b,c},d" -> ["a", "{b,c}", "d"])
+ */
+function splitBraceAlternatives(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of body) {
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    current += char;
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Convert a glob pattern to a regular expression source (without anchors)
+ */
+function globToRegExpSource(glob: string): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          // "**/" matches zero or more directories
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      // Find the matching closing brace
+      let depth = 1;
+      let end = i + 1;
+      while (end < glob.length && depth > 0) {
+        if (glob[end] === '{') depth++;
+        if (glob[end] === '}') depth--;
+        end++;
+      }
+      if (depth !== 0) {
+        source += '\\{';
+        continue;
+      }
+      const alternatives = splitBraceAlternatives(glob.substring(i + 1, end - 1));
+      source += `(?:${alternatives.map(globToRegExpSource).join('|')})`;
+      i = end - 1;
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      let body = glob.substring(i + 1, end);
+      if (body.startsWith('!')) {
+        body = '^' + body.substring(1);
+      }
+      source += `[${body.replace(/\\/g, '\\\\')}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|\\/]/g, '\\$&');
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  const normalized = glob.replace(/^\.\//, '');
+  return new RegExp(`^${globToRegExpSource(normalized)}$`);
+}
+
+/**
+ * Check whether a relative path (forward slashes) matches a glob pattern
+ */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  return globToRegExp(glob).test(relativePath);
+}
+
+/**
+ * Expand a glob pattern against a directory
+ *
+ * Returns matching file paths relative to `rootDir`, using forward slashes,
+ * sorted alphabetically. Dependency and VCS directories are skipped.
+ */
+export function expandGlob(rootDir: string, glob: string): string[] {
+  const regex = globToRegExp(glob);
+  const matches: string[] = [];
+
+  const walk = (dir: string, relativeDir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.includes(entry.name)) {
+          walk(path.join(dir, entry.name), relativePath);
+        }
+      } else if (entry.isFile() && regex.test(relativePath)) {
+        matches.push(relativePath);
+      }
+    }
+  };
+
+  walk(rootDir, '');
+  return matches.sort();
+}
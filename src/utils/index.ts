@@ -4,3 +4,7 @@
 
 export * from './ui';
 export * from './env';
+export * from './glob';
+export * from './diff';
+export * from './files';
+export * from './config';
@@ -18,6 +18,7 @@ import {
   getRunCount,
   resolveRunId,
   diffAgentConfig,
+  applyRunSettings,
 } from '../src/runs';
 import type { Run, RunStore, AgentConfig } from '../src/runs';
 
@@ -397,5 +398,45 @@ describe('Agent Config', () => {
         new: 'enabled',
       });
     });
+
+    it('should detect run limit changes', () => {
+      const config1: AgentConfig = { name: 'claude-code', version: null, model: 'unknown' };
+      const config2: AgentConfig = { ...config1, maxBudgetUsd: 0.5, maxTurns: 20 };
+
+      expect(diffAgentConfig(config1, config2)).toContainEqual({
+        field: 'Limits',
+        old: 'none',
+        new: '$0.5, 20 turns',
+      });
+    });
+  });
+
+  describe('applyRunSettings', () => {
+    it('should record run settings over ambient config', () => {
+      const config: AgentConfig = {
+        name: 'claude-code',
+        version: '2.0.0',
+        model: 'unknown',
+        allowedTools: ['Bash'],
+        permissionMode: 'default',
+      };
+
+      const applied = applyRunSettings(config, {
+        model: 'claude-sonnet-4-5',
+        maxTokens: 10000,
+        allowedTools: ['Read'],
+        permissionMode: 'plan',
+      });
+
+      expect(applied).toMatchObject({
+        model: 'claude-sonnet-4-5',
+        maxTokens: 10000,
+        allowedTools: ['Read'],
+        permissionMode: 'plan',
+      });
+      expect(applyRunSettings({ ...config, model: 'reported' }, { model: 'asked' }).model).toBe(
+        'reported'
+      );
+    });
   });
 });
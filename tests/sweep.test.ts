@@ -0,0 +1,96 @@
+/**
+ * Tests for model sweeps
+ */
+
+import {
+  buildSweepMatrix,
+  defaultBehaviorMetrics,
+  findRunsBySweep,
+  formatSweepMatrix,
+  generateSweepId,
+} from '../src/runs';
+import type { CaseRun, Run, RunStore } from '../src/runs';
+
+function caseRun(grade: number, totalTokens: number, costUsd: number, durationMs: number): CaseRun {
+  return {
+    answer: 'answer',
+    grade,
+    behaviorMetrics: { ...defaultBehaviorMetrics(), totalTokens, costUsd },
+    durationMs,
+  };
+}
+
+function sweepRun(
+  id: string,
+  model: string,
+  createdAt: string,
+  cases: Record<string, CaseRun>
+): Run {
+  return {
+    id,
+    createdAt,
+    agent: { name: 'claude-code', version: '2.0.55', model: `${model}-20250101` },
+    sweep: { id: 'sweep-1', model },
+    cases,
+  };
+}
+
+describe('Model sweeps', () => {
+  const haiku = sweepRun('run-a', 'haiku', '2025-01-01T00:00:00Z', {
+    'comp-001': caseRun(6, 12000, 0.01, 20000),
+    'comp-002': caseRun(8, 800, 0.002, 5000),
+  });
+  const sonnet = sweepRun('run-b', 'sonnet', '2025-01-01T01:00:00Z', {
+    'comp-001': caseRun(9, 15000, 0.05, 30000),
+  });
+
+  it('should generate sweep IDs', () => {
+    expect(generateSweepId()).toMatch(/^sweep-\d+-[a-z0-9]+$/);
+  });
+
+  it('should find the runs of a sweep in the order they ran', () => {
+    const store: RunStore = {
+      version: '2.0',
+      repoPath: '/repo',
+      createdAt: '2025-01-01T00:00:00Z',
+      runs: {
+        'run-b': sonnet,
+        'run-x': { ...haiku, id: 'run-x', sweep: undefined },
+        'run-a': haiku,
+      },
+    };
+
+    expect(findRunsBySweep(store, 'sweep-1').map((r) => r.id)).toEqual(['run-a', 'run-b']);
+  });
+
+  it('should arrange results by case and requested model', () => {
+    const matrix = buildSweepMatrix([haiku, sonnet]);
+
+    expect(matrix.models).toEqual(['haiku', 'sonnet']);
+    expect(matrix.caseIds).toEqual(['comp-001', 'comp-002']);
+    expect(matrix.cells['comp-001'].sonnet).toEqual({
+      grade: 9,
+      tokens: 15000,
+      costUsd: 0.05,
+      durationMs: 30000,
+    });
+    expect(matrix.cells['comp-002'].sonnet).toBeUndefined();
+    expect(matrix.totals.haiku).toEqual({
+      meanGrade: 7,
+      tokens: 12800,
+      costUsd: 0.012,
+      durationMs: 25000,
+    });
+  });
+
+  it('should format the matrix with one column per model', () => {
+    const lines = formatSweepMatrix(buildSweepMatrix([haiku, sonnet])).split('\n');
+
+    expect(lines[0]).toMatch(/^Case\s+haiku\s+sonnet/);
+    expect(lines[2]).toContain('6/10');
+    expect(lines[2]).toContain('12.0k');
+    expect(lines[2]).toContain('$0.050');
+    expect(lines[3]).toContain('(not run)');
+    expect(lines[4]).toMatch(/^Total\s+7\/10/);
+  });
+});
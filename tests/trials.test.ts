@@ -0,0 +1,70 @@
+/**
+ * Tests for trial statistics
+ */
+
+import { passAtK, computeTrialStats, formatTrialStats } from '../src/metrics/trials';
+
+describe('passAtK', () => {
+  it('should be 0 when no trial passed', () => {
+    expect(passAtK(5, 0, 3)).toBe(0);
+  });
+
+  it('should be 1 when every draw must include a pass', () => {
+    expect(passAtK(5, 4, 2)).toBe(1);
+    expect(passAtK(3, 3, 1)).toBe(1);
+  });
+
+  it('should equal the pass rate for k = 1', () => {
+    expect(passAtK(4, 1, 1)).toBeCloseTo(0.25);
+  });
+
+  it('should match 1 - C(n-c, k) / C(n, k)', () => {
+    // n=5, c=2, k=2: 1 - C(3,2)/C(5,2) = 1 - 3/10
+    expect(passAtK(5, 2, 2)).toBeCloseTo(0.7);
+  });
+});
+
+describe('computeTrialStats', () => {
+  it('should compute mean, sample stddev, min and max', () => {
+    const stats = computeTrialStats([0.5, 1, 0], [true, true, false]);
+
+    expect(stats.trials).toBe(3);
+    expect(stats.mean).toBe(0.5);
+    expect(stats.stddev).toBe(0.5);
+    expect(stats.min).toBe(0);
+    expect(stats.max).toBe(1);
+    expect(stats.passes).toBe(2);
+    expect(stats.passAt1).toBe(0.6667);
+    expect(stats.k).toBe(3);
+    expect(stats.passAtK).toBe(1);
+  });
+
+  it('should clamp k to the number of trials', () => {
+    const stats = computeTrialStats([1, 0], [true, false], 5);
+    expect(stats.k).toBe(2);
+  });
+
+  it('should report zero spread for a single trial', () => {
+    const stats = computeTrialStats([0.8], [true]);
+    expect(stats.stddev).toBe(0);
+    expect(stats.passAtK).toBe(1);
+  });
+
+  it('should handle no trials', () => {
+    expect(computeTrialStats([], []).trials).toBe(0);
+  });
+});
+
+describe('formatTrialStats', () => {
+  it('should scale values for display', () => {
+    const stats = computeTrialStats([0.6, 0.8], [false, true], 1);
+    expect(formatTrialStats(stats, 10, 1)).toBe('mean 7.0 ± 1.4 (min 6.0, max 8.0), pass@1 0.50');
+  });
+
+  it('should show pass@1 next to pass@k', () => {
+    const stats = computeTrialStats([1, 0, 0], [true, false, false]);
+    expect(formatTrialStats(stats)).toBe(
+      'mean 0.33 ± 0.58 (min 0.00, max 1.00), pass@1 0.33, pass@3 1.00'
+    );
+  });
+});